@@ -15,37 +15,46 @@
  *   list <source>     List plugins in a marketplace (org/repo or URL)
  *   all               Convert all Claude Code assets
  *   init              Initialize a new OpenCode plugin for skills
+ *   lint [path]       Validate Claude Code assets and report problems
+ *   export            Convert OpenCode agents, commands and MCP servers to Claude Code
+ *   prune             Remove generated files whose Claude Code source was deleted
+ *   watch             Reconvert Claude Code assets as they change
  *
  * Options:
  *   -o, --output-dir <path>  Output directory (default: .opencode)
  *   -p, --prefix <prefix>    File prefix (default: claude_)
  *   -v, --verbose            Enable verbose output
  *   --dry-run                Show what would be done without writing files
+ *   --diff                   Show a unified diff of what would change (implies --dry-run)
  *   --no-user                Don't load user-level assets from ~/.claude
+ *   --format <text|json>     Output format for lint (default: text)
+ *   --prune                  Remove orphaned outputs after all/plugin
+ *   --map-model <alias=path> Map a Claude model alias to an OpenCode model (repeatable)
+ *   --map-tool <Name=a,b>    Map a Claude tool name to OpenCode tools (repeatable)
+ *   --trust                  Run a remote plugin's crosstrainer.js/ts (remembered per commit)
+ *   --namespace-separator <s> Join subdirectories to command/agent names with <s> (default: _)
+ *   --output-format <files|config> Write agents and commands as files or into opencode.json (default: files)
  *   -h, --help               Show help
  *   --version                Show version
  */
 
-import { join, dirname, basename, resolve, extname } from "path"
+import { join, dirname, basename, resolve, relative, extname } from "path"
 import { existsSync } from "fs"
-import { mkdir, writeFile, readFile, rm } from "fs/promises"
-import { tmpdir } from "os"
-import { execSync } from "child_process"
+import { mkdir, writeFile, readFile } from "fs/promises"
 import {
-  discoverSkills,
   convertSkillToTool,
   createToolsFromSkills,
 } from "./src/loaders/skills"
 import {
-  discoverAgents,
   generateOpenCodeAgent,
-  writeOpenCodeAgents,
   syncAgentsToOpenCode,
 } from "./src/loaders/agents"
 import {
-  discoverCommands,
+  generateCommandToolsAgent,
   generateOpenCodeCommand,
-  writeOpenCodeCommands,
+  getCommandRouting,
+  getCommandToolsAgentName,
+  parseArgumentHint,
   syncCommandsToOpenCode,
 } from "./src/loaders/commands"
 import {
@@ -58,6 +67,8 @@ import {
   convertMCPServers,
   syncMCPToOpenCode,
   getAllMCPServers,
+  generateMergedMCPConfig,
+  getOpenCodeMCPConfigPath,
   getMCPSummary,
 } from "./src/loaders/mcp"
 import {
@@ -69,25 +80,44 @@ import {
   clearGitMarketplaceCache,
 } from "./src/loaders/marketplace"
 import {
-  discoverClaudeSettings,
-  convertClaudeSettingsToOpenCode,
-  loadOpenCodeConfig,
-  writeOpenCodeConfig,
-  mergeOpenCodeConfigs,
   formatSettingsForDisplay,
+  generateMergedOpenCodeConfig,
+  getOpenCodeConfigPath,
+  toOpenCodeConfigEntry,
 } from "./src/loaders/settings-converter"
+import { loadConfig, createConversionOptions } from "./src/utils/config"
 import {
-  loadCrosstrainerConfig,
-  shouldIncludeAsset,
-  applyModelMapping,
-  applyToolMapping,
-  getEffectivePrefix,
-  getEffectivePluginName,
-  mergeWithDefaults,
-  type CrosstrainerConfig,
-  type ConversionContext,
-  type LoadedCrosstrainerConfig,
-} from "./src/loaders/crosstrainer-config"
+  convertProject,
+  convertPlugin,
+  convertSettings,
+  countHookMatchers,
+  generateSkillPluginTool,
+  generateSkillsPlugin,
+  CROSSTRAIN_VERSION,
+  type AssetKind,
+  type ConvertedAsset,
+  type ConversionResult,
+  type ConversionWarning,
+  type ConvertProjectOptions,
+  type OutputFormat,
+  type PluginConversionResult,
+  type ProjectCategory,
+} from "./src/loaders/convert"
+import { lintClaudeAssets } from "./src/loaders/lint"
+import { exportOpenCodeToClaude } from "./src/loaders/export"
+import {
+  loadLockfile,
+  writeLockfile,
+  formatConversionSummary,
+  getLockfilePath,
+} from "./src/utils/lockfile"
+import { findOrphanedEntries, pruneEntries, type PruneResult } from "./src/utils/prune"
+import { formatDiagnostic } from "./src/utils/diagnostics"
+import { createWatcher, hasClaudeCodeAssets } from "./src/utils/watcher"
+import { createUnifiedDiff, colorizeDiff } from "./src/utils/diff"
+import { cloneRepo, isRemoteSource, parseRemoteSource } from "./src/utils/git"
+import { UntrustedConfigError } from "./src/utils/trust"
+import { DEFAULT_NAMESPACE_SEPARATOR, findAssetRoot, getNamespacedName, type NameCollisionPolicy } from "./src/utils/naming"
 import {
   parseMarkdownWithFrontmatter,
   readTextFile,
@@ -101,20 +131,40 @@ import type {
   ClaudeAgentFrontmatter,
   ClaudeCommand,
   ClaudeCommandFrontmatter,
+  ConversionOptions,
   ParsedPlugin,
 } from "./src/types"
 
-// Version from package.json
-const VERSION = "0.0.4"
+// Version recorded in crosstrain.lock.json
+const VERSION = CROSSTRAIN_VERSION
 
 interface CLIOptions {
   outputDir: string
   prefix: string
   verbose: boolean
   dryRun: boolean
+  diff: boolean
   loadUserAssets: boolean
   claudeDir: string
   homeDir: string
+  format: "text" | "json"
+  prune: boolean
+  /** Model mappings from --map-model */
+  modelMappings: Record<string, string>
+  /** Tool mappings from --map-tool */
+  toolMappings: Record<string, string | string[]>
+  /** Run remote crosstrainer.js/ts configs (--trust) */
+  trust: boolean
+  /** Remote sources allowed to run crosstrainer.js/ts, from the plugin settings */
+  trustedSources: string[]
+  /** Separator for commands and agents in subdirectories (--namespace-separator) */
+  namespaceSeparator: string
+  /** Rename or fail on colliding command and agent names, from the plugin settings */
+  onNameCollision: NameCollisionPolicy
+  /** Write agents and commands as files or into opencode.json (--output-format) */
+  outputFormat: OutputFormat
+  /** Prefix and mappings from the plugin settings and flags */
+  conversion: ConversionOptions
 }
 
 const DEFAULT_OPTIONS: CLIOptions = {
@@ -122,9 +172,20 @@ const DEFAULT_OPTIONS: CLIOptions = {
   prefix: "claude_",
   verbose: false,
   dryRun: false,
+  diff: false,
   loadUserAssets: true,
   claudeDir: ".claude",
   homeDir: process.env.HOME || "",
+  format: "text",
+  prune: false,
+  modelMappings: {},
+  toolMappings: {},
+  trust: false,
+  trustedSources: [],
+  namespaceSeparator: DEFAULT_NAMESPACE_SEPARATOR,
+  onNameCollision: "rename",
+  outputFormat: "files",
+  conversion: createConversionOptions(),
 }
 
 // ANSI color helpers
@@ -164,6 +225,18 @@ function heading(message: string): void {
   console.log(`\n${colors.bold}${colors.cyan}${message}${colors.reset}`)
 }
 
+/**
+ * Print a unified diff between a file on disk and the content that would be
+ * written: coloured on a TTY, plain patch format otherwise
+ */
+async function printDiff(filePath: string, content: string): Promise<void> {
+  const existing = existsSync(filePath) ? await readTextFile(filePath) : null
+  const patch = createUnifiedDiff(existing, content, { path: relative(process.cwd(), resolve(filePath)) })
+  if (patch) {
+    process.stdout.write(process.stdout.isTTY ? colorizeDiff(patch) : patch)
+  }
+}
+
 function printHelp(): void {
   console.log(`
 ${colors.bold}crosstrain${colors.reset} - Convert Claude Code assets to OpenCode format
@@ -183,13 +256,25 @@ ${colors.bold}COMMANDS:${colors.reset}
   ${colors.cyan}sync${colors.reset}              Alias for 'all'
   ${colors.cyan}init${colors.reset}              Initialize a new OpenCode plugin for skills
   ${colors.cyan}settings${colors.reset}          Import Claude Code settings to OpenCode config
+  ${colors.cyan}lint${colors.reset} [path]       Validate Claude Code assets and report problems
+  ${colors.cyan}export${colors.reset}            Convert OpenCode assets back to Claude Code
+  ${colors.cyan}prune${colors.reset}             Remove generated files whose Claude Code source was deleted
+  ${colors.cyan}watch${colors.reset}             Reconvert Claude Code assets as they change
 
 ${colors.bold}OPTIONS:${colors.reset}
   -o, --output-dir <path>  Output directory (default: .opencode)
   -p, --prefix <prefix>    File prefix for generated files (default: claude_)
   -v, --verbose            Enable verbose output
   --dry-run                Show what would be done without writing files
+  --diff                   Show a unified diff of what would change (implies --dry-run)
   --no-user                Don't load user-level assets from ~/.claude
+  --format <text|json>     Output format for lint (default: text)
+  --prune                  Remove orphaned outputs after all/plugin
+  --map-model <alias=path> Map a Claude model alias to an OpenCode model (repeatable)
+  --map-tool <Name=a,b>    Map a Claude tool name to OpenCode tools (repeatable)
+  --trust                  Run a remote plugin's crosstrainer.js/ts (remembered per commit)
+  --namespace-separator <s> Join subdirectories to command/agent names with <s> (default: _)
+  --output-format <files|config> Write agents and commands as files or into opencode.json (default: files)
   -h, --help               Show this help message
   --version                Show version
 
@@ -212,11 +297,38 @@ ${colors.bold}EXAMPLES:${colors.reset}
   # Convert all assets with dry-run
   crosstrain all --dry-run
 
+  # Review how a plugin upgrade changes the generated files
+  crosstrain plugin org/repo/plugin@v2.0.0 --diff
+
+  # Run a remote plugin's crosstrainer.js after reviewing it
+  crosstrain plugin org/repo/plugin --trust
+
   # Convert to custom output directory
   crosstrain all -o ./my-opencode-dir
 
   # Initialize a plugin for skills
   crosstrain init
+
+  # Validate assets before converting (exits non-zero on errors)
+  crosstrain lint --format json
+
+  # Export OpenCode agents, commands and MCP servers to .claude/
+  crosstrain export --dry-run
+
+  # Convert and remove outputs of deleted sources
+  crosstrain all --prune
+
+  # Keep .opencode/ in sync while editing .claude/
+  crosstrain watch
+
+  # Convert agents that use opus to a Bedrock model
+  crosstrain all --map-model opus=amazon-bedrock/anthropic.claude-opus-4
+
+Prefix and mappings default to .opencode/plugin/crosstrain/settings.json
+(filePrefix, modelMappings, toolMappings, namespaceSeparator, outputFormat); flags take
+precedence. With onNameCollision: "error" there, colliding command or agent
+names stop the conversion instead of being renamed. Remote
+plugins listed in its trustedSources may run crosstrainer.js/ts without --trust.
 `)
 }
 
@@ -258,11 +370,70 @@ function parseArgs(args: string[]): { command: string; path?: string; options: P
       continue
     }
 
+    if (arg === "--diff") {
+      options.diff = true
+      options.dryRun = true
+      continue
+    }
+
     if (arg === "--no-user") {
       options.loadUserAssets = false
       continue
     }
 
+    if (arg === "--prune") {
+      options.prune = true
+      continue
+    }
+
+    if (arg === "--trust") {
+      options.trust = true
+      continue
+    }
+
+    if (arg === "--namespace-separator") {
+      options.namespaceSeparator = args[++i]
+      continue
+    }
+
+    if (arg === "--map-model" || arg === "--map-tool") {
+      const value = args[++i] ?? ""
+      const separator = value.indexOf("=")
+      if (separator <= 0) {
+        error(`Invalid mapping for ${arg}: ${value} (expected name=value)`)
+        process.exit(1)
+      }
+      const name = value.slice(0, separator)
+      const target = value.slice(separator + 1)
+      if (arg === "--map-model") {
+        options.modelMappings = { ...options.modelMappings, [name]: target }
+      } else {
+        // Comma-separated for several OpenCode tools, empty for none
+        options.toolMappings = { ...options.toolMappings, [name]: target.split(",").filter(Boolean) }
+      }
+      continue
+    }
+
+    if (arg === "--output-format") {
+      const format = args[++i]
+      if (format !== "files" && format !== "config") {
+        error(`Invalid output format: ${format} (expected files or config)`)
+        process.exit(1)
+      }
+      options.outputFormat = format
+      continue
+    }
+
+    if (arg === "--format") {
+      const format = args[++i]
+      if (format !== "text" && format !== "json") {
+        error(`Invalid format: ${format} (expected text or json)`)
+        process.exit(1)
+      }
+      options.format = format
+      continue
+    }
+
     // First non-option argument is the command
     if (!command && !arg.startsWith("-")) {
       command = arg
@@ -318,7 +489,7 @@ async function loadSingleSkill(skillPath: string): Promise<ClaudeSkill | null> {
 /**
  * Load a single agent from a path
  */
-async function loadSingleAgent(agentPath: string): Promise<ClaudeAgent | null> {
+async function loadSingleAgent(agentPath: string, opts: CLIOptions): Promise<ClaudeAgent | null> {
   const resolvedPath = resolve(agentPath)
 
   if (!existsSync(resolvedPath)) {
@@ -328,11 +499,14 @@ async function loadSingleAgent(agentPath: string): Promise<ClaudeAgent | null> {
   const content = await readTextFile(resolvedPath)
   const parsed = parseMarkdownWithFrontmatter<ClaudeAgentFrontmatter>(content)
 
-  const name = parsed.frontmatter.name || extractNameFromPath(resolvedPath)
+  // Agents in subdirectories are namespaced as in `crosstrain all`
+  const agentsDir = findAssetRoot(resolvedPath, "agents")
+  const baseName = parsed.frontmatter.name || extractNameFromPath(resolvedPath)
+  const name = agentsDir ? getNamespacedName(baseName, resolvedPath, agentsDir, opts.namespaceSeparator) : baseName
 
   return {
     name,
-    description: parsed.frontmatter.description || `Claude Code agent: ${name}`,
+    description: parsed.frontmatter.description || `Claude Code agent: ${baseName}`,
     tools: parseCommaSeparated(parsed.frontmatter.tools),
     model: parsed.frontmatter.model,
     permissionMode: parsed.frontmatter.permissionMode,
@@ -345,7 +519,7 @@ async function loadSingleAgent(agentPath: string): Promise<ClaudeAgent | null> {
 /**
  * Load a single command from a path
  */
-async function loadSingleCommand(commandPath: string): Promise<ClaudeCommand | null> {
+async function loadSingleCommand(commandPath: string, opts: CLIOptions): Promise<ClaudeCommand | null> {
   const resolvedPath = resolve(commandPath)
 
   if (!existsSync(resolvedPath)) {
@@ -355,83 +529,204 @@ async function loadSingleCommand(commandPath: string): Promise<ClaudeCommand | n
   const content = await readTextFile(resolvedPath)
   const parsed = parseMarkdownWithFrontmatter<ClaudeCommandFrontmatter>(content)
 
-  const name = extractNameFromPath(resolvedPath)
+  // Commands in subdirectories are namespaced as in `crosstrain all`
+  const commandsDir = findAssetRoot(resolvedPath, "commands")
+  const baseName = extractNameFromPath(resolvedPath)
 
   return {
-    name,
+    name: commandsDir ? getNamespacedName(baseName, resolvedPath, commandsDir, opts.namespaceSeparator) : baseName,
+    invocation: commandsDir ? getNamespacedName(baseName, resolvedPath, commandsDir, ":") : baseName,
     description: parsed.frontmatter.description,
+    allowedTools: parseCommaSeparated(parsed.frontmatter["allowed-tools"]),
+    argumentHint: parseArgumentHint(parsed.frontmatter["argument-hint"]),
+    model: parsed.frontmatter.model,
+    disableModelInvocation: parsed.frontmatter["disable-model-invocation"],
     template: parsed.content,
     filePath: resolvedPath,
   }
 }
 
 /**
- * Generate a plugin tool wrapper for a skill
+ * Report assets skipped because they are unchanged
  */
-function generateSkillPluginTool(skill: ClaudeSkill): string {
-  const toolName = `skill_${skill.name.toLowerCase().replace(/-/g, "_")}`
+function logUnchanged(assets: { name: string }[], opts: CLIOptions): void {
+  if (assets.length === 0) return
+  if (opts.verbose) {
+    for (const asset of assets) {
+      log(`  ${colors.dim}Unchanged: ${asset.name}${colors.reset}`)
+    }
+  } else {
+    log(`  ${colors.dim}${assets.length} unchanged${colors.reset}`)
+  }
+}
 
-  return `import { tool, toolSchema } from "@opencode-ai/plugin"
+/**
+ * Convert options for the project from CLI options
+ */
+function projectConvertOptions(opts: CLIOptions): ConvertProjectOptions {
+  return {
+    claudeDir: opts.claudeDir,
+    outputDir: opts.outputDir,
+    homeDir: opts.loadUserAssets ? opts.homeDir : "",
+    prefix: opts.prefix,
+    modelMappings: opts.conversion.modelMappings,
+    toolMappings: opts.conversion.toolMappings,
+    namespaceSeparator: opts.namespaceSeparator,
+    onNameCollision: opts.onNameCollision,
+    outputFormat: opts.outputFormat,
+    dryRun: opts.dryRun,
+    prune: opts.prune,
+    verbose: opts.verbose,
+  }
+}
 
 /**
- * ${skill.description}
- *
- * Source: ${skill.filePath}
+ * Short description of where an asset was converted to
+ */
+function describeOutput(asset: ConvertedAsset): string {
+  const [output] = asset.outputs
+  if (asset.kind === "mcp") return output.slice(output.indexOf("#mcp.") + 5)
+  if (asset.kind === "skill") return `tools/${basename(output)}`
+  return basename(output)
+}
+
+/**
+ * Report the assets of one kind from a conversion result: diffs with --diff,
+ * planned conversions in dry-run mode, a count otherwise
  */
-export const ${toolName} = tool({
-  description: ${JSON.stringify(skill.description)},
-  args: {
-    query: toolSchema.string().optional().describe("Optional specific question or task for this skill"),
-  },
-  async execute(args: { query?: string }, ctx) {
-    let response = \`## Skill: ${skill.name}\\n\\n\`
-    response += \`### Instructions\\n\\n${skill.content.replace(/`/g, "\\`").replace(/\$/g, "\\$")}\\n\\n\`
-
-    if (args.query) {
-      response += \`### Query: \${args.query}\\n\\n\`
+async function reportAssets(
+  result: ConversionResult,
+  kind: AssetKind,
+  title: string,
+  convertedMessage: (count: number) => string,
+  opts: CLIOptions
+): Promise<void> {
+  log(`\n${colors.bold}${title}${colors.reset}`)
+  if (result.found[kind] === 0) {
+    log(`  No ${title.toLowerCase()} found`)
+    return
+  }
+
+  const assets = result.assets.filter((asset) => asset.kind === kind)
+  if (opts.diff) {
+    for (const output of result.outputs.filter((output) => output.kind === kind)) {
+      await printDiff(output.path, output.content)
+    }
+  } else if (opts.dryRun) {
+    for (const asset of assets) {
+      info(`Would convert: ${asset.name} → ${describeOutput(asset)}`)
     }
+  } else if (assets.length > 0) {
+    success(convertedMessage(assets.length))
+  }
 
-    return response
-  },
-})
-`
+  const skipped = result.skipped.filter((skip) => skip.kind === kind)
+  logUnchanged(skipped.filter((skip) => skip.reason === "unchanged"), opts)
+  if (opts.verbose) {
+    for (const decision of result.filtered.filter((decision) => decision.kind === kind)) {
+      log(`  ${colors.dim}${decision.included ? "Included" : "Excluded"}: ${decision.name} (${decision.reason})${colors.reset}`)
+    }
+    if (kind === "command") {
+      for (const routing of result.routing) {
+        log(`  ${colors.dim}Routed: ${routing.name} → ${routing.agent}${routing.subtask ? " (subtask)" : ""}: ${routing.reason}${colors.reset}`)
+      }
+    }
+  }
 }
 
 /**
- * Generate a complete plugin entry point for skills
+ * Print a conversion warning with the file or setting it is about
  */
-function generateSkillsPlugin(skills: ClaudeSkill[]): string {
-  const toolImports: string[] = []
-  const toolExports: string[] = []
+function warnAbout(warning: ConversionWarning): void {
+  warn(`${relative(process.cwd(), warning.source) || "."}: ${warning.message}`)
+}
 
-  for (const skill of skills) {
-    const toolName = `skill_${skill.name.toLowerCase().replace(/-/g, "_")}`
-    toolImports.push(`import { ${toolName} } from "./tools/${toolName}"`)
-    toolExports.push(`    ${toolName},`)
+/**
+ * Report every category of a project or plugin conversion, then its
+ * warnings and summary
+ */
+async function reportConversion(result: ConversionResult, opts: CLIOptions, from: string = ""): Promise<void> {
+  if (result.aborted) {
+    log("")
+    for (const warning of result.warnings) {
+      warnAbout(warning)
+    }
+    return
   }
 
-  return `/**
- * Crosstrain Skills Plugin
- *
- * Auto-generated OpenCode plugin that exposes Claude Code skills as tools.
- *
- * Generated by: crosstrain CLI
- * Generated at: ${new Date().toISOString()}
+  await reportAssets(result, "command", "Commands", (n) => `Converted ${n} command(s)`, opts)
+  await reportAssets(result, "agent", "Agents", (n) => `Converted ${n} agent(s)`, opts)
+  await reportAssets(result, "skill", "Skills", (n) => `Converted ${n} skill(s) to plugin at ${result.skillPluginDir}`, opts)
+  await reportAssets(result, "mcp", "MCP Servers", (n) => `Synced ${n} MCP server(s)`, opts)
+
+  log(`\n${colors.bold}Hooks${colors.reset}`)
+  if (result.hookMatchers === 0) {
+    log("  No hooks found")
+  } else {
+    info(`Found ${result.hookMatchers} hook matcher(s) - converted at runtime by plugin`)
+  }
+
+  if (result.warnings.length > 0) {
+    log("")
+    for (const warning of result.warnings) {
+      warnAbout(warning)
+    }
+  }
+
+  heading("Summary")
+  if (opts.dryRun) {
+    info(`Would convert ${result.assets.length} asset(s)${from}`)
+  } else {
+    success(`Converted ${result.assets.length} asset(s)${from}`)
+  }
+  await logConversionSummary(result, opts)
+
+  if (!opts.dryRun && result.skillPluginDir) {
+    log("")
+    info("To use skills in OpenCode, add to opencode.json:")
+    log(`  "plugins": ["${result.skillPluginDir}"]`)
+  }
+}
+
+/**
+ * Report unchanged / updated / removed counts from the lockfile, and what
+ * happened to the outputs of removed sources
  */
+async function logConversionSummary(result: ConversionResult, opts: CLIOptions): Promise<void> {
+  info(formatConversionSummary(result.summary))
 
-import type { Plugin, PluginContext } from "@opencode-ai/plugin"
-${toolImports.join("\n")}
+  if (result.superseded) {
+    reportPrune(result.superseded, opts)
+  }
 
-export const CrosstrainSkillsPlugin: Plugin = async (ctx: PluginContext) => {
-  return {
-    tool: {
-${toolExports.join("\n")}
-    },
+  if (result.pruned) {
+    reportPrune(result.pruned, opts)
+    return
+  }
+
+  if (result.removed.length > 0) {
+    warn(`${result.removed.length} source(s) no longer exist; their outputs were left in place:`)
+    for (const entry of result.removed) {
+      log(`  - ${entry.source}`)
+    }
+    log("  Run with --prune to remove them")
   }
 }
 
-export default CrosstrainSkillsPlugin
-`
+/**
+ * Report removed and kept outputs of a prune
+ */
+function reportPrune(result: PruneResult, opts: CLIOptions): void {
+  for (const output of result.removed) {
+    if (opts.dryRun) {
+      info(`Would remove: ${output}`)
+    } else {
+      success(`Removed: ${output}`)
+    }
+  }
+  for (const { output, reason } of result.kept) {
+    warn(`Kept ${output}: ${reason}`)
+  }
 }
 
 // ========================================
@@ -447,7 +742,7 @@ async function handleCommand(path: string | undefined, opts: CLIOptions): Promis
 
   heading("Converting Command")
 
-  const command = await loadSingleCommand(path)
+  const command = await loadSingleCommand(path, opts)
   if (!command) {
     error(`Command not found at: ${path}`)
     process.exit(1)
@@ -455,23 +750,22 @@ async function handleCommand(path: string | undefined, opts: CLIOptions): Promis
 
   info(`Found command: ${command.name}`)
   if (opts.verbose) {
+    const routing = getCommandRouting(command, opts.conversion)
     log(`  Description: ${command.description || "(none)"}`)
     log(`  Source: ${command.filePath}`)
+    log(`  Agent: ${routing.agent}${routing.subtask ? " (subtask)" : ""}: ${routing.reason}`)
   }
 
-  const outputContent = generateOpenCodeCommand(command)
-  const outputPath = join(opts.outputDir, "command", `${opts.prefix}${command.name}.md`)
+  const warnings: string[] = []
+  const outputContent = generateOpenCodeCommand(command, opts.conversion, warnings)
+  for (const message of warnings) {
+    warn(message)
+  }
+  await writeConvertedAsset("command", command.name, outputContent, opts)
 
-  if (opts.dryRun) {
-    heading("Generated Output (dry-run)")
-    console.log(colors.dim + "─".repeat(60) + colors.reset)
-    console.log(outputContent)
-    console.log(colors.dim + "─".repeat(60) + colors.reset)
-    info(`Would write to: ${outputPath}`)
-  } else {
-    await mkdir(dirname(outputPath), { recursive: true })
-    await writeFile(outputPath, outputContent)
-    success(`Wrote: ${outputPath}`)
+  const toolsAgent = generateCommandToolsAgent(command, opts.conversion)
+  if (toolsAgent) {
+    await writeConvertedAsset("agent", getCommandToolsAgentName(command), toolsAgent, opts)
   }
 }
 
@@ -501,14 +795,17 @@ async function handleSkill(path: string | undefined, opts: CLIOptions): Promise<
   const toolName = `skill_${skill.name.toLowerCase().replace(/-/g, "_")}`
 
   // Generate the tool file
-  const toolContent = generateSkillPluginTool(skill)
+  const toolContent = generateSkillPluginTool(skill, opts.conversion)
   const toolPath = join(opts.outputDir, "plugin", "crosstrain-skills", "tools", `${toolName}.ts`)
 
   // Generate the plugin entry point (if it doesn't exist or we're creating single tool)
   const pluginContent = generateSkillsPlugin([skill])
   const pluginPath = join(opts.outputDir, "plugin", "crosstrain-skills", "index.ts")
 
-  if (opts.dryRun) {
+  if (opts.diff) {
+    await printDiff(toolPath, toolContent)
+    await printDiff(pluginPath, pluginContent)
+  } else if (opts.dryRun) {
     heading("Generated Tool (dry-run)")
     console.log(colors.dim + "─".repeat(60) + colors.reset)
     console.log(toolContent)
@@ -538,7 +835,7 @@ async function handleAgent(path: string | undefined, opts: CLIOptions): Promise<
 
   heading("Converting Agent")
 
-  const agent = await loadSingleAgent(path)
+  const agent = await loadSingleAgent(path, opts)
   if (!agent) {
     error(`Agent not found at: ${path}`)
     process.exit(1)
@@ -553,10 +850,37 @@ async function handleAgent(path: string | undefined, opts: CLIOptions): Promise<
     log(`  Source: ${agent.filePath}`)
   }
 
-  const outputContent = generateOpenCodeAgent(agent)
-  const outputPath = join(opts.outputDir, "agent", `${opts.prefix}${agent.name}.md`)
+  const warnings: string[] = []
+  const outputContent = generateOpenCodeAgent(agent, opts.conversion, warnings)
+  for (const message of warnings) {
+    warn(message)
+  }
+  await writeConvertedAsset("agent", agent.name, outputContent, opts)
+}
 
-  if (opts.dryRun) {
+/**
+ * Write a converted agent or command as a markdown file, or merge it into
+ * opencode.json with --output-format config
+ */
+async function writeConvertedAsset(
+  kind: "agent" | "command",
+  name: string,
+  markdown: string,
+  opts: CLIOptions
+): Promise<void> {
+  const toConfig = opts.outputFormat === "config"
+  const outputPath = toConfig
+    ? getOpenCodeConfigPath(opts.outputDir)
+    : join(opts.outputDir, kind, `${opts.prefix}${name}.md`)
+  const outputContent = toConfig
+    ? await generateMergedOpenCodeConfig(opts.outputDir, {
+        [kind]: { [`${opts.prefix}${name}`]: toOpenCodeConfigEntry(kind, markdown) },
+      })
+    : markdown
+
+  if (opts.diff) {
+    await printDiff(outputPath, outputContent)
+  } else if (opts.dryRun) {
     heading("Generated Output (dry-run)")
     console.log(colors.dim + "─".repeat(60) + colors.reset)
     console.log(outputContent)
@@ -641,7 +965,9 @@ async function handleMCP(path: string | undefined, opts: CLIOptions): Promise<vo
 
     const converted = convertMCPServers(servers, { filePrefix: opts.prefix, verbose: opts.verbose })
 
-    if (opts.dryRun) {
+    if (opts.diff) {
+      await printDiff("opencode.json", await generateMergedMCPConfig("opencode.json", converted))
+    } else if (opts.dryRun) {
       heading("Converted MCP Configuration (dry-run)")
       console.log(colors.dim + "─".repeat(60) + colors.reset)
       console.log(JSON.stringify({ mcp: converted }, null, 2))
@@ -681,7 +1007,10 @@ async function handleMCP(path: string | undefined, opts: CLIOptions): Promise<vo
 
     log(getMCPSummary(discovered))
 
-    if (opts.dryRun) {
+    if (opts.diff) {
+      const configPath = getOpenCodeMCPConfigPath(opts.claudeDir)
+      await printDiff(configPath, await generateMergedMCPConfig(configPath, converted))
+    } else if (opts.dryRun) {
       heading("Converted MCP Configuration (dry-run)")
       console.log(colors.dim + "─".repeat(60) + colors.reset)
       console.log(JSON.stringify({ mcp: converted }, null, 2))
@@ -702,141 +1031,6 @@ async function handleMCP(path: string | undefined, opts: CLIOptions): Promise<vo
   }
 }
 
-// ========================================
-// Git/Remote Helpers
-// ========================================
-
-const GIT_CACHE_DIR = join(tmpdir(), "crosstrain-cli-cache")
-
-/**
- * Check if a source looks like a remote Git reference
- * (GitHub shorthand or URL, possibly with a subpath)
- */
-function isRemoteSource(source: string): boolean {
-  // Local paths start with ., /, or are just directory names that exist
-  if (source.startsWith("./") || source.startsWith("../") || source.startsWith("/")) {
-    return false
-  }
-  // Git URLs
-  if (source.startsWith("http://") || source.startsWith("https://") || source.startsWith("git@")) {
-    return true
-  }
-  // GitHub shorthand: org/repo or org/repo/path
-  if (source.includes("/") && !existsSync(resolve(source))) {
-    return true
-  }
-  return false
-}
-
-/**
- * Parse a remote source into repo and subpath
- * Examples:
- *   "anthropics/claude-plugins" -> { repo: "anthropics/claude-plugins", subpath: "" }
- *   "anthropics/claude-plugins/code-review" -> { repo: "anthropics/claude-plugins", subpath: "code-review" }
- *   "https://github.com/org/repo" -> { repo: "https://github.com/org/repo", subpath: "" }
- */
-function parseRemoteSource(source: string): { repo: string; subpath: string; ref?: string } {
-  // Handle full URLs
-  if (source.startsWith("http://") || source.startsWith("https://") || source.startsWith("git@")) {
-    // Check for @ref syntax (e.g., url@v1.0.0)
-    const refMatch = source.match(/^(.+)@([^@/]+)$/)
-    if (refMatch) {
-      return { repo: refMatch[1], subpath: "", ref: refMatch[2] }
-    }
-    return { repo: source, subpath: "" }
-  }
-
-  // Handle GitHub shorthand with optional @ref
-  // Format: org/repo[/subpath][@ref]
-  const refMatch = source.match(/^(.+)@([^@/]+)$/)
-  let pathPart = source
-  let ref: string | undefined
-
-  if (refMatch) {
-    pathPart = refMatch[1]
-    ref = refMatch[2]
-  }
-
-  const parts = pathPart.split("/")
-
-  if (parts.length < 2) {
-    return { repo: source, subpath: "", ref }
-  }
-
-  // First two parts are org/repo, rest is subpath
-  const repo = `${parts[0]}/${parts[1]}`
-  const subpath = parts.slice(2).join("/")
-
-  return { repo, subpath, ref }
-}
-
-/**
- * Clone a Git repository to a temporary location
- */
-async function cloneRepo(
-  source: string,
-  ref?: string,
-  verbose: boolean = false
-): Promise<string> {
-  await mkdir(GIT_CACHE_DIR, { recursive: true })
-
-  // Create a safe directory name from the source
-  const safeName = source
-    .replace(/^(https?:\/\/|git@)/, "")
-    .replace(/\.git$/, "")
-    .replace(/[^a-zA-Z0-9-_]/g, "-")
-  const targetPath = join(GIT_CACHE_DIR, safeName)
-
-  // Convert GitHub shorthand to URL
-  let repoUrl = source
-  if (!source.startsWith("http://") && !source.startsWith("https://") && !source.startsWith("git@")) {
-    repoUrl = `https://github.com/${source}`
-  }
-
-  try {
-    if (existsSync(targetPath)) {
-      // Update existing clone
-      if (verbose) {
-        info(`Updating cached repository: ${source}`)
-      }
-      try {
-        execSync("git fetch --all --tags", { cwd: targetPath, stdio: verbose ? "inherit" : "pipe" })
-        if (ref) {
-          execSync(`git checkout '${ref}'`, { cwd: targetPath, stdio: verbose ? "inherit" : "pipe" })
-          execSync(`git pull origin '${ref}' 2>/dev/null || true`, { cwd: targetPath, stdio: verbose ? "inherit" : "pipe" })
-        } else {
-          execSync("git pull", { cwd: targetPath, stdio: verbose ? "inherit" : "pipe" })
-        }
-      } catch {
-        // If update fails, remove and re-clone
-        if (verbose) {
-          warn("Update failed, re-cloning...")
-        }
-        await rm(targetPath, { recursive: true, force: true })
-      }
-    }
-
-    if (!existsSync(targetPath)) {
-      if (verbose) {
-        info(`Cloning repository: ${repoUrl}`)
-      }
-      if (ref) {
-        execSync(`git clone --branch '${ref}' '${repoUrl}' '${targetPath}'`, {
-          stdio: verbose ? "inherit" : "pipe",
-        })
-      } else {
-        execSync(`git clone '${repoUrl}' '${targetPath}'`, {
-          stdio: verbose ? "inherit" : "pipe",
-        })
-      }
-    }
-
-    return targetPath
-  } catch (err) {
-    throw new Error(`Failed to clone repository ${repoUrl}: ${err instanceof Error ? err.message : String(err)}`)
-  }
-}
-
 // ========================================
 // List Command Handler
 // ========================================
@@ -991,578 +1185,158 @@ async function handlePlugin(source: string | undefined, opts: CLIOptions): Promi
     process.exit(1)
   }
 
-  let pluginPath: string
-  let cleanupPath: string | undefined
-
-  // Check if this is a remote source
-  if (isRemoteSource(source)) {
+  const remote = isRemoteSource(source) ? parseRemoteSource(source) : null
+  if (remote) {
     heading("Fetching Remote Plugin")
-
-    const { repo, subpath, ref } = parseRemoteSource(source)
-
-    if (!subpath) {
-      error("Please specify a plugin path within the repository")
-      log(`Example: crosstrain plugin ${repo}/<plugin-name>`)
-      log("")
-      log("To see available plugins, run:")
-      log(`  crosstrain list ${repo}`)
-      process.exit(1)
-    }
-
-    info(`Repository: ${repo}${ref ? ` (ref: ${ref})` : ""}`)
-    info(`Plugin path: ${subpath}`)
-
-    try {
-      const repoPath = await cloneRepo(repo, ref, opts.verbose)
-      pluginPath = join(repoPath, subpath)
-
-      if (!existsSync(pluginPath)) {
-        error(`Plugin not found at path: ${subpath}`)
-        log("")
-        log("To see available plugins, run:")
-        log(`  crosstrain list ${repo}`)
-        process.exit(1)
-      }
-    } catch (err) {
-      error(`Failed to fetch plugin: ${err instanceof Error ? err.message : String(err)}`)
-      process.exit(1)
-    }
-  } else {
-    // Local path
-    pluginPath = resolve(source)
-
-    if (!existsSync(pluginPath)) {
-      error(`Plugin directory not found at: ${source}`)
-      process.exit(1)
+    info(`Repository: ${remote.repo}${remote.ref ? ` (ref: ${remote.ref})` : ""}`)
+    if (remote.subpath) {
+      info(`Plugin path: ${remote.subpath}`)
     }
   }
 
-  // Try to get plugin name from plugin.json or directory name
-  let pluginName = basename(pluginPath)
-  const pluginJsonPath = join(pluginPath, ".claude-plugin", "plugin.json")
-  if (existsSync(pluginJsonPath)) {
-    try {
-      const pluginJson = JSON.parse(await readTextFile(pluginJsonPath))
-      if (pluginJson.name) {
-        pluginName = pluginJson.name
-      }
-    } catch {
-      // Fall back to directory name
-    }
-  }
-
-  // Load crosstrainer config if present
-  let crosstrainerConfig: CrosstrainerConfig | null = null
-  let crosstrainerInfo: LoadedCrosstrainerConfig | null = null
+  let result: PluginConversionResult
   try {
-    crosstrainerInfo = await loadCrosstrainerConfig(pluginPath)
-    if (crosstrainerInfo) {
-      crosstrainerConfig = crosstrainerInfo.config
-    }
+    result = await convertPlugin(source, {
+      outputDir: opts.outputDir,
+      prefix: opts.prefix,
+      modelMappings: opts.conversion.modelMappings,
+      toolMappings: opts.conversion.toolMappings,
+      namespaceSeparator: opts.namespaceSeparator,
+      onNameCollision: opts.onNameCollision,
+      outputFormat: opts.outputFormat,
+      homeDir: opts.homeDir,
+      dryRun: opts.dryRun,
+      prune: opts.prune,
+      verbose: opts.verbose,
+      trust: opts.trust,
+      trustedSources: opts.trustedSources,
+    })
   } catch (err) {
-    warn(`Failed to load crosstrainer config: ${(err as Error).message}`)
-  }
-
-  // Apply crosstrainer config overrides
-  if (crosstrainerConfig) {
-    pluginName = getEffectivePluginName(pluginName, crosstrainerConfig)
-  }
-
-  heading(`Converting Plugin: ${pluginName}`)
-  info(`Source: ${pluginPath}`)
-
-  if (crosstrainerInfo) {
-    info(`Crosstrainer config: ${basename(crosstrainerInfo.filePath)} (${crosstrainerInfo.fileType})`)
-  }
-
-  // Use plugin name as prefix for generated files
-  let pluginPrefix = `${opts.prefix}${pluginName.replace(/[^a-zA-Z0-9]/g, "_")}_`
-  if (crosstrainerConfig) {
-    pluginPrefix = getEffectivePrefix(pluginPrefix, crosstrainerConfig)
-  }
-
-  // Create conversion context for hooks
-  const conversionContext: ConversionContext = {
-    pluginName,
-    pluginDir: pluginPath,
-    outputDir: opts.outputDir,
-    prefix: pluginPrefix,
-    dryRun: opts.dryRun,
-    verbose: opts.verbose,
-    config: crosstrainerConfig || {},
-  }
-
-  // Track converted files for post-conversion hook
-  const convertedFiles = {
-    agents: [] as string[],
-    commands: [] as string[],
-    skills: [] as string[],
-    mcp: [] as string[],
-  }
-
-  let totalConverted = 0
-
-  // Commands - check for commands/ directory in plugin
-  log(`\n${colors.bold}Commands${colors.reset}`)
-  const commandsDir = join(pluginPath, "commands")
-  if (existsSync(commandsDir)) {
-    // Discover commands directly from the plugin's commands directory
-    let commands = await discoverCommands(pluginPath, "")
-
-    // Apply crosstrainer filters
-    commands = commands.filter(cmd => shouldIncludeAsset(cmd.name, crosstrainerConfig?.commands))
-
-    // Apply crosstrainer transforms
-    if (crosstrainerConfig?.transformCommand) {
-      const transformed: typeof commands = []
-      for (const cmd of commands) {
-        const result = await crosstrainerConfig.transformCommand(cmd, conversionContext)
-        if (result) {
-          transformed.push(result)
-        }
-      }
-      commands = transformed
+    if (err instanceof UntrustedConfigError) {
+      error(`Refusing to run ${basename(err.filePath)} from untrusted source ${err.source}`)
+      log(`  File:   ${err.filePath}`)
+      log(`  Commit: ${err.commit}`)
+      log(`  Hash:   ${err.hash}`)
+      log("")
+      log("Review the file, then re-run with --trust to run it (remembered for this commit),")
+      log("or add the source to trustedSources in .opencode/plugin/crosstrain/settings.json")
+      process.exit(1)
     }
-
-    if (commands.length === 0) {
-      log("  No commands found")
-    } else {
-      if (opts.dryRun) {
-        for (const cmd of commands) {
-          info(`Would convert: ${cmd.name} → ${pluginPrefix}${cmd.name}.md`)
-        }
-      } else {
-        await writeOpenCodeCommands(commands, opts.outputDir, {
-          filePrefix: pluginPrefix,
-          verbose: opts.verbose,
-        })
-        for (const cmd of commands) {
-          convertedFiles.commands.push(`${pluginPrefix}${cmd.name}.md`)
-        }
-        success(`Converted ${commands.length} command(s)`)
-      }
-      totalConverted += commands.length
+    error(err instanceof Error ? err.message : String(err))
+    if (remote) {
+      log("")
+      log("To see available plugins, run:")
+      log(`  crosstrain list ${remote.repo}`)
     }
-  } else {
-    log("  No commands/ directory found")
+    process.exit(1)
   }
 
-  // Agents - check for agents/ directory in plugin
-  log(`\n${colors.bold}Agents${colors.reset}`)
-  const agentsDir = join(pluginPath, "agents")
-  if (existsSync(agentsDir)) {
-    let agents = await discoverAgents(pluginPath, "")
-
-    // Apply crosstrainer filters
-    agents = agents.filter(agent => shouldIncludeAsset(agent.name, crosstrainerConfig?.agents))
-
-    // Apply model mapping from crosstrainer config
-    if (crosstrainerConfig?.models) {
-      agents = agents.map(agent => ({
-        ...agent,
-        model: applyModelMapping(agent.model, crosstrainerConfig!.models) || agent.model,
-      }))
-    }
-
-    // Apply default model from crosstrainer config
-    if (crosstrainerConfig?.agents?.defaultModel) {
-      agents = agents.map(agent => ({
-        ...agent,
-        model: agent.model || crosstrainerConfig!.agents!.defaultModel,
-      }))
-    }
-
-    // Apply crosstrainer transforms
-    if (crosstrainerConfig?.transformAgent) {
-      const transformed: typeof agents = []
-      for (const agent of agents) {
-        const result = await crosstrainerConfig.transformAgent(agent, conversionContext)
-        if (result) {
-          transformed.push(result)
-        }
-      }
-      agents = transformed
-    }
-
-    if (agents.length === 0) {
-      log("  No agents found")
-    } else {
-      if (opts.dryRun) {
-        for (const agent of agents) {
-          info(`Would convert: ${agent.name} → ${pluginPrefix}${agent.name}.md`)
-        }
-      } else {
-        await writeOpenCodeAgents(agents, opts.outputDir, {
-          filePrefix: pluginPrefix,
-          verbose: opts.verbose,
-        })
-        for (const agent of agents) {
-          convertedFiles.agents.push(`${pluginPrefix}${agent.name}.md`)
-        }
-        success(`Converted ${agents.length} agent(s)`)
-      }
-      totalConverted += agents.length
-    }
-  } else {
-    log("  No agents/ directory found")
+  const { plugin } = result
+  heading(`Converting Plugin: ${plugin.name}`)
+  info(`Source: ${plugin.path}`)
+  if (plugin.crosstrainerConfig) {
+    info(`Crosstrainer config: ${basename(plugin.crosstrainerConfig.filePath)} (${plugin.crosstrainerConfig.fileType})`)
   }
-
-  // Skills - check for skills/ directory in plugin
-  log(`\n${colors.bold}Skills${colors.reset}`)
-  const skillsDir = join(pluginPath, "skills")
-  if (existsSync(skillsDir)) {
-    let skills = await discoverSkills(pluginPath, "")
-
-    // Apply crosstrainer filters
-    skills = skills.filter(skill => shouldIncludeAsset(skill.name, crosstrainerConfig?.skills))
-
-    // Apply crosstrainer transforms
-    if (crosstrainerConfig?.transformSkill) {
-      const transformed: typeof skills = []
-      for (const skill of skills) {
-        const result = await crosstrainerConfig.transformSkill(skill, conversionContext)
-        if (result) {
-          transformed.push(result)
-        }
-      }
-      skills = transformed
-    }
-
-    if (skills.length === 0) {
-      log("  No skills found")
-    } else {
-      if (opts.dryRun) {
-        for (const skill of skills) {
-          const toolName = `skill_${pluginName.toLowerCase().replace(/-/g, "_")}_${skill.name.toLowerCase().replace(/-/g, "_")}`
-          info(`Would convert: ${skill.name} → tools/${toolName}.ts`)
-        }
-      } else {
-        // Generate tool files for each skill with plugin-namespaced names
-        const skillPluginDir = join(opts.outputDir, "plugin", `crosstrain-${pluginName}`)
-        const toolsDir = join(skillPluginDir, "tools")
-        await mkdir(toolsDir, { recursive: true })
-
-        const pluginSkills: ClaudeSkill[] = []
-        for (const skill of skills) {
-          // Namespace the skill name with plugin name
-          const namespacedSkill: ClaudeSkill = {
-            ...skill,
-            name: `${pluginName}_${skill.name}`,
-          }
-          pluginSkills.push(namespacedSkill)
-
-          const toolName = `skill_${namespacedSkill.name.toLowerCase().replace(/-/g, "_")}`
-
-          // Use custom tool generator if provided, otherwise use default
-          let toolContent: string
-          if (crosstrainerConfig?.generateSkillTool) {
-            toolContent = await crosstrainerConfig.generateSkillTool(namespacedSkill, conversionContext)
-          } else {
-            toolContent = generateSkillPluginTool(namespacedSkill)
-          }
-
-          await writeFile(join(toolsDir, `${toolName}.ts`), toolContent)
-          convertedFiles.skills.push(`tools/${toolName}.ts`)
-          if (opts.verbose) {
-            log(`  Wrote: tools/${toolName}.ts`)
-          }
-        }
-
-        // Generate the plugin entry point
-        const pluginContent = generateSkillsPlugin(pluginSkills)
-        await writeFile(join(skillPluginDir, "index.ts"), pluginContent)
-
-        // Generate package.json for the plugin
-        const packageJson = {
-          name: `crosstrain-${pluginName}`,
-          version: "0.0.1",
-          description: crosstrainerConfig?.description || `Claude Code plugin '${pluginName}' skills converted to OpenCode tools`,
-          main: "index.ts",
-          type: "module",
-          peerDependencies: {
-            "@opencode-ai/plugin": "*",
-          },
-        }
-        await writeFile(join(skillPluginDir, "package.json"), JSON.stringify(packageJson, null, 2) + "\n")
-
-        success(`Converted ${skills.length} skill(s) to plugin at ${skillPluginDir}`)
-      }
-      totalConverted += skills.length
-    }
-  } else {
-    log("  No skills/ directory found")
-  }
-
-  // MCP Servers - check for .mcp.json in plugin root
-  log(`\n${colors.bold}MCP Servers${colors.reset}`)
-  const mcpPath = join(pluginPath, ".mcp.json")
-  if (existsSync(mcpPath)) {
-    try {
-      const content = await readTextFile(mcpPath)
-      const config = JSON.parse(content)
-
-      if (config.mcpServers && Object.keys(config.mcpServers).length > 0) {
-        let servers = Object.entries(config.mcpServers).map(([name, server]) => ({
-          name,
-          server: server as any,
-          source: "plugin" as const,
-          sourcePath: mcpPath,
-        }))
-
-        // Apply crosstrainer filters
-        servers = servers.filter(s => shouldIncludeAsset(s.name, crosstrainerConfig?.mcp))
-
-        // Apply crosstrainer transforms
-        if (crosstrainerConfig?.transformMCP) {
-          const transformed: typeof servers = []
-          for (const s of servers) {
-            const result = await crosstrainerConfig.transformMCP(s.name, s.server, conversionContext)
-            if (result) {
-              transformed.push({
-                name: result.name,
-                server: result.server,
-                source: "plugin" as const,
-                sourcePath: mcpPath,
-              })
-            }
-          }
-          servers = transformed
-        }
-
-        if (servers.length === 0) {
-          log("  No MCP servers to convert")
-        } else if (opts.dryRun) {
-          for (const server of servers) {
-            info(`Would convert: ${server.name} → ${pluginPrefix}${server.name}`)
-          }
-        } else {
-          const converted = convertMCPServers(servers, {
-            filePrefix: pluginPrefix,
-            verbose: opts.verbose,
-            enableByDefault: crosstrainerConfig?.mcp?.enableByDefault,
-          })
-
-          // Merge into opencode.json
-          const configPath = join(dirname(opts.outputDir), "opencode.json")
-          let existingConfig: Record<string, any> = {}
-
-          if (existsSync(configPath)) {
-            const existing = await readTextFile(configPath)
-            existingConfig = JSON.parse(existing)
-          }
-
-          existingConfig.mcp = { ...existingConfig.mcp, ...converted }
-          if (!existingConfig.$schema) {
-            existingConfig.$schema = "https://opencode.ai/config.json"
-          }
-
-          await writeFile(configPath, JSON.stringify(existingConfig, null, 2) + "\n")
-          for (const name of Object.keys(converted)) {
-            convertedFiles.mcp.push(name)
-          }
-          success(`Synced ${Object.keys(converted).length} MCP server(s)`)
-        }
-        totalConverted += servers.length
-      } else {
-        log("  No MCP servers configured")
-      }
-    } catch (err) {
-      warn(`Failed to parse .mcp.json: ${err}`)
-    }
-  } else {
-    log("  No .mcp.json found")
+  if (plugin.trust) {
+    const reasons = { "allow-list": "source is in trustedSources", flag: opts.dryRun ? "--trust" : "--trust, remembered for this commit", remembered: "trusted before at this commit" }
+    info(`Trusted ${plugin.trust.source}@${plugin.trust.commit.slice(0, 12)} (${plugin.trust.hash}): ${reasons[plugin.trust.reason]}`)
   }
 
-  // Hooks - check for settings.json in plugin root
-  log(`\n${colors.bold}Hooks${colors.reset}`)
-  const settingsPath = join(pluginPath, "settings.json")
-  if (existsSync(settingsPath)) {
-    try {
-      const content = await readTextFile(settingsPath)
-      const settings = JSON.parse(content)
-
-      if (settings.hooks) {
-        const hookCount =
-          (settings.hooks.PreToolUse?.length || 0) +
-          (settings.hooks.PostToolUse?.length || 0) +
-          (settings.hooks.SessionStart?.length || 0) +
-          (settings.hooks.SessionEnd?.length || 0) +
-          (settings.hooks.Stop?.length || 0) +
-          (settings.hooks.Notification?.length || 0)
-
-        if (hookCount > 0) {
-          info(`Found ${hookCount} hook matcher(s) - converted at runtime by plugin`)
-        } else {
-          log("  No hooks configured")
-        }
-      } else {
-        log("  No hooks in settings.json")
-      }
-    } catch {
-      log("  No valid settings.json found")
-    }
-  } else {
-    log("  No settings.json found")
-  }
+  await reportConversion(result, opts, ` from plugin '${plugin.name}'`)
+}
 
-  // Call post-conversion hook if provided
-  if (crosstrainerConfig?.onConversionComplete && !opts.dryRun) {
-    try {
-      await crosstrainerConfig.onConversionComplete(conversionContext, convertedFiles)
-    } catch (err) {
-      warn(`Post-conversion hook failed: ${(err as Error).message}`)
-    }
-  }
+/**
+ * Handle all command
+ */
+async function handleAll(opts: CLIOptions): Promise<void> {
+  heading("Converting All Claude Code Assets")
 
-  // Summary
-  heading("Summary")
-  if (opts.dryRun) {
-    info(`Would convert ${totalConverted} asset(s) from plugin '${pluginName}'`)
-  } else {
-    success(`Converted ${totalConverted} asset(s) from plugin '${pluginName}'`)
-    if (existsSync(join(pluginPath, "skills"))) {
-      log("")
-      info("To use skills in OpenCode, add to opencode.json:")
-      log(`  "plugins": ["${join(opts.outputDir, "plugin", `crosstrain-${pluginName}`)}"]`)
-    }
+  const result = await convertProject(projectConvertOptions(opts))
+  if (result.crosstrainerConfig) {
+    info(`Crosstrainer config: ${basename(result.crosstrainerConfig.filePath)} (${result.crosstrainerConfig.fileType})`)
   }
+  await reportConversion(result, opts)
 }
 
-async function handleAll(opts: CLIOptions): Promise<void> {
-  heading("Converting All Claude Code Assets")
+/**
+ * Handle watch command
+ */
+async function handleWatch(opts: CLIOptions): Promise<void> {
+  heading("Watching Claude Code Assets")
 
   const homeDir = opts.loadUserAssets ? opts.homeDir : ""
-  let totalConverted = 0
-
-  // Commands
-  log(`\n${colors.bold}Commands${colors.reset}`)
-  const commands = await discoverCommands(opts.claudeDir, homeDir)
-  if (commands.length === 0) {
-    log("  No commands found")
-  } else {
-    if (opts.dryRun) {
-      for (const cmd of commands) {
-        info(`Would convert: ${cmd.name} → ${opts.prefix}${cmd.name}.md`)
-      }
-    } else {
-      await writeOpenCodeCommands(commands, opts.outputDir, {
-        filePrefix: opts.prefix,
-        verbose: opts.verbose,
-      })
-      success(`Converted ${commands.length} command(s)`)
-    }
-    totalConverted += commands.length
+  if (!hasClaudeCodeAssets(opts.claudeDir, homeDir)) {
+    error(`No Claude Code assets to watch in ${opts.claudeDir}`)
+    process.exit(1)
   }
 
-  // Agents
-  log(`\n${colors.bold}Agents${colors.reset}`)
-  const agents = await discoverAgents(opts.claudeDir, homeDir)
-  if (agents.length === 0) {
-    log("  No agents found")
-  } else {
-    if (opts.dryRun) {
-      for (const agent of agents) {
-        info(`Would convert: ${agent.name} → ${opts.prefix}${agent.name}.md`)
+  /** Sync categories against the lockfile and print one line per category */
+  const sync = async (categories: ProjectCategory[]): Promise<void> => {
+    for (const category of categories) {
+      const started = Date.now()
+      try {
+        const result = await convertProject({
+          ...projectConvertOptions(opts),
+          categories: [category],
+          prune: false,
+        })
+        const unchanged = result.skipped.filter((skip) => skip.reason === "unchanged").length
+        const verb = opts.dryRun ? "would convert" : "converted"
+        log(
+          `${colors.dim}[${timestamp()}]${colors.reset} ${category}: ` +
+            `${result.assets.length} ${verb}, ${unchanged} unchanged ` +
+            `${colors.dim}(${Date.now() - started}ms)${colors.reset}`
+        )
+      } catch (err) {
+        error(`[${timestamp()}] ${category}: ${err instanceof Error ? err.message : String(err)}`)
       }
-    } else {
-      await writeOpenCodeAgents(agents, opts.outputDir, {
-        filePrefix: opts.prefix,
-        verbose: opts.verbose,
-      })
-      success(`Converted ${agents.length} agent(s)`)
     }
-    totalConverted += agents.length
   }
 
-  // Skills
-  log(`\n${colors.bold}Skills${colors.reset}`)
-  const skills = await discoverSkills(opts.claudeDir, homeDir)
-  if (skills.length === 0) {
-    log("  No skills found")
-  } else {
-    if (opts.dryRun) {
-      for (const skill of skills) {
-        const toolName = `skill_${skill.name.toLowerCase().replace(/-/g, "_")}`
-        info(`Would convert: ${skill.name} → tools/${toolName}.ts`)
-      }
-    } else {
-      // Generate tool files for each skill
-      const pluginDir = join(opts.outputDir, "plugin", "crosstrain-skills")
-      const toolsDir = join(pluginDir, "tools")
-      await mkdir(toolsDir, { recursive: true })
-
-      for (const skill of skills) {
-        const toolName = `skill_${skill.name.toLowerCase().replace(/-/g, "_")}`
-        const toolContent = generateSkillPluginTool(skill)
-        await writeFile(join(toolsDir, `${toolName}.ts`), toolContent)
-        if (opts.verbose) {
-          log(`  Wrote: tools/${toolName}.ts`)
-        }
-      }
-
-      // Generate the plugin entry point
-      const pluginContent = generateSkillsPlugin(skills)
-      await writeFile(join(pluginDir, "index.ts"), pluginContent)
-
-      success(`Converted ${skills.length} skill(s) to plugin at ${pluginDir}`)
-    }
-    totalConverted += skills.length
+  // Changes are synced one at a time so lockfile updates don't interleave
+  let queue = Promise.resolve()
+  const enqueue = (categories: ProjectCategory[]) => async () => {
+    queue = queue
+      .then(() => sync(categories))
+      .catch((err) => error(`[${timestamp()}] Sync failed: ${err instanceof Error ? err.message : String(err)}`))
+    await queue
   }
 
-  // MCP Servers
-  log(`\n${colors.bold}MCP Servers${colors.reset}`)
-  const { discovered, converted } = await getAllMCPServers(
-    opts.claudeDir,
-    homeDir,
-    { filePrefix: opts.prefix, verbose: opts.verbose }
-  )
+  await sync(["commands", "agents", "skills", "mcp"])
 
-  if (discovered.length === 0) {
-    log("  No MCP servers found")
-  } else {
-    if (opts.dryRun) {
-      for (const server of discovered) {
-        info(`Would convert: ${server.name} → ${opts.prefix}${server.name}`)
-      }
-    } else {
-      const result = await syncMCPToOpenCode(
-        opts.claudeDir,
-        homeDir,
-        opts.outputDir,
-        { filePrefix: opts.prefix, verbose: opts.verbose }
+  const watcher = createWatcher({
+    claudeDir: opts.claudeDir,
+    homeDir,
+    quiet: !opts.verbose,
+    onCommandChange: enqueue(["commands"]),
+    onAgentChange: enqueue(["agents"]),
+    onSkillChange: enqueue(["skills"]),
+    onMCPChange: enqueue(["mcp"]),
+    onHookChange: async () => {
+      const hooksConfig = await loadClaudeHooksConfig(opts.claudeDir, homeDir)
+      log(
+        `${colors.dim}[${timestamp()}]${colors.reset} hooks: ` +
+          `${hooksConfig ? countHookMatchers(hooksConfig) : 0} matcher(s), converted at runtime by plugin`
       )
-      success(`Synced ${result.serverCount} MCP server(s)`)
-    }
-    totalConverted += discovered.length
-  }
+    },
+  })
 
-  // Hooks
-  log(`\n${colors.bold}Hooks${colors.reset}`)
-  const hooksConfig = await loadClaudeHooksConfig(opts.claudeDir, homeDir)
-  if (!hooksConfig) {
-    log("  No hooks found")
-  } else {
-    const hookCount =
-      (hooksConfig.PreToolUse?.length || 0) +
-      (hooksConfig.PostToolUse?.length || 0) +
-      (hooksConfig.SessionStart?.length || 0) +
-      (hooksConfig.SessionEnd?.length || 0) +
-      (hooksConfig.Stop?.length || 0) +
-      (hooksConfig.Notification?.length || 0)
+  process.on("SIGINT", async () => {
+    await watcher.close()
+    await queue
+    log("")
+    info("Stopped watching")
+    process.exit(0)
+  })
 
-    info(`Found ${hookCount} hook matcher(s) - converted at runtime by plugin`)
-  }
+  info("Watching for changes (Ctrl+C to stop)")
+}
 
-  // Summary
-  heading("Summary")
-  if (opts.dryRun) {
-    info(`Would convert ${totalConverted} asset(s)`)
-  } else {
-    success(`Converted ${totalConverted} asset(s)`)
-    log("")
-    info("To use skills in OpenCode, add to opencode.json:")
-    log(`  "plugins": ["${join(opts.outputDir, "plugin", "crosstrain-skills")}"]`)
-  }
+/**
+ * Current time as HH:MM:SS for watch log lines
+ */
+function timestamp(): string {
+  return new Date().toTimeString().slice(0, 8)
 }
 
 async function handleInit(opts: CLIOptions): Promise<void> {
@@ -1640,8 +1414,14 @@ export default CrosstrainSkillsPlugin
 async function handleSettings(opts: CLIOptions): Promise<void> {
   heading("Claude Code Settings Import")
 
-  // Discover all Claude Code settings
-  const settings = await discoverClaudeSettings(opts.claudeDir, opts.loadUserAssets)
+  const result = await convertSettings({
+    claudeDir: opts.claudeDir,
+    outputDir: opts.outputDir,
+    loadUserSettings: opts.loadUserAssets,
+    modelMappings: opts.conversion.modelMappings,
+    dryRun: opts.dryRun,
+  })
+  const { settings } = result
 
   // Display discovered settings
   if (opts.verbose) {
@@ -1708,22 +1488,16 @@ async function handleSettings(opts: CLIOptions): Promise<void> {
     log(`  Environment Variables: ${Object.keys(merged.env).length}`)
   }
 
-  // Convert to OpenCode format
+  // Show the converted OpenCode configuration
   log(`\n${colors.bold}Converting to OpenCode Configuration${colors.reset}`)
   log("─".repeat(40))
 
-  const openCodeConfig = convertClaudeSettingsToOpenCode(merged)
-
-  // Load existing OpenCode config
-  const existingConfig = await loadOpenCodeConfig(opts.outputDir)
-  if (existingConfig) {
+  if (result.existingConfig) {
     info("Found existing opencode.json - will merge settings")
   }
 
-  // Merge configurations
-  const finalConfig = mergeOpenCodeConfigs(existingConfig, openCodeConfig)
+  const finalConfig = result.config
 
-  // Display what will be written
   if (finalConfig.model) {
     log(`  Model: ${finalConfig.model}`)
   }
@@ -1731,33 +1505,172 @@ async function handleSettings(opts: CLIOptions): Promise<void> {
   if (finalConfig.permission && Object.keys(finalConfig.permission).length > 0) {
     log(`  Permissions:`)
     for (const [tool, perm] of Object.entries(finalConfig.permission)) {
-      log(`    ${tool}: ${perm}`)
+      log(`    ${tool}: ${typeof perm === "string" ? perm : JSON.stringify(perm)}`)
     }
   }
 
-  // Handle dry-run or write
-  const projectRoot = resolve(opts.outputDir, "..")
-  const configPath = join(projectRoot, "opencode.json")
+  if (finalConfig.tools && Object.keys(finalConfig.tools).length > 0) {
+    log(`  Tools:`)
+    for (const [tool, enabled] of Object.entries(finalConfig.tools)) {
+      log(`    ${tool}: ${enabled ? "enabled" : "disabled"}`)
+    }
+  }
 
-  if (opts.dryRun) {
+  if (opts.diff) {
+    log("")
+    await printDiff(result.configPath, result.content)
+  } else if (opts.dryRun) {
     log("")
-    info("[dry-run] Would write to: " + configPath)
+    info("[dry-run] Would write to: " + result.configPath)
     log("")
     log("Generated OpenCode configuration:")
-    log(JSON.stringify(finalConfig, null, 2))
+    log(result.content)
   } else {
-    await writeOpenCodeConfig(opts.outputDir, finalConfig)
     log("")
-    success(`Wrote: ${configPath}`)
+    success(`Wrote: ${result.configPath}`)
   }
 
   // Show what wasn't converted
+  if (result.warnings.length > 0) {
+    log("")
+    info("Note: Some Claude Code settings don't have direct OpenCode equivalents:")
+    for (const warning of result.warnings) {
+      log(`  - ${warning.source} → ${warning.message}`)
+    }
+  }
+}
+
+/**
+ * Handle lint command
+ */
+async function handleLint(path: string | undefined, opts: CLIOptions): Promise<void> {
+  const rootDir = resolve(path || ".")
+  if (!existsSync(rootDir)) {
+    error(`Path not found: ${rootDir}`)
+    process.exit(1)
+  }
+
+  const homeDir = opts.loadUserAssets ? opts.homeDir : ""
+  const result = await lintClaudeAssets(rootDir, homeDir)
+
+  if (opts.format === "json") {
+    console.log(JSON.stringify(result, null, 2))
+  } else {
+    heading("Linting Claude Code Assets")
+    for (const diagnostic of result.diagnostics) {
+      const color = diagnostic.severity === "error" ? colors.red : colors.yellow
+      const line = formatDiagnostic(diagnostic, process.cwd())
+      log(`  ${line.replace(` ${diagnostic.severity} `, ` ${color}${diagnostic.severity}${colors.reset} `)}`)
+    }
+
+    log("")
+    if (result.diagnostics.length === 0) {
+      success("No problems found")
+    } else {
+      const summary = `${result.errorCount} error(s), ${result.warningCount} warning(s)`
+      if (result.errorCount > 0) {
+        error(summary)
+      } else {
+        warn(summary)
+      }
+    }
+  }
+
+  if (result.errorCount > 0) {
+    process.exit(1)
+  }
+}
+
+/**
+ * Handle export command
+ */
+async function handleExport(opts: CLIOptions): Promise<void> {
+  heading("Exporting OpenCode Assets to Claude Code")
+
+  if (!existsSync(opts.outputDir) && !existsSync(join(resolve(opts.outputDir, ".."), "opencode.json"))) {
+    error(`OpenCode directory not found: ${opts.outputDir}`)
+    process.exit(1)
+  }
+
+  const result = await exportOpenCodeToClaude({
+    openCodeDir: opts.outputDir,
+    claudeDir: opts.claudeDir,
+    filePrefix: opts.prefix,
+    dryRun: opts.dryRun,
+    verbose: opts.verbose,
+  })
+
+  const total = result.agents.length + result.commands.length + result.mcpServers.length
+  if (total === 0 && result.skipped.length === 0) {
+    warn("No OpenCode agents, commands or MCP servers found")
+    return
+  }
+
+  for (const output of result.outputs) {
+    if (opts.dryRun) {
+      info(`Would write: ${output}`)
+    } else {
+      success(`Wrote: ${output}`)
+    }
+  }
+
+  if (opts.verbose) {
+    for (const skipped of result.skipped) {
+      log(`  ${colors.dim}Skipped ${skipped.source}: ${skipped.reason}${colors.reset}`)
+    }
+  }
+
+  if (result.warnings.length > 0) {
+    log("")
+    warn("Some OpenCode settings cannot be represented in Claude Code:")
+    for (const warning of result.warnings) {
+      log(`  - ${basename(warning.source)}: ${warning.message}`)
+    }
+  }
+
   log("")
-  info("Note: Some Claude Code settings don't have direct OpenCode equivalents:")
-  log("  - hooks → Use OpenCode plugins instead")
-  log("  - env → Set environment variables before running OpenCode")
-  log("  - companyAnnouncements → Not supported")
-  log("  - sandbox → OpenCode uses different sandboxing")
+  log(`${colors.bold}Summary:${colors.reset} ${result.agents.length} agent(s), ${result.commands.length} command(s), ${result.mcpServers.length} MCP server(s) exported, ${result.skipped.length} skipped`)
+}
+
+/**
+ * Handle prune command
+ */
+async function handlePrune(opts: CLIOptions): Promise<void> {
+  heading("Pruning Orphaned Outputs")
+
+  const projectRoot = resolve(opts.outputDir, "..")
+  if (!existsSync(getLockfilePath(opts.outputDir))) {
+    warn(`No lockfile found at ${getLockfilePath(opts.outputDir)}`)
+    log("Only outputs recorded by 'crosstrain all' or 'crosstrain plugin' can be pruned")
+    return
+  }
+
+  const lockfile = await loadLockfile(opts.outputDir)
+  const { orphaned, unavailableOrigins } = await findOrphanedEntries(lockfile, projectRoot, opts.homeDir)
+
+  for (const origin of unavailableOrigins) {
+    warn(`Skipped ${origin}: source directory not found (re-run the conversion with --prune instead)`)
+  }
+
+  if (orphaned.length === 0) {
+    success("Nothing to prune")
+    return
+  }
+
+  for (const [, entry] of orphaned) {
+    log(`  ${colors.dim}Source removed: ${entry.source} (${entry.origin})${colors.reset}`)
+  }
+
+  const result = await pruneEntries(lockfile, orphaned, { projectRoot, dryRun: opts.dryRun })
+  reportPrune(result, opts)
+
+  log("")
+  if (opts.dryRun) {
+    info(`Would remove ${result.removed.length} output(s) from ${result.entries.length} deleted source(s)`)
+  } else {
+    await writeLockfile(opts.outputDir, lockfile)
+    success(`Removed ${result.removed.length} output(s) from ${result.entries.length} deleted source(s)`)
+  }
 }
 
 // ========================================
@@ -1784,6 +1697,22 @@ async function main(): Promise<void> {
     opts.claudeDir = resolve(path)
   }
 
+  // The plugin settings supply defaults for options not given as flags
+  const config = await loadConfig(resolve(opts.outputDir, ".."))
+  opts.conversion = createConversionOptions(config, {
+    filePrefix: options.prefix,
+    modelMappings: opts.modelMappings,
+    toolMappings: opts.toolMappings,
+  })
+  opts.prefix = opts.conversion.filePrefix
+  if (options.loadUserAssets === undefined) {
+    opts.loadUserAssets = config.loadUserAssets
+  }
+  opts.trustedSources = config.trustedSources
+  opts.namespaceSeparator = options.namespaceSeparator ?? config.namespaceSeparator
+  opts.onNameCollision = config.onNameCollision
+  opts.outputFormat = options.outputFormat ?? config.outputFormat
+
   switch (command) {
     case "command":
       await handleCommand(path, opts)
@@ -1829,6 +1758,22 @@ async function main(): Promise<void> {
       await handleSettings(opts)
       break
 
+    case "lint":
+      await handleLint(path, opts)
+      break
+
+    case "export":
+      await handleExport(opts)
+      break
+
+    case "prune":
+      await handlePrune(opts)
+      break
+
+    case "watch":
+      await handleWatch(opts)
+      break
+
     default:
       error(`Unknown command: ${command}`)
       printHelp()
@@ -40,5 +40,25 @@ export {
   loadMarketplaceAndPluginSettings,
 } from "./src/utils/settings"
 
+// Re-export the conversion API
+export {
+  convertProject,
+  convertPlugin,
+  convertSettings,
+} from "./src/loaders/convert"
+
+export type {
+  ConversionResult,
+  PluginConversionResult,
+  SettingsConversionResult,
+  ConvertProjectOptions,
+  ConvertPluginOptions,
+  ConvertSettingsOptions,
+  ConvertedAsset,
+  ConversionOutput,
+  ConversionWarning,
+  ConversionSkipped,
+} from "./src/loaders/convert"
+
 // Default export for simpler imports
 export { default } from "./src/index"
@@ -0,0 +1,164 @@
+#!/usr/bin/env bun
+/**
+ * Schema Generator
+ *
+ * Generates src/schemas/crosstrainer.schema.json from the
+ * CrosstrainerJsonConfig type in src/loaders/crosstrainer-config.ts, so
+ * the schema crosstrain validates crosstrainer.json files against (and
+ * editors use for completion) always matches the types.
+ *
+ * Usage:
+ *   bun run scripts/generate-schema.ts           # Write the schema
+ *   bun run scripts/generate-schema.ts --check   # Fail if the schema is out of date
+ */
+
+import ts from "typescript"
+import { join } from "path"
+import { readFileSync, writeFileSync } from "fs"
+
+const root = join(import.meta.dir, "..")
+const sourcePath = join(root, "src", "loaders", "crosstrainer-config.ts")
+const schemaPath = join(root, "src", "schemas", "crosstrainer.schema.json")
+const rootType = "CrosstrainerJsonConfig"
+
+type Schema = Record<string, unknown>
+
+const program = ts.createProgram([sourcePath], {
+  strict: true,
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  noEmit: true,
+  types: [],
+})
+const checker = program.getTypeChecker()
+const definitions: Record<string, Schema> = {}
+
+/**
+ * Get a symbol's doc comment as a one-paragraph description
+ */
+function describe(symbol: ts.Symbol): string | undefined {
+  const text = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim()
+  return text ? text.replace(/\s*\n\s*/g, " ") : undefined
+}
+
+/**
+ * Convert an object type to a schema
+ */
+function objectSchema(type: ts.Type): Schema {
+  const schema: Schema = { type: "object" }
+  const properties: Record<string, Schema> = {}
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration ?? property.declarations?.[0]
+    const propertyType = declaration
+      ? checker.getTypeOfSymbolAtLocation(property, declaration)
+      : checker.getTypeOfSymbol(property)
+    const description = describe(property)
+    properties[property.name] = {
+      ...(description ? { description } : {}),
+      ...toSchema(propertyType),
+    }
+  }
+  if (Object.keys(properties).length > 0) {
+    schema.properties = properties
+  }
+
+  const index = checker.getIndexInfoOfType(type, ts.IndexKind.String)
+  if (index) {
+    const values = toSchema(index.type)
+    schema.additionalProperties = Object.keys(values).length > 0 ? values : true
+  } else {
+    schema.additionalProperties = false
+  }
+
+  return schema
+}
+
+/**
+ * Convert a type to a schema, collecting named interfaces as definitions
+ */
+function toSchema(type: ts.Type): Schema {
+  if (type.flags & (ts.TypeFlags.Unknown | ts.TypeFlags.Any)) return {}
+
+  type = checker.getNonNullableType(type)
+  if (type.flags & ts.TypeFlags.String) return { type: "string" }
+  if (type.flags & ts.TypeFlags.Number) return { type: "number" }
+  if (type.flags & ts.TypeFlags.Boolean) return { type: "boolean" }
+
+  if (type.isUnion()) {
+    if (type.types.every((t) => t.isStringLiteral())) {
+      return { type: "string", enum: type.types.map((t) => (t as ts.StringLiteralType).value) }
+    }
+    return { anyOf: type.types.map(toSchema) }
+  }
+
+  if (checker.isArrayType(type)) {
+    return { type: "array", items: toSchema(checker.getTypeArguments(type as ts.TypeReference)[0]) }
+  }
+
+  const symbol = type.getSymbol()
+  if (symbol && symbol.flags & ts.SymbolFlags.Interface) {
+    const name = symbol.getName()
+    if (!(name in definitions)) {
+      definitions[name] = {} // Reserve the name for recursive types
+      const description = describe(symbol)
+      definitions[name] = { ...(description ? { description } : {}), ...objectSchema(type) }
+    }
+    return { $ref: `#/definitions/${name}` }
+  }
+
+  if (type.flags & ts.TypeFlags.Object) {
+    return objectSchema(type)
+  }
+
+  throw new Error(`Cannot convert type ${checker.typeToString(type)} to JSON Schema`)
+}
+
+/**
+ * Generate the crosstrainer.json schema
+ */
+function generateSchema(): Schema {
+  const source = program.getSourceFile(sourcePath)
+  const declaration = source?.statements.find(
+    (s): s is ts.InterfaceDeclaration => ts.isInterfaceDeclaration(s) && s.name.text === rootType
+  )
+  if (!declaration) {
+    throw new Error(`${rootType} not found in ${sourcePath}`)
+  }
+
+  const type = checker.getTypeAtLocation(declaration)
+  const config = objectSchema(type)
+
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "Crosstrainer Config",
+    description: "Customizes how crosstrain converts a Claude Code plugin or project to OpenCode (crosstrainer.json / crosstrainer.jsonc)",
+    type: "object",
+    properties: {
+      $schema: { description: "JSON Schema used by editors", type: "string" },
+      ...(config.properties as Record<string, Schema>),
+    },
+    additionalProperties: false,
+    definitions: Object.fromEntries(Object.entries(definitions).sort(([a], [b]) => a.localeCompare(b))),
+  }
+}
+
+const output = JSON.stringify(generateSchema(), null, 2) + "\n"
+
+if (process.argv.includes("--check")) {
+  let current = ""
+  try {
+    current = readFileSync(schemaPath, "utf-8")
+  } catch {
+    // Missing schema is out of date
+  }
+  if (current !== output) {
+    console.error(`${schemaPath} is out of date. Run: bun run schema`)
+    process.exit(1)
+  }
+  console.log(`${schemaPath} is up to date`)
+} else {
+  writeFileSync(schemaPath, output)
+  console.log(`Wrote ${schemaPath}`)
+}
@@ -1,11 +1,16 @@
 /**
  * Crosstrain - OpenCode Plugin for Claude Code Asset Conversion
  *
- * This plugin exposes tools that wrap the crosstrain CLI, enabling the AI agent
- * to assist with converting Claude Code assets to OpenCode format.
+ * This plugin loads Claude Code assets into OpenCode in-process:
+ * - Skills are registered as live tools
+ * - Hooks run as tool.execute.before/after and event handlers
+ * - Agents, commands and MCP servers are synced to .opencode/ and opencode.json
+ * With `watch` enabled, edits to .claude/ take effect without re-running the CLI.
+ * Each category can be turned off with `loaders.*`.
  *
- * The agent can:
- * - Run crosstrain CLI commands to convert assets
+ * It also exposes conversion tools, built on the same API as the CLI
+ * (convertProject, convertPlugin, convertSettings). The agent can:
+ * - Convert project assets, plugins and settings
  * - Review and improve generated OpenCode assets
  * - Browse Claude Code marketplaces
  * - Install plugins from remote sources
@@ -13,8 +18,8 @@
  * For direct CLI usage, run: crosstrain --help
  */
 
-import { join } from "path"
-import { execSync, spawn } from "child_process"
+import { join, relative, resolve } from "path"
+import { execFileSync, spawn } from "child_process"
 import { existsSync } from "fs"
 import { homedir } from "os"
 
@@ -24,13 +29,21 @@ import { tool, toolSchema } from "./plugin-types"
 
 // Import configuration utilities
 import type { CrosstrainConfig } from "./types"
-import { loadConfig, createLogger } from "./utils/config"
+import { loadConfig, createLogger, getResolvedPaths, createConversionOptions } from "./utils/config"
+import { createRuntimeLoader } from "./loaders/runtime"
+import {
+  convertProject,
+  convertPlugin,
+  convertSettings,
+  type ConversionResult,
+} from "./loaders/convert"
 
 // Re-export types and utilities for potential external use
 export * from "./types"
 export * from "./utils/parser"
 export * from "./utils/config"
 export * from "./utils/settings"
+export * from "./loaders/convert"
 
 /**
  * Plugin context with optional crosstrain configuration
@@ -55,8 +68,8 @@ function getCLIPath(): string {
     return localCLI
   }
 
-  // Check parent directory (for when running from dist/)
-  const parentCLI = join(__dirname, "..", "src", "cli.ts")
+  // Check the package root, where cli.ts sits next to src/
+  const parentCLI = join(__dirname, "..", "cli.ts")
   if (existsSync(parentCLI)) {
     return parentCLI
   }
@@ -76,10 +89,11 @@ function runCLI(
   const cliPath = getCLIPath()
 
   try {
-    // Use bun to run the CLI if it's a .ts file
-    const cmd = cliPath.endsWith(".ts") ? ["bun", "run", cliPath, ...args] : [cliPath, ...args]
+    // Use bun to run the CLI if it's a .ts file. No shell: args reach the CLI
+    // exactly as given, so quoting or substitution can't rewrite them
+    const [file, ...argv] = cliPath.endsWith(".ts") ? ["bun", "run", cliPath, ...args] : [cliPath, ...args]
 
-    const result = execSync(cmd.join(" "), {
+    const result = execFileSync(file, argv, {
       cwd,
       encoding: "utf-8",
       stdio: ["pipe", "pipe", "pipe"],
@@ -99,6 +113,34 @@ function runCLI(
   }
 }
 
+/**
+ * Format a conversion result as text for the agent
+ */
+function formatConversionResult(result: ConversionResult, directory: string, dryRun: boolean): string {
+  const lines = [`${dryRun ? "Would convert" : "Converted"} ${result.assets.length} asset(s)`]
+  for (const asset of result.assets) {
+    const outputs = asset.outputs.map((output) => relative(directory, output))
+    lines.push(`- ${asset.kind} ${asset.name} → ${outputs.join(", ")}`)
+  }
+
+  const unchanged = result.skipped.filter((skip) => skip.reason === "unchanged").length
+  const excluded = result.skipped.length - unchanged
+  if (unchanged > 0) lines.push(`${unchanged} unchanged`)
+  if (excluded > 0) lines.push(`${excluded} excluded by crosstrainer config`)
+  if (result.hookMatchers > 0) {
+    lines.push(`${result.hookMatchers} hook matcher(s) run at runtime by the crosstrain plugin`)
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push("", "Warnings:", ...result.warnings.map((warning) => `- ${warning.source}: ${warning.message}`))
+  }
+  if (result.removed.length > 0) {
+    lines.push("", `${result.removed.length} source(s) no longer exist; their outputs were left in place`)
+  }
+
+  return lines.join("\n")
+}
+
 /**
  * Create the crosstrain plugin with optional configuration
  */
@@ -124,10 +166,28 @@ export const CrosstrainPlugin: Plugin = async (ctx: PluginContext) => {
     return {}
   }
 
-  logger.info("Crosstrain plugin loaded - CLI wrapper tools available")
+  // Load Claude Code assets in-process
+  const paths = getResolvedPaths(directory, config)
+  const runtime = await createRuntimeLoader({
+    claudeDir: paths.claudeDir,
+    openCodeDir: paths.openCodeDir,
+    homeDir: config.loadUserAssets ? homedir() : "",
+    conversion: createConversionOptions(config),
+    naming: { namespaceSeparator: config.namespaceSeparator, onNameCollision: config.onNameCollision },
+    outputFormat: config.outputFormat,
+    verbose: config.verbose,
+    loaders: config.loaders,
+    watch: config.watch,
+    logger,
+  })
+
+  logger.info(
+    `Crosstrain plugin loaded - ${Object.keys(runtime.tools).length} skill tool(s)` +
+      (config.watch ? ", watching for changes" : "")
+  )
 
   // Define tools that wrap the CLI
-  const tools: Record<string, ToolDefinition> = {
+  const cliTools: Record<string, ToolDefinition> = {
     crosstrain: tool({
       description: `Run crosstrain CLI commands to convert Claude Code assets to OpenCode format.
 
@@ -166,6 +226,11 @@ Examples:
           return "Please provide a command. Run with '--help' for usage information."
         }
 
+        // Trusting remote code is the user's decision, not the model's
+        if (cmdArgs.some((arg) => arg === "--trust" || arg.startsWith("--trust="))) {
+          return "Refusing to run with --trust: only the user may trust a plugin's crosstrainer.js/ts. Ask them to run the command themselves or add the source to trustedSources."
+        }
+
         const result = runCLI(cmdArgs, directory, config.verbose)
 
         if (result.success) {
@@ -191,17 +256,23 @@ Examples:
         noUser: toolSchema.boolean().optional().describe("Skip user-level assets from ~/.claude"),
       },
       async execute(args: { dryRun?: boolean; verbose?: boolean; noUser?: boolean }) {
-        const cmdArgs = ["all"]
-        if (args.dryRun) cmdArgs.push("--dry-run")
-        if (args.verbose) cmdArgs.push("--verbose")
-        if (args.noUser) cmdArgs.push("--no-user")
-
-        const result = runCLI(cmdArgs, directory, config.verbose)
-
-        if (result.success) {
-          return result.output || "All assets converted successfully."
-        } else {
-          return `Conversion failed:\n\n${result.error || result.output}`
+        try {
+          const result = await convertProject({
+            claudeDir: paths.claudeDir,
+            outputDir: paths.openCodeDir,
+            homeDir: args.noUser ? "" : homedir(),
+            prefix: config.filePrefix,
+            modelMappings: config.modelMappings,
+            toolMappings: config.toolMappings,
+            namespaceSeparator: config.namespaceSeparator,
+            onNameCollision: config.onNameCollision,
+            outputFormat: config.outputFormat,
+            dryRun: args.dryRun,
+            verbose: args.verbose,
+          })
+          return formatConversionResult(result, directory, args.dryRun ?? false)
+        } catch (err) {
+          return `Conversion failed:\n\n${err instanceof Error ? err.message : String(err)}`
         }
       },
     }),
@@ -214,16 +285,25 @@ Examples:
         verbose: toolSchema.boolean().optional().describe("Show detailed output"),
       },
       async execute(args: { source: string; dryRun?: boolean; verbose?: boolean }) {
-        const cmdArgs = ["plugin", args.source]
-        if (args.dryRun) cmdArgs.push("--dry-run")
-        if (args.verbose) cmdArgs.push("--verbose")
-
-        const result = runCLI(cmdArgs, directory, config.verbose)
-
-        if (result.success) {
-          return result.output || "Plugin converted successfully."
-        } else {
-          return `Plugin conversion failed:\n\n${result.error || result.output}`
+        // Local sources are relative to the project
+        const localSource = resolve(directory, args.source)
+        try {
+          const result = await convertPlugin(existsSync(localSource) ? localSource : args.source, {
+            outputDir: paths.openCodeDir,
+            homeDir: homedir(),
+            prefix: config.filePrefix,
+            modelMappings: config.modelMappings,
+            toolMappings: config.toolMappings,
+            namespaceSeparator: config.namespaceSeparator,
+            onNameCollision: config.onNameCollision,
+            outputFormat: config.outputFormat,
+            trustedSources: config.trustedSources,
+            dryRun: args.dryRun,
+            verbose: args.verbose,
+          })
+          return `Plugin: ${result.plugin.name}\n${formatConversionResult(result, directory, args.dryRun ?? false)}`
+        } catch (err) {
+          return `Plugin conversion failed:\n\n${err instanceof Error ? err.message : String(err)}`
         }
       },
     }),
@@ -370,17 +450,40 @@ Examples:
         noUser: toolSchema.boolean().optional().describe("Skip user-level settings from ~/.claude"),
       },
       async execute(args: { dryRun?: boolean; verbose?: boolean; noUser?: boolean }) {
-        const cmdArgs = ["settings"]
-        if (args.dryRun) cmdArgs.push("--dry-run")
-        if (args.verbose) cmdArgs.push("--verbose")
-        if (args.noUser) cmdArgs.push("--no-user")
+        try {
+          const result = await convertSettings({
+            claudeDir: paths.claudeDir,
+            outputDir: paths.openCodeDir,
+            loadUserSettings: !args.noUser,
+            modelMappings: config.modelMappings,
+            dryRun: args.dryRun,
+          })
+
+          const lines: string[] = []
+          if (args.verbose) {
+            const found = [
+              result.settings.userSettings && "~/.claude/settings.json",
+              result.settings.userLocalSettings && "~/.claude/settings.local.json",
+              result.settings.projectSettings && ".claude/settings.json",
+              result.settings.projectLocalSettings && ".claude/settings.local.json",
+            ].filter(Boolean)
+            lines.push(`Settings found: ${found.length > 0 ? found.join(", ") : "none"}`, "")
+          }
 
-        const result = runCLI(cmdArgs, directory, config.verbose)
+          const configPath = relative(directory, result.configPath)
+          if (args.dryRun) {
+            lines.push(`Would write ${configPath}:`, result.content)
+          } else {
+            lines.push(`Wrote ${configPath}`)
+          }
 
-        if (result.success) {
-          return result.output || "Settings imported successfully."
-        } else {
-          return `Settings import failed:\n\n${result.error || result.output}`
+          if (result.warnings.length > 0) {
+            lines.push("", "Settings with no OpenCode equivalent:")
+            lines.push(...result.warnings.map((warning) => `- ${warning.source}: ${warning.message}`))
+          }
+          return lines.join("\n")
+        } catch (err) {
+          return `Settings import failed:\n\n${err instanceof Error ? err.message : String(err)}`
         }
       },
     }),
@@ -395,9 +498,12 @@ Examples:
     }),
   }
 
-  // Return the plugin interface with just the tools
+  // Skill tools and CLI tools share one object so skill reloads are visible
+  const tools = Object.assign(runtime.tools, cliTools)
+
   return {
     tool: tools,
+    ...runtime.hooks,
   }
 }
 
@@ -10,9 +10,12 @@
  * Mapping strategy:
  * - Claude `name` → OpenCode filename (already matches)
  * - Claude `description` → OpenCode `description`
- * - Claude `tools` (comma-separated) → OpenCode `tools` (object with boolean values)
+ * - Claude `tools` (comma-separated) → OpenCode `tools` (object with boolean values),
+ *   mapped through the tool catalog (see ./tools)
  * - Claude `model` (alias) → OpenCode `model` (full model path)
- * - Claude `permissionMode` → OpenCode `permission` object
+ * - Claude `permissionMode` → OpenCode `permission` object, plus any
+ *   configured permission rules (see ./permissions); Bash(...) entries in
+ *   `tools` limit `permission.bash` to the commands they name
  * - Claude system prompt → OpenCode system prompt
  * - All Claude subagents become OpenCode subagents (mode: subagent)
  */
@@ -23,9 +26,10 @@ import { writeFile, mkdir } from "fs/promises"
 import type {
   ClaudeAgent,
   ClaudeAgentFrontmatter,
+  ConversionOptions,
   OpenCodeAgentFrontmatter,
 } from "../types"
-import { MODEL_MAPPING, TOOL_MAPPING, PERMISSION_MODE_MAPPING } from "../types"
+import { PERMISSION_MODE_MAPPING } from "../types"
 import {
   parseMarkdownWithFrontmatter,
   serializeMarkdownWithFrontmatter,
@@ -34,27 +38,49 @@ import {
   extractNameFromPath,
   parseCommaSeparated,
 } from "../utils/parser"
+import { reportDiagnostic, type DiagnosticOptions } from "../utils/diagnostics"
+import { getNamespacedName, resolveNameCollisions, type NamingOptions } from "../utils/naming"
+import { createConversionOptions, mapModelName } from "../utils/config"
+import { mapClaudeTools, restrictToTools } from "./tools"
+import { convertPermissionRules, restrictBashToTools, type OpenCodePermission } from "./permissions"
+import { validateMarkdownFrontmatter, type FrontmatterSchema } from "./validation"
+
+/**
+ * Frontmatter accepted in Claude Code agent files
+ */
+export const AGENT_FRONTMATTER_SCHEMA: FrontmatterSchema = {
+  kind: "agent",
+  knownKeys: ["name", "description", "tools", "model", "permissionMode", "skills", "color"],
+  requireDescription: "error",
+  toolKeys: ["tools"],
+  enumKeys: { permissionMode: Object.keys(PERMISSION_MODE_MAPPING) },
+}
 
 /**
  * Discover all Claude Code agents
+ *
+ * Agents in subdirectories are namespaced by them (agent "security" in
+ * agents/review/ becomes "review_security"); names that still collide are
+ * renamed, see resolveNameCollisions.
  */
 export async function discoverAgents(
   claudeDir: string,
-  homeDir: string
+  homeDir: string,
+  options: DiagnosticOptions & NamingOptions = {}
 ): Promise<ClaudeAgent[]> {
   const agents: ClaudeAgent[] = []
 
   // Check project-level agents (.claude/agents/)
   const projectAgentsDir = join(claudeDir, "agents")
   if (existsSync(projectAgentsDir)) {
-    const projectAgents = await loadAgentsFromDirectory(projectAgentsDir)
+    const projectAgents = await loadAgentsFromDirectory(projectAgentsDir, options)
     agents.push(...projectAgents)
   }
 
   // Check user-level agents (~/.claude/agents/)
   const userAgentsDir = join(homeDir, ".claude", "agents")
-  if (existsSync(userAgentsDir)) {
-    const userAgents = await loadAgentsFromDirectory(userAgentsDir)
+  if (homeDir && existsSync(userAgentsDir)) {
+    const userAgents = await loadAgentsFromDirectory(userAgentsDir, options)
     // Only add user agents that don't conflict with project agents
     for (const agent of userAgents) {
       if (!agents.find((a) => a.name === agent.name)) {
@@ -67,29 +93,40 @@ export async function discoverAgents(
 }
 
 /**
- * Load all agents from a directory
+ * Load all agents from a directory, with namespaced and unique names
  */
-async function loadAgentsFromDirectory(agentsDir: string): Promise<ClaudeAgent[]> {
+async function loadAgentsFromDirectory(
+  agentsDir: string,
+  options: DiagnosticOptions & NamingOptions
+): Promise<ClaudeAgent[]> {
   const agents: ClaudeAgent[] = []
   const agentFiles = await getMarkdownFiles(agentsDir, true)
 
   for (const filePath of agentFiles) {
-    const agent = await loadAgent(filePath)
+    const agent = await loadAgent(filePath, options)
     if (agent) {
+      agent.name = getNamespacedName(agent.name, filePath, agentsDir, options.namespaceSeparator)
       agents.push(agent)
     }
   }
 
-  return agents
+  return resolveNameCollisions("agent", agents, options)
 }
 
 /**
  * Load a single agent from a file
  */
-async function loadAgent(filePath: string): Promise<ClaudeAgent | null> {
+async function loadAgent(
+  filePath: string,
+  options: DiagnosticOptions
+): Promise<ClaudeAgent | null> {
   try {
     const content = await readTextFile(filePath)
-    const parsed = parseMarkdownWithFrontmatter<ClaudeAgentFrontmatter>(content)
+    const parsed = options.diagnostics
+      ? validateMarkdownFrontmatter<ClaudeAgentFrontmatter>(
+          filePath, content, AGENT_FRONTMATTER_SCHEMA, options.diagnostics
+        )
+      : parseMarkdownWithFrontmatter<ClaudeAgentFrontmatter>(content)
 
     const name = parsed.frontmatter.name || extractNameFromPath(filePath)
 
@@ -104,16 +141,24 @@ async function loadAgent(filePath: string): Promise<ClaudeAgent | null> {
       filePath,
     }
   } catch (error) {
-    console.error(`Error loading agent from ${filePath}:`, error)
+    if (options.diagnostics) {
+      reportDiagnostic(options.diagnostics, filePath, undefined, "error", "read-error", String(error))
+    } else {
+      console.error(`Error loading agent from ${filePath}:`, error)
+    }
     return null
   }
 }
 
 /**
  * Convert a Claude agent to OpenCode agent frontmatter
+ *
+ * Tools that could not be mapped are added to `warnings`.
  */
 export function convertAgentFrontmatter(
-  agent: ClaudeAgent
+  agent: ClaudeAgent,
+  options: ConversionOptions = createConversionOptions(),
+  warnings: string[] = []
 ): OpenCodeAgentFrontmatter {
   const frontmatter: OpenCodeAgentFrontmatter = {
     description: agent.description,
@@ -121,43 +166,38 @@ export function convertAgentFrontmatter(
   }
 
   // Map model alias to full model path
+  // Unmapped models are assumed to be full paths; inherit leaves it unset
   if (agent.model) {
-    const mappedModel = MODEL_MAPPING[agent.model.toLowerCase()]
-    if (mappedModel !== undefined) {
-      // Empty string means inherit, so we don't set the model
-      if (mappedModel !== "") {
-        frontmatter.model = mappedModel
-      }
-    } else {
-      // Assume it's already a full model path
-      frontmatter.model = agent.model
+    const mappedModel = mapModelName(agent.model, options)
+    if (mappedModel) {
+      frontmatter.model = mappedModel
     }
   }
 
   // Map tools from comma-separated to object
   if (agent.tools && agent.tools.length > 0) {
-    frontmatter.tools = {}
-    for (const tool of agent.tools) {
-      // Map Claude tool names to OpenCode tool names
-      const mappedTool = TOOL_MAPPING[tool] || tool.toLowerCase()
-      frontmatter.tools[mappedTool] = true
-    }
-    // Disable tools that are not explicitly listed
-    // This mimics Claude's behavior where listing tools restricts to only those
-    const allTools = ["read", "write", "edit", "bash", "grep", "glob", "webfetch"]
-    for (const tool of allTools) {
-      if (!(tool in frontmatter.tools)) {
-        frontmatter.tools[tool] = false
-      }
+    const mapped = mapClaudeTools(agent.tools, options)
+    warnings.push(...mapped.warnings)
+
+    // "*" allows every tool, so there is nothing to restrict
+    if (!mapped.tools.includes("*")) {
+      frontmatter.tools = restrictToTools(mapped.tools, options)
     }
   }
 
-  // Map permission mode
-  if (agent.permissionMode) {
-    const mappedPermissions = PERMISSION_MODE_MAPPING[agent.permissionMode]
-    if (mappedPermissions && Object.keys(mappedPermissions).length > 0) {
-      frontmatter.permission = mappedPermissions
-    }
+  // Map permission mode, then apply configured rules on top
+  let permission: OpenCodePermission | undefined = agent.permissionMode
+    ? options.permissionModes?.[agent.permissionMode] ?? PERMISSION_MODE_MAPPING[agent.permissionMode]
+    : undefined
+  if (options.permissionRules) {
+    permission = convertPermissionRules(options.permissionRules, permission, warnings)
+  }
+  // Bash(git diff:*) in tools limits the commands the agent may run
+  if (frontmatter.tools) {
+    permission = restrictBashToTools(agent.tools!, permission)
+  }
+  if (permission && Object.keys(permission).length > 0) {
+    frontmatter.permission = permission
   }
 
   return frontmatter
@@ -166,8 +206,12 @@ export function convertAgentFrontmatter(
 /**
  * Generate OpenCode agent markdown content
  */
-export function generateOpenCodeAgent(agent: ClaudeAgent): string {
-  const frontmatter = convertAgentFrontmatter(agent)
+export function generateOpenCodeAgent(
+  agent: ClaudeAgent,
+  options: ConversionOptions = createConversionOptions(),
+  warnings: string[] = []
+): string {
+  const frontmatter = convertAgentFrontmatter(agent, options, warnings)
 
   // Add a note about the source
   let systemPrompt = agent.systemPrompt
@@ -177,7 +221,7 @@ export function generateOpenCodeAgent(agent: ClaudeAgent): string {
     systemPrompt += `\n\n## Available Skills\n\n`
     systemPrompt += `This agent has access to the following skills (tools):\n`
     for (const skill of agent.skills) {
-      const toolName = `skill_${skill.toLowerCase().replace(/-/g, "_")}`
+      const toolName = options.skillToolNames?.[skill] ?? `skill_${skill.toLowerCase().replace(/-/g, "_")}`
       systemPrompt += `- \`${toolName}\`: Use when relevant to invoke the ${skill} skill\n`
     }
   }
@@ -196,6 +240,8 @@ export interface WriteAgentsOptions {
   filePrefix?: string
   /** Whether to log output */
   verbose?: boolean
+  /** Model and tool mappings (default: built-in mappings) */
+  conversion?: ConversionOptions
 }
 
 /**
@@ -214,7 +260,11 @@ export async function writeOpenCodeAgents(
   await mkdir(agentsDir, { recursive: true })
 
   for (const agent of agents) {
-    const agentContent = generateOpenCodeAgent(agent)
+    const warnings: string[] = []
+    const agentContent = generateOpenCodeAgent(agent, options?.conversion, warnings)
+    for (const warning of warnings) {
+      console.warn(`[crosstrain] ${agent.filePath}: ${warning}`)
+    }
     const fileName = `${prefix}${agent.name}.md`
     const filePath = join(agentsDir, fileName)
 
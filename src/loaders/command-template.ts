@@ -0,0 +1,274 @@
+/**
+ * Command Templates - Translates Claude Code command templates to OpenCode
+ *
+ * The template syntaxes look alike but behave differently:
+ * - `$ARGUMENTS` is the same in both
+ * - `$1..$n`: in OpenCode the highest placeholder takes every remaining
+ *   argument, not only the nth
+ * - `@file` is resolved against the working directory by Claude Code and
+ *   against the project root by OpenCode
+ * - `` !`cmd` `` only runs in Claude Code when `allowed-tools` allows Bash
+ *   for it; OpenCode always runs it, so other commands become code spans
+ * - `/other-command` references must use the converted command names, and
+ *   the model cannot run them in OpenCode
+ *
+ * The template is split into tokens, each token is rewritten to its OpenCode
+ * equivalent, and constructs that cannot be translated faithfully are
+ * reported with their template line. Placeholders and shell commands are
+ * recognized in code spans and fenced blocks, since both tools substitute
+ * and run them there; file and command references are not.
+ */
+
+import { getClaudeToolName } from "./tools"
+
+/**
+ * Kinds of template tokens
+ */
+export type TemplateTokenKind = "text" | "arguments" | "positional" | "file" | "shell" | "command"
+
+/**
+ * A piece of a command template
+ */
+export interface TemplateToken {
+  kind: TemplateTokenKind
+  /** Source text of the token */
+  raw: string
+  /** Template line the token starts on, from 1 */
+  line: number
+  /** Argument number, file path, shell command or command name */
+  value?: string
+  /** A shell command without its closing backtick */
+  unterminated?: boolean
+}
+
+/**
+ * A construct that could not be translated faithfully
+ */
+export interface TemplateIssue {
+  line: number
+  message: string
+}
+
+/**
+ * Options for translating a template
+ */
+export interface TemplateTranslationOptions {
+  /** The command's allowed-tools, deciding whether Claude Code runs shell commands */
+  allowedTools?: string[]
+  /** OpenCode names of converted commands, by the name Claude Code invokes them with */
+  commandNames?: Record<string, string>
+}
+
+/** Characters that may come before an @file or /command reference */
+const REFERENCE_BOUNDARY = /[\s("'[{]/
+
+/** Shell control operators, substitutions and redirections that chain further commands */
+const SHELL_CONTROL = /[;&|<>`\n]|\$\(/
+
+/** Trailing punctuation that ends a sentence rather than a path */
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/
+
+/**
+ * Split a command template into tokens
+ */
+export function tokenizeCommandTemplate(template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = []
+  let line = 1
+  let text = ""
+  let textLine = 1
+  let inFence = false
+  let inCode = false
+
+  const flush = () => {
+    if (text) {
+      tokens.push({ kind: "text", raw: text, line: textLine })
+      text = ""
+    }
+  }
+  const push = (token: Omit<TemplateToken, "line">) => {
+    flush()
+    tokens.push({ ...token, line })
+    textLine = line
+  }
+  const append = (chunk: string) => {
+    if (!text) {
+      textLine = line
+    }
+    text += chunk
+    line += chunk.split("\n").length - 1
+  }
+
+  let i = 0
+  while (i < template.length) {
+    const rest = template.slice(i)
+    const previous = i > 0 ? template[i - 1] : "\n"
+
+    // Fence lines toggle code blocks and are copied as they are
+    if (previous === "\n" && /^(```|~~~)/.test(rest)) {
+      const end = rest.indexOf("\n")
+      const fenceLine = end === -1 ? rest : rest.slice(0, end + 1)
+      inFence = !inFence
+      append(fenceLine)
+      i += fenceLine.length
+      continue
+    }
+
+    const placeholder = rest.match(/^\$(ARGUMENTS\b|[1-9]\d*)/)
+    if (placeholder) {
+      push(placeholder[1] === "ARGUMENTS"
+        ? { kind: "arguments", raw: placeholder[0] }
+        : { kind: "positional", raw: placeholder[0], value: placeholder[1] })
+      i += placeholder[0].length
+      continue
+    }
+
+    if (rest.startsWith("!`")) {
+      const end = rest.indexOf("`", 2)
+      const newline = rest.indexOf("\n")
+      if (end === -1 || (newline !== -1 && newline < end)) {
+        const raw = newline === -1 ? rest : rest.slice(0, newline)
+        push({ kind: "shell", raw, value: raw.slice(2), unterminated: true })
+        i += raw.length
+      } else {
+        push({ kind: "shell", raw: rest.slice(0, end + 1), value: rest.slice(2, end) })
+        i += end + 1
+      }
+      continue
+    }
+
+    if (!inFence && rest[0] === "`") {
+      inCode = !inCode
+      append("`")
+      i++
+      continue
+    }
+    if (rest[0] === "\n") {
+      inCode = false
+    }
+
+    if (!inFence && !inCode && REFERENCE_BOUNDARY.test(previous)) {
+      const file = rest.match(/^@([^\s`'"()<>[\]{},;]+)/)
+      if (file) {
+        const path = file[1].replace(TRAILING_PUNCTUATION, "")
+        if (path) {
+          push({ kind: "file", raw: `@${path}`, value: path })
+          i += path.length + 1
+          continue
+        }
+      }
+
+      const command = rest.match(/^\/([A-Za-z][\w:-]*)(?![\w/]|\.\w)/)
+      if (command) {
+        push({ kind: "command", raw: command[0], value: command[1] })
+        i += command[0].length
+        continue
+      }
+    }
+
+    append(rest[0])
+    i++
+  }
+
+  flush()
+  return tokens
+}
+
+/**
+ * Check whether allowed-tools lets Claude Code run a shell command
+ *
+ * `Bash` allows every command, `Bash(git status)` that command, and
+ * `Bash(git:*)` "git" and every command starting with "git ". Like Claude
+ * Code, rules never match a command that chains or redirects to others.
+ */
+export function isShellCommandAllowed(command: string, allowedTools: string[]): boolean {
+  return allowedTools.some((entry) => {
+    if (getClaudeToolName(entry) !== "Bash") {
+      return false
+    }
+    const rule = entry.match(/\((.*)\)$/)?.[1]?.trim()
+    if (!rule || rule === "*") {
+      return true
+    }
+    if (SHELL_CONTROL.test(command)) {
+      return false
+    }
+    if (!rule.endsWith(":*")) {
+      return command.trim() === rule
+    }
+    const prefix = rule.slice(0, -2).trim()
+    return command.trim() === prefix || command.trim().startsWith(`${prefix} `)
+  })
+}
+
+/**
+ * Translate a Claude Code command template to OpenCode
+ */
+export function translateCommandTemplate(
+  template: string,
+  options: TemplateTranslationOptions = {}
+): { template: string; issues: TemplateIssue[] } {
+  const tokens = tokenizeCommandTemplate(template)
+  const issues: TemplateIssue[] = []
+  let output = ""
+
+  for (const token of tokens) {
+    switch (token.kind) {
+      case "file": {
+        const path = token.value!.replace(/^\.\//, "")
+        if (path.startsWith("../")) {
+          issues.push({
+            line: token.line,
+            message: `@${path} is outside the project; OpenCode resolves it against the project root, not the working directory`,
+          })
+        }
+        output += `@${path}`
+        break
+      }
+
+      case "shell":
+        if (token.unterminated) {
+          issues.push({ line: token.line, message: `Shell command ${token.raw} has no closing backtick and is left as text` })
+          output += token.raw
+        } else if (!isShellCommandAllowed(token.value!, options.allowedTools ?? [])) {
+          // Claude Code would not run it, so OpenCode must not either
+          issues.push({
+            line: token.line,
+            message: `${token.raw} became a code span and does not run: allowed-tools does not allow Bash for it`,
+          })
+          output += token.raw.slice(1)
+        } else {
+          output += token.raw
+        }
+        break
+
+      case "command": {
+        const name = options.commandNames?.[token.value!]
+        if (name) {
+          issues.push({
+            line: token.line,
+            message: `${token.raw} was renamed to /${name}; the model cannot run commands in OpenCode`,
+          })
+          output += `/${name}`
+        } else {
+          output += token.raw
+        }
+        break
+      }
+
+      default:
+        output += token.raw
+    }
+  }
+
+  // The highest positional placeholder takes the remaining arguments in OpenCode
+  const positionals = tokens.filter((token) => token.kind === "positional")
+  if (positionals.length > 0) {
+    const last = positionals.reduce((max, token) => (Number(token.value) > Number(max.value) ? token : max))
+    issues.push({
+      line: last.line,
+      message: `${last.raw} takes all remaining arguments in OpenCode, not only argument ${last.value}`,
+    })
+  }
+
+  return { template: output, issues: issues.sort((a, b) => a.line - b.line) }
+}
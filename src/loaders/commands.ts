@@ -10,10 +10,18 @@
  *
  * Mapping strategy:
  * - Claude `description` → OpenCode `description`
- * - Claude template content → OpenCode template content (mostly compatible)
- * - Both support $ARGUMENTS and positional params ($1, $2, etc.)
- * - Both support file references (@filepath)
- * - Both support shell output injection (!`command`)
+ * - OpenCode `agent` and `subtask` are inferred, see getCommandRouting
+ * - Claude `argument-hint` → appended to the OpenCode `description`
+ * - Claude `model` (alias) → OpenCode `model` (full model path)
+ * - Claude `allowed-tools` → a generated agent the command runs with,
+ *   whose `tools` and `permission.bash` enforce the list, since OpenCode
+ *   commands cannot restrict tools themselves; an instruction in the
+ *   template when the command runs with another agent
+ * - Claude `disable-model-invocation` → nothing; OpenCode commands are
+ *   only run by the user
+ * - Claude template content → OpenCode template content, translated by
+ *   translateCommandTemplate; constructs that behave differently in
+ *   OpenCode are reported with their template line
  */
 
 import { join } from "path"
@@ -22,6 +30,8 @@ import { writeFile, mkdir } from "fs/promises"
 import type {
   ClaudeCommand,
   ClaudeCommandFrontmatter,
+  ConversionOptions,
+  OpenCodeAgentFrontmatter,
   OpenCodeCommandFrontmatter,
 } from "../types"
 import {
@@ -30,28 +40,51 @@ import {
   readTextFile,
   getMarkdownFiles,
   extractNameFromPath,
+  parseCommaSeparated,
 } from "../utils/parser"
+import { reportDiagnostic, type DiagnosticOptions } from "../utils/diagnostics"
+import { getNamespacedName, resolveNameCollisions, type NamingOptions } from "../utils/naming"
+import { createConversionOptions, mapModelName } from "../utils/config"
+import { getClaudeToolName, mapClaudeTools, restrictToTools } from "./tools"
+import { restrictBashToTools } from "./permissions"
+import { translateCommandTemplate, type TemplateTranslationOptions } from "./command-template"
+import { validateMarkdownFrontmatter, type FrontmatterSchema } from "./validation"
+
+/**
+ * Frontmatter accepted in Claude Code command files
+ */
+export const COMMAND_FRONTMATTER_SCHEMA: FrontmatterSchema = {
+  kind: "command",
+  knownKeys: ["description", "allowed-tools", "argument-hint", "model", "disable-model-invocation"],
+  requireDescription: "warning",
+  toolKeys: ["allowed-tools"],
+}
 
 /**
  * Discover all Claude Code commands
+ *
+ * Commands in subdirectories are namespaced by them ("frontend/test.md"
+ * becomes "frontend_test"); names that still collide are renamed, see
+ * resolveNameCollisions.
  */
 export async function discoverCommands(
   claudeDir: string,
-  homeDir: string
+  homeDir: string,
+  options: DiagnosticOptions & NamingOptions = {}
 ): Promise<ClaudeCommand[]> {
   const commands: ClaudeCommand[] = []
 
   // Check project-level commands (.claude/commands/)
   const projectCommandsDir = join(claudeDir, "commands")
   if (existsSync(projectCommandsDir)) {
-    const projectCommands = await loadCommandsFromDirectory(projectCommandsDir)
+    const projectCommands = await loadCommandsFromDirectory(projectCommandsDir, options)
     commands.push(...projectCommands)
   }
 
   // Check user-level commands (~/.claude/commands/)
   const userCommandsDir = join(homeDir, ".claude", "commands")
-  if (existsSync(userCommandsDir)) {
-    const userCommands = await loadCommandsFromDirectory(userCommandsDir)
+  if (homeDir && existsSync(userCommandsDir)) {
+    const userCommands = await loadCommandsFromDirectory(userCommandsDir, options)
     // Only add user commands that don't conflict with project commands
     for (const command of userCommands) {
       if (!commands.find((c) => c.name === command.name)) {
@@ -64,51 +97,165 @@ export async function discoverCommands(
 }
 
 /**
- * Load all commands from a directory
+ * Load all commands from a directory, with namespaced and unique names
  */
 async function loadCommandsFromDirectory(
-  commandsDir: string
+  commandsDir: string,
+  options: DiagnosticOptions & NamingOptions
 ): Promise<ClaudeCommand[]> {
   const commands: ClaudeCommand[] = []
   const commandFiles = await getMarkdownFiles(commandsDir, true)
 
   for (const filePath of commandFiles) {
-    const command = await loadCommand(filePath)
+    const command = await loadCommand(filePath, options)
     if (command) {
+      command.invocation = getNamespacedName(command.name, filePath, commandsDir, ":")
+      command.name = getNamespacedName(command.name, filePath, commandsDir, options.namespaceSeparator)
       commands.push(command)
     }
   }
 
-  return commands
+  return resolveNameCollisions("command", commands, options)
 }
 
 /**
  * Load a single command from a file
  */
-async function loadCommand(filePath: string): Promise<ClaudeCommand | null> {
+async function loadCommand(
+  filePath: string,
+  options: DiagnosticOptions
+): Promise<ClaudeCommand | null> {
   try {
     const content = await readTextFile(filePath)
-    const parsed = parseMarkdownWithFrontmatter<ClaudeCommandFrontmatter>(content)
+    const parsed = options.diagnostics
+      ? validateMarkdownFrontmatter<ClaudeCommandFrontmatter>(
+          filePath, content, COMMAND_FRONTMATTER_SCHEMA, options.diagnostics
+        )
+      : parseMarkdownWithFrontmatter<ClaudeCommandFrontmatter>(content)
 
     const name = extractNameFromPath(filePath)
 
     return {
       name,
       description: parsed.frontmatter.description,
+      allowedTools: parseCommaSeparated(parsed.frontmatter["allowed-tools"]),
+      argumentHint: parseArgumentHint(parsed.frontmatter["argument-hint"]),
+      model: parsed.frontmatter.model,
+      disableModelInvocation: parsed.frontmatter["disable-model-invocation"],
       template: parsed.content,
       filePath,
     }
   } catch (error) {
-    console.error(`Error loading command from ${filePath}:`, error)
+    if (options.diagnostics) {
+      reportDiagnostic(options.diagnostics, filePath, undefined, "error", "read-error", String(error))
+    } else {
+      console.error(`Error loading command from ${filePath}:`, error)
+    }
     return null
   }
 }
 
+/**
+ * Normalize an argument-hint
+ *
+ * Unquoted hints such as `[message]` parse as YAML lists; they are turned
+ * back into the bracketed text that was written.
+ */
+export function parseArgumentHint(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map((arg) => `[${arg}]`).join(" ") : undefined
+  }
+  return value?.trim() || undefined
+}
+
+/**
+ * Claude Code tools that neither change files nor run commands
+ */
+const READ_ONLY_TOOLS: ReadonlySet<string> = new Set([
+  "Glob",
+  "Grep",
+  "LS",
+  "NotebookRead",
+  "Read",
+  "TodoWrite",
+  "WebFetch",
+  "WebSearch",
+])
+
+/**
+ * Check whether allowed-tools only lists tools that neither change files
+ * nor run commands
+ */
+function onlyReads(allowedTools: string[]): boolean {
+  return allowedTools.length > 0 && allowedTools.every((tool) => READ_ONLY_TOOLS.has(getClaudeToolName(tool)))
+}
+
+/**
+ * Matches "use the X subagent" in a command template
+ */
+const SUBAGENT_MENTION = /\buse\s+(?:the\s+)?[`"'*]*([\w:-]+)[`"'*]*\s+sub-?agent\b/gi
+
+/**
+ * Agent a converted command runs with
+ */
+export interface CommandRouting {
+  agent: string
+  /** Run in a separate session instead of the current one, or not even with a subagent */
+  subtask?: boolean
+  /** Why the agent was chosen, for verbose output */
+  reason: string
+}
+
+/**
+ * Choose the agent a command runs with
+ *
+ * In order:
+ * - a template that says "use the X subagent" runs as a subtask of the
+ *   converted agent X, when X is in `agentNames`
+ * - read-only `allowed-tools` run with `plan`, which cannot edit
+ * - other `allowed-tools` run, in the current session, with the agent
+ *   generated to enforce them (see convertCommandToolsAgentFrontmatter)
+ * - otherwise the configured default agent, or `build`
+ */
+export function getCommandRouting(
+  command: ClaudeCommand,
+  options: ConversionOptions = createConversionOptions()
+): CommandRouting {
+  for (const match of command.template.matchAll(SUBAGENT_MENTION)) {
+    const agent = options.agentNames?.[match[1]]
+    if (agent) {
+      return { agent, subtask: true, reason: `the template asks for the "${match[1]}" subagent` }
+    }
+  }
+
+  const tools = command.allowedTools ?? []
+  if (onlyReads(tools)) {
+    return { agent: "plan", reason: `allowed-tools only reads (${tools.join(", ")})` }
+  }
+
+  if (convertCommandToolsAgentFrontmatter(command, options)) {
+    return {
+      agent: `${options.filePrefix}${getCommandToolsAgentName(command)}`,
+      subtask: false,
+      reason: `a generated agent enforces allowed-tools (${tools.join(", ")})`,
+    }
+  }
+
+  if (options.defaultAgent) {
+    return { agent: options.defaultAgent, reason: "commands.defaultAgent" }
+  }
+  return { agent: "build", reason: "default agent" }
+}
+
 /**
  * Convert a Claude command to OpenCode command frontmatter
+ *
+ * Frontmatter with no OpenCode equivalent is reported in `warnings`.
  */
 export function convertCommandFrontmatter(
-  command: ClaudeCommand
+  command: ClaudeCommand,
+  options: ConversionOptions = createConversionOptions(),
+  warnings: string[] = []
 ): OpenCodeCommandFrontmatter {
   const frontmatter: OpenCodeCommandFrontmatter = {}
 
@@ -118,34 +265,168 @@ export function convertCommandFrontmatter(
     frontmatter.description = `Claude Code command: ${command.name}`
   }
 
-  // Default to build agent for commands that might make changes
-  frontmatter.agent = "build"
+  // OpenCode has no argument docs, so the hint goes into the description
+  if (command.argumentHint) {
+    frontmatter.description += ` (arguments: ${command.argumentHint})`
+  }
+
+  const routing = getCommandRouting(command, options)
+  frontmatter.agent = routing.agent
+  if (routing.subtask !== undefined) {
+    frontmatter.subtask = routing.subtask
+  }
+
+  if (command.model) {
+    const mappedModel = mapModelName(command.model, options)
+    if (mappedModel) {
+      frontmatter.model = mappedModel
+    }
+  }
+
+  if (command.allowedTools && command.allowedTools.length > 0) {
+    warnings.push(...mapClaudeTools(command.allowedTools, options).warnings)
+    warnings.push(isEnforcedByToolsAgent(command, options)
+      ? `allowed-tools is not enforced by OpenCode commands; the generated agent ${routing.agent} enforces it`
+      : "allowed-tools is not enforced by OpenCode commands; it was added to the prompt as an instruction")
+  }
+
+  // Claude Code commands may be run by the model unless this is set; in
+  // OpenCode only the user can run them, which matches `true`
+  if (command.disableModelInvocation === false) {
+    warnings.push("disable-model-invocation: false has no OpenCode equivalent; OpenCode commands are only run by the user")
+  }
 
   return frontmatter
 }
 
 /**
- * Convert Claude command template syntax to OpenCode format
+ * Name of the agent that enforces a command's allowed-tools, without the
+ * file prefix
+ */
+export function getCommandToolsAgentName(command: ClaudeCommand): string {
+  return `${command.name}_tools`
+}
+
+/**
+ * Frontmatter of an agent that enforces a command's allowed-tools, or
+ * null when they are empty, allow every tool, or only read
  *
- * Both systems are largely compatible, but we handle edge cases:
- * - Both use $ARGUMENTS and $1, $2, etc.
- * - Both use @filepath for file references
- * - Both use !`command` for shell output
+ * The listed tools are enabled and the rest of the catalog disabled. Bash
+ * rules such as Bash(git diff:*) become a permission.bash pattern map that
+ * denies every other command.
  */
-export function convertCommandTemplate(template: string): string {
-  // The syntax is largely compatible between Claude Code and OpenCode
-  // No major transformations needed at this time
+export function convertCommandToolsAgentFrontmatter(
+  command: ClaudeCommand,
+  options: ConversionOptions = createConversionOptions()
+): OpenCodeAgentFrontmatter | null {
+  const allowedTools = command.allowedTools ?? []
+  if (allowedTools.length === 0 || onlyReads(allowedTools)) {
+    return null
+  }
+  const { tools } = mapClaudeTools(allowedTools, options)
+  if (tools.length === 0 || tools.includes("*")) {
+    return null
+  }
 
-  // Add source attribution as a comment that won't affect the prompt
-  return template
+  const frontmatter: OpenCodeAgentFrontmatter = {
+    description: `Runs the ${command.name} command with the tools its allowed-tools lists`,
+    mode: "subagent",
+    tools: restrictToTools(tools, options),
+  }
+  const { bash } = restrictBashToTools(allowedTools)
+  if (bash) {
+    frontmatter.permission = { bash }
+  }
+  return frontmatter
+}
+
+/**
+ * Check whether a command runs with the agent generated for its allowed-tools
+ */
+function isEnforcedByToolsAgent(command: ClaudeCommand, options: ConversionOptions): boolean {
+  return getCommandRouting(command, options).agent === `${options.filePrefix}${getCommandToolsAgentName(command)}`
+}
+
+/**
+ * Generate the agent that enforces a command's allowed-tools, or null
+ * when the command does not run with one
+ */
+export function generateCommandToolsAgent(
+  command: ClaudeCommand,
+  options: ConversionOptions = createConversionOptions()
+): string | null {
+  const frontmatter = convertCommandToolsAgentFrontmatter(command, options)
+  if (!frontmatter || !isEnforcedByToolsAgent(command, options)) {
+    return null
+  }
+  const prompt = `Carry out the ${command.name} command. Only the tools its allowed-tools lists are available.\n\n---\n*[Loaded from Claude Code: ${command.filePath} (allowed-tools)]*`
+  return serializeMarkdownWithFrontmatter({ ...frontmatter }, prompt)
+}
+
+/**
+ * Instruction listing the OpenCode tools a command may use, or "" if
+ * unrestricted or enforced by a generated agent
+ */
+export function getCommandAllowedToolsNote(
+  command: ClaudeCommand,
+  options: ConversionOptions = createConversionOptions()
+): string {
+  if (!command.allowedTools || command.allowedTools.length === 0 || isEnforcedByToolsAgent(command, options)) {
+    return ""
+  }
+  const { tools } = mapClaudeTools(command.allowedTools, options)
+  if (tools.length === 0 || tools.includes("*")) {
+    return ""
+  }
+  return `Only use these tools for this command: ${tools.join(", ")}`
+}
+
+/**
+ * OpenCode names of converted commands, by their Claude Code invocation
+ */
+export function getCommandNames(commands: ClaudeCommand[], filePrefix: string): Record<string, string> {
+  return Object.fromEntries(
+    commands.map((command) => [command.invocation ?? command.name, `${filePrefix}${command.name}`])
+  )
+}
+
+/**
+ * Convert Claude command template syntax to OpenCode format
+ *
+ * References to commands in `commandNames` are renamed. Constructs that
+ * behave differently in OpenCode are added to `warnings` with their line.
+ */
+export function convertCommandTemplate(
+  template: string,
+  options: TemplateTranslationOptions = {},
+  warnings: string[] = []
+): string {
+  const translated = translateCommandTemplate(template, options)
+  for (const issue of translated.issues) {
+    warnings.push(`template line ${issue.line}: ${issue.message}`)
+  }
+  return translated.template
 }
 
 /**
  * Generate OpenCode command markdown content
  */
-export function generateOpenCodeCommand(command: ClaudeCommand): string {
-  const frontmatter = convertCommandFrontmatter(command)
-  let template = convertCommandTemplate(command.template)
+export function generateOpenCodeCommand(
+  command: ClaudeCommand,
+  options: ConversionOptions = createConversionOptions(),
+  warnings: string[] = []
+): string {
+  const frontmatter = convertCommandFrontmatter(command, options, warnings)
+  let template = convertCommandTemplate(
+    command.template,
+    { allowedTools: command.allowedTools, commandNames: options.commandNames },
+    warnings
+  )
+
+  const allowedTools = getCommandAllowedToolsNote(command, options)
+  if (allowedTools) {
+    template += `\n\n${allowedTools}`
+  }
 
   // Add source attribution
   template += `\n\n---\n*[Loaded from Claude Code: ${command.filePath}]*`
@@ -161,10 +442,13 @@ export interface WriteCommandsOptions {
   filePrefix?: string
   /** Whether to log output */
   verbose?: boolean
+  /** Model mappings (default: built-in mappings) */
+  conversion?: ConversionOptions
 }
 
 /**
- * Write converted commands to OpenCode directory
+ * Write converted commands, and the agents enforcing their allowed-tools,
+ * to the OpenCode directory
  */
 export async function writeOpenCodeCommands(
   commands: ClaudeCommand[],
@@ -175,17 +459,34 @@ export async function writeOpenCodeCommands(
   const prefix = options?.filePrefix ?? "claude_"
   const verbose = options?.verbose ?? true
 
+  const conversion = options?.conversion ?? createConversionOptions()
+  const commandConversion = {
+    ...conversion,
+    commandNames: conversion.commandNames ?? getCommandNames(commands, prefix),
+  }
+
   // Ensure the directory exists
   await mkdir(commandsDir, { recursive: true })
 
   for (const command of commands) {
-    const commandContent = generateOpenCodeCommand(command)
+    const warnings: string[] = []
+    const commandContent = generateOpenCodeCommand(command, commandConversion, warnings)
+    for (const warning of warnings) {
+      console.warn(`[crosstrain] ${command.filePath}: ${warning}`)
+    }
     const fileName = `${prefix}${command.name}.md`
     const filePath = join(commandsDir, fileName)
 
     await writeFile(filePath, commandContent, "utf-8")
+
+    const toolsAgent = generateCommandToolsAgent(command, commandConversion)
+    if (toolsAgent) {
+      await mkdir(join(openCodeDir, "agent"), { recursive: true })
+      await writeFile(join(openCodeDir, "agent", `${prefix}${getCommandToolsAgentName(command)}.md`), toolsAgent, "utf-8")
+    }
     if (verbose) {
-      console.log(`[crosstrain] Wrote OpenCode command: ${filePath}`)
+      const routing = getCommandRouting(command, commandConversion)
+      console.log(`[crosstrain] Wrote OpenCode command: ${filePath} (agent ${routing.agent}: ${routing.reason})`)
     }
   }
 }
@@ -0,0 +1,1940 @@
+/**
+ * Convert Loader - Programmatic API for converting Claude Code assets
+ *
+ * The CLI's `all`, `plugin` and `settings` commands and the plugin's
+ * conversion tools are thin layers over these functions:
+ * - convertProject: a project's .claude/ directory (and ~/.claude)
+ * - convertPlugin: a Claude Code plugin from a local path or Git source
+ * - convertSettings: Claude Code settings → opencode.json
+ *
+ * They return structured results instead of printing, so build scripts can
+ * call them directly. Conversions are recorded in crosstrain.lock.json and
+ * unchanged assets are skipped. In dry-run mode nothing is written and
+ * `outputs` holds the content that would be written.
+ */
+
+import { join, dirname, basename, resolve } from "path"
+import { existsSync } from "fs"
+import { mkdir, writeFile } from "fs/promises"
+import type {
+  ClaudeAgent,
+  ClaudeCommand,
+  ClaudeHooksConfig,
+  ClaudeMCPServer,
+  ClaudeSettings,
+  ClaudeSkill,
+  ConversionOptions,
+  DiscoveredMCPServer,
+} from "../types"
+import { discoverSkills, getAllowedToolsNote } from "./skills"
+import { discoverAgents, generateOpenCodeAgent } from "./agents"
+import {
+  discoverCommands,
+  generateCommandToolsAgent,
+  generateOpenCodeCommand,
+  getCommandNames,
+  getCommandRouting,
+  getCommandToolsAgentName,
+  type CommandRouting,
+} from "./commands"
+import {
+  convertMCPServers,
+  getAllMCPServers,
+} from "./mcp"
+import {
+  convertClaudeSettingsToOpenCode,
+  discoverClaudeSettings,
+  getOpenCodeConfigPath,
+  loadOpenCodeConfig,
+  mergeOpenCodeConfigs,
+  readOpenCodeConfig,
+  toOpenCodeConfigEntry,
+  type OpenCodeConfig,
+} from "./settings-converter"
+import {
+  findCrosstrainerConfig,
+  loadCrosstrainerConfig,
+  loadProjectCrosstrainerConfig,
+  explainAssetFilter,
+  getAssetSubPath,
+  applyModelMapping,
+  applyPermissionRuleMapping,
+  applyHookTransform,
+  applyToolNameTemplate,
+  getEffectivePrefix,
+  getEffectivePluginName,
+  type AssetFilterConfig,
+  type AssetFilterDecision,
+  type FilterableAsset,
+  type ConversionContext,
+  type CrosstrainerConfig,
+  type LoadedCrosstrainerConfig,
+} from "./crosstrainer-config"
+import {
+  loadLockfile,
+  writeLockfile,
+  hashContent,
+  hashFile,
+  createConversionTracker,
+  type ConversionSummary,
+  type ConversionTracker,
+  type ConversionTrackerOptions,
+  type Lockfile,
+  type LockfileEntry,
+} from "../utils/lockfile"
+import { pruneEntries, pruneSupersededOutputs, type PruneResult } from "../utils/prune"
+import { cloneRepo, getRepoCommit, isRemoteSource, parseRemoteSource } from "../utils/git"
+import {
+  findTrustEntry,
+  isAllowListed,
+  loadTrustStore,
+  recordTrust,
+  writeTrustStore,
+  UntrustedConfigError,
+  type TrustReason,
+} from "../utils/trust"
+import { DEFAULT_NAMESPACE_SEPARATOR, type AssetRename, type NameCollisionPolicy, type NamingOptions } from "../utils/naming"
+import { readTextFile, serializeMarkdownWithFrontmatter } from "../utils/parser"
+import { createConversionOptions } from "../utils/config"
+
+/**
+ * Crosstrain version recorded in the lockfile
+ */
+export const CROSSTRAIN_VERSION = "0.0.4"
+
+/**
+ * Kinds of converted assets
+ */
+export type AssetKind = "command" | "agent" | "skill" | "mcp"
+
+/**
+ * Asset categories of a project that can be converted separately
+ */
+export type ProjectCategory = "commands" | "agents" | "skills" | "mcp"
+
+const PROJECT_CATEGORIES: ProjectCategory[] = ["commands", "agents", "skills", "mcp"]
+
+/**
+ * An asset that was converted (or would be, in dry-run mode)
+ */
+export interface ConvertedAsset {
+  kind: AssetKind
+  name: string
+  /** Source file the asset was read from */
+  source: string
+  /**
+   * Files written for the asset; MCP servers, and agents and commands
+   * written to opencode.json, are `<opencode.json>#<section>.<name>`
+   */
+  outputs: string[]
+}
+
+/**
+ * A file written (or that would be written in dry-run mode)
+ */
+export interface ConversionOutput {
+  /**
+   * Kind of asset the file belongs to; opencode.json, which several kinds
+   * merge into, is output once with the first of them
+   */
+  kind: AssetKind
+  path: string
+  content: string
+}
+
+/**
+ * Something that went wrong without stopping the conversion
+ */
+export interface ConversionWarning {
+  /** File or setting the warning is about */
+  source: string
+  message: string
+}
+
+/**
+ * An asset that was not converted
+ */
+export interface ConversionSkipped {
+  kind: AssetKind
+  name: string
+  source: string
+  /** Unchanged since the last run, or excluded by the crosstrainer config */
+  reason: "unchanged" | "excluded"
+}
+
+/**
+ * Why a crosstrainer config included or excluded an asset
+ */
+export interface ConversionFilterDecision {
+  kind: AssetKind
+  name: string
+  source: string
+  included: boolean
+  reason: string
+}
+
+/**
+ * The agent a converted command runs with, and why
+ */
+export interface ConversionRoutingDecision extends CommandRouting {
+  name: string
+  source: string
+}
+
+/**
+ * Result of converting a project or plugin
+ */
+export interface ConversionResult {
+  assets: ConvertedAsset[]
+  outputs: ConversionOutput[]
+  warnings: ConversionWarning[]
+  skipped: ConversionSkipped[]
+  /** Filter and transform decisions, for kinds the crosstrainer config filters */
+  filtered: ConversionFilterDecision[]
+  /** Agents converted commands run with */
+  routing: ConversionRoutingDecision[]
+  /** Assets found per kind, after crosstrainer filters */
+  found: Record<AssetKind, number>
+  /** Hook matchers found; hooks are converted at runtime by the plugin */
+  hookMatchers: number
+  /** Generated skills plugin directory, when there are skills */
+  skillPluginDir?: string
+  /** Unchanged / updated / removed counts from the lockfile */
+  summary: ConversionSummary
+  /** Lockfile entries whose source no longer exists, left in place */
+  removed: LockfileEntry[]
+  /** Outputs of removed sources that were pruned, with `prune` */
+  pruned?: PruneResult
+  /** Outputs that converted assets no longer write to, removed */
+  superseded?: PruneResult
+  /** The crosstrainer config's beforeConversion hook stopped the conversion */
+  aborted?: boolean
+}
+
+/**
+ * Result of converting a project
+ */
+export interface ProjectConversionResult extends ConversionResult {
+  /** Crosstrainer config applied to the conversion */
+  crosstrainerConfig?: Pick<LoadedCrosstrainerConfig, "filePath" | "fileType">
+}
+
+/**
+ * Result of converting a plugin
+ */
+export interface PluginConversionResult extends ConversionResult {
+  plugin: {
+    /** Plugin name, after crosstrainer overrides */
+    name: string
+    /** Local plugin directory (the cached clone for remote sources) */
+    path: string
+    /** Prefix of generated files */
+    prefix: string
+    /** Crosstrainer config applied to the conversion */
+    crosstrainerConfig?: Pick<LoadedCrosstrainerConfig, "filePath" | "fileType">
+    /** Why an executable crosstrainer config from a remote source was run */
+    trust?: PluginTrust
+  }
+}
+
+/**
+ * Trust granted to a remote plugin's crosstrainer.js/ts
+ */
+export interface PluginTrust {
+  /** Plugin source without ref, e.g. "org/repo/plugin" */
+  source: string
+  commit: string
+  /** Hash of the crosstrainer file */
+  hash: string
+  reason: TrustReason
+}
+
+/**
+ * How converted agents and commands are written: markdown files in the
+ * OpenCode directory, or entries in opencode.json's agent and command maps
+ */
+export type OutputFormat = "files" | "config"
+
+/**
+ * Options shared by project and plugin conversions
+ */
+interface BaseConvertOptions {
+  /** OpenCode directory to write to (default: ".opencode") */
+  outputDir?: string
+  /** File prefix (default: "claude_") */
+  prefix?: string
+  /** Home directory for user-level assets and lockfile paths (default: none) */
+  homeDir?: string
+  /** Report what would be written without writing */
+  dryRun?: boolean
+  /** Remove the outputs of sources that no longer exist */
+  prune?: boolean
+  verbose?: boolean
+  /** Model aliases to map, extending the built-in mappings */
+  modelMappings?: Record<string, string>
+  /** Tool names to map, extending the built-in mappings */
+  toolMappings?: Record<string, string | string[]>
+  /** Separator between the subdirectories of a command or agent and its name (default: "_") */
+  namespaceSeparator?: string
+  /** Rename commands and agents whose names collide, or throw a NameCollisionError (default: "rename") */
+  onNameCollision?: NameCollisionPolicy
+  /** Write agents and commands as markdown files, or into opencode.json (default: "files") */
+  outputFormat?: OutputFormat
+}
+
+/**
+ * Options for converting a project
+ */
+export interface ConvertProjectOptions extends BaseConvertOptions {
+  /** Claude Code directory (default: ".claude") */
+  claudeDir?: string
+  /**
+   * Categories to convert (default: all). Converting agents also converts
+   * the commands whose routing depends on them. Removed sources are only
+   * reported, and pruned, when all categories are converted.
+   */
+  categories?: ProjectCategory[]
+}
+
+/**
+ * Options for converting a plugin
+ */
+export interface ConvertPluginOptions extends BaseConvertOptions {
+  /**
+   * Run an executable crosstrainer config from a remote source, and
+   * remember the decision for its commit
+   */
+  trust?: boolean
+  /** Remote sources whose executable crosstrainer configs may run */
+  trustedSources?: string[]
+}
+
+/**
+ * Options for converting settings
+ */
+export interface ConvertSettingsOptions {
+  /** Claude Code directory (default: ".claude") */
+  claudeDir?: string
+  /** OpenCode directory; opencode.json is written next to it (default: ".opencode") */
+  outputDir?: string
+  /** Include ~/.claude settings (default: true) */
+  loadUserSettings?: boolean
+  dryRun?: boolean
+  /** Model aliases to map, extending the built-in mappings */
+  modelMappings?: Record<string, string>
+}
+
+/**
+ * Result of converting settings
+ */
+export interface SettingsConversionResult {
+  /** Claude Code settings found, per file and merged */
+  settings: Awaited<ReturnType<typeof discoverClaudeSettings>>
+  /** opencode.json before the conversion */
+  existingConfig: OpenCodeConfig | null
+  /** opencode.json after the conversion */
+  config: OpenCodeConfig
+  configPath: string
+  content: string
+  /** Settings with no OpenCode equivalent */
+  warnings: ConversionWarning[]
+}
+
+/**
+ * Claude Code settings that have no OpenCode equivalent
+ */
+const UNSUPPORTED_SETTINGS: Record<string, string> = {
+  hooks: "Use OpenCode plugins instead",
+  env: "Set environment variables before running OpenCode",
+  companyAnnouncements: "Not supported",
+  sandbox: "OpenCode uses different sandboxing",
+}
+
+/**
+ * Whether a setting holds a value worth warning about; merged settings
+ * default some keys to empty objects
+ */
+function isSettingSet(value: unknown): boolean {
+  if (value === undefined || value === null) return false
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === "object") return Object.keys(value).length > 0
+  return true
+}
+
+// ========================================
+// Skill Plugin Generation
+// ========================================
+
+/**
+ * Tool name for a skill
+ */
+export function getSkillToolName(skillName: string): string {
+  return `skill_${skillName.toLowerCase().replace(/-/g, "_")}`
+}
+
+/**
+ * Generate a plugin tool wrapper for a skill
+ */
+export function generateSkillPluginTool(
+  skill: ClaudeSkill,
+  options: ConversionOptions = createConversionOptions(),
+  toolName: string = getSkillToolName(skill.name)
+): string {
+  const allowedTools = getAllowedToolsNote(skill, options)
+  const allowedToolsLine = allowedTools
+    ? `\n    response += ${JSON.stringify(`### Allowed Tools\n\n${allowedTools}\n\n`)}`
+    : ""
+
+  return `import { tool, toolSchema } from "@opencode-ai/plugin"
+
+/**
+ * ${skill.description}
+ *
+ * Source: ${skill.filePath}
+ */
+export const ${toolName} = tool({
+  description: ${JSON.stringify(skill.description)},
+  args: {
+    query: toolSchema.string().optional().describe("Optional specific question or task for this skill"),
+  },
+  async execute(args: { query?: string }, ctx) {
+    let response = \`## Skill: ${skill.name}\\n\\n\`
+    response += \`### Instructions\\n\\n${skill.content.replace(/`/g, "\\`").replace(/\$/g, "\\$")}\\n\\n\`${allowedToolsLine}
+
+    if (args.query) {
+      response += \`### Query: \${args.query}\\n\\n\`
+    }
+
+    return response
+  },
+})
+`
+}
+
+/**
+ * Generate a complete plugin entry point for skills
+ */
+export function generateSkillsPlugin(
+  skills: ClaudeSkill[],
+  toolNames: string[] = skills.map((skill) => getSkillToolName(skill.name))
+): string {
+  const toolImports: string[] = []
+  const toolExports: string[] = []
+
+  for (const toolName of toolNames) {
+    toolImports.push(`import { ${toolName} } from "./tools/${toolName}"`)
+    toolExports.push(`    ${toolName},`)
+  }
+
+  return `/**
+ * Crosstrain Skills Plugin
+ *
+ * Auto-generated OpenCode plugin that exposes Claude Code skills as tools.
+ *
+ * Generated by: crosstrain CLI
+ * Generated at: ${new Date().toISOString()}
+ */
+
+import type { Plugin, PluginContext } from "@opencode-ai/plugin"
+${toolImports.join("\n")}
+
+export const CrosstrainSkillsPlugin: Plugin = async (ctx: PluginContext) => {
+  return {
+    tool: {
+${toolExports.join("\n")}
+    },
+  }
+}
+
+export default CrosstrainSkillsPlugin
+`
+}
+
+// ========================================
+// Conversion Runs
+// ========================================
+
+/**
+ * State of one conversion run over a lockfile origin
+ */
+interface ConversionRun {
+  result: ConversionResult
+  tracker: ConversionTracker
+  dryRun: boolean
+  /** Write an output, or only collect it in dry-run mode */
+  emit: (kind: AssetKind, path: string, content: string) => Promise<void>
+  /**
+   * Merge the entries of converted assets into an opencode.json; every step
+   * of the run merges into the same in-memory config, emitted once by
+   * flushConfigs
+   */
+  mergeConfig: (
+    kind: AssetKind,
+    path: string,
+    config: OpenCodeConfig,
+    assets: { asset: ConvertedAsset; id: string; hash: string }[]
+  ) => Promise<void>
+  /** Emit each opencode.json the run merged into, then record its assets in the lockfile */
+  flushConfigs: () => Promise<void>
+  /** Add a converted asset to the result and the lockfile */
+  record: (asset: ConvertedAsset, id: string, hash: string) => Promise<void>
+  /** Check the lockfile, reporting unchanged assets as skipped */
+  isUnchanged: (kind: AssetKind, name: string, source: string, id: string, hash: string) => Promise<boolean>
+  /** Add warnings about a source to the result */
+  warn: (source: string, messages: string[]) => void
+}
+
+/**
+ * A result with nothing converted yet
+ */
+function createEmptyResult(): ConversionResult {
+  return {
+    assets: [],
+    outputs: [],
+    warnings: [],
+    skipped: [],
+    filtered: [],
+    routing: [],
+    found: { command: 0, agent: 0, skill: 0, mcp: 0 },
+    hookMatchers: 0,
+    summary: { unchanged: 0, updated: 0, removed: 0 },
+    removed: [],
+  }
+}
+
+/**
+ * Start a conversion run; outputs go through the config's transformOutput
+ */
+function createRun(
+  lockfile: Lockfile,
+  trackerOptions: ConversionTrackerOptions,
+  context: ConversionContext
+): ConversionRun {
+  const tracker = createConversionTracker(lockfile, trackerOptions)
+  const result = createEmptyResult()
+  const { dryRun } = context
+  // opencode.json contents by absolute path, with the kind that first merged
+  // into each and the assets to record once it is written
+  const configs = new Map<
+    string,
+    { kind: AssetKind; config: OpenCodeConfig; assets: { asset: ConvertedAsset; id: string; hash: string }[] }
+  >()
+
+  const emit = async (kind: AssetKind, path: string, input: string) => {
+    const content = context.config.transformOutput
+      ? await context.config.transformOutput(path, input, context)
+      : input
+    result.outputs.push({ kind, path, content })
+    if (!dryRun) {
+      await mkdir(dirname(path), { recursive: true })
+      await writeFile(path, content, "utf-8")
+    }
+  }
+
+  return {
+    result,
+    tracker,
+    dryRun,
+    emit,
+
+    mergeConfig: async (kind, path, config, assets) => {
+      const configPath = resolve(path)
+      const pending = configs.get(configPath)
+      const existing = pending?.config ?? (await readOpenCodeConfig(configPath)) ?? {}
+      configs.set(configPath, {
+        kind: pending?.kind ?? kind,
+        config: mergeOpenCodeConfigs(existing, config),
+        assets: [...(pending?.assets ?? []), ...assets],
+      })
+      result.assets.push(...assets.map(({ asset }) => asset))
+    },
+
+    flushConfigs: async () => {
+      for (const [path, { kind, config, assets }] of configs) {
+        await emit(kind, path, JSON.stringify({ $schema: "https://opencode.ai/config.json", ...config }, null, 2) + "\n")
+        // The lockfile hashes each entry as written
+        if (!dryRun) {
+          for (const { asset, id, hash } of assets) {
+            await tracker.record(id, { kind: asset.kind, hash, outputs: asset.outputs })
+          }
+        }
+      }
+      configs.clear()
+    },
+
+    record: async (asset, id, hash) => {
+      result.assets.push(asset)
+      if (!dryRun) {
+        await tracker.record(id, { kind: asset.kind, hash, outputs: asset.outputs })
+      }
+    },
+
+    isUnchanged: async (kind, name, source, id, hash) => {
+      if (await tracker.isUnchanged(id, hash)) {
+        result.skipped.push({ kind, name, source, reason: "unchanged" })
+        return true
+      }
+      return false
+    },
+
+    warn: (source, messages) => {
+      result.warnings.push(...messages.map((message) => ({ source, message })))
+    },
+  }
+}
+
+/**
+ * An agent generated for a converted asset, such as the one enforcing a
+ * command's allowed-tools
+ */
+interface GeneratedAgent {
+  /** Name without the file prefix */
+  name: string
+  markdown: string
+}
+
+/**
+ * Writes converted agents or commands of one run
+ */
+interface AssetWriter {
+  /**
+   * Write one asset and the agents generated for it, or queue them for
+   * opencode.json
+   */
+  write: (
+    asset: { name: string; filePath: string },
+    markdown: string,
+    id: string,
+    hash: string,
+    agents?: GeneratedAgent[]
+  ) => Promise<void>
+  /** Merge queued assets into the run's opencode.json */
+  flush: () => Promise<void>
+  /** Name reported to the post-conversion hook */
+  convertedName: (name: string) => string
+  /**
+   * File, or opencode.json entry, an asset is written to; part of the
+   * lockfile hash, so an asset renamed by a name collision is written again
+   */
+  outputPath: (name: string) => string
+}
+
+/**
+ * Write agents or commands as markdown files, or collect them and merge
+ * them into the run's opencode.json agent or command map on flush
+ */
+function createAssetWriter(
+  run: ConversionRun,
+  kind: "agent" | "command",
+  outputDir: string,
+  prefix: string,
+  format: OutputFormat
+): AssetWriter {
+  const configPath = getOpenCodeConfigPath(outputDir)
+  const entries: Record<string, Record<string, unknown>> = {}
+  const agentEntries: Record<string, Record<string, unknown>> = {}
+  const queued: { asset: ConvertedAsset; id: string; hash: string }[] = []
+
+  if (format === "files") {
+    const outputPath = (name: string) => join(outputDir, kind, `${prefix}${name}.md`)
+    return {
+      write: async (asset, markdown, id, hash, agents = []) => {
+        await run.emit(kind, outputPath(asset.name), markdown)
+        const outputs = [outputPath(asset.name)]
+        for (const agent of agents) {
+          const agentPath = join(outputDir, "agent", `${prefix}${agent.name}.md`)
+          await run.emit(kind, agentPath, agent.markdown)
+          outputs.push(agentPath)
+        }
+        await run.record({ kind, name: asset.name, source: asset.filePath, outputs }, id, hash)
+      },
+      flush: async () => {},
+      convertedName: (name) => `${prefix}${name}.md`,
+      outputPath,
+    }
+  }
+
+  const outputPath = (name: string) => `${configPath}#${kind}.${prefix}${name}`
+  return {
+    write: async (asset, markdown, id, hash, agents = []) => {
+      entries[`${prefix}${asset.name}`] = toOpenCodeConfigEntry(kind, markdown)
+      const outputs = [outputPath(asset.name)]
+      for (const agent of agents) {
+        agentEntries[`${prefix}${agent.name}`] = toOpenCodeConfigEntry("agent", agent.markdown)
+        outputs.push(`${configPath}#agent.${prefix}${agent.name}`)
+      }
+      queued.push({ asset: { kind, name: asset.name, source: asset.filePath, outputs }, id, hash })
+    },
+    flush: async () => {
+      if (queued.length === 0) {
+        return
+      }
+      const config = Object.keys(agentEntries).length > 0 ? { [kind]: entries, agent: agentEntries } : { [kind]: entries }
+      await run.mergeConfig(kind, configPath, config, queued)
+    },
+    convertedName: (name) => `${prefix}${name}`,
+    outputPath,
+  }
+}
+
+/**
+ * Naming options to record in the lockfile, when they differ from the
+ * defaults
+ */
+function getNamingTrackerOptions(naming: NamingOptions): NamingOptions {
+  const { namespaceSeparator, onNameCollision } = naming
+  return {
+    ...(namespaceSeparator !== undefined && namespaceSeparator !== DEFAULT_NAMESPACE_SEPARATOR && { namespaceSeparator }),
+    ...(onNameCollision === "error" && { onNameCollision }),
+  }
+}
+
+/**
+ * Report commands and agents renamed to resolve name collisions
+ */
+function reportRenames(run: ConversionRun, renames: AssetRename[]): void {
+  for (const rename of renames) {
+    run.warn(rename.filePath, [
+      `Renamed ${rename.kind} "${rename.from}" to "${rename.to}": "${rename.from}" is already used by ${rename.conflictsWith}`,
+    ])
+  }
+}
+
+/**
+ * Assets that changed since the last run, with their lockfile id and hash
+ *
+ * `inputs` returns what an asset's outputs depend on besides its source
+ * file; it is part of the recorded hash, so a change converts the asset
+ * again.
+ */
+async function filterChanged<T extends { name: string; filePath: string }>(
+  run: ConversionRun,
+  kind: AssetKind,
+  assets: T[],
+  inputs?: (asset: T) => unknown
+): Promise<{ asset: T; id: string; hash: string }[]> {
+  const changed: { asset: T; id: string; hash: string }[] = []
+  for (const asset of assets) {
+    const id = run.tracker.sourceId(asset.filePath)
+    const fileHash = await hashFile(asset.filePath)
+    const hash = inputs ? hashContent(`${fileHash}\n${JSON.stringify(inputs(asset))}`) : fileHash
+    if (!(await run.isUnchanged(kind, asset.name, asset.filePath, id, hash))) {
+      changed.push({ asset, id, hash })
+    }
+  }
+  return changed
+}
+
+/**
+ * Fill in the lockfile summary, remove superseded outputs, report or prune
+ * removed sources and write the lockfile
+ */
+async function finishRun(
+  run: ConversionRun,
+  lockfile: Lockfile,
+  options: { outputDir: string; prune: boolean; complete: boolean }
+): Promise<void> {
+  const { result, tracker } = run
+
+  result.summary = tracker.summary()
+  if (run.dryRun) {
+    result.summary.updated = result.assets.length
+  }
+
+  const projectRoot = resolve(options.outputDir, "..")
+  result.superseded = await pruneSupersededOutputs(lockfile, tracker.supersededOutputs(), {
+    projectRoot,
+    dryRun: run.dryRun,
+  })
+
+  const removed = options.complete ? tracker.removedEntries() : []
+  if (options.prune) {
+    result.pruned = await pruneEntries(lockfile, removed, {
+      projectRoot,
+      dryRun: run.dryRun,
+    })
+  } else {
+    result.removed = removed.filter(([, entry]) => entry.kind !== "skill-plugin").map(([, entry]) => entry)
+  }
+
+  if (!run.dryRun) {
+    tracker.finish()
+    await writeLockfile(options.outputDir, lockfile)
+  }
+}
+
+/**
+ * Count hook matchers across all hook events
+ */
+export function countHookMatchers(hooksConfig: ClaudeHooksConfig): number {
+  return (
+    (hooksConfig.PreToolUse?.length || 0) +
+    (hooksConfig.PostToolUse?.length || 0) +
+    (hooksConfig.SessionStart?.length || 0) +
+    (hooksConfig.SessionEnd?.length || 0) +
+    (hooksConfig.Stop?.length || 0) +
+    (hooksConfig.Notification?.length || 0)
+  )
+}
+
+// ========================================
+// Crosstrainer Config
+// ========================================
+
+/**
+ * Names of converted outputs, passed to onConversionComplete
+ */
+interface ConvertedFiles {
+  agents: string[]
+  commands: string[]
+  skills: string[]
+  mcp: string[]
+}
+
+/**
+ * Conversion options with a crosstrainer config's tool mappings and
+ * permissions applied on top of the caller's mappings
+ */
+function createCrosstrainerConversion(
+  prefix: string,
+  options: BaseConvertOptions,
+  config: CrosstrainerConfig
+): ConversionOptions {
+  return createConversionOptions(
+    {
+      filePrefix: prefix,
+      modelMappings: options.modelMappings,
+      toolMappings: { ...options.toolMappings, ...config.tools },
+    },
+    {
+      permissionModes: config.permissions?.modes,
+      permissionRules: applyPermissionRuleMapping(config.permissions),
+    }
+  )
+}
+
+/**
+ * Conversion options for commands, running them with the configured
+ * default agent. Agents and commands converted alongside are referred to
+ * by their prefixed name.
+ */
+function getCommandConversion(
+  conversion: ConversionOptions,
+  config: CrosstrainerConfig,
+  agentNames: Record<string, string>,
+  commands: ClaudeCommand[]
+): ConversionOptions {
+  const defaultAgent = config.commands?.defaultAgent
+  return {
+    ...conversion,
+    agentNames,
+    commandNames: getCommandNames(commands, conversion.filePrefix),
+    defaultAgent: defaultAgent ? agentNames[defaultAgent] ?? defaultAgent : conversion.defaultAgent,
+  }
+}
+
+/**
+ * What a converted command depends on besides its file: the agents it may
+ * be routed to, and the commands whose /name references it renames
+ */
+function getCommandInputs(conversion: ConversionOptions): unknown {
+  const sorted = (names: Record<string, string> = {}) => Object.entries(names).sort(([a], [b]) => a.localeCompare(b))
+  return {
+    agentNames: sorted(conversion.agentNames),
+    commandNames: sorted(conversion.commandNames),
+    defaultAgent: conversion.defaultAgent ?? null,
+  }
+}
+
+/**
+ * Agents generated for a command: the one enforcing its allowed-tools
+ */
+function getCommandAgents(cmd: ClaudeCommand, conversion: ConversionOptions): GeneratedAgent[] {
+  const markdown = generateCommandToolsAgent(cmd, conversion)
+  return markdown ? [{ name: getCommandToolsAgentName(cmd), markdown }] : []
+}
+
+/**
+ * Record the agent a command runs with, for verbose output
+ */
+function recordRouting(run: ConversionRun, cmd: ClaudeCommand, conversion: ConversionOptions): void {
+  run.result.routing.push({ name: cmd.name, source: cmd.filePath, ...getCommandRouting(cmd, conversion) })
+}
+
+/**
+ * Apply the configured model mappings, default model and default
+ * permission mode to an agent
+ */
+function applyAgentDefaults(agent: ClaudeAgent, config: CrosstrainerConfig): ClaudeAgent {
+  return {
+    ...agent,
+    model: applyModelMapping(agent.model, config.models) || agent.model || config.agents?.defaultModel,
+    permissionMode: agent.permissionMode ?? (config.agents?.defaultPermissionMode as ClaudeAgent["permissionMode"]),
+  }
+}
+
+/**
+ * Generate an agent file, with the config's generateAgent if it has one
+ */
+async function generateAgentFile(
+  agent: ClaudeAgent,
+  conversion: ConversionOptions,
+  context: ConversionContext,
+  getToolName: (skillName: string) => string,
+  warnings: string[]
+): Promise<string> {
+  if (!context.config.generateAgent) {
+    // Name the skill tools the agent lists the way the skill conversion does
+    const skillToolNames = Object.fromEntries((agent.skills ?? []).map((skill) => [skill, getToolName(skill)]))
+    return generateOpenCodeAgent(agent, { ...conversion, skillToolNames }, warnings)
+  }
+  const generated = await context.config.generateAgent(agent, context)
+  return serializeMarkdownWithFrontmatter(generated.frontmatter as unknown as Record<string, unknown>, generated.content)
+}
+
+/**
+ * Generate a skill tool, with the config's generateSkillTool if it has one
+ */
+async function generateSkillFile(
+  skill: ClaudeSkill,
+  conversion: ConversionOptions,
+  toolName: string,
+  context: ConversionContext
+): Promise<string> {
+  return context.config.generateSkillTool
+    ? await context.config.generateSkillTool(skill, context)
+    : generateSkillPluginTool(skill, conversion, toolName)
+}
+
+/**
+ * Tool name for a skill from the config's toolNameTemplate, or the default
+ */
+function getConfiguredSkillToolName(skillName: string, context: ConversionContext, defaultName: string): string {
+  const template = context.config.skills?.toolNameTemplate
+  return template ? applyToolNameTemplate(template, skillName, context.pluginName) : defaultName
+}
+
+/**
+ * Tool name for a project skill: the configured template, or skill_{name}
+ */
+function getProjectSkillToolName(skillName: string, context: ConversionContext): string {
+  return getConfiguredSkillToolName(skillName, context, getSkillToolName(skillName))
+}
+
+/**
+ * Tool name for a plugin skill: the configured template, or skill_{plugin}_{name}
+ */
+function getPluginSkillToolName(skillName: string, context: ConversionContext): string {
+  return getConfiguredSkillToolName(skillName, context, getSkillToolName(`${context.pluginName}_${skillName}`))
+}
+
+/**
+ * What a crosstrainer filter and transform made of an asset
+ */
+interface AssetSelection<T> {
+  /** The asset as discovered */
+  asset: T
+  /** The asset after the transform, or null when it was excluded */
+  result: T | null
+  decision: AssetFilterDecision
+  /** Whether there was a filter or transform whose decision to report */
+  reported: boolean
+}
+
+/**
+ * Apply a crosstrainer filter and transform to an asset
+ */
+async function decideAsset<T>(
+  asset: FilterableAsset & { value: T },
+  filter: AssetFilterConfig | undefined,
+  transform?: (value: T) => T | null | Promise<T | null>
+): Promise<AssetSelection<T>> {
+  const decision = explainAssetFilter(asset, filter)
+  const result = decision.included && transform ? await transform(asset.value) : decision.included ? asset.value : null
+  if (decision.included && !result) {
+    decision.included = false
+    decision.reason = "the transform hook returned null"
+  }
+  return { asset: asset.value, result, decision, reported: Boolean(filter || transform) }
+}
+
+/**
+ * Record a filter decision when there was a filter or transform, and
+ * report an excluded asset as skipped
+ */
+function recordSelection<T>(
+  run: ConversionRun,
+  kind: AssetKind,
+  asset: { name: string; source: string },
+  selection: AssetSelection<T>
+): T | null {
+  if (selection.reported) {
+    run.result.filtered.push({ kind, name: asset.name, source: asset.source, ...selection.decision })
+  }
+  if (!selection.result) {
+    run.result.skipped.push({ kind, name: asset.name, source: asset.source, reason: "excluded" })
+  }
+  return selection.result
+}
+
+/**
+ * Apply a crosstrainer filter and transform to an asset, recording the
+ * decision when there is either
+ */
+async function selectAsset<T>(
+  run: ConversionRun,
+  kind: AssetKind,
+  asset: FilterableAsset & { source: string; value: T },
+  filter: AssetFilterConfig | undefined,
+  transform?: (value: T) => T | null | Promise<T | null>
+): Promise<T | null> {
+  return recordSelection(run, kind, asset, await decideAsset(asset, filter, transform))
+}
+
+/**
+ * Apply a crosstrainer filter and transform to assets without recording
+ * the decisions
+ */
+async function decideAssets<T extends { name: string; filePath: string }>(
+  assets: T[],
+  filter: AssetFilterConfig | undefined,
+  transform?: (asset: T) => T | null | Promise<T | null>
+): Promise<AssetSelection<T>[]> {
+  const selections: AssetSelection<T>[] = []
+  for (const asset of assets) {
+    const filterable = { name: asset.name, path: getAssetSubPath(asset.filePath), fields: asset, value: asset }
+    selections.push(await decideAsset(filterable, filter, transform))
+  }
+  return selections
+}
+
+/**
+ * Record decisions made by decideAssets and keep the included assets
+ */
+function recordSelections<T extends { name: string; filePath: string }>(
+  run: ConversionRun,
+  kind: AssetKind,
+  selections: AssetSelection<T>[]
+): T[] {
+  const selected: T[] = []
+  for (const selection of selections) {
+    const result = recordSelection(run, kind, { name: selection.asset.name, source: selection.asset.filePath }, selection)
+    if (result) {
+      selected.push(result)
+    }
+  }
+  return selected
+}
+
+/**
+ * Keep assets included by a crosstrainer filter and transform, reporting
+ * the rest as skipped
+ */
+async function selectAssets<T extends { name: string; filePath: string }>(
+  run: ConversionRun,
+  kind: AssetKind,
+  assets: T[],
+  filter: AssetFilterConfig | undefined,
+  transform?: (asset: T) => T | null | Promise<T | null>
+): Promise<T[]> {
+  return recordSelections(run, kind, await decideAssets(assets, filter, transform))
+}
+
+/**
+ * Apply the crosstrainer config's agent defaults, filter and transformAgent
+ *
+ * Decided once per run, so commands are routed to the agents actually
+ * converted and transformAgent is not called twice.
+ */
+function decideAgents(agents: ClaudeAgent[], context: ConversionContext): Promise<AssetSelection<ClaudeAgent>[]> {
+  const { config } = context
+  return decideAssets(
+    agents.map((agent) => applyAgentDefaults(agent, config)),
+    config.agents,
+    config.transformAgent && ((agent) => config.transformAgent!(agent, context))
+  )
+}
+
+/**
+ * OpenCode names of converted agents, by the Claude Code name commands
+ * refer to them with
+ */
+function getConvertedAgentNames(selections: AssetSelection<ClaudeAgent>[], prefix: string): Record<string, string> {
+  return Object.fromEntries(
+    selections.flatMap(({ asset, result }) => (result ? [[asset.name, `${prefix}${result.name}`]] : []))
+  )
+}
+
+/**
+ * Keep MCP servers included by a crosstrainer filter and transformMCP,
+ * reporting the rest as skipped
+ */
+async function selectMCPServers(
+  run: ConversionRun,
+  servers: DiscoveredMCPServer[],
+  context: ConversionContext
+): Promise<DiscoveredMCPServer[]> {
+  const { config } = context
+  const transform = config.transformMCP
+  const selected: DiscoveredMCPServer[] = []
+  for (const server of servers) {
+    const result = await selectAsset(
+      run,
+      "mcp",
+      { name: server.name, fields: server.server, source: server.sourcePath, value: server },
+      config.mcp,
+      transform &&
+        (async (value: DiscoveredMCPServer) => {
+          const transformed = await transform(value.name, value.server, context)
+          return transformed && { ...value, name: transformed.name, server: transformed.server }
+        })
+    )
+    if (result) {
+      selected.push(result)
+    }
+  }
+  return selected
+}
+
+/**
+ * Call the config's beforeConversion hook; false means the conversion
+ * was aborted, by the hook or because it failed
+ */
+async function startConversion(
+  context: ConversionContext,
+  warnings: ConversionWarning[],
+  source: string
+): Promise<boolean> {
+  if (!context.config.beforeConversion) {
+    return true
+  }
+  try {
+    if ((await context.config.beforeConversion(context)) === false) {
+      warnings.push({ source, message: "Conversion aborted by the beforeConversion hook" })
+      return false
+    }
+    return true
+  } catch (err) {
+    warnings.push({ source, message: `Pre-conversion hook failed: ${(err as Error).message}` })
+    return false
+  }
+}
+
+/**
+ * Call the config's onConversionComplete hook, reporting failures
+ */
+async function completeConversion(
+  run: ConversionRun,
+  context: ConversionContext,
+  converted: ConvertedFiles,
+  source: string
+): Promise<void> {
+  if (!context.config.onConversionComplete || run.dryRun) {
+    return
+  }
+  try {
+    await context.config.onConversionComplete(context, converted)
+  } catch (err) {
+    run.result.warnings.push({ source, message: `Post-conversion hook failed: ${(err as Error).message}` })
+  }
+}
+
+// ========================================
+// Project Conversion
+// ========================================
+
+interface ProjectContext {
+  claudeDir: string
+  outputDir: string
+  homeDir: string
+  prefix: string
+  verbose: boolean
+  conversion: ConversionOptions
+  /** How commands and agents in subdirectories are named */
+  naming: NamingOptions
+  outputFormat: OutputFormat
+  /** Context passed to the project's crosstrainer config */
+  context: ConversionContext
+  converted: ConvertedFiles
+  /** Agents discovered and decided on, shared by the agent and command steps */
+  agents?: Promise<{ renames: AssetRename[]; selections: AssetSelection<ClaudeAgent>[] }>
+}
+
+/**
+ * Discover the project's agents and apply the crosstrainer config to them,
+ * once per run
+ */
+function getProjectAgents(ctx: ProjectContext): NonNullable<ProjectContext["agents"]> {
+  ctx.agents ??= (async () => {
+    const renames: AssetRename[] = []
+    const discovered = await discoverAgents(ctx.claudeDir, ctx.homeDir, { ...ctx.naming, renames })
+    return { renames, selections: await decideAgents(discovered, ctx.context) }
+  })()
+  return ctx.agents
+}
+
+/**
+ * Load the project's crosstrainer config and create the context passed to it
+ */
+async function loadProjectContext(
+  options: ConvertProjectOptions,
+  warnings: ConversionWarning[]
+): Promise<{ crosstrainerInfo: LoadedCrosstrainerConfig | null; context: ConversionContext }> {
+  const claudeDir = options.claudeDir ?? ".claude"
+  const outputDir = options.outputDir ?? ".opencode"
+  const projectRoot = resolve(outputDir, "..")
+
+  // A config that fails to load or validate throws: converting without the
+  // user's filters and hooks would write assets they meant to exclude
+  const crosstrainerInfo = await loadProjectCrosstrainerConfig(claudeDir, projectRoot)
+  for (const message of crosstrainerInfo?.warnings ?? []) {
+    warnings.push({ source: crosstrainerInfo!.filePath, message })
+  }
+  const config: CrosstrainerConfig = crosstrainerInfo?.config ?? {}
+
+  return {
+    crosstrainerInfo,
+    context: {
+      pluginName: getEffectivePluginName(basename(projectRoot), config),
+      pluginDir: crosstrainerInfo ? dirname(crosstrainerInfo.filePath) : projectRoot,
+      outputDir,
+      prefix: getEffectivePrefix(options.prefix ?? "claude_", config),
+      dryRun: options.dryRun ?? false,
+      verbose: options.verbose ?? false,
+      config,
+    },
+  }
+}
+
+/**
+ * Hooks from a Claude Code settings file after the crosstrainer config's
+ * transformSettings and transformHook, or null when it has none
+ */
+async function readTransformedHooks(settingsPath: string, context: ConversionContext): Promise<ClaudeHooksConfig | null> {
+  let settings: ClaudeSettings = JSON.parse(await readTextFile(settingsPath))
+  if (context.config.transformSettings) {
+    settings = await context.config.transformSettings(settings, context)
+  }
+  return settings.hooks ? applyHookTransform(settings.hooks, context) : null
+}
+
+/**
+ * Hooks of a project after its crosstrainer config's transforms; like
+ * loadClaudeHooksConfig, the project's settings.json comes before
+ * ~/.claude/settings.json
+ */
+async function readProjectHooks(
+  claudeDir: string,
+  homeDir: string,
+  context: ConversionContext,
+  warnings: ConversionWarning[]
+): Promise<ClaudeHooksConfig | null> {
+  const settingsPaths = [join(claudeDir, "settings.json")]
+  if (homeDir) {
+    settingsPaths.push(join(homeDir, ".claude", "settings.json"))
+  }
+
+  for (const settingsPath of settingsPaths.filter((path) => existsSync(path))) {
+    try {
+      const hooks = await readTransformedHooks(settingsPath, context)
+      if (hooks) {
+        return hooks
+      }
+    } catch (err) {
+      warnings.push({ source: settingsPath, message: `Hooks were not read: ${(err as Error).message}` })
+    }
+  }
+  return null
+}
+
+/**
+ * Load the hooks of a project as its crosstrainer config transforms them
+ *
+ * These are the hooks the runtime loader runs, and the ones
+ * convertProject counts.
+ */
+export async function loadProjectHooks(
+  options: ConvertProjectOptions = {}
+): Promise<{ hooks: ClaudeHooksConfig | null; warnings: ConversionWarning[] }> {
+  const warnings: ConversionWarning[] = []
+  const { context } = await loadProjectContext(options, warnings)
+  const hooks = await readProjectHooks(options.claudeDir ?? ".claude", options.homeDir ?? "", context, warnings)
+  return { hooks, warnings }
+}
+
+/**
+ * Convert all Claude Code assets of a project
+ *
+ * A crosstrainer config next to the Claude Code directory, or at the
+ * project root, applies just as it does to a plugin.
+ */
+export async function convertProject(options: ConvertProjectOptions = {}): Promise<ProjectConversionResult> {
+  const claudeDir = options.claudeDir ?? ".claude"
+  const categories = options.categories ?? PROJECT_CATEGORIES
+  const projectRoot = resolve(options.outputDir ?? ".opencode", "..")
+  const warnings: ConversionWarning[] = []
+
+  const { crosstrainerInfo, context } = await loadProjectContext(options, warnings)
+  const config = context.config
+  const crosstrainerConfig = crosstrainerInfo
+    ? { filePath: crosstrainerInfo.filePath, fileType: crosstrainerInfo.fileType }
+    : undefined
+  if (!(await startConversion(context, warnings, crosstrainerInfo?.filePath ?? projectRoot))) {
+    return { ...createEmptyResult(), warnings, aborted: true, crosstrainerConfig }
+  }
+  // beforeConversion may have changed the context
+  const { prefix, verbose, outputDir } = context
+  const conversion = createCrosstrainerConversion(prefix, options, config)
+
+  const ctx: ProjectContext = {
+    claudeDir,
+    outputDir,
+    homeDir: options.homeDir ?? "",
+    prefix,
+    verbose,
+    conversion,
+    naming: { namespaceSeparator: options.namespaceSeparator, onNameCollision: options.onNameCollision },
+    outputFormat: options.outputFormat ?? "files",
+    context,
+    converted: { agents: [], commands: [], skills: [], mcp: [] },
+  }
+
+  const lockfile = await loadLockfile(outputDir)
+  const run = createRun(
+    lockfile,
+    {
+      origin: "project",
+      sourceRoot: projectRoot,
+      projectRoot,
+      homeDir: ctx.homeDir,
+      crosstrainVersion: CROSSTRAIN_VERSION,
+      options: {
+        prefix,
+        loadUserAssets: ctx.homeDir !== "",
+        modelMappings: conversion.modelMappings,
+        toolMappings: conversion.toolMappings,
+        ...(ctx.outputFormat === "config" && { outputFormat: ctx.outputFormat }),
+        ...getNamingTrackerOptions(ctx.naming),
+        ...(crosstrainerInfo && { crosstrainerConfig: await hashFile(crosstrainerInfo.filePath) }),
+      },
+    },
+    context
+  )
+  run.result.warnings.push(...warnings)
+
+  const converters: Record<ProjectCategory, (run: ConversionRun, ctx: ProjectContext) => Promise<void>> = {
+    commands: convertProjectCommands,
+    agents: convertProjectAgents,
+    skills: convertProjectSkills,
+    mcp: convertProjectMCPServers,
+  }
+  // Commands are routed to the converted agents, so agent changes can change them too
+  const converted = categories.includes("agents") ? [...categories, "commands"] : categories
+  for (const category of PROJECT_CATEGORIES.filter((c) => converted.includes(c))) {
+    await converters[category](run, ctx)
+  }
+
+  const hooks = await readProjectHooks(claudeDir, ctx.homeDir, context, run.result.warnings)
+  run.result.hookMatchers = hooks ? countHookMatchers(hooks) : 0
+
+  await run.flushConfigs()
+  await completeConversion(run, ctx.context, ctx.converted, crosstrainerInfo?.filePath ?? projectRoot)
+
+  await finishRun(run, lockfile, {
+    outputDir,
+    prune: options.prune ?? false,
+    complete: categories.length === PROJECT_CATEGORIES.length,
+  })
+  return { ...run.result, crosstrainerConfig }
+}
+
+async function convertProjectCommands(run: ConversionRun, ctx: ProjectContext): Promise<void> {
+  const { config } = ctx.context
+  const renames: AssetRename[] = []
+  const discovered = await discoverCommands(ctx.claudeDir, ctx.homeDir, { ...ctx.naming, renames })
+  reportRenames(run, renames)
+  const commands = await selectAssets(
+    run,
+    "command",
+    discovered,
+    config.commands,
+    config.transformCommand && ((cmd) => config.transformCommand!(cmd, ctx.context))
+  )
+  run.result.found.command = commands.length
+
+  const { selections } = await getProjectAgents(ctx)
+  const agentNames = getConvertedAgentNames(selections, ctx.prefix)
+  const conversion = getCommandConversion(ctx.conversion, config, agentNames, commands)
+
+  const writer = createAssetWriter(run, "command", ctx.outputDir, ctx.prefix, ctx.outputFormat)
+  const commandInputs = getCommandInputs(conversion)
+  const inputs = (cmd: ClaudeCommand) => ({ output: writer.outputPath(cmd.name), conversion: commandInputs })
+  for (const { asset: cmd, id, hash } of await filterChanged(run, "command", commands, inputs)) {
+    const warnings: string[] = []
+    recordRouting(run, cmd, conversion)
+    await writer.write(cmd, generateOpenCodeCommand(cmd, conversion, warnings), id, hash, getCommandAgents(cmd, conversion))
+    run.warn(cmd.filePath, warnings)
+  }
+  await writer.flush()
+  ctx.converted.commands = commands.map((cmd) => writer.convertedName(cmd.name))
+}
+
+async function convertProjectAgents(run: ConversionRun, ctx: ProjectContext): Promise<void> {
+  const { renames, selections } = await getProjectAgents(ctx)
+  reportRenames(run, renames)
+  const agents = recordSelections(run, "agent", selections)
+  run.result.found.agent = agents.length
+
+  const writer = createAssetWriter(run, "agent", ctx.outputDir, ctx.prefix, ctx.outputFormat)
+  const inputs = (agent: ClaudeAgent) => ({ output: writer.outputPath(agent.name) })
+  for (const { asset: agent, id, hash } of await filterChanged(run, "agent", agents, inputs)) {
+    const warnings: string[] = []
+    const agentFile = await generateAgentFile(
+      agent,
+      ctx.conversion,
+      ctx.context,
+      (skill) => getProjectSkillToolName(skill, ctx.context),
+      warnings
+    )
+    await writer.write(agent, agentFile, id, hash)
+    run.warn(agent.filePath, warnings)
+  }
+  await writer.flush()
+  ctx.converted.agents = agents.map((agent) => writer.convertedName(agent.name))
+}
+
+/**
+ * Convert skills into the crosstrain-skills plugin
+ */
+async function convertProjectSkills(run: ConversionRun, ctx: ProjectContext): Promise<void> {
+  const { config } = ctx.context
+  const skills = await selectAssets(
+    run,
+    "skill",
+    await discoverSkills(ctx.claudeDir, ctx.homeDir),
+    config.skills,
+    config.transformSkill && ((skill) => config.transformSkill!(skill, ctx.context))
+  )
+  run.result.found.skill = skills.length
+  if (skills.length === 0) {
+    return
+  }
+
+  const pluginDir = join(ctx.outputDir, "plugin", "crosstrain-skills")
+  run.result.skillPluginDir = pluginDir
+  const getToolName = (skill: ClaudeSkill): string => getProjectSkillToolName(skill.name, ctx.context)
+  const toolNames = skills.map(getToolName)
+
+  for (const { asset: skill, id, hash } of await filterChanged(run, "skill", skills)) {
+    const toolName = getToolName(skill)
+    const toolPath = join(pluginDir, "tools", `${toolName}.ts`)
+    await run.emit("skill", toolPath, await generateSkillFile(skill, ctx.conversion, toolName, ctx.context))
+    await run.record({ kind: "skill", name: skill.name, source: skill.filePath, outputs: [toolPath] }, id, hash)
+  }
+  ctx.converted.skills = toolNames.map((toolName) => `tools/${toolName}.ts`)
+
+  // The entry point only changes when the set of tools does
+  const pluginId = run.tracker.sourceId(join(ctx.claudeDir, "skills"))
+  const pluginHash = hashContent([...toolNames].sort().join("\n"))
+  if (!(await run.tracker.isUnchanged(pluginId, pluginHash))) {
+    const indexPath = join(pluginDir, "index.ts")
+    await run.emit("skill", indexPath, generateSkillsPlugin(skills, toolNames))
+    if (!run.dryRun) {
+      await run.tracker.record(pluginId, { kind: "skill-plugin", hash: pluginHash, outputs: [indexPath] })
+    }
+  }
+}
+
+/**
+ * Merge MCP servers into opencode.json when any changed
+ */
+async function convertProjectMCPServers(run: ConversionRun, ctx: ProjectContext): Promise<void> {
+  const { discovered } = await getAllMCPServers(ctx.claudeDir, ctx.homeDir, {
+    filePrefix: ctx.conversion.filePrefix,
+    verbose: ctx.verbose,
+  })
+  const servers = await selectMCPServers(run, discovered, ctx.context)
+  run.result.found.mcp = servers.length
+  ctx.converted.mcp = servers.map((server) => `${ctx.prefix}${server.name}`)
+
+  const changed: { server: DiscoveredMCPServer; id: string; hash: string }[] = []
+  for (const server of servers) {
+    const id = run.tracker.sourceId(server.sourcePath, server.name)
+    const hash = hashContent(JSON.stringify(server.server))
+    if (!(await run.isUnchanged("mcp", server.name, server.sourcePath, id, hash))) {
+      changed.push({ server, id, hash })
+    }
+  }
+  if (changed.length === 0) {
+    return
+  }
+
+  const converted = convertMCPServers(servers, {
+    filePrefix: ctx.conversion.filePrefix,
+    verbose: ctx.verbose,
+    enableByDefault: ctx.context.config.mcp?.enableByDefault ?? true,
+  })
+  const configPath = getOpenCodeConfigPath(ctx.outputDir)
+  await run.mergeConfig(
+    "mcp",
+    configPath,
+    { mcp: converted },
+    changed.map(({ server, id, hash }) => ({
+      asset: {
+        kind: "mcp",
+        name: server.name,
+        source: server.sourcePath,
+        outputs: [`${configPath}#mcp.${ctx.prefix}${server.name}`],
+      },
+      id,
+      hash,
+    }))
+  )
+}
+
+// ========================================
+// Plugin Conversion
+// ========================================
+
+/**
+ * A plugin directory, and for remote sources where it was cloned from
+ */
+interface ResolvedPluginSource {
+  path: string
+  remote?: { source: string; commit: string }
+}
+
+/**
+ * Resolve a plugin source to a local directory, cloning remote sources
+ */
+async function resolvePluginSource(source: string, verbose: boolean): Promise<ResolvedPluginSource> {
+  if (!isRemoteSource(source)) {
+    const pluginPath = resolve(source)
+    if (!existsSync(pluginPath)) {
+      throw new Error(`Plugin directory not found at: ${source}`)
+    }
+    return { path: pluginPath }
+  }
+
+  const { repo, subpath, ref } = parseRemoteSource(source)
+  if (!subpath) {
+    throw new Error(`Please specify a plugin path within the repository (e.g. ${repo}/<plugin-name>)`)
+  }
+
+  const repoPath = await cloneRepo(repo, ref, verbose)
+  const pluginPath = join(repoPath, subpath)
+  if (!existsSync(pluginPath)) {
+    throw new Error(`Plugin not found at path: ${subpath}`)
+  }
+  return { path: pluginPath, remote: { source: `${repo}/${subpath}`, commit: getRepoCommit(repoPath) } }
+}
+
+/**
+ * Check that a remote plugin's crosstrainer.js/ts may run before it is
+ * imported, throwing UntrustedConfigError when it may not
+ *
+ * JSON configs and local plugins need no trust. Trust granted with
+ * `trust` is remembered for the source and commit.
+ */
+async function authorizeCrosstrainerConfig(
+  plugin: ResolvedPluginSource,
+  options: ConvertPluginOptions,
+  outputDir: string
+): Promise<PluginTrust | undefined> {
+  if (!plugin.remote) {
+    return undefined
+  }
+  let found: ReturnType<typeof findCrosstrainerConfig>
+  try {
+    found = findCrosstrainerConfig(plugin.path)
+  } catch {
+    // Several config files: loading reports it and loads none of them
+    return undefined
+  }
+  if (!found || (found.type !== "js" && found.type !== "ts")) {
+    return undefined
+  }
+
+  const { source, commit } = plugin.remote
+  const hash = await hashFile(found.path)
+  const trust = (reason: TrustReason): PluginTrust => ({ source, commit, hash, reason })
+
+  if (isAllowListed(source, options.trustedSources ?? [])) {
+    return trust("allow-list")
+  }
+
+  const store = await loadTrustStore(outputDir)
+  if (findTrustEntry(store, source, commit, hash)) {
+    return trust("remembered")
+  }
+
+  if (!options.trust) {
+    throw new UntrustedConfigError(source, commit, found.path, hash)
+  }
+  if (!options.dryRun) {
+    recordTrust(store, { source, commit, file: basename(found.path), hash })
+    await writeTrustStore(outputDir, store)
+  }
+  return trust("flag")
+}
+
+/**
+ * Convert a Claude Code plugin from a local path or a Git source
+ * (org/repo/plugin[@ref] or a URL)
+ */
+export async function convertPlugin(
+  source: string,
+  options: ConvertPluginOptions = {}
+): Promise<PluginConversionResult> {
+  let outputDir = options.outputDir ?? ".opencode"
+  const resolved = await resolvePluginSource(source, options.verbose ?? false)
+  const pluginPath = resolved.path
+  const trust = await authorizeCrosstrainerConfig(resolved, options, outputDir)
+  const warnings: ConversionWarning[] = []
+
+  // Try to get plugin name from plugin.json or directory name
+  let pluginName = basename(pluginPath)
+  const pluginJsonPath = join(pluginPath, ".claude-plugin", "plugin.json")
+  if (existsSync(pluginJsonPath)) {
+    try {
+      const pluginJson = JSON.parse(await readTextFile(pluginJsonPath))
+      if (pluginJson.name) {
+        pluginName = pluginJson.name
+      }
+    } catch {
+      // Fall back to directory name
+    }
+  }
+
+  const crosstrainerInfo = await loadCrosstrainerConfig(pluginPath)
+  for (const message of crosstrainerInfo?.warnings ?? []) {
+    warnings.push({ source: crosstrainerInfo!.filePath, message })
+  }
+  const config: CrosstrainerConfig = crosstrainerInfo?.config ?? {}
+  const crosstrainerConfig = crosstrainerInfo
+    ? { filePath: crosstrainerInfo.filePath, fileType: crosstrainerInfo.fileType }
+    : undefined
+  pluginName = getEffectivePluginName(pluginName, config)
+
+  const context: ConversionContext = {
+    pluginName,
+    pluginDir: pluginPath,
+    outputDir,
+    // Use plugin name as prefix for generated files
+    prefix: getEffectivePrefix(`${options.prefix ?? "claude_"}${pluginName.replace(/[^a-zA-Z0-9]/g, "_")}_`, config),
+    dryRun: options.dryRun ?? false,
+    verbose: options.verbose ?? false,
+    config,
+  }
+  if (!(await startConversion(context, warnings, crosstrainerInfo?.filePath ?? pluginPath))) {
+    return {
+      ...createEmptyResult(),
+      warnings,
+      aborted: true,
+      plugin: { name: context.pluginName, path: pluginPath, prefix: context.prefix, crosstrainerConfig, trust },
+    }
+  }
+  // beforeConversion may have changed the context
+  pluginName = context.pluginName
+  outputDir = context.outputDir
+  const { prefix, dryRun, verbose } = context
+  const conversion = createCrosstrainerConversion(prefix, options, config)
+  const outputFormat = options.outputFormat ?? "files"
+  const naming: NamingOptions = { namespaceSeparator: options.namespaceSeparator, onNameCollision: options.onNameCollision }
+
+  const lockfile = await loadLockfile(outputDir)
+  const run = createRun(
+    lockfile,
+    {
+      origin: `plugin:${pluginName}`,
+      sourceRoot: pluginPath,
+      projectRoot: resolve(outputDir, ".."),
+      homeDir: options.homeDir,
+      crosstrainVersion: CROSSTRAIN_VERSION,
+      options: {
+        prefix,
+        crosstrainerConfig: crosstrainerInfo ? await hashFile(crosstrainerInfo.filePath) : null,
+        modelMappings: conversion.modelMappings,
+        toolMappings: conversion.toolMappings,
+        ...(outputFormat === "config" && { outputFormat }),
+        ...getNamingTrackerOptions(naming),
+      },
+    },
+    context
+  )
+  run.result.warnings.push(...warnings)
+
+  const convertedFiles: ConvertedFiles = { agents: [], commands: [], skills: [], mcp: [] }
+  const renames: AssetRename[] = []
+  const pluginAgents = existsSync(join(pluginPath, "agents")) ? await discoverAgents(pluginPath, "", { ...naming, renames }) : []
+  const agentSelections = await decideAgents(pluginAgents, context)
+
+  // Commands
+  if (existsSync(join(pluginPath, "commands"))) {
+    const commands = await selectAssets(
+      run,
+      "command",
+      await discoverCommands(pluginPath, "", { ...naming, renames }),
+      config.commands,
+      config.transformCommand && ((cmd) => config.transformCommand!(cmd, context))
+    )
+    run.result.found.command = commands.length
+    const commandConversion = getCommandConversion(
+      conversion,
+      config,
+      getConvertedAgentNames(agentSelections, prefix),
+      commands
+    )
+
+    const writer = createAssetWriter(run, "command", outputDir, prefix, outputFormat)
+    const commandInputs = getCommandInputs(commandConversion)
+    const inputs = (cmd: ClaudeCommand) => ({ output: writer.outputPath(cmd.name), conversion: commandInputs })
+    for (const { asset: cmd, id, hash } of await filterChanged(run, "command", commands, inputs)) {
+      const warnings: string[] = []
+      recordRouting(run, cmd, commandConversion)
+      await writer.write(
+        cmd,
+        generateOpenCodeCommand(cmd, commandConversion, warnings),
+        id,
+        hash,
+        getCommandAgents(cmd, commandConversion)
+      )
+      run.warn(cmd.filePath, warnings)
+    }
+    await writer.flush()
+    convertedFiles.commands = commands.map((cmd) => writer.convertedName(cmd.name))
+  }
+  reportRenames(run, renames)
+
+  // Agents
+  if (existsSync(join(pluginPath, "agents"))) {
+    const agents = recordSelections(run, "agent", agentSelections)
+    run.result.found.agent = agents.length
+
+    const writer = createAssetWriter(run, "agent", outputDir, prefix, outputFormat)
+    const inputs = (agent: ClaudeAgent) => ({ output: writer.outputPath(agent.name) })
+    for (const { asset: agent, id, hash } of await filterChanged(run, "agent", agents, inputs)) {
+      const warnings: string[] = []
+      const agentFile = await generateAgentFile(
+        agent,
+        conversion,
+        context,
+        (skill) => getPluginSkillToolName(skill, context),
+        warnings
+      )
+      await writer.write(agent, agentFile, id, hash)
+      run.warn(agent.filePath, warnings)
+    }
+    await writer.flush()
+    convertedFiles.agents = agents.map((agent) => writer.convertedName(agent.name))
+  }
+
+  // Skills, namespaced with the plugin name, into a dedicated plugin
+  const skillsDir = join(pluginPath, "skills")
+  if (existsSync(skillsDir)) {
+    const skills = await selectAssets(
+      run,
+      "skill",
+      await discoverSkills(pluginPath, ""),
+      config.skills,
+      config.transformSkill && ((skill) => config.transformSkill!(skill, context))
+    )
+    run.result.found.skill = skills.length
+
+    if (skills.length > 0) {
+      const skillPluginDir = join(outputDir, "plugin", `crosstrain-${pluginName}`)
+      run.result.skillPluginDir = skillPluginDir
+
+      const namespace = (skill: ClaudeSkill): ClaudeSkill => ({ ...skill, name: `${pluginName}_${skill.name}` })
+      const getToolName = (skill: ClaudeSkill): string => getPluginSkillToolName(skill.name, context)
+      const pluginSkills = skills.map(namespace)
+      const toolNames = skills.map(getToolName)
+
+      for (const { asset: skill, id, hash } of await filterChanged(run, "skill", skills)) {
+        const namespacedSkill = namespace(skill)
+        const toolName = getToolName(skill)
+        const toolPath = join(skillPluginDir, "tools", `${toolName}.ts`)
+        await run.emit("skill", toolPath, await generateSkillFile(namespacedSkill, conversion, toolName, context))
+        await run.record({ kind: "skill", name: skill.name, source: skill.filePath, outputs: [toolPath] }, id, hash)
+      }
+      convertedFiles.skills = toolNames.map((toolName) => `tools/${toolName}.ts`)
+
+      // The entry point and package.json only change when the set of tools does
+      const pluginId = run.tracker.sourceId(skillsDir)
+      const pluginHash = hashContent([...toolNames].sort().join("\n"))
+      if (!(await run.tracker.isUnchanged(pluginId, pluginHash))) {
+        const indexPath = join(skillPluginDir, "index.ts")
+        const packageJsonPath = join(skillPluginDir, "package.json")
+        await run.emit("skill", indexPath, generateSkillsPlugin(pluginSkills, toolNames))
+        await run.emit(
+          "skill",
+          packageJsonPath,
+          JSON.stringify(
+            {
+              name: `crosstrain-${pluginName}`,
+              version: "0.0.1",
+              description: config.description || `Claude Code plugin '${pluginName}' skills converted to OpenCode tools`,
+              main: "index.ts",
+              type: "module",
+              peerDependencies: {
+                "@opencode-ai/plugin": "*",
+              },
+            },
+            null,
+            2
+          ) + "\n"
+        )
+        if (!dryRun) {
+          await run.tracker.record(pluginId, {
+            kind: "skill-plugin",
+            hash: pluginHash,
+            outputs: [indexPath, packageJsonPath],
+          })
+        }
+      }
+    }
+  }
+
+  // MCP servers from the plugin's .mcp.json
+  const mcpPath = join(pluginPath, ".mcp.json")
+  if (existsSync(mcpPath)) {
+    try {
+      const mcpConfig = JSON.parse(await readTextFile(mcpPath))
+      const entries = Object.entries((mcpConfig.mcpServers ?? {}) as Record<string, ClaudeMCPServer>)
+
+      const servers = await selectMCPServers(
+        run,
+        entries.map(([name, server]): DiscoveredMCPServer => ({ name, server, source: "plugin", sourcePath: mcpPath })),
+        context
+      )
+      run.result.found.mcp = servers.length
+
+      const changed: { server: DiscoveredMCPServer; id: string; hash: string }[] = []
+      for (const server of servers) {
+        const id = run.tracker.sourceId(mcpPath, server.name)
+        const hash = hashContent(JSON.stringify(server.server))
+        if (!(await run.isUnchanged("mcp", server.name, mcpPath, id, hash))) {
+          changed.push({ server, id, hash })
+        }
+      }
+
+      if (changed.length > 0) {
+        const converted = convertMCPServers(changed.map((c) => c.server), {
+          filePrefix: conversion.filePrefix,
+          verbose,
+          enableByDefault: config.mcp?.enableByDefault ?? true,
+        })
+        const configPath = getOpenCodeConfigPath(outputDir)
+        await run.mergeConfig(
+          "mcp",
+          configPath,
+          { mcp: converted },
+          changed.map(({ server, id, hash }) => ({
+            asset: { kind: "mcp", name: server.name, source: mcpPath, outputs: [`${configPath}#mcp.${prefix}${server.name}`] },
+            id,
+            hash,
+          }))
+        )
+      }
+      convertedFiles.mcp = servers.map((server) => `${prefix}${server.name}`)
+    } catch (err) {
+      run.result.warnings.push({ source: mcpPath, message: `Failed to parse .mcp.json: ${err}` })
+    }
+  }
+
+  // Hooks from the plugin's settings.json
+  const settingsPath = join(pluginPath, "settings.json")
+  if (existsSync(settingsPath)) {
+    try {
+      const hooks = await readTransformedHooks(settingsPath, context)
+      run.result.hookMatchers = hooks ? countHookMatchers(hooks) : 0
+    } catch {
+      run.result.warnings.push({ source: settingsPath, message: "Not valid JSON; hooks were not read" })
+    }
+  }
+
+  await run.flushConfigs()
+  await completeConversion(run, context, convertedFiles, crosstrainerInfo?.filePath ?? pluginPath)
+
+  await finishRun(run, lockfile, { outputDir, prune: options.prune ?? false, complete: true })
+
+  return {
+    ...run.result,
+    plugin: {
+      name: pluginName,
+      path: pluginPath,
+      prefix,
+      crosstrainerConfig,
+      trust,
+    },
+  }
+}
+
+// ========================================
+// Settings Conversion
+// ========================================
+
+/**
+ * Convert Claude Code settings and merge them into opencode.json
+ *
+ * The project's crosstrainer config can rewrite the merged settings with
+ * transformSettings, and the written file with transformOutput.
+ */
+export async function convertSettings(options: ConvertSettingsOptions = {}): Promise<SettingsConversionResult> {
+  const claudeDir = options.claudeDir ?? ".claude"
+  const outputDir = options.outputDir ?? ".opencode"
+  const projectRoot = resolve(outputDir, "..")
+  const warnings: ConversionWarning[] = []
+
+  const crosstrainerInfo = await loadProjectCrosstrainerConfig(claudeDir, projectRoot)
+  for (const message of crosstrainerInfo?.warnings ?? []) {
+    warnings.push({ source: crosstrainerInfo!.filePath, message })
+  }
+  const config: CrosstrainerConfig = crosstrainerInfo?.config ?? {}
+  const context: ConversionContext = {
+    pluginName: getEffectivePluginName(basename(projectRoot), config),
+    pluginDir: crosstrainerInfo ? dirname(crosstrainerInfo.filePath) : projectRoot,
+    outputDir,
+    prefix: getEffectivePrefix("claude_", config),
+    dryRun: options.dryRun ?? false,
+    verbose: false,
+    config,
+  }
+
+  const settings = await discoverClaudeSettings(claudeDir, options.loadUserSettings ?? true)
+  if (config.transformSettings) {
+    settings.merged = await config.transformSettings(settings.merged, context)
+  }
+  const existingConfig = await loadOpenCodeConfig(outputDir)
+  const conversion = createConversionOptions({ modelMappings: options.modelMappings })
+  const permissionWarnings: string[] = []
+  const openCodeConfig = mergeOpenCodeConfigs(
+    existingConfig,
+    convertClaudeSettingsToOpenCode(settings.merged, conversion, permissionWarnings)
+  )
+
+  const configPath = join(projectRoot, "opencode.json")
+  let content = JSON.stringify(openCodeConfig, null, 2)
+  if (config.transformOutput) {
+    content = await config.transformOutput(configPath, content, context)
+  }
+  if (!context.dryRun) {
+    await writeFile(configPath, content)
+  }
+
+  warnings.push(
+    ...Object.entries(UNSUPPORTED_SETTINGS)
+      .filter(([key]) => isSettingSet(settings.merged[key]))
+      .map(([key, message]) => ({ source: key, message }))
+  )
+  warnings.push(...permissionWarnings.map((message) => ({ source: "permissions", message })))
+
+  return {
+    settings,
+    existingConfig,
+    config: openCodeConfig,
+    configPath,
+    content,
+    warnings,
+  }
+}
@@ -3,6 +3,7 @@
  *
  * Loads and processes crosstrainer.{json,jsonc,js,ts} files from plugin directories.
  * These files allow plugin authors to customize the conversion process.
+ * Projects can have one too, next to .claude/ or at the project root.
  *
  * Supported files (in order of precedence):
  * - crosstrainer.js  - Full control with JavaScript hooks
@@ -11,16 +12,28 @@
  * - crosstrainer.jsonc - JSON with comments
  *
  * Only one crosstrainer file is allowed per plugin.
+ *
+ * Configs are validated against src/schemas/crosstrainer.schema.json,
+ * which scripts/generate-schema.ts generates from CrosstrainerJsonConfig.
+ * Values of the wrong type fail loading; unknown keys are reported as
+ * warnings with the closest known key.
  */
 
-import { join, resolve } from "path"
+import { basename, dirname, join, resolve } from "path"
 import { existsSync } from "fs"
 import { readFile } from "fs/promises"
+import crosstrainerSchema from "../schemas/crosstrainer.schema.json"
+import { parseJsonWithPositions, type SourcePosition } from "../utils/json"
+import { validateJsonSchema, type JsonSchema, type SchemaIssue } from "../utils/schema"
+import { reportDiagnostic, reportJsonError, type Diagnostic } from "../utils/diagnostics"
 import type {
   ClaudeSkill,
   ClaudeAgent,
   ClaudeCommand,
+  ClaudeHookMatcher,
+  ClaudeHooksConfig,
   ClaudeMCPServer,
+  ClaudeSettings,
   OpenCodeAgentFrontmatter,
 } from "../types"
 
@@ -38,7 +51,11 @@ export interface PermissionMappingConfig {
   modes?: Record<string, Record<string, "ask" | "allow" | "deny">>
 
   /**
-   * Map individual permission rules
+   * Permissions added to every agent, by action. Keys name the Claude
+   * Code rule being mapped; values are the OpenCode permission it
+   * becomes ("edit", "webfetch", "bash") or a bash command pattern.
+   *
+   * { "deny": { "Bash(rm:*)": "rm *" } }
    */
   rules?: {
     allow?: Record<string, string>
@@ -72,14 +89,41 @@ export interface ToolMappingConfig {
  */
 export interface AssetFilterConfig {
   /**
-   * Assets to include (if specified, only these are included)
+   * Assets to include (if specified, only these are included). Patterns
+   * are names, globs ("review-*", "frontend/**") or /regular expressions/,
+   * matched against the asset name and its path below the asset directory.
    */
   include?: string[]
 
   /**
-   * Assets to exclude
+   * Assets to exclude, applied after `include`
    */
   exclude?: string[]
+
+  /**
+   * Only include assets whose fields match, e.g. { "model": "haiku" }.
+   * Values are patterns like the ones above; a list matches any of them.
+   */
+  where?: Record<string, string | string[]>
+}
+
+/**
+ * Asset as seen by a filter
+ */
+export interface FilterableAsset {
+  name: string
+  /** Path below the asset directory, without extension (e.g. frontend/lint) */
+  path?: string
+  /** Fields matched by `where`, usually the asset itself */
+  fields?: object
+}
+
+/**
+ * Whether a filter includes an asset, and why
+ */
+export interface AssetFilterDecision {
+  included: boolean
+  reason: string
 }
 
 /**
@@ -87,7 +131,9 @@ export interface AssetFilterConfig {
  */
 export interface SkillConfig extends AssetFilterConfig {
   /**
-   * Custom tool name generator
+   * Tool name for each skill, with {plugin} and {name} placeholders
+   * (default: skill_{name} for project skills, skill_{plugin}_{name} for
+   * plugin skills, lowercased with - as _)
    */
   toolNameTemplate?: string
 }
@@ -102,7 +148,7 @@ export interface AgentConfig extends AssetFilterConfig {
   defaultModel?: string
 
   /**
-   * Default permission mode
+   * Permission mode for agents without an explicit one
    */
   defaultPermissionMode?: string
 }
@@ -112,7 +158,9 @@ export interface AgentConfig extends AssetFilterConfig {
  */
 export interface CommandConfig extends AssetFilterConfig {
   /**
-   * Default agent for commands
+   * Agent commands run with when none is inferred from the command: an
+   * OpenCode agent, or one of the project's or plugin's agents by its
+   * Claude Code name (default: build)
    */
   defaultAgent?: string
 }
@@ -129,6 +177,9 @@ export interface MCPConfig extends AssetFilterConfig {
 
 /**
  * Conversion context passed to transform hooks
+ *
+ * beforeConversion may change pluginName, prefix, dryRun and verbose;
+ * the conversion uses the values it leaves.
  */
 export interface ConversionContext {
   /**
@@ -200,6 +251,39 @@ export type MCPTransformHook = (
   context: ConversionContext
 ) => { name: string; server: ClaudeMCPServer } | null | Promise<{ name: string; server: ClaudeMCPServer } | null>
 
+/**
+ * Transform hook for Claude Code hook matchers
+ */
+export type HookTransformHook = (
+  eventName: string,
+  matcher: ClaudeHookMatcher,
+  context: ConversionContext
+) => ClaudeHookMatcher | null | Promise<ClaudeHookMatcher | null>
+
+/**
+ * Transform hook for Claude Code settings
+ */
+export type SettingsTransformHook = (
+  settings: ClaudeSettings,
+  context: ConversionContext
+) => ClaudeSettings | Promise<ClaudeSettings>
+
+/**
+ * Transform hook for generated files
+ */
+export type OutputTransformHook = (
+  path: string,
+  content: string,
+  context: ConversionContext
+) => string | Promise<string>
+
+/**
+ * Pre-conversion hook
+ */
+export type PreConversionHook = (
+  context: ConversionContext
+) => void | boolean | Promise<void | boolean>
+
 /**
  * Custom skill tool generator
  */
@@ -293,6 +377,12 @@ export interface CrosstrainerJsonConfig {
  * Crosstrainer configuration (JS/TS format with hooks)
  */
 export interface CrosstrainerJsConfig extends CrosstrainerJsonConfig {
+  /**
+   * Hook called after the config is loaded, before anything is converted
+   * Change the context to adjust the conversion; return false to abort it
+   */
+  beforeConversion?: PreConversionHook
+
   /**
    * Transform agent before conversion
    * Return null to skip the agent
@@ -317,6 +407,22 @@ export interface CrosstrainerJsConfig extends CrosstrainerJsonConfig {
    */
   transformMCP?: MCPTransformHook
 
+  /**
+   * Transform a hook matcher of a Claude Code hook event
+   * Return null to drop the matcher
+   */
+  transformHook?: HookTransformHook
+
+  /**
+   * Transform Claude Code settings before they are read
+   */
+  transformSettings?: SettingsTransformHook
+
+  /**
+   * Transform the content of every generated file before it is written
+   */
+  transformOutput?: OutputTransformHook
+
   /**
    * Custom skill tool code generator
    */
@@ -356,6 +462,11 @@ export interface LoadedCrosstrainerConfig {
    * Config file type
    */
   fileType: "json" | "jsonc" | "js" | "ts"
+
+  /**
+   * Problems that did not prevent loading, such as unknown keys
+   */
+  warnings: string[]
 }
 
 // ========================================
@@ -420,6 +531,110 @@ export function findCrosstrainerConfig(pluginDir: string): {
   return { path: filePath, type }
 }
 
+// ========================================
+// Config Validation
+// ========================================
+
+/**
+ * Keys only JS/TS configs can set, all of them functions
+ */
+const CROSSTRAINER_HOOKS = [
+  "beforeConversion",
+  "transformAgent",
+  "transformCommand",
+  "transformSkill",
+  "transformMCP",
+  "transformHook",
+  "transformSettings",
+  "transformOutput",
+  "generateSkillTool",
+  "generateAgent",
+  "onConversionComplete",
+] as const
+
+/**
+ * Validate a config against the crosstrainer schema
+ *
+ * JS/TS configs may also set the hook functions.
+ */
+export function validateCrosstrainerConfig(
+  config: unknown,
+  fileType: LoadedCrosstrainerConfig["fileType"] = "json"
+): SchemaIssue[] {
+  const schema = crosstrainerSchema as JsonSchema
+  if (fileType === "json" || fileType === "jsonc") {
+    return validateJsonSchema(config, schema)
+  }
+
+  const hooks = Object.fromEntries(CROSSTRAINER_HOOKS.map((hook) => [hook, { type: "function" }]))
+  return validateJsonSchema(config, { ...schema, properties: { ...schema.properties, ...hooks } })
+}
+
+/**
+ * Format a schema issue as "agents.include[0]: expected string, got number"
+ */
+function formatConfigIssue(issue: SchemaIssue, position?: SourcePosition): string {
+  const location = position ? ` (line ${position.line}, column ${position.column})` : ""
+  return `${issue.path || "config"}: ${issue.message}${location}`
+}
+
+/**
+ * Validate a loaded config, throwing on type errors and returning
+ * unknown keys as warnings
+ */
+function checkCrosstrainerConfig(
+  config: unknown,
+  filePath: string,
+  fileType: LoadedCrosstrainerConfig["fileType"],
+  positions: Record<string, SourcePosition> = {}
+): string[] {
+  const issues = validateCrosstrainerConfig(config, fileType)
+  const format = (issue: SchemaIssue) => formatConfigIssue(issue, positions[issue.path])
+
+  const errors = issues.filter((issue) => issue.kind === "invalid-type")
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${basename(filePath)}: ${errors.map(format).join("; ")}`)
+  }
+
+  return issues.map(format)
+}
+
+/**
+ * Check a directory's crosstrainer.json/jsonc in validation mode
+ *
+ * JS/TS configs are not run by the linter and are skipped.
+ */
+export async function lintCrosstrainerConfig(dir: string, diagnostics: Diagnostic[]): Promise<void> {
+  let found: ReturnType<typeof findCrosstrainerConfig>
+  try {
+    found = findCrosstrainerConfig(dir)
+  } catch (err) {
+    reportDiagnostic(diagnostics, join(dir, "crosstrainer.json"), undefined, "error", "invalid-config", (err as Error).message)
+    return
+  }
+  if (!found || (found.type !== "json" && found.type !== "jsonc")) {
+    return
+  }
+
+  try {
+    const content = await readFile(found.path, "utf-8")
+    const { value, positions } = parseJsonWithPositions(content, { jsonc: found.type === "jsonc" })
+    for (const issue of validateCrosstrainerConfig(value, found.type)) {
+      const unknownKey = issue.kind === "unknown-key"
+      reportDiagnostic(
+        diagnostics,
+        found.path,
+        positions[issue.path],
+        unknownKey ? "warning" : "error",
+        unknownKey ? "unknown-key" : "invalid-config",
+        formatConfigIssue(issue)
+      )
+    }
+  } catch (err) {
+    reportJsonError(diagnostics, found.path, err)
+  }
+}
+
 // ========================================
 // Config Loading
 // ========================================
@@ -427,23 +642,21 @@ export function findCrosstrainerConfig(pluginDir: string): {
 /**
  * Load JSON/JSONC config file
  */
-async function loadJsonConfig(filePath: string, isJsonc: boolean): Promise<CrosstrainerJsonConfig> {
+async function loadJsonConfig(
+  filePath: string,
+  isJsonc: boolean
+): Promise<{ config: CrosstrainerJsonConfig; warnings: string[] }> {
   const content = await readFile(filePath, "utf-8")
 
-  // Strip comments from JSONC
-  let jsonContent = content
-  if (isJsonc) {
-    // Remove single-line comments
-    jsonContent = jsonContent.replace(/\/\/.*$/gm, "")
-    // Remove multi-line comments
-    jsonContent = jsonContent.replace(/\/\*[\s\S]*?\*\//g, "")
-  }
-
+  let parsed
   try {
-    return JSON.parse(jsonContent) as CrosstrainerJsonConfig
+    parsed = parseJsonWithPositions<CrosstrainerJsonConfig>(content, { jsonc: isJsonc })
   } catch (err) {
     throw new Error(`Failed to parse ${filePath}: ${(err as Error).message}`)
   }
+
+  const warnings = checkCrosstrainerConfig(parsed.value, filePath, isJsonc ? "jsonc" : "json", parsed.positions)
+  return { config: parsed.value, warnings }
 }
 
 /**
@@ -492,26 +705,31 @@ export async function loadCrosstrainerConfig(
 
   const { path: filePath, type } = found
 
-  let config: CrosstrainerConfig
-
-  switch (type) {
-    case "json":
-      config = await loadJsonConfig(filePath, false)
-      break
-    case "jsonc":
-      config = await loadJsonConfig(filePath, true)
-      break
-    case "js":
-    case "ts":
-      config = await loadJsConfig(filePath)
-      break
+  if (type === "json" || type === "jsonc") {
+    const { config, warnings } = await loadJsonConfig(filePath, type === "jsonc")
+    return { config, filePath, fileType: type, warnings }
   }
 
-  return {
-    config,
-    filePath,
-    fileType: type,
+  const config = await loadJsConfig(filePath)
+  const warnings = checkCrosstrainerConfig(config, filePath, type)
+  return { config, filePath, fileType: type, warnings }
+}
+
+/**
+ * Load a project's crosstrainer config: next to the Claude Code
+ * directory, or at the project root
+ */
+export async function loadProjectCrosstrainerConfig(
+  claudeDir: string,
+  projectRoot: string
+): Promise<LoadedCrosstrainerConfig | null> {
+  for (const dir of new Set([dirname(resolve(claudeDir)), resolve(projectRoot)])) {
+    const loaded = await loadCrosstrainerConfig(dir)
+    if (loaded) {
+      return loaded
+    }
   }
+  return null
 }
 
 // ========================================
@@ -519,27 +737,110 @@ export async function loadCrosstrainerConfig(
 // ========================================
 
 /**
- * Check if an asset should be included based on filter config
+ * Convert a glob to a regular expression
+ *
+ * `*` and `?` stay within a path segment; `**` crosses segments.
  */
-export function shouldIncludeAsset(
-  assetName: string,
+function globToRegExp(glob: string): RegExp {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*" && glob[i + 1] === "*") {
+      const segments = glob[i + 2] === "/"
+      source += segments ? "(?:.*/)?" : ".*"
+      i += segments ? 2 : 1
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check whether a filter pattern (name, glob or /regex/flags) matches
+ */
+export function matchesFilterPattern(pattern: string, value: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (!regex) {
+    return globToRegExp(pattern).test(value)
+  }
+  try {
+    return new RegExp(regex[1], regex[2]).test(value)
+  } catch (err) {
+    throw new Error(`Invalid filter pattern ${pattern}: ${(err as Error).message}`)
+  }
+}
+
+/**
+ * Get an asset's path below its commands/, agents/ or skills/ directory
+ *
+ * .claude/commands/frontend/lint.md → frontend/lint
+ */
+export function getAssetSubPath(filePath: string): string | undefined {
+  const match = filePath.replace(/\\/g, "/").match(/^.*\/(?:commands|agents|skills)\/(.+?)(?:\/SKILL)?\.md$/)
+  return match?.[1]
+}
+
+/**
+ * Decide whether a filter includes an asset, explaining the decision
+ *
+ * `include` is applied first, then `where`, then `exclude`.
+ */
+export function explainAssetFilter(
+  asset: FilterableAsset,
   filterConfig?: AssetFilterConfig
-): boolean {
+): AssetFilterDecision {
   if (!filterConfig) {
-    return true
+    return { included: true, reason: "no filter" }
   }
 
-  // If include list is specified, only include those
+  const candidates = asset.path && asset.path !== asset.name ? [asset.name, asset.path] : [asset.name]
+  const findMatch = (patterns: string[]): string | undefined =>
+    patterns.find((pattern) => candidates.some((candidate) => matchesFilterPattern(pattern, candidate)))
+  const reasons: string[] = []
+
   if (filterConfig.include && filterConfig.include.length > 0) {
-    return filterConfig.include.includes(assetName)
+    const pattern = findMatch(filterConfig.include)
+    if (!pattern) {
+      return { included: false, reason: `matches no include pattern (${filterConfig.include.join(", ")})` }
+    }
+    reasons.push(`matches include "${pattern}"`)
   }
 
-  // Check exclude list
-  if (filterConfig.exclude && filterConfig.exclude.length > 0) {
-    return !filterConfig.exclude.includes(assetName)
+  for (const [field, expected] of Object.entries(filterConfig.where ?? {})) {
+    const patterns = Array.isArray(expected) ? expected : [expected]
+    const value = (asset.fields as Record<string, unknown> | undefined)?.[field]
+    const values = (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]).map(String)
+    if (values.length === 0) {
+      return { included: false, reason: `${field} is not set` }
+    }
+    if (!values.some((v) => patterns.some((pattern) => matchesFilterPattern(pattern, v)))) {
+      return { included: false, reason: `${field} is "${values.join(", ")}", not "${patterns.join(`" or "`)}"` }
+    }
+    reasons.push(`${field} matches "${patterns.join(`" or "`)}"`)
   }
 
-  return true
+  const excluded = filterConfig.exclude && findMatch(filterConfig.exclude)
+  if (excluded) {
+    return { included: false, reason: `matches exclude "${excluded}"` }
+  }
+
+  return { included: true, reason: reasons.length > 0 ? reasons.join(", ") : "not excluded" }
+}
+
+/**
+ * Check if an asset should be included based on filter config
+ */
+export function shouldIncludeAsset(
+  assetName: string,
+  filterConfig?: AssetFilterConfig,
+  asset: Omit<FilterableAsset, "name"> = {}
+): boolean {
+  return explainAssetFilter({ name: assetName, ...asset }, filterConfig).included
 }
 
 /**
@@ -578,6 +879,53 @@ export function applyPermissionModeMapping(
   return undefined
 }
 
+/**
+ * Claude Code permission rules for the permission targets in config
+ */
+export function applyPermissionRuleMapping(
+  permConfig?: PermissionMappingConfig
+): { allow?: string[]; ask?: string[]; deny?: string[] } | undefined {
+  if (!permConfig?.rules) {
+    return undefined
+  }
+
+  const toRule = (target: string): string => {
+    switch (target) {
+      case "edit":
+        return "Edit"
+      case "webfetch":
+        return "WebFetch"
+      case "bash":
+        return "Bash"
+      default:
+        return `Bash(${target})`
+    }
+  }
+
+  const rules: { allow?: string[]; ask?: string[]; deny?: string[] } = {}
+  for (const action of ["allow", "ask", "deny"] as const) {
+    const mapped = permConfig.rules[action]
+    if (mapped) {
+      rules[action] = Object.values(mapped).map(toRule)
+    }
+  }
+  return rules
+}
+
+/**
+ * Tool name for a skill from the configured template
+ */
+export function applyToolNameTemplate(
+  template: string,
+  skillName: string,
+  pluginName: string
+): string {
+  return template
+    .replace(/\{plugin\}/g, pluginName)
+    .replace(/\{name\}/g, skillName)
+    .replace(/[^a-zA-Z0-9_$]/g, "_")
+}
+
 /**
  * Apply tool name mapping from config
  */
@@ -596,6 +944,33 @@ export function applyToolMapping(
   return tools.map(tool => toolConfig[tool] || tool)
 }
 
+/**
+ * Apply the config's transformHook to every hook matcher, dropping the
+ * matchers it returns null for
+ */
+export async function applyHookTransform(
+  hooks: ClaudeHooksConfig,
+  context: ConversionContext
+): Promise<ClaudeHooksConfig> {
+  const transform = context.config.transformHook
+  if (!transform) {
+    return hooks
+  }
+
+  const transformed: ClaudeHooksConfig = {}
+  for (const [eventName, matchers] of Object.entries(hooks) as [keyof ClaudeHooksConfig, ClaudeHookMatcher[]][]) {
+    const kept: ClaudeHookMatcher[] = []
+    for (const matcher of matchers ?? []) {
+      const result = await transform(eventName, matcher, context)
+      if (result) {
+        kept.push(result)
+      }
+    }
+    transformed[eventName] = kept
+  }
+  return transformed
+}
+
 /**
  * Generate custom prefix from config
  */
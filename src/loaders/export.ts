@@ -0,0 +1,441 @@
+/**
+ * Export Loader - Converts OpenCode assets back to Claude Code
+ *
+ * The reverse of the agent, command and MCP loaders:
+ * - .opencode/agent/*.md → .claude/agents/*.md
+ * - .opencode/command/*.md → .claude/commands/*.md
+ * - opencode.json `mcp` → .mcp.json `mcpServers`
+ *
+ * Mapping strategy (inverse of convertAgentFrontmatter / convertMCPServer):
+ * - OpenCode `tools` (object with boolean values) → Claude `tools` (comma-separated)
+ * - OpenCode `model` (full model path) → Claude `model` (alias)
+ * - OpenCode `permission` object → Claude `permissionMode`
+ * - OpenCode local MCP `command` array → Claude `command` + `args`
+ *
+ * Anything Claude Code cannot represent is reported as a warning. Assets
+ * that crosstrain generated from Claude Code in the first place (they end
+ * with a "Loaded from Claude Code" footer, or carry the MCP prefix) are
+ * skipped so the two directions never feed each other.
+ */
+
+import { join, dirname } from "path"
+import { existsSync } from "fs"
+import { writeFile, mkdir } from "fs/promises"
+import type {
+  ClaudeAgentFrontmatter,
+  ClaudeCommandFrontmatter,
+  ClaudeMCPConfig,
+  ClaudeMCPServer,
+  OpenCodeAgentFrontmatter,
+  OpenCodeCommandFrontmatter,
+  OpenCodeMCPServer,
+} from "../types"
+import { MODEL_MAPPING, PERMISSION_MODE_MAPPING } from "../types"
+import { getCatalogTools, getPrimaryClaudeTools } from "./tools"
+import {
+  parseMarkdownWithFrontmatter,
+  serializeMarkdownWithFrontmatter,
+  readTextFile,
+  getMarkdownFiles,
+  extractNameFromPath,
+} from "../utils/parser"
+import { loadOpenCodeConfig } from "./settings-converter"
+
+/**
+ * Footer crosstrain appends to assets converted from Claude Code
+ */
+const CLAUDE_SOURCE_MARKER = "*[Loaded from Claude Code:"
+
+/**
+ * Footer appended to assets exported to Claude Code
+ */
+const OPENCODE_SOURCE_MARKER = "*[Exported from OpenCode:"
+
+/**
+ * Claude model families an OpenCode model path can be reduced to
+ */
+const MODEL_FAMILIES = ["opus", "sonnet", "haiku"]
+
+/**
+ * Options for exporting OpenCode assets
+ */
+export interface ExportOptions {
+  /** OpenCode directory to read from (e.g. .opencode) */
+  openCodeDir: string
+  /** Claude Code directory to write to (e.g. .claude) */
+  claudeDir: string
+  /** Prefix of MCP servers crosstrain imported from Claude Code (default: "claude_") */
+  filePrefix?: string
+  /** Report what would be written without writing */
+  dryRun?: boolean
+  /** Whether to log output */
+  verbose?: boolean
+}
+
+/**
+ * Something that could not be carried over to Claude Code
+ */
+export interface ExportWarning {
+  /** File or config entry the warning is about */
+  source: string
+  message: string
+}
+
+/**
+ * An asset that was not exported
+ */
+export interface ExportSkipped {
+  source: string
+  reason: string
+}
+
+/**
+ * Result of an export
+ */
+export interface ExportResult {
+  /** Names of exported agents */
+  agents: string[]
+  /** Names of exported commands */
+  commands: string[]
+  /** Names of exported MCP servers */
+  mcpServers: string[]
+  /** Files written (or that would be written in dry-run mode) */
+  outputs: string[]
+  warnings: ExportWarning[]
+  skipped: ExportSkipped[]
+}
+
+/**
+ * Result of converting a single asset's frontmatter
+ */
+export interface ConvertedFrontmatter<T> {
+  frontmatter: T
+  /** Fields that could not be represented */
+  warnings: string[]
+}
+
+/**
+ * Convert an OpenCode model path to a Claude Code model
+ *
+ * Agents only accept aliases, so with `aliasOnly` other Anthropic models
+ * are reduced to their family alias.
+ */
+export function convertOpenCodeModel(
+  model: string,
+  aliasOnly: boolean
+): { model?: string; warning?: string } {
+  for (const [alias, path] of Object.entries(MODEL_MAPPING)) {
+    if (path && path === model) {
+      return { model: alias }
+    }
+  }
+
+  if (!model.startsWith("anthropic/")) {
+    return { warning: `model "${model}" is not an Anthropic model; the agent will inherit the default model` }
+  }
+
+  const modelId = model.slice("anthropic/".length)
+  if (!aliasOnly) {
+    return { model: modelId }
+  }
+
+  const family = MODEL_FAMILIES.find((name) => modelId.includes(name))
+  if (!family) {
+    return { warning: `model "${model}" has no Claude Code alias; the agent will inherit the default model` }
+  }
+  return {
+    model: family,
+    warning: `model "${model}" was reduced to the "${family}" alias`,
+  }
+}
+
+/**
+ * Convert OpenCode agent frontmatter to Claude Code agent frontmatter
+ */
+export function convertOpenCodeAgentFrontmatter(
+  name: string,
+  openCode: OpenCodeAgentFrontmatter
+): ConvertedFrontmatter<ClaudeAgentFrontmatter> {
+  const warnings: string[] = []
+  const frontmatter: ClaudeAgentFrontmatter = {
+    name,
+    description: openCode.description || `OpenCode agent: ${name}`,
+  }
+
+  if (openCode.model) {
+    const converted = convertOpenCodeModel(openCode.model, true)
+    if (converted.model) frontmatter.model = converted.model
+    if (converted.warning) warnings.push(converted.warning)
+  }
+
+  // OpenCode enables unlisted tools, so only a disabled tool restricts the
+  // agent. Claude expresses a restriction by listing the allowed tools.
+  if (openCode.tools) {
+    const openCodeTools = new Set(getCatalogTools())
+
+    if (Object.values(openCode.tools).some((enabled) => !enabled)) {
+      frontmatter.tools = getPrimaryClaudeTools()
+        .filter(({ tools }) => tools.every((tool) => openCode.tools![tool] !== false))
+        .map(({ claudeTool }) => claudeTool)
+        .join(", ")
+    }
+
+    for (const [tool, enabled] of Object.entries(openCode.tools)) {
+      if (!openCodeTools.has(tool)) {
+        warnings.push(`tool "${tool}" (${enabled ? "enabled" : "disabled"}) has no Claude Code equivalent`)
+      }
+    }
+  }
+
+  if (openCode.permission && Object.keys(openCode.permission).length > 0) {
+    const permissionMode = Object.entries(PERMISSION_MODE_MAPPING).find(
+      ([, permission]) =>
+        Object.keys(permission).length > 0 && isSamePermission(permission, openCode.permission!)
+    )?.[0]
+    if (permissionMode) {
+      frontmatter.permissionMode = permissionMode as ClaudeAgentFrontmatter["permissionMode"]
+    } else {
+      warnings.push(`permission ${JSON.stringify(openCode.permission)} does not match a Claude Code permissionMode`)
+    }
+  }
+
+  if (openCode.mode === "primary") {
+    warnings.push(`mode "primary" cannot be represented; Claude Code agents are always subagents`)
+  }
+  for (const field of ["temperature", "maxSteps", "disable"] as const) {
+    if (openCode[field] !== undefined) {
+      warnings.push(`${field} has no Claude Code equivalent`)
+    }
+  }
+
+  return { frontmatter, warnings }
+}
+
+/**
+ * Convert OpenCode command frontmatter to Claude Code command frontmatter
+ */
+export function convertOpenCodeCommandFrontmatter(
+  openCode: OpenCodeCommandFrontmatter
+): ConvertedFrontmatter<ClaudeCommandFrontmatter> {
+  const warnings: string[] = []
+  const frontmatter: ClaudeCommandFrontmatter = {}
+
+  if (openCode.description) {
+    frontmatter.description = openCode.description
+  }
+
+  if (openCode.model) {
+    const converted = convertOpenCodeModel(openCode.model, false)
+    if (converted.model) frontmatter.model = converted.model
+    if (converted.warning) warnings.push(converted.warning)
+  }
+
+  // "build" is the agent commands run with by default
+  if (openCode.agent && openCode.agent !== "build") {
+    warnings.push(`agent "${openCode.agent}" cannot be represented; the command will run in the main conversation`)
+  }
+  if (openCode.subtask) {
+    warnings.push(`subtask has no Claude Code equivalent`)
+  }
+
+  return { frontmatter, warnings }
+}
+
+/**
+ * Convert an OpenCode MCP server to Claude Code format
+ *
+ * Returns null with a warning for servers .mcp.json cannot represent.
+ */
+export function convertOpenCodeMCPServer(
+  server: OpenCodeMCPServer
+): { server: ClaudeMCPServer | null; warnings: string[] } {
+  if (server.type !== "local") {
+    return { server: null, warnings: [`remote server (${server.url}) cannot be represented in .mcp.json`] }
+  }
+
+  const [command, ...args] = server.command
+  if (!command) {
+    return { server: null, warnings: ["local server has an empty command"] }
+  }
+
+  const warnings: string[] = []
+  const claudeServer: ClaudeMCPServer = { command }
+  if (args.length > 0) {
+    claudeServer.args = args
+  }
+  if (server.environment && Object.keys(server.environment).length > 0) {
+    claudeServer.env = { ...server.environment }
+  }
+  if (server.timeout !== undefined) {
+    warnings.push("timeout has no Claude Code equivalent")
+  }
+
+  return { server: claudeServer, warnings }
+}
+
+/**
+ * Export OpenCode agents, commands and MCP servers to Claude Code
+ */
+export async function exportOpenCodeToClaude(options: ExportOptions): Promise<ExportResult> {
+  const prefix = options.filePrefix ?? "claude_"
+  const verbose = options.verbose ?? false
+  const result: ExportResult = {
+    agents: [],
+    commands: [],
+    mcpServers: [],
+    outputs: [],
+    warnings: [],
+    skipped: [],
+  }
+
+  const writeOutput = async (filePath: string, content: string): Promise<void> => {
+    result.outputs.push(filePath)
+    if (options.dryRun) return
+    await mkdir(dirname(filePath), { recursive: true })
+    await writeFile(filePath, content, "utf-8")
+    if (verbose) {
+      console.log(`[crosstrain] Wrote Claude Code asset: ${filePath}`)
+    }
+  }
+
+  // Agents
+  for (const filePath of await getMarkdownFiles(join(options.openCodeDir, "agent"))) {
+    const content = await readTextFile(filePath)
+    if (content.includes(CLAUDE_SOURCE_MARKER)) {
+      result.skipped.push({ source: filePath, reason: "converted from Claude Code" })
+      continue
+    }
+
+    const name = extractNameFromPath(filePath)
+    const target = join(options.claudeDir, "agents", `${name}.md`)
+    if (!(await isExportTarget(target))) {
+      result.skipped.push({ source: filePath, reason: `${target} exists and was not exported by crosstrain` })
+      continue
+    }
+
+    const parsed = parseMarkdownWithFrontmatter<OpenCodeAgentFrontmatter>(content)
+    const converted = convertOpenCodeAgentFrontmatter(name, parsed.frontmatter)
+    for (const message of converted.warnings) {
+      result.warnings.push({ source: filePath, message })
+    }
+
+    const body = `${parsed.content.trimEnd()}\n\n---\n${OPENCODE_SOURCE_MARKER} ${filePath}]*`
+    await writeOutput(
+      target,
+      serializeMarkdownWithFrontmatter(converted.frontmatter as unknown as Record<string, unknown>, body)
+    )
+    result.agents.push(name)
+  }
+
+  // Commands
+  for (const filePath of await getMarkdownFiles(join(options.openCodeDir, "command"))) {
+    const content = await readTextFile(filePath)
+    if (content.includes(CLAUDE_SOURCE_MARKER)) {
+      result.skipped.push({ source: filePath, reason: "converted from Claude Code" })
+      continue
+    }
+
+    const name = extractNameFromPath(filePath)
+    const target = join(options.claudeDir, "commands", `${name}.md`)
+    if (!(await isExportTarget(target))) {
+      result.skipped.push({ source: filePath, reason: `${target} exists and was not exported by crosstrain` })
+      continue
+    }
+
+    const parsed = parseMarkdownWithFrontmatter<OpenCodeCommandFrontmatter>(content)
+    const converted = convertOpenCodeCommandFrontmatter(parsed.frontmatter)
+    for (const message of converted.warnings) {
+      result.warnings.push({ source: filePath, message })
+    }
+
+    const body = `${parsed.content.trimEnd()}\n\n---\n${OPENCODE_SOURCE_MARKER} ${filePath}]*`
+    await writeOutput(
+      target,
+      serializeMarkdownWithFrontmatter(converted.frontmatter as Record<string, unknown>, body)
+    )
+    result.commands.push(name)
+  }
+
+  // MCP servers
+  const openCodeConfig = await loadOpenCodeConfig(options.openCodeDir)
+  const mcpEntries = Object.entries(openCodeConfig?.mcp ?? {}) as [string, OpenCodeMCPServer][]
+  if (mcpEntries.length > 0) {
+    const mcpPath = join(dirname(options.claudeDir), ".mcp.json")
+    const existing = await loadClaudeMCPConfig(mcpPath)
+    const mcpServers: Record<string, ClaudeMCPServer> = { ...existing.mcpServers }
+    let changed = false
+
+    for (const [name, server] of mcpEntries) {
+      const source = `opencode.json#mcp.${name}`
+      if (prefix && name.startsWith(prefix)) {
+        result.skipped.push({ source, reason: "converted from Claude Code" })
+        continue
+      }
+      if (server.enabled === false) {
+        result.skipped.push({ source, reason: "disabled in opencode.json" })
+        continue
+      }
+
+      const converted = convertOpenCodeMCPServer(server)
+      for (const message of converted.warnings) {
+        result.warnings.push({ source, message })
+      }
+      if (!converted.server) continue
+
+      if (name in mcpServers && JSON.stringify(mcpServers[name]) !== JSON.stringify(converted.server)) {
+        result.skipped.push({ source, reason: `"${name}" is already defined differently in ${mcpPath}` })
+        continue
+      }
+
+      mcpServers[name] = converted.server
+      result.mcpServers.push(name)
+      changed = true
+    }
+
+    if (changed) {
+      await writeOutput(mcpPath, JSON.stringify({ ...existing, mcpServers }, null, 2) + "\n")
+    }
+  }
+
+  return result
+}
+
+/**
+ * Check whether an export may write to a Claude Code file
+ *
+ * Only new files and files a previous export wrote are overwritten.
+ */
+async function isExportTarget(filePath: string): Promise<boolean> {
+  if (!existsSync(filePath)) {
+    return true
+  }
+  const content = await readTextFile(filePath)
+  return content.includes(OPENCODE_SOURCE_MARKER)
+}
+
+/**
+ * Load an existing .mcp.json, or an empty config
+ */
+async function loadClaudeMCPConfig(filePath: string): Promise<ClaudeMCPConfig> {
+  if (!existsSync(filePath)) {
+    return { mcpServers: {} }
+  }
+  const config = JSON.parse(await readTextFile(filePath)) as Partial<ClaudeMCPConfig>
+  return { ...config, mcpServers: config.mcpServers ?? {} }
+}
+
+/**
+ * Check whether two permission objects grant the same permissions
+ */
+function isSamePermission(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>
+): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  for (const key of keys) {
+    if (JSON.stringify(a[key]) !== JSON.stringify(b[key])) {
+      return false
+    }
+  }
+  return true
+}
@@ -30,39 +30,122 @@ import type {
 } from "../types"
 import { HOOK_EVENT_MAPPING } from "../types"
 import { readTextFile } from "../utils/parser"
+import { parseJsonWithPositions, joinJsonPath, type SourcePosition } from "../utils/json"
+import {
+  reportDiagnostic,
+  reportJsonError,
+  type Diagnostic,
+  type DiagnosticOptions,
+} from "../utils/diagnostics"
+
+/**
+ * Hook event names Claude Code recognizes in settings.json
+ */
+const CLAUDE_HOOK_EVENTS: readonly (keyof ClaudeHooksConfig)[] = [
+  "PreToolUse",
+  "PostToolUse",
+  "PermissionRequest",
+  "UserPromptSubmit",
+  "Notification",
+  "Stop",
+  "SubagentStop",
+  "PreCompact",
+  "SessionStart",
+  "SessionEnd",
+]
+
+/**
+ * Record structural problems in a hooks configuration
+ */
+function validateHooksConfig(
+  filePath: string,
+  hooks: unknown,
+  positions: Record<string, SourcePosition>,
+  diagnostics: Diagnostic[]
+): void {
+  if (typeof hooks !== "object" || hooks === null || Array.isArray(hooks)) {
+    reportDiagnostic(diagnostics, filePath, positions.hooks, "error", "invalid-hooks", "\"hooks\" must be an object keyed by hook event")
+    return
+  }
+
+  for (const [eventName, matchers] of Object.entries(hooks)) {
+    const eventPath = joinJsonPath("hooks", eventName)
+
+    if (!CLAUDE_HOOK_EVENTS.includes(eventName as keyof ClaudeHooksConfig)) {
+      reportDiagnostic(diagnostics, filePath, positions[eventPath], "warning", "unknown-hook-event", `Unknown hook event "${eventName}"`)
+    }
+
+    if (!Array.isArray(matchers)) {
+      reportDiagnostic(diagnostics, filePath, positions[eventPath], "error", "invalid-hooks", `Hook event "${eventName}" must be an array of matchers`)
+      continue
+    }
+
+    matchers.forEach((matcher, matcherIndex) => {
+      const matcherPath = joinJsonPath(eventPath, matcherIndex)
+      if (!matcher || !Array.isArray(matcher.hooks)) {
+        reportDiagnostic(diagnostics, filePath, positions[matcherPath], "error", "invalid-hooks", `Matcher ${matcherIndex} of "${eventName}" is missing a "hooks" array`)
+        return
+      }
+
+      matcher.hooks.forEach((hook: Partial<ClaudeHook> | null, hookIndex: number) => {
+        const hookPath = joinJsonPath(joinJsonPath(matcherPath, "hooks"), hookIndex)
+        if (hook?.type !== "command") {
+          reportDiagnostic(diagnostics, filePath, positions[hookPath], "warning", "unsupported-hook-type", `Hook type "${hook?.type}" is not supported; only "command" hooks are converted`)
+        } else if (typeof hook.command !== "string" || hook.command.trim() === "") {
+          reportDiagnostic(diagnostics, filePath, positions[hookPath], "error", "invalid-hooks", `Command hook in "${eventName}" is missing a "command"`)
+        }
+      })
+    })
+  }
+}
 
 /**
  * Load Claude Code hooks configuration from settings.json
  */
 export async function loadClaudeHooksConfig(
   claudeDir: string,
-  homeDir: string
+  homeDir: string,
+  options: DiagnosticOptions = {}
 ): Promise<ClaudeHooksConfig | null> {
   // Check project settings first
   const projectSettingsPath = join(claudeDir, "settings.json")
   if (existsSync(projectSettingsPath)) {
     try {
       const content = await readTextFile(projectSettingsPath)
-      const settings = JSON.parse(content)
+      const { value: settings, positions } = parseJsonWithPositions<Record<string, any>>(content)
       if (settings.hooks) {
+        if (options.diagnostics) {
+          validateHooksConfig(projectSettingsPath, settings.hooks, positions, options.diagnostics)
+        }
         return settings.hooks as ClaudeHooksConfig
       }
     } catch (error) {
-      console.error(`Error reading project settings:`, error)
+      if (options.diagnostics) {
+        reportJsonError(options.diagnostics, projectSettingsPath, error)
+      } else {
+        console.error(`Error reading project settings:`, error)
+      }
     }
   }
 
   // Fall back to user settings
   const userSettingsPath = join(homeDir, ".claude", "settings.json")
-  if (existsSync(userSettingsPath)) {
+  if (homeDir && existsSync(userSettingsPath)) {
     try {
       const content = await readTextFile(userSettingsPath)
-      const settings = JSON.parse(content)
+      const { value: settings, positions } = parseJsonWithPositions<Record<string, any>>(content)
       if (settings.hooks) {
+        if (options.diagnostics) {
+          validateHooksConfig(userSettingsPath, settings.hooks, positions, options.diagnostics)
+        }
         return settings.hooks as ClaudeHooksConfig
       }
     } catch (error) {
-      console.error(`Error reading user settings:`, error)
+      if (options.diagnostics) {
+        reportJsonError(options.diagnostics, userSettingsPath, error)
+      } else {
+        console.error(`Error reading user settings:`, error)
+      }
     }
   }
 
@@ -246,28 +329,36 @@ export function createEventHandler(
   }
 }
 
+/**
+ * OpenCode handlers for Claude hooks
+ */
+export interface HookHandlers {
+  toolExecuteBefore?: (input: any, output: any) => Promise<void>
+  toolExecuteAfter?: (input: any, output: any) => Promise<void>
+  event?: (params: { event: any }) => Promise<void>
+}
+
 /**
  * Build all OpenCode hook handlers from Claude hooks configuration
  */
 export async function buildHookHandlers(
   claudeDir: string,
   homeDir: string
-): Promise<{
-  toolExecuteBefore?: (input: any, output: any) => Promise<void>
-  toolExecuteAfter?: (input: any, output: any) => Promise<void>
-  event?: (params: { event: any }) => Promise<void>
-}> {
+): Promise<HookHandlers> {
   const hooksConfig = await loadClaudeHooksConfig(claudeDir, homeDir)
 
   if (!hooksConfig) {
     return {}
   }
 
-  const handlers: {
-    toolExecuteBefore?: (input: any, output: any) => Promise<void>
-    toolExecuteAfter?: (input: any, output: any) => Promise<void>
-    event?: (params: { event: any }) => Promise<void>
-  } = {}
+  return createHookHandlers(hooksConfig)
+}
+
+/**
+ * Create OpenCode hook handlers for a Claude hooks configuration
+ */
+export function createHookHandlers(hooksConfig: ClaudeHooksConfig): HookHandlers {
+  const handlers: HookHandlers = {}
 
   // PreToolUse → tool.execute.before
   if (hooksConfig.PreToolUse && hooksConfig.PreToolUse.length > 0) {
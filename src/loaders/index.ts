@@ -7,3 +7,4 @@ export * from "./agents"
 export * from "./commands"
 export * from "./hooks"
 export * from "./mcp"
+export * from "./tools"
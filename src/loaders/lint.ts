@@ -0,0 +1,68 @@
+/**
+ * Lint - Validate Claude Code assets without converting them
+ *
+ * Runs every loader in validation mode and collects the problems they
+ * report. Backs the `crosstrain lint` command.
+ */
+
+import { join } from "path"
+import { existsSync } from "fs"
+import { discoverAgents } from "./agents"
+import { discoverCommands } from "./commands"
+import { discoverSkills } from "./skills"
+import { loadClaudeHooksConfig } from "./hooks"
+import { discoverMCPConfigs, discoverPluginMCPConfigs } from "./mcp"
+import { parseMarketplaceManifest } from "./marketplace"
+import { lintCrosstrainerConfig } from "./crosstrainer-config"
+import { reportDiagnostic, sortDiagnostics, type Diagnostic } from "../utils/diagnostics"
+import type { AssetRename } from "../utils/naming"
+
+/**
+ * Result of linting a project or plugin
+ */
+export interface LintResult {
+  /** Diagnostics sorted by file and position */
+  diagnostics: Diagnostic[]
+  errorCount: number
+  warningCount: number
+}
+
+/**
+ * Lint the Claude Code assets under a directory
+ *
+ * The directory may be a project (assets in .claude/) or a plugin
+ * (assets at the root). Pass an empty homeDir to skip user-level assets.
+ */
+export async function lintClaudeAssets(
+  rootDir: string,
+  homeDir: string
+): Promise<LintResult> {
+  const diagnostics: Diagnostic[] = []
+  const renames: AssetRename[] = []
+  const options = { diagnostics, renames }
+  const projectClaudeDir = join(rootDir, ".claude")
+  const claudeDir = existsSync(projectClaudeDir) ? projectClaudeDir : rootDir
+
+  await discoverAgents(claudeDir, homeDir, options)
+  await discoverCommands(claudeDir, homeDir, options)
+  await discoverSkills(claudeDir, homeDir, options)
+  await loadClaudeHooksConfig(claudeDir, homeDir, options)
+  await discoverMCPConfigs(projectClaudeDir, homeDir, options)
+  await discoverPluginMCPConfigs(claudeDir, options)
+  await parseMarketplaceManifest(rootDir, options)
+  await lintCrosstrainerConfig(rootDir, diagnostics)
+
+  for (const rename of renames) {
+    reportDiagnostic(
+      diagnostics, rename.filePath, undefined, "warning", "name-collision",
+      `${rename.kind} name "${rename.from}" is also used by ${rename.conflictsWith}; it would be converted as "${rename.to}"`
+    )
+  }
+
+  const sorted = sortDiagnostics(diagnostics)
+  return {
+    diagnostics: sorted,
+    errorCount: sorted.filter((d) => d.severity === "error").length,
+    warningCount: sorted.filter((d) => d.severity === "warning").length,
+  }
+}
@@ -18,6 +18,8 @@ import type {
   ParsedPlugin,
 } from "../types"
 import { readTextFile } from "../utils/parser"
+import { parseJsonWithPositions, joinJsonPath } from "../utils/json"
+import { reportDiagnostic, reportJsonError, type DiagnosticOptions } from "../utils/diagnostics"
 
 /**
  * Cache directory for cloned Git repositories
@@ -49,7 +51,8 @@ function escapeShellArg(arg: string): string {
  * Parse a marketplace manifest file
  */
 export async function parseMarketplaceManifest(
-  marketplacePath: string
+  marketplacePath: string,
+  options: DiagnosticOptions = {}
 ): Promise<ClaudeMarketplaceManifest | null> {
   const manifestPath = join(marketplacePath, ".claude-plugin", "marketplace.json")
 
@@ -59,9 +62,35 @@ export async function parseMarketplaceManifest(
 
   try {
     const content = await readTextFile(manifestPath)
-    return JSON.parse(content) as ClaudeMarketplaceManifest
+    const { value: manifest, positions } = parseJsonWithPositions<ClaudeMarketplaceManifest>(content)
+
+    if (options.diagnostics) {
+      const diagnostics = options.diagnostics
+      if (typeof manifest?.name !== "string" || manifest.name.trim() === "") {
+        reportDiagnostic(diagnostics, manifestPath, positions.name ?? positions[""], "error", "invalid-manifest", "Marketplace manifest is missing a \"name\"")
+      }
+      if (!Array.isArray(manifest?.plugins)) {
+        reportDiagnostic(diagnostics, manifestPath, positions.plugins ?? positions[""], "error", "invalid-manifest", "Marketplace manifest is missing a \"plugins\" array")
+      } else {
+        manifest.plugins.forEach((entry, index) => {
+          const entryPosition = positions[joinJsonPath("plugins", index)]
+          if (typeof entry?.name !== "string" || entry.name.trim() === "") {
+            reportDiagnostic(diagnostics, manifestPath, entryPosition, "error", "invalid-manifest", `Plugin entry ${index} is missing a "name"`)
+          }
+          if (typeof entry?.source !== "string" || entry.source.trim() === "") {
+            reportDiagnostic(diagnostics, manifestPath, entryPosition, "error", "invalid-manifest", `Plugin entry ${index} is missing a "source"`)
+          }
+        })
+      }
+    }
+
+    return manifest
   } catch (error) {
-    console.error(`Failed to parse marketplace manifest at ${manifestPath}:`, error)
+    if (options.diagnostics) {
+      reportJsonError(options.diagnostics, manifestPath, error)
+    } else {
+      console.error(`Failed to parse marketplace manifest at ${manifestPath}:`, error)
+    }
     return null
   }
 }
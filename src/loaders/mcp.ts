@@ -40,6 +40,13 @@ import type {
   MCPLoaderOptions,
 } from "../types"
 import { readTextFile } from "../utils/parser"
+import { parseJsonWithPositions, joinJsonPath, type SourcePosition } from "../utils/json"
+import {
+  reportDiagnostic,
+  reportJsonError,
+  type Diagnostic,
+  type DiagnosticOptions,
+} from "../utils/diagnostics"
 
 /**
  * Default MCP loader options
@@ -53,41 +60,94 @@ const DEFAULT_OPTIONS: Required<MCPLoaderOptions> = {
 /**
  * Parse a .mcp.json file
  */
-export async function parseMCPConfig(filePath: string): Promise<ClaudeMCPConfig | null> {
+export async function parseMCPConfig(
+  filePath: string,
+  options: DiagnosticOptions = {}
+): Promise<ClaudeMCPConfig | null> {
   if (!existsSync(filePath)) {
     return null
   }
 
   try {
     const content = await readTextFile(filePath)
-    const config = JSON.parse(content) as ClaudeMCPConfig
+    const { value, positions } = parseJsonWithPositions<ClaudeMCPConfig>(content)
+    const config = value
 
     // Validate structure
-    if (!config.mcpServers || typeof config.mcpServers !== "object") {
-      console.warn(`Invalid MCP config at ${filePath}: missing mcpServers object`)
+    if (!config || !config.mcpServers || typeof config.mcpServers !== "object") {
+      if (options.diagnostics) {
+        reportDiagnostic(options.diagnostics, filePath, positions[""], "error", "invalid-mcp-config", "Missing \"mcpServers\" object")
+      } else {
+        console.warn(`Invalid MCP config at ${filePath}: missing mcpServers object`)
+      }
       return null
     }
 
+    if (options.diagnostics) {
+      validateMCPServers(filePath, config.mcpServers, positions, options.diagnostics)
+    }
+
     return config
   } catch (error) {
-    console.error(`Failed to parse MCP config at ${filePath}:`, error)
+    if (options.diagnostics) {
+      reportJsonError(options.diagnostics, filePath, error)
+    } else {
+      console.error(`Failed to parse MCP config at ${filePath}:`, error)
+    }
     return null
   }
 }
 
+/**
+ * Record problems in individual MCP server entries
+ */
+function validateMCPServers(
+  filePath: string,
+  mcpServers: Record<string, unknown>,
+  positions: Record<string, SourcePosition>,
+  diagnostics: Diagnostic[]
+): void {
+  for (const [name, entry] of Object.entries(mcpServers)) {
+    const serverPath = joinJsonPath("mcpServers", name)
+    const server = entry as Partial<ClaudeMCPServer> & { url?: unknown }
+
+    if (typeof server !== "object" || server === null) {
+      reportDiagnostic(diagnostics, filePath, positions[serverPath], "error", "invalid-mcp-server", `MCP server "${name}" must be an object`)
+      continue
+    }
+
+    if (typeof server.command !== "string" || server.command.trim() === "") {
+      if (typeof server.url === "string") {
+        reportDiagnostic(diagnostics, filePath, positions[serverPath], "warning", "unsupported-mcp-server", `MCP server "${name}" is a remote server and will not be converted`)
+      } else {
+        reportDiagnostic(diagnostics, filePath, positions[serverPath], "error", "invalid-mcp-server", `MCP server "${name}" is missing a "command"`)
+      }
+    }
+
+    if (server.args !== undefined && (!Array.isArray(server.args) || server.args.some((arg) => typeof arg !== "string"))) {
+      reportDiagnostic(diagnostics, filePath, positions[joinJsonPath(serverPath, "args")], "error", "invalid-mcp-server", `"args" of MCP server "${name}" must be an array of strings`)
+    }
+
+    if (server.env !== undefined && (typeof server.env !== "object" || server.env === null || Array.isArray(server.env))) {
+      reportDiagnostic(diagnostics, filePath, positions[joinJsonPath(serverPath, "env")], "error", "invalid-mcp-server", `"env" of MCP server "${name}" must be an object`)
+    }
+  }
+}
+
 /**
  * Discover .mcp.json files in Claude Code directories
  */
 export async function discoverMCPConfigs(
   claudeDir: string,
-  homeDir: string
+  homeDir: string,
+  options: DiagnosticOptions = {}
 ): Promise<DiscoveredMCPServer[]> {
   const servers: DiscoveredMCPServer[] = []
 
   // Check project-level .mcp.json (in project root, not in .claude)
   const projectRootMcpPath = join(dirname(claudeDir), ".mcp.json")
   if (existsSync(projectRootMcpPath)) {
-    const config = await parseMCPConfig(projectRootMcpPath)
+    const config = await parseMCPConfig(projectRootMcpPath, options)
     if (config) {
       for (const [name, server] of Object.entries(config.mcpServers)) {
         servers.push({
@@ -104,7 +164,7 @@ export async function discoverMCPConfigs(
   if (homeDir) {
     const userMcpPath = join(homeDir, ".claude", ".mcp.json")
     if (existsSync(userMcpPath)) {
-      const config = await parseMCPConfig(userMcpPath)
+      const config = await parseMCPConfig(userMcpPath, options)
       if (config) {
         for (const [name, server] of Object.entries(config.mcpServers)) {
           // Skip if already defined at project level
@@ -123,7 +183,7 @@ export async function discoverMCPConfigs(
     // Also check ~/.mcp.json (alternative location)
     const homeRootMcpPath = join(homeDir, ".mcp.json")
     if (existsSync(homeRootMcpPath)) {
-      const config = await parseMCPConfig(homeRootMcpPath)
+      const config = await parseMCPConfig(homeRootMcpPath, options)
       if (config) {
         for (const [name, server] of Object.entries(config.mcpServers)) {
           // Skip if already defined
@@ -147,7 +207,8 @@ export async function discoverMCPConfigs(
  * Discover MCP configs from installed plugins
  */
 export async function discoverPluginMCPConfigs(
-  claudeDir: string
+  claudeDir: string,
+  options: DiagnosticOptions = {}
 ): Promise<DiscoveredMCPServer[]> {
   const servers: DiscoveredMCPServer[] = []
 
@@ -165,7 +226,7 @@ export async function discoverPluginMCPConfigs(
 
       const pluginMcpPath = join(pluginsDir, entry.name, ".mcp.json")
       if (existsSync(pluginMcpPath)) {
-        const config = await parseMCPConfig(pluginMcpPath)
+        const config = await parseMCPConfig(pluginMcpPath, options)
         if (config) {
           for (const [name, server] of Object.entries(config.mcpServers)) {
             servers.push({
@@ -300,31 +361,16 @@ export async function getAllMCPServers(
 }
 
 /**
- * Write OpenCode MCP config to file
- * Merges with existing config if present
+ * Generate the content of opencode.json with converted MCP servers merged
+ * into the existing config, as syncMCPToOpenCode writes it
  */
-export async function syncMCPToOpenCode(
-  claudeDir: string,
-  homeDir: string,
-  openCodeDir: string,
+export async function generateMergedMCPConfig(
+  configPath: string,
+  converted: OpenCodeMCPConfig,
   options: MCPLoaderOptions = {}
-): Promise<{
-  serverCount: number
-  configPath: string
-}> {
+): Promise<string> {
   const opts = { ...DEFAULT_OPTIONS, ...options }
 
-  // Get all MCP servers
-  const { converted } = await getAllMCPServers(claudeDir, homeDir, options)
-
-  if (Object.keys(converted).length === 0) {
-    return { serverCount: 0, configPath: "" }
-  }
-
-  // OpenCode MCP config goes in the project root's opencode.json
-  const projectRoot = dirname(claudeDir)
-  const configPath = join(projectRoot, "opencode.json")
-
   // Read existing config if present
   let existingConfig: Record<string, any> = {}
   if (existsSync(configPath)) {
@@ -341,18 +387,48 @@ export async function syncMCPToOpenCode(
 
   // Merge MCP configs
   const existingMcp = (existingConfig.mcp as OpenCodeMCPConfig) || {}
-  const mergedMcp = mergeMCPConfigs(existingMcp, converted)
-
-  // Update config
-  existingConfig.mcp = mergedMcp
+  existingConfig.mcp = mergeMCPConfigs(existingMcp, converted)
 
   // Add schema if not present
   if (!existingConfig.$schema) {
     existingConfig.$schema = "https://opencode.ai/config.json"
   }
 
-  // Write back
-  await writeFile(configPath, JSON.stringify(existingConfig, null, 2) + "\n")
+  return JSON.stringify(existingConfig, null, 2) + "\n"
+}
+
+/**
+ * Get the opencode.json path MCP servers are synced to
+ */
+export function getOpenCodeMCPConfigPath(claudeDir: string): string {
+  // OpenCode MCP config goes in the project root's opencode.json
+  return join(dirname(claudeDir), "opencode.json")
+}
+
+/**
+ * Write OpenCode MCP config to file
+ * Merges with existing config if present
+ */
+export async function syncMCPToOpenCode(
+  claudeDir: string,
+  homeDir: string,
+  openCodeDir: string,
+  options: MCPLoaderOptions = {}
+): Promise<{
+  serverCount: number
+  configPath: string
+}> {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+
+  // Get all MCP servers
+  const { converted } = await getAllMCPServers(claudeDir, homeDir, options)
+
+  if (Object.keys(converted).length === 0) {
+    return { serverCount: 0, configPath: "" }
+  }
+
+  const configPath = getOpenCodeMCPConfigPath(claudeDir)
+  await writeFile(configPath, await generateMergedMCPConfig(configPath, converted, options))
 
   if (opts.verbose) {
     console.log(`[crosstrain] Synced ${Object.keys(converted).length} MCP servers to ${configPath}`)
@@ -0,0 +1,265 @@
+/**
+ * Permission Rules - Converts Claude Code permission rules to OpenCode
+ *
+ * Claude Code settings list rules under permissions.allow / ask / deny:
+ * - Bash(npm test) matches one command, Bash(git diff:*) a command and
+ *   its arguments, Bash and Bash(*) every command
+ * - Edit(path), Write(path) and Read(path) match files
+ * - WebFetch(domain:host) matches a domain
+ *
+ * OpenCode has one permission per tool, except bash which also takes a
+ * map of command patterns. Bash rules become that map; whole-tool Edit,
+ * Write and WebFetch rules set edit and webfetch. Rules OpenCode cannot
+ * express (file paths, domains, Read) are reported as warnings.
+ *
+ * MCP tool rules (mcp__server__tool, mcp__server__*) become opencode.json
+ * `tools` toggles on the names MCP conversion gives the server's tools.
+ *
+ * When several rules match a command the strictest wins, as in Claude
+ * Code: deny > ask > allow.
+ *
+ * Bash(...) entries in an agent's tools or a command's allowed-tools
+ * limit the commands it may run; restrictBashToTools turns them into the
+ * same pattern map.
+ */
+
+import type { ConversionOptions } from "../types"
+import { createConversionOptions } from "../utils/config"
+import { mapClaudeTool } from "./tools"
+
+/**
+ * OpenCode permission action
+ */
+export type PermissionAction = "ask" | "allow" | "deny"
+
+/**
+ * OpenCode `permission` object
+ */
+export interface OpenCodePermission {
+  edit?: PermissionAction
+  bash?: PermissionAction | Record<string, PermissionAction>
+  webfetch?: PermissionAction
+}
+
+/**
+ * Claude Code permission rules, as in settings.json `permissions`
+ */
+export interface ClaudePermissionRules {
+  allow?: string[]
+  ask?: string[]
+  deny?: string[]
+}
+
+const ACTIONS: PermissionAction[] = ["allow", "ask", "deny"]
+
+const ACTION_RANK: Record<PermissionAction, number> = { allow: 0, ask: 1, deny: 2 }
+
+/**
+ * Claude Code tools whose rules set the OpenCode edit permission
+ */
+const EDIT_TOOLS = ["Edit", "Write", "MultiEdit", "NotebookEdit"]
+
+/**
+ * Split a rule into its tool name and specifier
+ *
+ * "Bash(git diff:*)" → { tool: "Bash", specifier: "git diff:*" }
+ */
+export function parsePermissionRule(rule: string): { tool: string; specifier?: string } {
+  const match = rule.trim().match(/^([^(]+)\((.*)\)$/)
+  if (!match) {
+    return { tool: rule.trim() }
+  }
+  return { tool: match[1].trim(), specifier: match[2].trim() }
+}
+
+/**
+ * Convert a Bash rule specifier to OpenCode command patterns
+ *
+ * A trailing ":*" is Claude Code's prefix match, so "git diff:*" covers
+ * both "git diff" and "git diff <args>".
+ */
+export function convertBashSpecifier(specifier: string): string[] {
+  if (specifier.endsWith(":*")) {
+    const prefix = specifier.slice(0, -2).trim()
+    return [prefix, `${prefix} *`]
+  }
+  return [specifier]
+}
+
+/**
+ * Check whether an OpenCode wildcard pattern matches a string
+ */
+export function matchesPattern(pattern: string, text: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+  return new RegExp(`^${source}$`).test(text)
+}
+
+/**
+ * Check whether a specifier covers the whole tool
+ */
+function isWholeTool(specifier: string | undefined): boolean {
+  return specifier === undefined || specifier === "" || specifier === "*" || specifier === "**"
+}
+
+/**
+ * Record an action, keeping the strictest one seen for a key
+ */
+function setStrictest<K>(actions: Map<K, PermissionAction>, key: K, action: PermissionAction): void {
+  const existing = actions.get(key)
+  if (!existing || ACTION_RANK[action] > ACTION_RANK[existing]) {
+    actions.set(key, action)
+  }
+}
+
+/**
+ * Convert Claude Code permission rules to an OpenCode permission object
+ *
+ * `base` holds the permissions implied by the default mode; rules take
+ * precedence over it. Rules that could not be converted are added to
+ * `warnings`.
+ */
+export function convertPermissionRules(
+  rules: ClaudePermissionRules,
+  base: OpenCodePermission = {},
+  warnings: string[] = []
+): OpenCodePermission {
+  const tools = new Map<"edit" | "webfetch", PermissionAction>()
+  const bash = new Map<string, PermissionAction>()
+
+  for (const action of ACTIONS) {
+    for (const rule of rules[action] ?? []) {
+      const { tool, specifier } = parsePermissionRule(rule)
+
+      if (tool === "Bash") {
+        const patterns = isWholeTool(specifier) ? ["*"] : convertBashSpecifier(specifier!)
+        for (const pattern of patterns) {
+          setStrictest(bash, pattern, action)
+        }
+      } else if (EDIT_TOOLS.includes(tool) || tool === "WebFetch") {
+        const permission = tool === "WebFetch" ? "webfetch" : "edit"
+        if (isWholeTool(specifier)) {
+          setStrictest(tools, permission, action)
+        } else {
+          warnings.push(`${action} rule "${rule}" not converted: OpenCode's ${permission} permission applies to all ${tool === "WebFetch" ? "URLs" : "files"}`)
+        }
+      } else if (tool.startsWith("mcp__")) {
+        // Converted to tool toggles by convertMCPPermissionRules
+      } else if (action !== "allow") {
+        // OpenCode allows tools without a permission, so only restrictions are lost
+        warnings.push(`${action} rule "${rule}" not converted: OpenCode has no permission for ${tool}`)
+      }
+    }
+  }
+
+  const permission: OpenCodePermission = { ...base }
+  for (const [key, action] of tools) {
+    permission[key] = action
+  }
+
+  const defaultBash = bash.get("*") ?? (typeof base.bash === "string" ? base.bash : undefined)
+  const patterns = [...bash].filter(([pattern]) => pattern !== "*")
+  if (patterns.length === 0) {
+    if (defaultBash) {
+      permission.bash = defaultBash
+    }
+    return permission
+  }
+
+  // Drop patterns a stricter rule already covers, then order by
+  // strictness so a more specific, stricter pattern comes last
+  const kept = patterns
+    .filter(([pattern, action]) =>
+      ![...bash].some(([other, otherAction]) =>
+        ACTION_RANK[otherAction] > ACTION_RANK[action] && matchesPattern(other, pattern)
+      )
+    )
+    .sort(([, a], [, b]) => ACTION_RANK[a] - ACTION_RANK[b])
+
+  // Claude Code asks before running commands no rule matches
+  permission.bash = { "*": defaultBash ?? "ask", ...Object.fromEntries(kept) }
+  return permission
+}
+
+/**
+ * Limit the bash permission to the commands named by Bash(...) entries of
+ * a tools list, denying every other command
+ *
+ * Named commands keep the action `permission` gives commands by default,
+ * and stricter patterns already in `permission` still apply to them.
+ * `permission` is returned unchanged when the list allows every command
+ * or names none.
+ */
+export function restrictBashToTools(
+  entries: string[],
+  permission: OpenCodePermission = {}
+): OpenCodePermission {
+  const rules = entries.map(parsePermissionRule).filter(({ tool }) => tool === "Bash")
+  if (rules.length === 0 || rules.some(({ specifier }) => isWholeTool(specifier))) {
+    return permission
+  }
+
+  const current = permission.bash
+  const allowed = typeof current === "string" ? current : current?.["*"] ?? "allow"
+  if (allowed === "deny") {
+    return permission
+  }
+
+  const patterns = rules.flatMap(({ specifier }) => convertBashSpecifier(specifier!))
+  const stricter = Object.entries(typeof current === "object" ? current : {})
+    .filter(([pattern, action]) => pattern !== "*" && ACTION_RANK[action] > ACTION_RANK[allowed])
+
+  return {
+    ...permission,
+    bash: {
+      "*": "deny",
+      ...Object.fromEntries(patterns.map((pattern) => [pattern, allowed])),
+      ...Object.fromEntries(stricter),
+    },
+  }
+}
+
+/**
+ * Convert Claude Code MCP tool rules to opencode.json tool toggles
+ *
+ * Denied tools are disabled and allowed tools enabled. OpenCode cannot
+ * ask before an MCP tool runs, so ask rules are reported and the tools
+ * left enabled. Wildcards are kept, and an allow pattern covered by a
+ * stricter rule is dropped so the restriction holds.
+ */
+export function convertMCPPermissionRules(
+  rules: ClaudePermissionRules,
+  options: ConversionOptions = createConversionOptions(),
+  warnings: string[] = []
+): Record<string, boolean> {
+  const tools = new Map<string, PermissionAction>()
+
+  for (const action of ACTIONS) {
+    for (const rule of rules[action] ?? []) {
+      if (!parsePermissionRule(rule).tool.startsWith("mcp__")) {
+        continue
+      }
+      for (const tool of mapClaudeTool(rule, options).tools) {
+        setStrictest(tools, tool, action)
+      }
+      if (action === "ask") {
+        warnings.push(`ask rule "${rule}" not converted: OpenCode cannot ask before running MCP tools, so they stay enabled`)
+      }
+    }
+  }
+
+  const allowed = [...tools]
+    .filter(([tool, action]) =>
+      action === "allow" &&
+      ![...tools].some(([other, otherAction]) => otherAction !== "allow" && matchesPattern(other, tool))
+    )
+    .map(([tool]) => [tool, true] as const)
+  const denied = [...tools]
+    .filter(([, action]) => action === "deny")
+    .map(([tool]) => [tool, false] as const)
+
+  // Disabled entries come last so they win over enabled wildcards
+  return Object.fromEntries([...allowed, ...denied])
+}
@@ -0,0 +1,202 @@
+/**
+ * Runtime Loader - Loads Claude Code assets into a running OpenCode plugin
+ *
+ * Unlike the CLI, which writes converted files once, the runtime loader
+ * keeps the plugin in step with .claude/ while OpenCode runs:
+ * - Skills are registered as live tools
+ * - Hooks become tool.execute.before/after and event handlers
+ * - Agents and commands are converted as `crosstrain all` converts them,
+ *   with the lockfile and the project's crosstrainer config
+ * - MCP servers are synced to opencode.json
+ *
+ * With watching enabled, a change reloads only the affected category.
+ */
+
+import type { PluginReturn, ToolDefinition } from "../plugin-types"
+import type { ConversionOptions, ResolvedCrossstrainConfig } from "../types"
+import type { ConfigLogger } from "../utils/config"
+import type { NamingOptions } from "../utils/naming"
+import { createWatcher, type WatcherInstance } from "../utils/watcher"
+import { createToolsFromSkills } from "./skills"
+import { createHookHandlers, type HookHandlers } from "./hooks"
+import { syncMCPToOpenCode } from "./mcp"
+import {
+  convertProject,
+  loadProjectHooks,
+  type ConversionWarning,
+  type OutputFormat,
+  type ProjectCategory,
+} from "./convert"
+
+/**
+ * Asset categories the runtime loader can reload
+ */
+export type RuntimeCategory = "skills" | "hooks" | "agents" | "commands" | "mcp"
+
+/**
+ * Options for the runtime loader
+ */
+export interface RuntimeLoaderOptions {
+  /** Absolute path to the Claude directory */
+  claudeDir: string
+  /** Absolute path to the OpenCode directory */
+  openCodeDir: string
+  /** Home directory for user-level assets; empty to load project assets only */
+  homeDir: string
+  /** Prefix and mappings applied to converted assets */
+  conversion: ConversionOptions
+  /** How commands and agents in subdirectories are named */
+  naming?: NamingOptions
+  /** Write agents and commands as markdown files, or into opencode.json (default: "files") */
+  outputFormat?: OutputFormat
+  verbose: boolean
+  /** Which categories to load */
+  loaders: ResolvedCrossstrainConfig["loaders"]
+  /** Reload categories when their files change */
+  watch: boolean
+  logger: ConfigLogger
+}
+
+/**
+ * Hook handlers in the shape OpenCode expects from a plugin
+ */
+export type RuntimeHookHandlers = Pick<PluginReturn, "tool.execute.before" | "tool.execute.after" | "event">
+
+/**
+ * A running loader
+ */
+export interface RuntimeLoader {
+  /** Skill tools, updated in place when skills change */
+  tools: Record<string, ToolDefinition>
+  /** Handlers that always run the current Claude hooks */
+  hooks: RuntimeHookHandlers
+  /** Reload one category */
+  reload: (category: RuntimeCategory) => Promise<void>
+  /** Stop watching */
+  close: () => Promise<void>
+}
+
+/**
+ * Create a runtime loader, load all enabled categories and start watching
+ */
+export async function createRuntimeLoader(options: RuntimeLoaderOptions): Promise<RuntimeLoader> {
+  const { claudeDir, openCodeDir, homeDir, conversion, logger } = options
+  const tools: Record<string, ToolDefinition> = {}
+  const skillToolNames = new Set<string>()
+  let hookHandlers: HookHandlers = {}
+
+  const logWarnings = (warnings: ConversionWarning[]): void => {
+    for (const warning of warnings) {
+      logger.warn(`${warning.source}: ${warning.message}`)
+    }
+  }
+
+  // Agents and commands go through the same conversion as `crosstrain all`
+  const convertCategory = async (category: ProjectCategory) => {
+    const result = await convertProject({
+      claudeDir,
+      outputDir: openCodeDir,
+      homeDir,
+      prefix: conversion.filePrefix,
+      modelMappings: conversion.modelMappings,
+      toolMappings: conversion.toolMappings,
+      namespaceSeparator: options.naming?.namespaceSeparator,
+      onNameCollision: options.naming?.onNameCollision,
+      outputFormat: options.outputFormat,
+      verbose: options.verbose,
+      categories: [category],
+    })
+    logWarnings(result.warnings)
+    return result
+  }
+
+  const loaders: Record<RuntimeCategory, () => Promise<void>> = {
+    skills: async () => {
+      const skillTools = await createToolsFromSkills(claudeDir, homeDir, conversion)
+      for (const name of skillToolNames) {
+        delete tools[name]
+      }
+      skillToolNames.clear()
+      for (const [name, skillTool] of Object.entries(skillTools)) {
+        tools[name] = skillTool as ToolDefinition
+        skillToolNames.add(name)
+      }
+      logger.log(`Loaded ${skillToolNames.size} skill tool(s)`)
+    },
+
+    // Hooks run as the project's crosstrainer config transforms them
+    hooks: async () => {
+      const { hooks, warnings } = await loadProjectHooks({ claudeDir, outputDir: openCodeDir, homeDir })
+      logWarnings(warnings)
+      hookHandlers = hooks ? createHookHandlers(hooks) : {}
+    },
+
+    agents: async () => {
+      const result = await convertCategory("agents")
+      logger.log(`Synced ${result.found.agent} agent(s)`)
+    },
+
+    commands: async () => {
+      const result = await convertCategory("commands")
+      logger.log(`Synced ${result.found.command} command(s)`)
+    },
+
+    mcp: async () => {
+      const result = await syncMCPToOpenCode(claudeDir, homeDir, openCodeDir, {
+        filePrefix: conversion.filePrefix,
+        verbose: options.verbose,
+      })
+      logger.log(`Synced ${result.serverCount} MCP server(s)`)
+    },
+  }
+
+  const reload = async (category: RuntimeCategory): Promise<void> => {
+    if (!options.loaders[category]) {
+      return
+    }
+    try {
+      await loaders[category]()
+    } catch (error) {
+      logger.error(`Failed to load ${category}:`, error)
+    }
+  }
+
+  for (const category of Object.keys(loaders) as RuntimeCategory[]) {
+    await reload(category)
+  }
+
+  let watcher: WatcherInstance | null = null
+  if (options.watch) {
+    const on = (category: RuntimeCategory) =>
+      options.loaders[category] ? () => reload(category) : undefined
+
+    watcher = createWatcher({
+      claudeDir,
+      homeDir,
+      quiet: !options.verbose,
+      persistent: false,
+      onSkillChange: on("skills"),
+      onHookChange: on("hooks"),
+      onAgentChange: on("agents"),
+      onCommandChange: on("commands"),
+      onMCPChange: on("mcp"),
+    })
+  }
+
+  // Handlers delegate to the current hooks so reloads take effect
+  const hooks: RuntimeHookHandlers = {}
+  if (options.loaders.hooks) {
+    hooks["tool.execute.before"] = async (input, output) => hookHandlers.toolExecuteBefore?.(input, output)
+    hooks["tool.execute.after"] = async (input, output) => hookHandlers.toolExecuteAfter?.(input, output)
+    hooks.event = async (params) => hookHandlers.event?.(params)
+  }
+
+  return {
+    tools,
+    hooks,
+    reload,
+    close: async () => {
+      await watcher?.close()
+    },
+  }
+}
@@ -8,9 +8,18 @@ import { join, resolve } from "path"
 import { existsSync } from "fs"
 import { readFile, writeFile, mkdir } from "fs/promises"
 import { homedir } from "os"
-import type { ClaudeSettings, ClaudeHooksConfig } from "../types"
+import type {
+  ClaudeSettings,
+  ClaudeHooksConfig,
+  ConversionOptions,
+  OpenCodeAgentFrontmatter,
+  OpenCodeCommandFrontmatter,
+} from "../types"
 import { loadClaudeSettings } from "../utils/settings"
-import { readTextFile } from "../utils/parser"
+import { parseMarkdownWithFrontmatter, readTextFile } from "../utils/parser"
+import { parseJsonWithPositions } from "../utils/json"
+import { createConversionOptions, mapModelName } from "../utils/config"
+import { convertMCPPermissionRules, convertPermissionRules, type OpenCodePermission } from "./permissions"
 
 /**
  * OpenCode configuration structure
@@ -23,11 +32,7 @@ export interface OpenCodeConfig {
   autoupdate?: boolean | "notify"
   share?: "manual" | "auto" | "disabled"
   tools?: Record<string, boolean>
-  permission?: {
-    edit?: "ask" | "allow" | "deny"
-    bash?: "ask" | "allow" | "deny"
-    webfetch?: "ask" | "allow" | "deny"
-  }
+  permission?: OpenCodePermission
   mcp?: Record<string, {
     type: "local" | "remote"
     command?: string[]
@@ -35,18 +40,8 @@ export interface OpenCodeConfig {
     environment?: Record<string, string>
     enabled?: boolean
   }>
-  agent?: Record<string, {
-    description?: string
-    model?: string
-    prompt?: string
-    tools?: Record<string, boolean>
-  }>
-  command?: Record<string, {
-    description?: string
-    template?: string
-    agent?: string
-    model?: string
-  }>
+  agent?: Record<string, Partial<OpenCodeAgentFrontmatter> & { prompt?: string }>
+  command?: Record<string, OpenCodeCommandFrontmatter & { template?: string }>
   instructions?: string[]
   tui?: {
     scroll_speed?: number
@@ -68,8 +63,18 @@ const PERMISSION_MODE_TO_OPENCODE: Record<string, OpenCodeConfig["permission"]>
 
 /**
  * Convert Claude Code model name to OpenCode model path
+ *
+ * Configured model mappings take precedence over the known model names.
  */
-export function convertModelName(claudeModel: string): string {
+export function convertModelName(
+  claudeModel: string,
+  options: ConversionOptions = createConversionOptions()
+): string {
+  const mappedModel = mapModelName(claudeModel, options)
+  if (mappedModel && mappedModel !== claudeModel) {
+    return mappedModel
+  }
+
   // Handle common Claude model patterns
   const modelMappings: Record<string, string> = {
     // Claude 4.x models
@@ -102,77 +107,23 @@ export function convertModelName(claudeModel: string): string {
 
 /**
  * Parse Claude Code permission rules into OpenCode format
+ *
+ * The default mode sets the base permissions and rules override it.
+ * Rules that could not be converted are added to `warnings`.
  */
 export function parsePermissionRules(
-  claudePermissions: ClaudeSettings["permissions"]
+  claudePermissions: ClaudeSettings["permissions"],
+  warnings: string[] = []
 ): OpenCodeConfig["permission"] {
   if (!claudePermissions) {
     return {}
   }
 
-  const openCodePermission: OpenCodeConfig["permission"] = {}
-
-  // Handle default mode
-  if (claudePermissions.defaultMode) {
-    const modePermissions = PERMISSION_MODE_TO_OPENCODE[claudePermissions.defaultMode]
-    if (modePermissions) {
-      Object.assign(openCodePermission, modePermissions)
-    }
-  }
-
-  // Process allow rules
-  if (claudePermissions.allow) {
-    for (const rule of claudePermissions.allow) {
-      // Parse rules like "Bash(*)", "Edit(*)", "Read(*)"
-      const match = rule.match(/^(Bash|Edit|Read|Write|WebFetch)\(/i)
-      if (match) {
-        const tool = match[1].toLowerCase()
-        if (tool === "bash") {
-          openCodePermission.bash = "allow"
-        } else if (tool === "edit" || tool === "write") {
-          openCodePermission.edit = "allow"
-        } else if (tool === "webfetch") {
-          openCodePermission.webfetch = "allow"
-        }
-      }
-    }
-  }
-
-  // Process deny rules
-  if (claudePermissions.deny) {
-    for (const rule of claudePermissions.deny) {
-      const match = rule.match(/^(Bash|Edit|Read|Write|WebFetch)\(/i)
-      if (match) {
-        const tool = match[1].toLowerCase()
-        if (tool === "bash") {
-          openCodePermission.bash = "deny"
-        } else if (tool === "edit" || tool === "write") {
-          openCodePermission.edit = "deny"
-        } else if (tool === "webfetch") {
-          openCodePermission.webfetch = "deny"
-        }
-      }
-    }
-  }
+  const modePermissions = claudePermissions.defaultMode
+    ? PERMISSION_MODE_TO_OPENCODE[claudePermissions.defaultMode]
+    : undefined
 
-  // Process ask rules
-  if (claudePermissions.ask) {
-    for (const rule of claudePermissions.ask) {
-      const match = rule.match(/^(Bash|Edit|Read|Write|WebFetch)\(/i)
-      if (match) {
-        const tool = match[1].toLowerCase()
-        if (tool === "bash") {
-          openCodePermission.bash = "ask"
-        } else if (tool === "edit" || tool === "write") {
-          openCodePermission.edit = "ask"
-        } else if (tool === "webfetch") {
-          openCodePermission.webfetch = "ask"
-        }
-      }
-    }
-  }
-
-  return openCodePermission
+  return convertPermissionRules(claudePermissions, modePermissions, warnings)
 }
 
 /**
@@ -188,7 +139,9 @@ export function convertClaudeSettingsToOpenCode(
     }
     model?: string
     env?: Record<string, string>
-  }
+  },
+  options: ConversionOptions = createConversionOptions(),
+  warnings: string[] = []
 ): OpenCodeConfig {
   const openCodeConfig: OpenCodeConfig = {
     $schema: "https://opencode.ai/config.json",
@@ -196,15 +149,20 @@ export function convertClaudeSettingsToOpenCode(
 
   // Convert model
   if (claudeSettings.model) {
-    openCodeConfig.model = convertModelName(claudeSettings.model)
+    openCodeConfig.model = convertModelName(claudeSettings.model, options)
   }
 
   // Convert permissions
   if (claudeSettings.permissions) {
-    const permission = parsePermissionRules(claudeSettings.permissions)
+    const permission = parsePermissionRules(claudeSettings.permissions, warnings)
     if (Object.keys(permission).length > 0) {
       openCodeConfig.permission = permission
     }
+
+    const tools = convertMCPPermissionRules(claudeSettings.permissions, options, warnings)
+    if (Object.keys(tools).length > 0) {
+      openCodeConfig.tools = tools
+    }
   }
 
   // Note: Many Claude Code settings don't have direct OpenCode equivalents:
@@ -318,20 +276,32 @@ export async function loadOpenCodeConfig(openCodeDir: string): Promise<OpenCodeC
     existingPath = configPathC
   }
 
-  if (!existingPath) {
+  return existingPath ? readOpenCodeConfig(existingPath) : null
+}
+
+/**
+ * Read an opencode.json, or null when it is missing or invalid
+ */
+export async function readOpenCodeConfig(configPath: string): Promise<OpenCodeConfig | null> {
+  if (!existsSync(configPath)) {
     return null
   }
 
   try {
-    const content = await readTextFile(existingPath)
-    // Strip comments from JSONC
-    const stripped = content.replace(/\/\/.*$/gm, "").replace(/\/\*[\s\S]*?\*\//g, "")
-    return JSON.parse(stripped)
+    const content = await readTextFile(configPath)
+    return parseJsonWithPositions<OpenCodeConfig>(content, { jsonc: true }).value
   } catch {
     return null
   }
 }
 
+/**
+ * Get the opencode.json path next to an OpenCode directory
+ */
+export function getOpenCodeConfigPath(openCodeDir: string): string {
+  return join(resolve(openCodeDir, ".."), "opencode.json")
+}
+
 /**
  * Write OpenCode configuration
  */
@@ -340,8 +310,7 @@ export async function writeOpenCodeConfig(
   config: OpenCodeConfig,
   dryRun: boolean = false
 ): Promise<string> {
-  const projectRoot = resolve(openCodeDir, "..")
-  const configPath = join(projectRoot, "opencode.json")
+  const configPath = getOpenCodeConfigPath(openCodeDir)
 
   const content = JSON.stringify(config, null, 2)
 
@@ -352,8 +321,16 @@ export async function writeOpenCodeConfig(
   return configPath
 }
 
+/**
+ * Sections of opencode.json merged key by key
+ */
+const NESTED_CONFIG_KEYS = ["permission", "tools", "mcp", "agent", "command", "tui"] as const
+
 /**
  * Merge OpenCode configurations
+ *
+ * Nested sections are merged key by key, with entries of the new config
+ * replacing existing ones; sections neither config has are left out.
  */
 export function mergeOpenCodeConfigs(
   existing: OpenCodeConfig | null,
@@ -363,35 +340,33 @@ export function mergeOpenCodeConfigs(
     return newConfig
   }
 
-  return {
-    ...existing,
-    ...newConfig,
-    // Merge nested objects
-    permission: {
-      ...existing.permission,
-      ...newConfig.permission,
-    },
-    tools: {
-      ...existing.tools,
-      ...newConfig.tools,
-    },
-    mcp: {
-      ...existing.mcp,
-      ...newConfig.mcp,
-    },
-    agent: {
-      ...existing.agent,
-      ...newConfig.agent,
-    },
-    command: {
-      ...existing.command,
-      ...newConfig.command,
-    },
-    tui: {
-      ...existing.tui,
-      ...newConfig.tui,
-    },
+  const merged: OpenCodeConfig = { ...existing, ...newConfig }
+  for (const key of NESTED_CONFIG_KEYS) {
+    if (existing[key] || newConfig[key]) {
+      Object.assign(merged, { [key]: { ...existing[key], ...newConfig[key] } })
+    }
   }
+  return merged
+}
+
+/**
+ * Turn a generated agent or command file into its opencode.json entry:
+ * the frontmatter fields, with the body as the agent's `prompt` or the
+ * command's `template`
+ */
+export function toOpenCodeConfigEntry(kind: "agent" | "command", markdown: string): Record<string, unknown> {
+  const { frontmatter, content } = parseMarkdownWithFrontmatter<Record<string, unknown>>(markdown)
+  return { ...frontmatter, [kind === "agent" ? "prompt" : "template"]: content }
+}
+
+/**
+ * Generate the content of opencode.json with converted agents or commands
+ * merged into the existing config
+ */
+export async function generateMergedOpenCodeConfig(openCodeDir: string, config: OpenCodeConfig): Promise<string> {
+  const existing = await loadOpenCodeConfig(openCodeDir)
+  const merged = mergeOpenCodeConfigs(existing ?? { $schema: "https://opencode.ai/config.json" }, config)
+  return JSON.stringify(merged, null, 2) + "\n"
 }
 
 /**
@@ -11,14 +11,15 @@
  * Mapping strategy:
  * - Each Claude Skill becomes an OpenCode tool
  * - The skill's description becomes the tool description
- * - The skill's instructions are passed to the LLM when the tool is invoked
+ * - The skill's instructions are passed to the LLM when the tool is invoked,
+ *   along with its allowed tools under their OpenCode names
  * - Supporting files are read on demand
  */
 
 import { join } from "path"
 import { existsSync } from "fs"
 import { readdir } from "fs/promises"
-import type { ClaudeSkill, ClaudeSkillFrontmatter } from "../types"
+import type { ClaudeSkill, ClaudeSkillFrontmatter, ConversionOptions } from "../types"
 import { tool, toolSchema } from "../plugin-types"
 import {
   parseMarkdownWithFrontmatter,
@@ -27,27 +28,42 @@ import {
   parseCommaSeparated,
   extractNameFromPath,
 } from "../utils/parser"
+import { reportDiagnostic, type DiagnosticOptions } from "../utils/diagnostics"
+import { createConversionOptions } from "../utils/config"
+import { mapClaudeTools } from "./tools"
+import { validateMarkdownFrontmatter, type FrontmatterSchema } from "./validation"
+
+/**
+ * Frontmatter accepted in Claude Code SKILL.md files
+ */
+export const SKILL_FRONTMATTER_SCHEMA: FrontmatterSchema = {
+  kind: "skill",
+  knownKeys: ["name", "description", "allowed-tools", "license", "metadata"],
+  requireDescription: "error",
+  toolKeys: ["allowed-tools"],
+}
 
 /**
  * Discover all Claude Code skills in a directory
  */
 export async function discoverSkills(
   claudeDir: string,
-  homeDir: string
+  homeDir: string,
+  options: DiagnosticOptions = {}
 ): Promise<ClaudeSkill[]> {
   const skills: ClaudeSkill[] = []
 
   // Check project-level skills (.claude/skills/)
   const projectSkillsDir = join(claudeDir, "skills")
   if (existsSync(projectSkillsDir)) {
-    const projectSkills = await loadSkillsFromDirectory(projectSkillsDir)
+    const projectSkills = await loadSkillsFromDirectory(projectSkillsDir, options)
     skills.push(...projectSkills)
   }
 
   // Check user-level skills (~/.claude/skills/)
   const userSkillsDir = join(homeDir, ".claude", "skills")
-  if (existsSync(userSkillsDir)) {
-    const userSkills = await loadSkillsFromDirectory(userSkillsDir)
+  if (homeDir && existsSync(userSkillsDir)) {
+    const userSkills = await loadSkillsFromDirectory(userSkillsDir, options)
     // Only add user skills that don't conflict with project skills
     for (const skill of userSkills) {
       if (!skills.find((s) => s.name === skill.name)) {
@@ -62,12 +78,15 @@ export async function discoverSkills(
 /**
  * Load all skills from a directory
  */
-async function loadSkillsFromDirectory(skillsDir: string): Promise<ClaudeSkill[]> {
+async function loadSkillsFromDirectory(
+  skillsDir: string,
+  options: DiagnosticOptions
+): Promise<ClaudeSkill[]> {
   const skills: ClaudeSkill[] = []
   const skillDirs = await getDirectories(skillsDir)
 
   for (const skillDir of skillDirs) {
-    const skill = await loadSkill(skillDir)
+    const skill = await loadSkill(skillDir, options)
     if (skill) {
       skills.push(skill)
     }
@@ -79,23 +98,34 @@ async function loadSkillsFromDirectory(skillsDir: string): Promise<ClaudeSkill[]
 /**
  * Load a single skill from its directory
  */
-async function loadSkill(skillDir: string): Promise<ClaudeSkill | null> {
+async function loadSkill(
+  skillDir: string,
+  options: DiagnosticOptions
+): Promise<ClaudeSkill | null> {
   const skillMdPath = join(skillDir, "SKILL.md")
 
   if (!existsSync(skillMdPath)) {
-    console.warn(`No SKILL.md found in ${skillDir}`)
+    if (options.diagnostics) {
+      reportDiagnostic(options.diagnostics, skillDir, undefined, "warning", "missing-skill-md", "No SKILL.md found in skill directory")
+    } else {
+      console.warn(`No SKILL.md found in ${skillDir}`)
+    }
     return null
   }
 
   try {
     const content = await readTextFile(skillMdPath)
-    const parsed = parseMarkdownWithFrontmatter<ClaudeSkillFrontmatter>(content)
+    const parsed = options.diagnostics
+      ? validateMarkdownFrontmatter<ClaudeSkillFrontmatter>(
+          skillMdPath, content, SKILL_FRONTMATTER_SCHEMA, options.diagnostics
+        )
+      : parseMarkdownWithFrontmatter<ClaudeSkillFrontmatter>(content)
 
     const name =
       parsed.frontmatter.name || extractNameFromPath(skillDir)
 
-    // Validate required fields
-    if (!parsed.frontmatter.description) {
+    // Validate required fields (validation mode reports this itself)
+    if (!parsed.frontmatter.description && !options.diagnostics) {
       console.warn(`Skill ${name} is missing a description`)
     }
 
@@ -111,7 +141,11 @@ async function loadSkill(skillDir: string): Promise<ClaudeSkill | null> {
       supportingFiles,
     }
   } catch (error) {
-    console.error(`Error loading skill from ${skillDir}:`, error)
+    if (options.diagnostics) {
+      reportDiagnostic(options.diagnostics, skillMdPath, undefined, "error", "read-error", String(error))
+    } else {
+      console.error(`Error loading skill from ${skillDir}:`, error)
+    }
     return null
   }
 }
@@ -145,7 +179,12 @@ async function getSupportingFiles(skillDir: string): Promise<string[]> {
 /**
  * Convert a Claude Skill to an OpenCode tool definition
  */
-export function convertSkillToTool(skill: ClaudeSkill): ReturnType<typeof tool> {
+export function convertSkillToTool(
+  skill: ClaudeSkill,
+  options: ConversionOptions = createConversionOptions()
+): ReturnType<typeof tool> {
+  const allowedTools = getAllowedToolsNote(skill, options)
+
   return tool({
     description: buildToolDescription(skill),
     args: {
@@ -157,6 +196,10 @@ export function convertSkillToTool(skill: ClaudeSkill): ReturnType<typeof tool>
       let response = `## Skill: ${skill.name}\n\n`
       response += `### Instructions\n\n${skill.content}\n\n`
 
+      if (allowedTools) {
+        response += `### Allowed Tools\n\n${allowedTools}\n\n`
+      }
+
       if (args.query) {
         response += `### Query: ${args.query}\n\n`
       }
@@ -176,6 +219,23 @@ export function convertSkillToTool(skill: ClaudeSkill): ReturnType<typeof tool>
   })
 }
 
+/**
+ * Note listing the OpenCode tools a skill may use, or "" if unrestricted
+ */
+export function getAllowedToolsNote(
+  skill: ClaudeSkill,
+  options: ConversionOptions = createConversionOptions()
+): string {
+  if (!skill.allowedTools || skill.allowedTools.length === 0) {
+    return ""
+  }
+  const { tools } = mapClaudeTools(skill.allowedTools, options)
+  if (tools.length === 0 || tools.includes("*")) {
+    return ""
+  }
+  return `Only use these tools while following this skill: ${tools.join(", ")}`
+}
+
 /**
  * Build a rich description for the tool including when to use it
  */
@@ -195,7 +255,8 @@ function buildToolDescription(skill: ClaudeSkill): string {
  */
 export async function createToolsFromSkills(
   claudeDir: string,
-  homeDir: string
+  homeDir: string,
+  options: ConversionOptions = createConversionOptions()
 ): Promise<Record<string, ReturnType<typeof tool>>> {
   const skills = await discoverSkills(claudeDir, homeDir)
   const tools: Record<string, ReturnType<typeof tool>> = {}
@@ -203,7 +264,7 @@ export async function createToolsFromSkills(
   for (const skill of skills) {
     // Convert skill name to valid tool name (lowercase, underscores)
     const toolName = `skill_${skill.name.toLowerCase().replace(/-/g, "_")}`
-    tools[toolName] = convertSkillToTool(skill)
+    tools[toolName] = convertSkillToTool(skill, options)
     console.log(`[crosstrain] Loaded skill as tool: ${toolName}`)
   }
 
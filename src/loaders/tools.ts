@@ -0,0 +1,171 @@
+/**
+ * Tool Catalog - Maps Claude Code tool names to OpenCode tools
+ *
+ * The catalog is TOOL_MAPPING extended by `toolMappings`. Besides the
+ * built-in tools, Claude Code tool lists may contain:
+ * - MCP tools: mcp__server__tool → <prefix>server_tool, matching the
+ *   prefixed server names MCP conversion writes to opencode.json;
+ *   mcp__server and mcp__server__* → <prefix>server_*
+ * - The * wildcard, allowing every tool
+ * - Rule specifiers such as Bash(git diff:*), mapped by their tool name;
+ *   restrictBashToTools (see ./permissions) keeps the commands they name
+ *
+ * Tools that are unknown or have no OpenCode equivalent map to nothing
+ * and come with a warning.
+ */
+
+import type { ConversionOptions } from "../types"
+import { createConversionOptions } from "../utils/config"
+
+/**
+ * OpenCode tools a Claude Code tool entry maps to
+ */
+export interface MappedTool {
+  /** OpenCode tool names and wildcard patterns */
+  tools: string[]
+  /** Why the entry could not be mapped */
+  warning?: string
+}
+
+/**
+ * Tool name of an entry, without its rule specifier
+ */
+export function getClaudeToolName(entry: string): string {
+  return entry.replace(/\(.*\)$/, "").trim()
+}
+
+/**
+ * Check whether an OpenCode tool name is a wildcard pattern
+ */
+export function isToolWildcard(name: string): boolean {
+  return name.includes("*")
+}
+
+/**
+ * OpenCode tool names of a catalog entry
+ */
+function toToolList(mapped: string | string[]): string[] {
+  return (Array.isArray(mapped) ? mapped : [mapped]).filter(Boolean)
+}
+
+/**
+ * OpenCode name of a tool served by a converted MCP server
+ */
+export function getMCPToolName(server: string, tool: string, options: ConversionOptions): string {
+  return `${options.filePrefix}${server}_${tool}`.replace(/[^a-zA-Z0-9_*-]/g, "_")
+}
+
+/**
+ * Map one Claude Code tool entry to OpenCode tools
+ */
+export function mapClaudeTool(
+  entry: string,
+  options: ConversionOptions = createConversionOptions()
+): MappedTool {
+  const name = getClaudeToolName(entry)
+
+  if (name === "*") {
+    return { tools: ["*"] }
+  }
+
+  const mcp = name.match(/^mcp__(.+?)(?:__(.+))?$/)
+  if (mcp) {
+    const [, server, tool = "*"] = mcp
+    return { tools: [getMCPToolName(server, tool, options)] }
+  }
+
+  const mapped = options.toolMappings[name]
+  if (mapped === undefined) {
+    return { tools: [], warning: `Unknown tool "${name}" was not mapped` }
+  }
+
+  const tools = toToolList(mapped)
+  if (tools.length === 0) {
+    return { tools, warning: `Tool "${name}" has no OpenCode equivalent` }
+  }
+  return { tools }
+}
+
+/**
+ * Map a list of Claude Code tool entries, collecting warnings
+ */
+export function mapClaudeTools(
+  entries: string[],
+  options: ConversionOptions = createConversionOptions()
+): { tools: string[]; warnings: string[] } {
+  const tools = new Set<string>()
+  const warnings: string[] = []
+
+  for (const entry of entries) {
+    const mapped = mapClaudeTool(entry, options)
+    for (const tool of mapped.tools) {
+      tools.add(tool)
+    }
+    if (mapped.warning) {
+      warnings.push(mapped.warning)
+    }
+  }
+
+  return { tools: [...tools], warnings }
+}
+
+/**
+ * OpenCode tools named in the catalog, excluding wildcards
+ *
+ * An agent restricted to a list of tools gets every other one disabled.
+ */
+export function getCatalogTools(options: ConversionOptions = createConversionOptions()): string[] {
+  const tools = new Set<string>()
+  for (const mapped of Object.values(options.toolMappings)) {
+    for (const tool of toToolList(mapped)) {
+      if (!isToolWildcard(tool)) {
+        tools.add(tool)
+      }
+    }
+  }
+  return [...tools]
+}
+
+/**
+ * OpenCode `tools` map that enables `tools` and disables every other
+ * catalog tool, as listing tools does in Claude Code
+ */
+export function restrictToTools(
+  tools: string[],
+  options: ConversionOptions = createConversionOptions()
+): Record<string, boolean> {
+  const restricted: Record<string, boolean> = {}
+  for (const tool of tools) {
+    restricted[tool] = true
+  }
+  for (const tool of getCatalogTools(options)) {
+    if (!(tool in restricted)) {
+      restricted[tool] = false
+    }
+  }
+  return restricted
+}
+
+/**
+ * Primary Claude Code tool for each OpenCode tool, for converting back
+ *
+ * Only the first Claude tool mapped to an OpenCode tool is kept; entries
+ * without an equivalent or with wildcards are skipped.
+ */
+export function getPrimaryClaudeTools(
+  options: ConversionOptions = createConversionOptions()
+): { claudeTool: string; tools: string[] }[] {
+  const seen = new Set<string>()
+  const primary: { claudeTool: string; tools: string[] }[] = []
+
+  for (const [claudeTool, mapped] of Object.entries(options.toolMappings)) {
+    const tools = toToolList(mapped)
+    if (tools.length === 0 || tools.some(isToolWildcard) || seen.has(tools[0])) {
+      continue
+    }
+    seen.add(tools[0])
+    primary.push({ claudeTool, tools })
+  }
+
+  return primary
+}
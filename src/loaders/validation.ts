@@ -0,0 +1,134 @@
+/**
+ * Frontmatter Validation
+ *
+ * Shared checks used by the agent, command and skill loaders when they
+ * run in validation mode (see DiagnosticOptions). Each loader describes
+ * its frontmatter with a FrontmatterSchema; problems are recorded as
+ * diagnostics positioned at the offending key or list item.
+ */
+
+import type { ParsedMarkdown } from "../utils/parser"
+import { inspectFrontmatter } from "../utils/parser"
+import { reportDiagnostic, type Diagnostic, type DiagnosticSeverity } from "../utils/diagnostics"
+import { CLAUDE_TOOL_NAMES } from "../types"
+
+/**
+ * Description of the frontmatter a Claude Code asset may declare
+ */
+export interface FrontmatterSchema {
+  /** Asset kind, used in messages ("agent", "command", "skill") */
+  kind: string
+  /** Keys Claude Code understands for this asset */
+  knownKeys: readonly string[]
+  /** Severity of a missing description, or false when it is optional */
+  requireDescription: DiagnosticSeverity | false
+  /** Keys holding tool names */
+  toolKeys: readonly string[]
+  /** Keys restricted to a fixed set of values */
+  enumKeys?: Record<string, readonly string[]>
+}
+
+/**
+ * Check whether a tool entry names a known Claude Code tool
+ *
+ * Accepts rule specifiers such as "Bash(git diff:*)", MCP tool names
+ * (mcp__server or mcp__server__tool) and the "*" wildcard.
+ */
+export function isKnownClaudeTool(entry: string): boolean {
+  const name = entry.replace(/\(.*\)$/, "").trim()
+  if (name === "*" || /^mcp__[^_].*/.test(name)) {
+    return true
+  }
+  return CLAUDE_TOOL_NAMES.includes(name)
+}
+
+/**
+ * Parse a markdown asset and record every frontmatter problem
+ */
+export function validateMarkdownFrontmatter<T>(
+  filePath: string,
+  content: string,
+  schema: FrontmatterSchema,
+  diagnostics: Diagnostic[]
+): ParsedMarkdown<T> {
+  const inspection = inspectFrontmatter<Record<string, unknown>>(content)
+
+  for (const issue of inspection.issues) {
+    reportDiagnostic(
+      diagnostics,
+      filePath,
+      issue,
+      issue.severity,
+      issue.severity === "error" ? "malformed-frontmatter" : "ambiguous-frontmatter",
+      issue.message
+    )
+  }
+
+  const hasErrors = inspection.issues.some((issue) => issue.severity === "error")
+  const frontmatter = inspection.frontmatter
+
+  if (!hasErrors) {
+    const description = frontmatter.description
+    if (schema.requireDescription && (typeof description !== "string" || description.trim() === "")) {
+      reportDiagnostic(
+        diagnostics,
+        filePath,
+        inspection.keys.description,
+        schema.requireDescription,
+        "missing-description",
+        `${capitalize(schema.kind)} is missing a description`
+      )
+    }
+
+    for (const [key, position] of Object.entries(inspection.keys)) {
+      if (!schema.knownKeys.includes(key)) {
+        reportDiagnostic(
+          diagnostics,
+          filePath,
+          position,
+          "warning",
+          "unknown-key",
+          `Unknown ${schema.kind} frontmatter key "${key}"`
+        )
+      }
+    }
+
+    for (const key of schema.toolKeys) {
+      for (const item of inspection.items[key] ?? []) {
+        if (!isKnownClaudeTool(item.value)) {
+          reportDiagnostic(
+            diagnostics,
+            filePath,
+            item.position,
+            "warning",
+            "unknown-tool",
+            `Unknown tool "${item.value}" in ${key}`
+          )
+        }
+      }
+    }
+
+    for (const [key, allowed] of Object.entries(schema.enumKeys ?? {})) {
+      const value = frontmatter[key]
+      if (value !== undefined && !allowed.includes(String(value))) {
+        reportDiagnostic(
+          diagnostics,
+          filePath,
+          inspection.keys[key],
+          "error",
+          "invalid-value",
+          `Invalid ${key} "${value}" (expected one of: ${allowed.join(", ")})`
+        )
+      }
+    }
+  }
+
+  return {
+    frontmatter: frontmatter as T,
+    content: inspection.content,
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
@@ -20,13 +20,38 @@ export interface PluginContext {
   $: unknown
 }
 
+/**
+ * Input to tool.execute.before/after hooks
+ */
+export interface ToolExecuteInput {
+  tool: string
+  sessionID: string
+  callID: string
+}
+
+/**
+ * Output of tool.execute.before hooks, whose args may be changed in place
+ */
+export interface ToolExecuteBeforeOutput {
+  args: Record<string, unknown>
+}
+
+/**
+ * Output of tool.execute.after hooks
+ */
+export interface ToolExecuteAfterOutput {
+  title: string
+  output: string
+  metadata: unknown
+}
+
 /**
  * Plugin return type
  */
 export interface PluginReturn {
   tool?: Record<string, ToolDefinition>
-  "tool.execute.before"?: (input: unknown, output: unknown) => Promise<void>
-  "tool.execute.after"?: (input: unknown, output: unknown) => Promise<void>
+  "tool.execute.before"?: (input: ToolExecuteInput, output: ToolExecuteBeforeOutput) => Promise<void>
+  "tool.execute.after"?: (input: ToolExecuteInput, output: ToolExecuteAfterOutput) => Promise<void>
   event?: (params: { event: unknown }) => Promise<void>
 }
 
@@ -14,6 +14,7 @@ import {
   syncAgentsToOpenCode,
 } from "../loaders/agents"
 import { MODEL_MAPPING, PERMISSION_MODE_MAPPING } from "../types"
+import { createConversionOptions } from "../utils/config"
 import {
   createTestDirectory,
   createMockHomeDir,
@@ -92,6 +93,21 @@ describe("Agents Loader", () => {
       expect(opusFrontmatter.model).toBe(MODEL_MAPPING.opus)
     })
 
+    it("should apply custom model and tool mappings", async () => {
+      const agents = await discoverAgents(testDir.claudeDir, mockHome.path)
+      const fullConfig = agents.find(a => a.name === "full-config-agent")!
+      const options = createConversionOptions({
+        modelMappings: { opus: "amazon-bedrock/anthropic.claude-opus-4" },
+        toolMappings: { Read: "view" },
+      })
+
+      const frontmatter = convertAgentFrontmatter(fullConfig, options)
+
+      expect(frontmatter.model).toBe("amazon-bedrock/anthropic.claude-opus-4")
+      expect(frontmatter.tools?.view).toBe(true)
+      expect(frontmatter.tools?.read).toBe(false)
+    })
+
     it("should set mode to subagent", async () => {
       const agents = await discoverAgents(testDir.claudeDir, mockHome.path)
       const agent = agents[0]
@@ -116,6 +132,19 @@ describe("Agents Loader", () => {
       expect(frontmatter.tools?.webfetch).toBe(false)
     })
 
+    it("should limit bash to the commands of Bash(...) tool entries", () => {
+      const frontmatter = convertAgentFrontmatter({
+        name: "differ",
+        description: "Reads diffs",
+        tools: ["Read", "Bash(git diff:*)"],
+        systemPrompt: "Diff.",
+        filePath: "/tmp/differ.md",
+      })
+
+      expect(frontmatter.tools?.bash).toBe(true)
+      expect(frontmatter.permission?.bash).toEqual({ "*": "deny", "git diff": "allow", "git diff *": "allow" })
+    })
+
     it("should map permission modes correctly", async () => {
       const agents = await discoverAgents(testDir.claudeDir, mockHome.path)
 
@@ -5,7 +5,7 @@
 import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach } from "bun:test"
 import { join } from "path"
 import { existsSync } from "fs"
-import { readFile, mkdir, writeFile } from "fs/promises"
+import { readFile, mkdir, rm, writeFile } from "fs/promises"
 import { $ } from "bun"
 import {
   createTestDirectory,
@@ -14,7 +14,7 @@ import {
 } from "./utils"
 
 // Path to the CLI
-const CLI_PATH = join(__dirname, "..", "cli.ts")
+const CLI_PATH = join(__dirname, "..", "..", "cli.ts")
 
 /**
  * Run the CLI with arguments
@@ -438,6 +438,17 @@ describe("Crosstrain CLI", () => {
       expect(result.stdout).toContain("Converting All")
     })
 
+    it("should exit non-zero when the crosstrainer config is invalid", async () => {
+      await testDir.createCommand("all-cmd", { description: "Test command", template: "Run: $1" })
+      await writeFile(join(testDir.root, "crosstrainer.json"), JSON.stringify({ prefix: 1 }))
+
+      const result = await runCLI(["all", "--no-user"], testDir.root)
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stdout + result.stderr).toContain("Invalid crosstrainer.json: prefix")
+      expect(testDir.commandExists("all-cmd")).toBe(false)
+    })
+
     it("should respect --no-user flag", async () => {
       const result = await runCLI([
         "all",
@@ -649,8 +660,8 @@ describe("Crosstrain CLI", () => {
       ], testDir.root)
 
       expect(result.exitCode).toBe(0)
-      expect(result.stdout).toContain("No commands/ directory found")
-      expect(result.stdout).toContain("No agents/ directory found")
+      expect(result.stdout).toContain("No commands found")
+      expect(result.stdout).toContain("No agents found")
       expect(result.stdout).toContain("skill(s)")
 
       // Check plugin was created
@@ -745,11 +756,185 @@ describe("Crosstrain CLI", () => {
     })
 
     it("should detect local vs remote sources correctly", async () => {
-      // Local path that exists should be treated as local
-      const result = await runCLI(["plugin", ".claude", "--dry-run"])
+      const testDir = await createTestDirectory("cli-remote")
+      try {
+        // Local path that exists should be treated as local
+        const result = await runCLI(["plugin", ".claude", "--dry-run"], testDir.root)
+
+        expect(result.exitCode).toBe(0)
+        expect(result.stdout).toContain("Converting Plugin")
+      } finally {
+        await testDir.cleanup()
+      }
+    })
+  })
+
+  describe("Lint Command", () => {
+    let testDir: TestDirectory
+
+    beforeEach(async () => {
+      testDir = await createTestDirectory("cli-lint")
+    })
+
+    afterEach(async () => {
+      await testDir.cleanup()
+    })
+
+    it("should pass valid assets", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review." })
+
+      const result = await runCLI(["lint", "--no-user"], testDir.root)
 
       expect(result.exitCode).toBe(0)
-      expect(result.stdout).toContain("Converting Plugin")
+      expect(result.stdout).toContain("No problems found")
+    })
+
+    it("should exit non-zero and report errors as JSON", async () => {
+      await mkdir(join(testDir.claudeDir, "agents"), { recursive: true })
+      await writeFile(join(testDir.claudeDir, "agents", "bad.md"), "---\nname: bad\n---\nbody\n")
+
+      const result = await runCLI(["lint", "--no-user", "--format", "json"], testDir.root)
+
+      expect(result.exitCode).toBe(1)
+      const report = JSON.parse(result.stdout)
+      expect(report.errorCount).toBe(1)
+      expect(report.diagnostics[0].code).toBe("missing-description")
+    })
+  })
+
+  describe("Export Command", () => {
+    let testDir: TestDirectory
+
+    beforeEach(async () => {
+      testDir = await createTestDirectory("cli-export")
+    })
+
+    afterEach(async () => {
+      await testDir.cleanup()
+    })
+
+    it("should export OpenCode agents to .claude/agents", async () => {
+      await mkdir(join(testDir.openCodeDir, "agent"), { recursive: true })
+      await writeFile(
+        join(testDir.openCodeDir, "agent", "reviewer.md"),
+        "---\ndescription: Reviews code\nmode: subagent\n---\n\nReview."
+      )
+
+      const result = await runCLI(["export"], testDir.root)
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("1 agent(s)")
+      expect(existsSync(join(testDir.claudeDir, "agents", "reviewer.md"))).toBe(true)
+    })
+
+    it("should not export assets generated from Claude Code", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review." })
+      expect((await runCLI(["all", "--no-user"], testDir.root)).exitCode).toBe(0)
+
+      const result = await runCLI(["export", "--dry-run"], testDir.root)
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).not.toContain("Would write")
+    })
+  })
+
+  describe("Prune Command", () => {
+    let testDir: TestDirectory
+
+    beforeEach(async () => {
+      testDir = await createTestDirectory("cli-prune")
+    })
+
+    afterEach(async () => {
+      await testDir.cleanup()
+    })
+
+    it("should remove outputs whose source was deleted", async () => {
+      await testDir.createAgent("old", { description: "Old agent", systemPrompt: "Old." })
+      expect((await runCLI(["all", "--no-user"], testDir.root)).exitCode).toBe(0)
+      expect(testDir.agentExists("old")).toBe(true)
+
+      await rm(join(testDir.claudeDir, "agents", "old.md"))
+      const result = await runCLI(["prune", "--no-user"], testDir.root)
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Removed 1 output(s)")
+      expect(testDir.agentExists("old")).toBe(false)
+    })
+
+    it("should warn when there is no lockfile", async () => {
+      const result = await runCLI(["prune"], testDir.root)
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("No lockfile found")
+    })
+  })
+
+  describe("Diff and Output Format", () => {
+    let testDir: TestDirectory
+
+    beforeEach(async () => {
+      testDir = await createTestDirectory("cli-diff")
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy $1" })
+    })
+
+    afterEach(async () => {
+      await testDir.cleanup()
+    })
+
+    it("should print a diff without writing files", async () => {
+      const result = await runCLI(["all", "--no-user", "--diff"], testDir.root)
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("+description: Deploy")
+      expect(testDir.commandExists("deploy")).toBe(false)
+    })
+
+    it("should write commands into opencode.json with --output-format config", async () => {
+      const result = await runCLI(["all", "--no-user", "--output-format", "config"], testDir.root)
+
+      expect(result.exitCode).toBe(0)
+      expect(testDir.commandExists("deploy")).toBe(false)
+      const config = JSON.parse(await readFile(join(testDir.root, "opencode.json"), "utf-8"))
+      expect(config.command.claude_deploy.template).toContain("Deploy $1")
+    })
+  })
+
+  describe("Watch Command", () => {
+    let testDir: TestDirectory
+
+    beforeEach(async () => {
+      testDir = await createTestDirectory("cli-watch")
+    })
+
+    afterEach(async () => {
+      await testDir.cleanup()
+    })
+
+    it("should sync once, then stop on SIGINT", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review." })
+
+      const proc = Bun.spawn(["bun", "run", CLI_PATH, "watch", "--no-user"], {
+        cwd: testDir.root,
+        stdout: "pipe",
+      })
+      const reader = proc.stdout.getReader()
+      const decoder = new TextDecoder()
+      let stdout = ""
+      while (!stdout.includes("Watching for changes")) {
+        const { value, done } = await reader.read()
+        if (done) break
+        stdout += decoder.decode(value)
+      }
+      proc.kill("SIGINT")
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        stdout += decoder.decode(chunk.value)
+      }
+
+      expect(await proc.exited).toBe(0)
+      expect(stdout).toContain("Stopped watching")
+      expect(stdout).toContain("agents: 1 converted")
+      expect(testDir.agentExists("reviewer")).toBe(true)
     })
   })
 
@@ -10,10 +10,14 @@ import {
   discoverCommands,
   convertCommandFrontmatter,
   convertCommandTemplate,
+  convertCommandToolsAgentFrontmatter,
+  getCommandRouting,
+  generateCommandToolsAgent,
   generateOpenCodeCommand,
   writeOpenCodeCommands,
   syncCommandsToOpenCode,
 } from "../loaders/commands"
+import { createConversionOptions } from "../utils/config"
 import {
   createTestDirectory,
   createMockHomeDir,
@@ -62,6 +66,28 @@ describe("Commands Loader", () => {
       expect(runTests?.template).toContain("!`bun test`")
     })
 
+    it("should parse allowed-tools, argument-hint and disable-model-invocation", async () => {
+      const dynamicDir = await createTestDirectory("frontmatter-command")
+      await dynamicDir.createCommand("commit", {
+        description: "Commit",
+        allowedTools: "Bash(git add:*), Bash(git commit:*)",
+        argumentHint: "[message]",
+        disableModelInvocation: true,
+        template: "Commit with $ARGUMENTS",
+      })
+      await dynamicDir.createCommand("review", { argumentHint: "[pr-number] [priority]", template: "Review $1" })
+
+      const commands = await discoverCommands(dynamicDir.claudeDir, mockHome.path)
+      const commit = commands.find(c => c.name === "commit")
+
+      expect(commit?.allowedTools).toEqual(["Bash(git add:*)", "Bash(git commit:*)"])
+      expect(commit?.argumentHint).toBe("[message]")
+      expect(commit?.disableModelInvocation).toBe(true)
+      expect(commands.find(c => c.name === "review")?.argumentHint).toBe("[pr-number] [priority]")
+
+      await dynamicDir.cleanup()
+    })
+
     it("should extract name from filename", async () => {
       const commands = await discoverCommands(testDir.claudeDir, mockHome.path)
 
@@ -91,6 +117,79 @@ describe("Commands Loader", () => {
       expect(frontmatter.agent).toBe("build")
     })
 
+    it("should run commands with read-only allowed-tools with plan", () => {
+      const command = { name: "explain", allowedTools: ["Read", "Grep(*.ts)"], template: "Explain $1", filePath: "explain.md" }
+      const options = { ...createConversionOptions(), defaultAgent: "docs" }
+
+      expect(getCommandRouting(command, options)).toEqual({ agent: "plan", reason: "allowed-tools only reads (Read, Grep(*.ts))" })
+      expect(getCommandRouting({ ...command, allowedTools: undefined }, options).agent).toBe("docs")
+    })
+
+    it("should run commands with other allowed-tools with an agent that enforces them", () => {
+      const command = { name: "diff", allowedTools: ["Read", "Bash(git diff:*)"], template: "Diff $1", filePath: "diff.md" }
+      const options = { ...createConversionOptions(), defaultAgent: "docs" }
+
+      expect(convertCommandFrontmatter(command, options)).toMatchObject({ agent: "claude_diff_tools", subtask: false })
+      expect(convertCommandToolsAgentFrontmatter(command, options)).toMatchObject({
+        mode: "subagent",
+        tools: { read: true, bash: true, edit: false, write: false },
+        permission: { bash: { "*": "deny", "git diff": "allow", "git diff *": "allow" } },
+      })
+      expect(convertCommandToolsAgentFrontmatter({ ...command, allowedTools: ["Bash", "Edit"] })?.permission).toBeUndefined()
+      expect(convertCommandToolsAgentFrontmatter({ ...command, allowedTools: ["*"] })).toBeNull()
+    })
+
+    it("should run commands that ask for a converted subagent as its subtask", () => {
+      const command = { name: "review", template: "Use the code-reviewer subagent to check $ARGUMENTS", filePath: "review.md" }
+      const options = { ...createConversionOptions(), agentNames: { "code-reviewer": "claude_code-reviewer" } }
+
+      expect(convertCommandFrontmatter(command, options)).toMatchObject({ agent: "claude_code-reviewer", subtask: true })
+      expect(convertCommandFrontmatter(command).agent).toBe("build")
+      expect(convertCommandFrontmatter(command).subtask).toBeUndefined()
+    })
+
+    it("should map the command model with the configured mappings", async () => {
+      const dynamicDir = await createTestDirectory("model-command")
+      await dynamicDir.createCommand("plan", { description: "Plan", model: "opus", template: "Plan it" })
+
+      const [command] = await discoverCommands(dynamicDir.claudeDir, mockHome.path)
+      const options = createConversionOptions({ modelMappings: { opus: "amazon-bedrock/anthropic.claude-opus-4" } })
+
+      expect(convertCommandFrontmatter(command, options).model).toBe("amazon-bedrock/anthropic.claude-opus-4")
+      expect(convertCommandFrontmatter(command).model).toBe("anthropic/claude-opus-4-20250514")
+
+      await dynamicDir.cleanup()
+    })
+
+    it("should add the argument hint to the description", () => {
+      const command = { name: "review", description: "Review a PR", argumentHint: "[pr-number]", template: "", filePath: "review.md" }
+
+      expect(convertCommandFrontmatter(command).description).toBe("Review a PR (arguments: [pr-number])")
+    })
+
+    it("should report frontmatter with no OpenCode equivalent", () => {
+      const command = {
+        name: "deploy",
+        allowedTools: ["Bash", "Teleport"],
+        disableModelInvocation: false,
+        template: "",
+        filePath: "deploy.md",
+      }
+      const warnings: string[] = []
+
+      convertCommandFrontmatter(command, createConversionOptions(), warnings)
+
+      expect(warnings).toEqual([
+        'Unknown tool "Teleport" was not mapped',
+        "allowed-tools is not enforced by OpenCode commands; the generated agent claude_deploy_tools enforces it",
+        "disable-model-invocation: false has no OpenCode equivalent; OpenCode commands are only run by the user",
+      ])
+
+      const quiet: string[] = []
+      convertCommandFrontmatter({ ...command, allowedTools: undefined, disableModelInvocation: true }, createConversionOptions(), quiet)
+      expect(quiet).toEqual([])
+    })
+
     it("should generate description for commands without one", async () => {
       const dynamicDir = await createTestDirectory("no-desc-command")
       await dynamicDir.createCommand("no-description", {
@@ -133,9 +232,9 @@ describe("Commands Loader", () => {
       expect(converted).toContain("@package.json")
     })
 
-    it("should preserve shell injection syntax", () => {
+    it("should preserve shell injection syntax allowed-tools allows", () => {
       const template = "Output: !`ls -la` and !`git status`"
-      const converted = convertCommandTemplate(template)
+      const converted = convertCommandTemplate(template, { allowedTools: ["Bash"] })
 
       expect(converted).toContain("!`ls -la`")
       expect(converted).toContain("!`git status`")
@@ -163,6 +262,39 @@ describe("Commands Loader", () => {
       expect(markdown).toContain("[Loaded from Claude Code:")
     })
 
+    it("should enforce allowed tools with a generated agent instead of the template", () => {
+      const command = { name: "status", allowedTools: ["Bash(git status:*)", "Read"], template: "Show status", filePath: "status.md" }
+
+      expect(generateOpenCodeCommand(command)).not.toContain("Only use these tools")
+      expect(generateCommandToolsAgent(command)).toContain("git status *: allow")
+    })
+
+    it("should list allowed tools in the template when another agent runs the command", () => {
+      const command = {
+        name: "status",
+        allowedTools: ["Bash(git status:*)", "Read"],
+        template: "Use the git-helper subagent to show status",
+        filePath: "status.md",
+      }
+      const options = { ...createConversionOptions(), agentNames: { "git-helper": "claude_git-helper" } }
+
+      expect(generateOpenCodeCommand(command, options)).toContain("status\n\nOnly use these tools for this command: bash, read")
+      expect(generateCommandToolsAgent(command, options)).toBeNull()
+    })
+
+    it("should rename command references and report template issues", () => {
+      const command = { name: "release", template: "Run /frontend:test\nthen !`npm publish`", filePath: "release.md" }
+      const options = { ...createConversionOptions(), commandNames: { "frontend:test": "claude_frontend_test" } }
+      const warnings: string[] = []
+
+      const markdown = generateOpenCodeCommand(command, options, warnings)
+
+      expect(markdown).toContain("Run /claude_frontend_test\nthen `npm publish`")
+      expect(warnings).toContain(
+        "template line 2: !`npm publish` became a code span and does not run: allowed-tools does not allow Bash for it"
+      )
+    })
+
     it("should preserve template syntax in body", async () => {
       const commands = await discoverCommands(testDir.claudeDir, mockHome.path)
       const runTests = commands.find(c => c.name === "run-tests")!
@@ -15,9 +15,11 @@ import {
   getResolvedPaths,
   loadEnvConfig,
   getSettingsPath,
+  createConversionOptions,
+  mapModelName,
   ConfigLogger,
 } from "../utils/config"
-import { DEFAULT_CONFIG, type CrosstrainConfig } from "../types"
+import { DEFAULT_CONFIG, MODEL_MAPPING, type CrosstrainConfig } from "../types"
 
 describe("Configuration System", () => {
   let testDir: string
@@ -353,6 +355,41 @@ describe("Configuration System", () => {
     })
   })
 
+  describe("createConversionOptions", () => {
+    it("should extend the default mappings with config and overrides", () => {
+      const options = createConversionOptions(
+        { filePrefix: "cc_", modelMappings: { opus: "bedrock/opus", fast: "bedrock/haiku" } },
+        { modelMappings: { fast: "bedrock/sonnet" }, toolMappings: { Search: "grep" } }
+      )
+
+      expect(options.filePrefix).toBe("cc_")
+      expect(options.modelMappings.sonnet).toBe(MODEL_MAPPING.sonnet)
+      expect(options.modelMappings.opus).toBe("bedrock/opus")
+      expect(options.modelMappings.fast).toBe("bedrock/sonnet")
+      expect(options.toolMappings.Read).toBe("read")
+      expect(options.toolMappings.Search).toBe("grep")
+    })
+
+    it("should prefer a prefix override to the config", () => {
+      expect(createConversionOptions({ filePrefix: "cc_" }, { filePrefix: "x_" }).filePrefix).toBe("x_")
+      expect(createConversionOptions().filePrefix).toBe(DEFAULT_CONFIG.filePrefix)
+    })
+  })
+
+  describe("mapModelName", () => {
+    const options = createConversionOptions({ modelMappings: { opus: "bedrock/opus" } })
+
+    it("should map aliases case-insensitively", () => {
+      expect(mapModelName("opus", options)).toBe("bedrock/opus")
+      expect(mapModelName("Opus", options)).toBe("bedrock/opus")
+    })
+
+    it("should return undefined for inherit and unknown models unchanged", () => {
+      expect(mapModelName("inherit", options)).toBeUndefined()
+      expect(mapModelName("openai/gpt-5", options)).toBe("openai/gpt-5")
+    })
+  })
+
   describe("Configuration with plugin", () => {
     it("should disable plugin when enabled is false", async () => {
       const { CrosstrainPlugin } = await import("../index")
@@ -0,0 +1,779 @@
+/**
+ * Unit tests for the programmatic conversion API
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { join } from "path"
+import { existsSync } from "fs"
+import { mkdir, readFile, rm, writeFile } from "fs/promises"
+
+import { convertPlugin, convertProject, convertSettings } from "../loaders/convert"
+import { getLockfilePath } from "../utils/lockfile"
+import { createTestDirectory, type TestDirectory } from "./utils"
+
+describe("Convert API", () => {
+  let testDir: TestDirectory
+
+  beforeEach(async () => {
+    testDir = await createTestDirectory("convert")
+  })
+
+  afterEach(async () => {
+    await testDir.cleanup()
+  })
+
+  describe("convertProject", () => {
+    const convert = (options: Parameters<typeof convertProject>[0] = {}) =>
+      convertProject({ claudeDir: testDir.claudeDir, outputDir: testDir.openCodeDir, ...options })
+
+    it("should convert assets and report their outputs", async () => {
+      const agentPath = await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review" })
+      await testDir.createSkill("pdf", { description: "PDF tools", instructions: "Use pdftk" })
+      await testDir.createMCPConfig({ github: { command: "gh-mcp" } })
+
+      const result = await convert()
+
+      const agentOutput = join(testDir.openCodeDir, "agent", "claude_reviewer.md")
+      const configPath = join(testDir.root, "opencode.json")
+      expect(result.assets).toEqual([
+        { kind: "agent", name: "reviewer", source: agentPath, outputs: [agentOutput] },
+        expect.objectContaining({ kind: "skill", name: "pdf" }),
+        expect.objectContaining({ kind: "mcp", name: "github", outputs: [`${configPath}#mcp.claude_github`] }),
+      ])
+      expect(result.found).toEqual({ command: 0, agent: 1, skill: 1, mcp: 1 })
+      expect(result.skillPluginDir).toBe(join(testDir.openCodeDir, "plugin", "crosstrain-skills"))
+      expect(result.outputs.map((output) => output.path)).toContain(join(result.skillPluginDir!, "index.ts"))
+      expect(await readFile(agentOutput, "utf-8")).toContain("Review")
+      expect(existsSync(getLockfilePath(testDir.openCodeDir))).toBe(true)
+    })
+
+    it("should skip assets unchanged since the last run", async () => {
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy it" })
+      await convert()
+
+      const result = await convert()
+
+      expect(result.assets).toEqual([])
+      expect(result.skipped).toEqual([
+        expect.objectContaining({ kind: "command", name: "deploy", reason: "unchanged" }),
+      ])
+      expect(result.summary).toEqual({ unchanged: 1, updated: 0, removed: 0 })
+    })
+
+    it("should convert again when the naming options change", async () => {
+      await mkdir(join(testDir.claudeDir, "commands", "frontend"), { recursive: true })
+      await writeFile(join(testDir.claudeDir, "commands", "frontend", "test.md"), "---\ndescription: Test\n---\n\nTest it")
+      await convert()
+
+      const result = await convert({ namespaceSeparator: "-" })
+
+      expect(result.assets.map((asset) => asset.name)).toEqual(["frontend-test"])
+      expect(existsSync(join(testDir.openCodeDir, "command", "claude_frontend-test.md"))).toBe(true)
+    })
+
+    it("should write an unchanged asset again when a name collision renames it", async () => {
+      await mkdir(join(testDir.claudeDir, "commands", "frontend"), { recursive: true })
+      await writeFile(join(testDir.claudeDir, "commands", "frontend", "test.md"), "---\ndescription: Nested\n---\n\nNested")
+      await convert()
+
+      await writeFile(join(testDir.claudeDir, "commands", "frontend_test.md"), "---\ndescription: Flat\n---\n\nFlat")
+      const result = await convert()
+
+      const read = (name: string) => readFile(join(testDir.openCodeDir, "command", `claude_${name}.md`), "utf-8")
+      expect(result.assets.map((asset) => asset.name).sort()).toEqual(["frontend_test", "frontend_test_2"])
+      expect(await read("frontend_test")).toContain("Flat")
+      expect(await read("frontend_test_2")).toContain("Nested")
+    })
+
+    it("should return content without writing in dry-run mode", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review" })
+
+      const result = await convert({ dryRun: true })
+
+      expect(result.outputs).toHaveLength(1)
+      expect(result.outputs[0].content).toContain("Review")
+      expect(existsSync(result.outputs[0].path)).toBe(false)
+      expect(existsSync(getLockfilePath(testDir.openCodeDir))).toBe(false)
+    })
+
+    it("should report removed sources, and prune them with prune", async () => {
+      const agentPath = await testDir.createAgent("old", { description: "Old", systemPrompt: "Old" })
+      await convert()
+      await rm(agentPath)
+
+      const reported = await convert({ dryRun: true })
+      expect(reported.removed.map((entry) => entry.source)).toEqual([".claude/agents/old.md"])
+
+      const pruned = await convert({ prune: true })
+      expect(pruned.pruned?.removed).toEqual([".opencode/agent/claude_old.md"])
+    })
+
+    it("should apply model and tool mappings to every converter", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews", model: "opus", tools: ["Read"], systemPrompt: "Review" })
+      await testDir.createCommand("plan", { description: "Plan", model: "opus", template: "Plan it" })
+
+      const result = await convert({
+        dryRun: true,
+        modelMappings: { opus: "amazon-bedrock/anthropic.claude-opus-4" },
+        toolMappings: { Read: "view" },
+      })
+
+      const content = (kind: string) => result.outputs.find((output) => output.kind === kind)!.content
+      expect(content("agent")).toContain("model: amazon-bedrock/anthropic.claude-opus-4")
+      expect(content("agent")).toContain("view: true")
+      expect(content("command")).toContain("model: amazon-bedrock/anthropic.claude-opus-4")
+    })
+
+    it("should route commands to the agents they ask for and explain why", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews", systemPrompt: "Review" })
+      await testDir.createCommand("review", { description: "Review", template: "Use the reviewer subagent on $ARGUMENTS" })
+      await testDir.createCommand("explain", { description: "Explain", allowedTools: "Read, Grep", template: "Explain $1" })
+
+      const result = await convert({ dryRun: true })
+
+      const content = (fileName: string) => result.outputs.find((output) => output.path.endsWith(fileName))!.content
+      expect(content("claude_review.md")).toContain("agent: claude_reviewer\nsubtask: true")
+      expect(content("claude_explain.md")).toContain("agent: plan")
+      const reasons = Object.fromEntries(result.routing.map((routing) => [routing.name, routing.reason]))
+      expect(reasons).toEqual({
+        explain: "allowed-tools only reads (Read, Grep)",
+        review: 'the template asks for the "reviewer" subagent',
+      })
+    })
+
+    it("should convert unchanged commands again when the agents they may run with change", async () => {
+      await testDir.createCommand("review", { description: "Review", template: "Use the reviewer subagent on $ARGUMENTS" })
+      await convert()
+      await testDir.createAgent("reviewer", { description: "Reviews", systemPrompt: "Review" })
+
+      const result = await convert()
+
+      expect(result.assets.map((asset) => asset.name).sort()).toEqual(["review", "reviewer"])
+      expect(await readFile(join(testDir.openCodeDir, "command", "claude_review.md"), "utf-8")).toContain("agent: claude_reviewer")
+    })
+
+    it("should convert unchanged commands again when the commands they refer to change", async () => {
+      await testDir.createCommand("release", { description: "Release", template: "Run /deploy first" })
+      await convert()
+      const deployPath = await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy it" })
+      const read = () => readFile(join(testDir.openCodeDir, "command", "claude_release.md"), "utf-8")
+
+      expect((await convert()).assets.map((asset) => asset.name).sort()).toEqual(["deploy", "release"])
+      expect(await read()).toContain("Run /claude_deploy first")
+
+      await rm(deployPath)
+      expect((await convert()).assets.map((asset) => asset.name)).toEqual(["release"])
+      expect(await read()).toContain("Run /deploy first")
+    })
+
+    it("should write the agent enforcing a command's allowed-tools with the command", async () => {
+      await testDir.createCommand("status", { description: "Status", allowedTools: "Read, Bash(git status:*)", template: "Show status" })
+
+      const result = await convert()
+
+      const agentPath = join(testDir.openCodeDir, "agent", "claude_status_tools.md")
+      expect(result.assets).toEqual([expect.objectContaining({
+        kind: "command",
+        outputs: [join(testDir.openCodeDir, "command", "claude_status.md"), agentPath],
+      })])
+      expect(await readFile(join(testDir.openCodeDir, "command", "claude_status.md"), "utf-8")).toContain("agent: claude_status_tools")
+      expect(await readFile(agentPath, "utf-8")).toContain("git status *: allow")
+    })
+
+    it("should merge agents and commands into opencode.json with outputFormat config", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews", model: "opus", systemPrompt: "Review carefully" })
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy $ARGUMENTS" })
+      const configPath = join(testDir.root, "opencode.json")
+      await writeFile(configPath, JSON.stringify({ theme: "dark", command: { mine: { template: "Keep me" } } }))
+
+      const result = await convert({ outputFormat: "config" })
+
+      const config = JSON.parse(await readFile(configPath, "utf-8"))
+      expect(config.theme).toBe("dark")
+      expect(config.permission).toBeUndefined()
+      expect(config.command.mine).toEqual({ template: "Keep me" })
+      expect(config.command.claude_deploy).toMatchObject({ description: "Deploy", agent: "build" })
+      expect(config.command.claude_deploy.template).toStartWith("Deploy $ARGUMENTS")
+      expect(config.agent.claude_reviewer).toMatchObject({ description: "Reviews", mode: "subagent" })
+      expect(config.agent.claude_reviewer.prompt).toStartWith("Review carefully")
+      expect(existsSync(join(testDir.openCodeDir, "agent"))).toBe(false)
+      expect(result.assets.flatMap((asset) => asset.outputs)).toEqual([
+        `${configPath}#command.claude_deploy`,
+        `${configPath}#agent.claude_reviewer`,
+      ])
+
+      await rm(join(testDir.claudeDir, "commands", "deploy.md"))
+      const pruned = await convert({ outputFormat: "config", prune: true })
+      expect(pruned.pruned?.removed).toEqual(["opencode.json#command.claude_deploy"])
+      expect(JSON.parse(await readFile(configPath, "utf-8")).command).toEqual({ mine: { template: "Keep me" } })
+    })
+
+    it("should preview the opencode.json a real run writes with outputFormat config", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews", systemPrompt: "Review carefully" })
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy $ARGUMENTS" })
+      await testDir.createMCPConfig({ github: { command: "gh-mcp" } })
+      const configPath = join(testDir.root, "opencode.json")
+      await writeFile(configPath, JSON.stringify({ theme: "dark" }))
+
+      const preview = await convert({ outputFormat: "config", dryRun: true })
+
+      const previewed = preview.outputs.filter((output) => output.path === configPath)
+      expect(previewed).toHaveLength(1)
+      const config = JSON.parse(previewed[0].content)
+      expect(config.theme).toBe("dark")
+      expect(Object.keys(config.command)).toEqual(["claude_deploy"])
+      expect(Object.keys(config.agent)).toEqual(["claude_reviewer"])
+      expect(Object.keys(config.mcp)).toEqual(["claude_github"])
+
+      await convert({ outputFormat: "config" })
+      expect(await readFile(configPath, "utf-8")).toBe(previewed[0].content)
+    })
+
+    it("should write opencode.json once with outputFormat config and relative directories", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews", systemPrompt: "Review carefully" })
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy $ARGUMENTS" })
+      await testDir.createMCPConfig({ github: { command: "gh-mcp" } })
+      const cwd = process.cwd()
+      process.chdir(testDir.root)
+
+      try {
+        const result = await convertProject({ claudeDir: ".claude", outputDir: ".opencode", outputFormat: "config" })
+
+        const configPath = join(testDir.root, "opencode.json")
+        expect(result.outputs.filter((output) => output.path.endsWith("opencode.json"))).toHaveLength(1)
+        const config = JSON.parse(await readFile(configPath, "utf-8"))
+        expect(Object.keys(config.command)).toEqual(["claude_deploy"])
+        expect(Object.keys(config.agent)).toEqual(["claude_reviewer"])
+        expect(Object.keys(config.mcp)).toEqual(["claude_github"])
+      } finally {
+        process.chdir(cwd)
+      }
+    })
+
+    it("should remove outputs an asset no longer writes to", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews", systemPrompt: "Review" })
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy it" })
+      const configPath = join(testDir.root, "opencode.json")
+      await convert()
+
+      const result = await convert({ outputFormat: "config" })
+
+      expect(result.superseded?.removed.sort()).toEqual([
+        join(".opencode", "agent", "claude_reviewer.md"),
+        join(".opencode", "command", "claude_deploy.md"),
+      ])
+      expect(existsSync(join(testDir.openCodeDir, "agent"))).toBe(false)
+      expect(existsSync(join(testDir.openCodeDir, "command"))).toBe(false)
+
+      await convert({ outputFormat: "config", prefix: "cc_" })
+
+      const config = JSON.parse(await readFile(configPath, "utf-8"))
+      expect(Object.keys(config.agent)).toEqual(["cc_reviewer"])
+      expect(Object.keys(config.command)).toEqual(["cc_deploy"])
+    })
+
+    it("should keep superseded outputs that were edited", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews", systemPrompt: "Review" })
+      await convert()
+      const agentOutput = join(testDir.openCodeDir, "agent", "claude_reviewer.md")
+      await writeFile(agentOutput, "My own reviewer")
+
+      const result = await convert({ prefix: "cc_" })
+
+      expect(result.superseded?.kept).toEqual([
+        { output: join(".opencode", "agent", "claude_reviewer.md"), reason: "modified since crosstrain generated it" },
+      ])
+      expect(await readFile(agentOutput, "utf-8")).toBe("My own reviewer")
+      expect(existsSync(join(testDir.openCodeDir, "agent", "cc_reviewer.md"))).toBe(true)
+    })
+
+    it("should warn about agent tools that could not be mapped", async () => {
+      const agentPath = await testDir.createAgent("researcher", {
+        description: "Researches",
+        tools: ["Read", "WebSearch"],
+        systemPrompt: "Research",
+      })
+
+      const result = await convert({ dryRun: true })
+
+      expect(result.warnings).toEqual([{ source: agentPath, message: 'Tool "WebSearch" has no OpenCode equivalent' }])
+    })
+
+    it("should fail instead of converting without a crosstrainer config that is invalid", async () => {
+      await testDir.createCommand("internal", { description: "Internal", template: "Secret" })
+      await writeFile(join(testDir.root, "crosstrainer.json"), JSON.stringify({ commands: { exclude: "internal" } }))
+
+      await expect(convert()).rejects.toThrow("Invalid crosstrainer.json: commands.exclude")
+      expect(testDir.commandExists("internal")).toBe(false)
+    })
+
+    it("should apply a crosstrainer config at the project root", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews", model: "fast", systemPrompt: "Review" })
+      const internalPath = await testDir.createCommand("internal", { description: "Internal", template: "Secret" })
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy it" })
+      await testDir.createMCPConfig({ github: { command: "gh-mcp" }, debug: { command: "debug-mcp" } })
+      await writeFile(
+        join(testDir.root, "crosstrainer.json"),
+        JSON.stringify({
+          prefix: "proj_",
+          models: { fast: "anthropic/claude-haiku-4-5" },
+          commands: { exclude: ["internal"], defaultAgent: "reviewer" },
+          mcp: { include: ["github"] },
+        })
+      )
+
+      const result = await convert({ dryRun: true })
+
+      const content = (fileName: string) => result.outputs.find((output) => output.path.endsWith(fileName))?.content
+      expect(result.crosstrainerConfig).toEqual({ filePath: join(testDir.root, "crosstrainer.json"), fileType: "json" })
+      expect(content("proj_reviewer.md")).toContain("model: anthropic/claude-haiku-4-5")
+      expect(content("proj_deploy.md")).toContain("agent: proj_reviewer")
+      expect(content("proj_internal.md")).toBeUndefined()
+      expect(result.skipped).toContainEqual({ kind: "command", name: "internal", source: internalPath, reason: "excluded" })
+      expect(result.skipped).toContainEqual(expect.objectContaining({ kind: "mcp", name: "debug", reason: "excluded" }))
+      expect(result.found).toEqual({ command: 1, agent: 1, skill: 0, mcp: 1 })
+    })
+
+    it("should run the transforms and post-conversion hook of a crosstrainer.js next to .claude", async () => {
+      const claudeParent = join(testDir.root, "config")
+      const claudeDir = join(claudeParent, ".claude")
+      await mkdir(join(claudeDir, "skills", "pdf"), { recursive: true })
+      await writeFile(join(claudeDir, "skills", "pdf", "SKILL.md"), "---\nname: pdf\ndescription: PDF tools\n---\n\nUse pdftk")
+      const marker = join(testDir.root, "done.json")
+      await writeFile(
+        join(claudeParent, "crosstrainer.js"),
+        `import { writeFileSync } from "fs"
+export default {
+  skills: { toolNameTemplate: "{name}_helper" },
+  transformSkill: (skill) => ({ ...skill, description: "Transformed " + skill.description }),
+  onConversionComplete: (ctx, results) => writeFileSync(${JSON.stringify(marker)}, JSON.stringify(results.skills)),
+}`
+      )
+
+      const result = await convert({ claudeDir })
+
+      const tool = result.outputs.find((output) => output.path.endsWith("pdf_helper.ts"))
+      expect(tool?.content).toContain("Transformed PDF tools")
+      expect(JSON.parse(await readFile(marker, "utf-8"))).toEqual(["tools/pdf_helper.ts"])
+    })
+
+    it("should write to the output directory set by beforeConversion", async () => {
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy it" })
+      const outputDir = join(testDir.root, "custom", ".opencode")
+      await writeFile(
+        join(testDir.root, "crosstrainer.js"),
+        `export default { beforeConversion: (ctx) => { ctx.outputDir = ${JSON.stringify(outputDir)} } }`
+      )
+
+      await convert()
+
+      expect(existsSync(join(outputDir, "command", "claude_deploy.md"))).toBe(true)
+      expect(existsSync(getLockfilePath(outputDir))).toBe(true)
+      expect(existsSync(join(testDir.openCodeDir, "command"))).toBe(false)
+    })
+
+    it("should route commands to the agents transformAgent renames or drops", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review" })
+      await testDir.createAgent("tester", { description: "Tests code", systemPrompt: "Test" })
+      await testDir.createCommand("review", { description: "Review", template: "Use the reviewer subagent" })
+      await testDir.createCommand("check", { description: "Check", template: "Use the tester subagent" })
+      await writeFile(
+        join(testDir.root, "crosstrainer.js"),
+        `export default {
+  transformAgent: (agent) => agent.name === "tester" ? null : { ...agent, name: "code-reviewer" },
+}`
+      )
+
+      const result = await convert({ dryRun: true })
+
+      const content = (fileName: string) => result.outputs.find((output) => output.path.endsWith(fileName))?.content
+      expect(result.assets.filter((asset) => asset.kind === "agent").map((asset) => asset.name)).toEqual(["code-reviewer"])
+      expect(content("claude_review.md")).toContain("agent: claude_code-reviewer")
+      expect(content("claude_check.md")).not.toContain("claude_tester")
+    })
+
+    it("should route commands again when only agents are converted", async () => {
+      await testDir.createCommand("review", { description: "Review", template: "Use the rev subagent on $ARGUMENTS" })
+      await convert()
+      const commandOutput = join(testDir.openCodeDir, "command", "claude_review.md")
+
+      const agentPath = await testDir.createAgent("rev", { description: "Reviews", systemPrompt: "Review" })
+      await convert({ categories: ["agents"] })
+      expect(await readFile(commandOutput, "utf-8")).toContain("agent: claude_rev")
+
+      await rm(agentPath)
+      await convert({ categories: ["agents"] })
+      expect(await readFile(commandOutput, "utf-8")).not.toContain("claude_rev")
+    })
+
+    it("should only convert the requested categories", async () => {
+      await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review" })
+      await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy it" })
+      await convert()
+      await rm(join(testDir.claudeDir, "commands"), { recursive: true })
+
+      const result = await convert({ categories: ["agents"], prune: true })
+
+      expect(result.found.command).toBe(0)
+      expect(result.pruned?.removed).toEqual([])
+      expect(existsSync(join(testDir.openCodeDir, "command", "claude_deploy.md"))).toBe(true)
+    })
+  })
+
+  describe("convertPlugin", () => {
+    const createPlugin = async (name: string) => {
+      const pluginDir = join(testDir.root, "plugins", name)
+      await mkdir(join(pluginDir, ".claude-plugin"), { recursive: true })
+      await writeFile(join(pluginDir, ".claude-plugin", "plugin.json"), JSON.stringify({ name }))
+      await mkdir(join(pluginDir, "commands"), { recursive: true })
+      await writeFile(join(pluginDir, "commands", "review.md"), "---\ndescription: Review\n---\n\nReview it")
+      await writeFile(join(pluginDir, "commands", "draft.md"), "---\ndescription: Draft\n---\n\nDraft it")
+      return pluginDir
+    }
+
+    it("should convert a local plugin with its name as prefix", async () => {
+      const pluginDir = await createPlugin("code-review")
+
+      const result = await convertPlugin(pluginDir, { outputDir: testDir.openCodeDir })
+
+      expect(result.plugin).toMatchObject({ name: "code-review", path: pluginDir, prefix: "claude_code_review_" })
+      expect(result.assets.map((asset) => asset.outputs[0]).sort()).toEqual([
+        join(testDir.openCodeDir, "command", "claude_code_review_draft.md"),
+        join(testDir.openCodeDir, "command", "claude_code_review_review.md"),
+      ])
+    })
+
+    it("should report assets excluded by the crosstrainer config", async () => {
+      const pluginDir = await createPlugin("code-review")
+      await writeFile(join(pluginDir, "crosstrainer.json"), JSON.stringify({ commands: { exclude: ["draft"] } }))
+
+      const result = await convertPlugin(pluginDir, { outputDir: testDir.openCodeDir })
+
+      expect(result.plugin.crosstrainerConfig?.fileType).toBe("json")
+      expect(result.assets.map((asset) => asset.name)).toEqual(["review"])
+      expect(result.skipped).toEqual([
+        { kind: "command", name: "draft", source: join(pluginDir, "commands", "draft.md"), reason: "excluded" },
+      ])
+    })
+
+    describe("crosstrainer config fields", () => {
+      const createFullPlugin = async (crosstrainer: string, fileName = "crosstrainer.json") => {
+        const pluginDir = await createPlugin("kit")
+        await mkdir(join(pluginDir, "agents"), { recursive: true })
+        await writeFile(
+          join(pluginDir, "agents", "helper.md"),
+          "---\nname: helper\ndescription: Helps\ntools: Read, Bash\n---\n\nHelp out"
+        )
+        await mkdir(join(pluginDir, "skills", "pdf"), { recursive: true })
+        await writeFile(join(pluginDir, "skills", "pdf", "SKILL.md"), "---\nname: pdf\ndescription: PDF tools\n---\n\nUse pdftk")
+        await writeFile(join(pluginDir, fileName), crosstrainer)
+        return pluginDir
+      }
+
+      const convertKit = async (pluginDir: string) => {
+        const result = await convertPlugin(pluginDir, { outputDir: testDir.openCodeDir, dryRun: true })
+        const content = (fileName: string) => result.outputs.find((output) => output.path.endsWith(fileName))?.content
+        return { result, content }
+      }
+
+      it("should generate agents with generateAgent", async () => {
+        const pluginDir = await createFullPlugin(
+          "export default { generateAgent: (agent) => ({ frontmatter: { description: 'Custom ' + agent.name, mode: 'primary' }, content: 'Generated' }) }",
+          "crosstrainer.js"
+        )
+
+        const { content } = await convertKit(pluginDir)
+
+        expect(content("claude_kit_helper.md")).toContain("description: Custom helper")
+        expect(content("claude_kit_helper.md")).toContain("mode: primary")
+        expect(content("claude_kit_helper.md")).toContain("Generated")
+
+        const result = await convertPlugin(pluginDir, { outputDir: testDir.openCodeDir, dryRun: true, outputFormat: "config" })
+        const config = JSON.parse(result.outputs.find((output) => output.path.endsWith("opencode.json"))!.content)
+        expect(config.agent.claude_kit_helper).toEqual({ description: "Custom helper", mode: "primary", prompt: "Generated" })
+      })
+
+      it("should name skill tools with skills.toolNameTemplate", async () => {
+        const pluginDir = await createFullPlugin(JSON.stringify({ skills: { toolNameTemplate: "{plugin}_{name}_guide" } }))
+
+        const { result, content } = await convertKit(pluginDir)
+
+        expect(result.outputs.map((output) => output.path)).toContain(
+          join(testDir.openCodeDir, "plugin", "crosstrain-kit", "tools", "kit_pdf_guide.ts")
+        )
+        expect(content("kit_pdf_guide.ts")).toContain("export const kit_pdf_guide = tool(")
+        expect(content("index.ts")).toContain('import { kit_pdf_guide } from "./tools/kit_pdf_guide"')
+      })
+
+      it("should point agents at the skill tools skills.toolNameTemplate names", async () => {
+        const pluginDir = await createFullPlugin(JSON.stringify({}))
+        await writeFile(
+          join(pluginDir, "agents", "helper.md"),
+          "---\nname: helper\ndescription: Helps\nskills: pdf\n---\n\nHelp out"
+        )
+
+        expect((await convertKit(pluginDir)).content("claude_kit_helper.md")).toContain("- `skill_kit_pdf`:")
+
+        await writeFile(join(pluginDir, "crosstrainer.json"), JSON.stringify({ skills: { toolNameTemplate: "{plugin}_{name}_guide" } }))
+        const { content } = await convertKit(pluginDir)
+        expect(content("claude_kit_helper.md")).toContain("- `kit_pdf_guide`: Use when relevant to invoke the pdf skill")
+        expect(content("kit_pdf_guide.ts")).toContain("export const kit_pdf_guide = tool(")
+      })
+
+      it("should give agents agents.defaultPermissionMode", async () => {
+        const pluginDir = await createFullPlugin(JSON.stringify({ agents: { defaultPermissionMode: "acceptEdits" } }))
+
+        const { content } = await convertKit(pluginDir)
+
+        expect(content("claude_kit_helper.md")).toContain("edit: allow")
+      })
+
+      it("should run commands with commands.defaultAgent, prefixing the plugin's agents", async () => {
+        const external = await createFullPlugin(JSON.stringify({ commands: { defaultAgent: "plan" } }))
+        expect((await convertKit(external)).content("claude_kit_review.md")).toContain("agent: plan")
+
+        await writeFile(join(external, "crosstrainer.json"), JSON.stringify({ commands: { defaultAgent: "helper" } }))
+        expect((await convertKit(external)).content("claude_kit_review.md")).toContain("agent: claude_kit_helper")
+      })
+
+      it("should map permission modes with permissions.modes", async () => {
+        const pluginDir = await createFullPlugin(
+          JSON.stringify({
+            agents: { defaultPermissionMode: "acceptEdits" },
+            permissions: { modes: { acceptEdits: { edit: "ask", webfetch: "deny" } } },
+          })
+        )
+
+        const { content } = await convertKit(pluginDir)
+
+        expect(content("claude_kit_helper.md")).toContain("edit: ask")
+        expect(content("claude_kit_helper.md")).toContain("webfetch: deny")
+      })
+
+      it("should add permissions.rules to every agent", async () => {
+        const pluginDir = await createFullPlugin(
+          JSON.stringify({ permissions: { rules: { deny: { "Bash(rm:*)": "rm *" }, ask: { "WebFetch": "webfetch" } } } })
+        )
+
+        const { content } = await convertKit(pluginDir)
+
+        expect(content("claude_kit_helper.md")).toMatch(/bash:\n\s+"\*": ask\n\s+rm \*: deny/)
+        expect(content("claude_kit_helper.md")).toContain("webfetch: ask")
+      })
+
+      it("should map agent tools with tools", async () => {
+        const pluginDir = await createFullPlugin(JSON.stringify({ tools: { Bash: "shell" } }))
+
+        const { content } = await convertKit(pluginDir)
+
+        expect(content("claude_kit_helper.md")).toContain("shell: true")
+        expect(content("claude_kit_helper.md")).not.toContain("bash: true")
+      })
+
+      it("should convert with the options beforeConversion leaves and post-process outputs with transformOutput", async () => {
+        const pluginDir = await createFullPlugin(
+          `export default {
+  beforeConversion: (ctx) => { ctx.prefix = "kit_" },
+  transformOutput: (path, content, ctx) => path.endsWith(".md") ? "<!-- " + ctx.prefix + " -->\\n" + content : content,
+}`,
+          "crosstrainer.js"
+        )
+
+        const { result, content } = await convertKit(pluginDir)
+
+        expect(result.plugin.prefix).toBe("kit_")
+        expect(content("kit_review.md")).toStartWith("<!-- kit_ -->\n---")
+        expect(content("pdf.ts")).not.toContain("<!--")
+      })
+
+      it("should stop the conversion when beforeConversion returns false", async () => {
+        const pluginDir = await createFullPlugin("export default { beforeConversion: () => false }", "crosstrainer.js")
+
+        const result = await convertPlugin(pluginDir, { outputDir: testDir.openCodeDir })
+
+        expect(result.aborted).toBe(true)
+        expect(result.outputs).toEqual([])
+        expect(result.warnings.map((warning) => warning.message)).toEqual(["Conversion aborted by the beforeConversion hook"])
+        expect(existsSync(getLockfilePath(testDir.openCodeDir))).toBe(false)
+      })
+
+      it("should count hooks after transformSettings and transformHook", async () => {
+        const pluginDir = await createFullPlugin(
+          `export default {
+  transformSettings: (settings) => ({ ...settings, hooks: { ...settings.hooks, Stop: [{ hooks: [{ type: "command", command: "notify" }] }] } }),
+  transformHook: (event, matcher) => matcher.matcher === "Bash" ? null : matcher,
+}`,
+          "crosstrainer.js"
+        )
+        const hook = { type: "command", command: "check" }
+        await writeFile(
+          join(pluginDir, "settings.json"),
+          JSON.stringify({ hooks: { PreToolUse: [{ matcher: "Bash", hooks: [hook] }, { matcher: "Edit", hooks: [hook] }] } })
+        )
+
+        const { result } = await convertKit(pluginDir)
+
+        expect(result.hookMatchers).toBe(2)
+      })
+    })
+
+    it("should filter with patterns and metadata and explain each decision", async () => {
+      const pluginDir = await createPlugin("code-review")
+      await mkdir(join(pluginDir, "commands", "frontend"), { recursive: true })
+      await writeFile(join(pluginDir, "commands", "frontend", "lint.md"), "---\ndescription: Lint\n---\n\nLint it")
+      await writeFile(join(pluginDir, "commands", "review-experimental.md"), "---\ndescription: New\n---\n\nTry it")
+      await mkdir(join(pluginDir, "agents"), { recursive: true })
+      await writeFile(join(pluginDir, "agents", "quick.md"), "---\ndescription: Quick\nmodel: haiku\n---\n\nQuick")
+      await writeFile(join(pluginDir, "agents", "deep.md"), "---\ndescription: Deep\nmodel: opus\n---\n\nDeep")
+      await writeFile(
+        join(pluginDir, "crosstrainer.json"),
+        JSON.stringify({
+          commands: { include: ["review*", "frontend/**"], exclude: ["*-experimental"] },
+          agents: { where: { model: "haiku" } },
+        })
+      )
+
+      const result = await convertPlugin(pluginDir, { outputDir: testDir.openCodeDir, dryRun: true })
+
+      expect(result.assets.map((asset) => asset.name).sort()).toEqual(["frontend_lint", "quick", "review"])
+      const reasons = Object.fromEntries(result.filtered.map((decision) => [decision.name, decision.reason]))
+      expect(reasons).toEqual({
+        draft: "matches no include pattern (review*, frontend/**)",
+        frontend_lint: 'matches include "frontend/**"',
+        review: 'matches include "review*"',
+        "review-experimental": 'matches exclude "*-experimental"',
+        quick: 'model matches "haiku"',
+        deep: 'model is "opus", not "haiku"',
+      })
+    })
+
+    it("should namespace commands in subdirectories and report renames", async () => {
+      const pluginDir = await createPlugin("kit")
+      for (const dir of ["frontend", "backend"]) {
+        await mkdir(join(pluginDir, "commands", dir), { recursive: true })
+        await writeFile(join(pluginDir, "commands", dir, "test.md"), `---\ndescription: Test ${dir}\n---\n\nTest`)
+      }
+      await writeFile(join(pluginDir, "commands", "frontend_test.md"), "---\ndescription: Top\n---\n\nTop")
+
+      const result = await convertPlugin(pluginDir, { outputDir: testDir.openCodeDir, dryRun: true })
+
+      expect(result.assets.map((asset) => asset.name).sort()).toEqual([
+        "backend_test", "draft", "frontend_test", "frontend_test_2", "review",
+      ])
+      expect(result.warnings).toEqual([
+        {
+          source: join(pluginDir, "commands", "frontend", "test.md"),
+          message: `Renamed command "frontend_test" to "frontend_test_2": "frontend_test" is already used by ${join(pluginDir, "commands", "frontend_test.md")}`,
+        },
+      ])
+
+      await expect(
+        convertPlugin(pluginDir, { outputDir: testDir.openCodeDir, dryRun: true, onNameCollision: "error" })
+      ).rejects.toThrow('2 commands are named "frontend_test"')
+    })
+
+    it("should throw when a local plugin does not exist", async () => {
+      await expect(convertPlugin(join(testDir.root, "missing"))).rejects.toThrow("Plugin directory not found")
+    })
+  })
+
+  describe("convertSettings", () => {
+    it("should return the merged opencode.json and unsupported settings", async () => {
+      await writeFile(
+        join(testDir.claudeDir, "settings.json"),
+        JSON.stringify({ model: "sonnet", env: { DEBUG: "1" } })
+      )
+
+      const result = await convertSettings({
+        claudeDir: testDir.claudeDir,
+        outputDir: testDir.openCodeDir,
+        loadUserSettings: false,
+        dryRun: true,
+      })
+
+      expect(result.config.model).toBeDefined()
+      expect(result.configPath).toBe(join(testDir.root, "opencode.json"))
+      expect(JSON.parse(result.content)).toEqual(result.config)
+      expect(result.warnings.map((warning) => warning.source)).toEqual(["env"])
+      expect(existsSync(result.configPath)).toBe(false)
+    })
+
+    it("should apply transformSettings and transformOutput from the project's crosstrainer.js", async () => {
+      await writeFile(join(testDir.claudeDir, "settings.json"), JSON.stringify({ model: "sonnet", env: { DEBUG: "1" } }))
+      await writeFile(
+        join(testDir.root, "crosstrainer.js"),
+        `export default {
+  transformSettings: ({ env, ...settings }) => settings,
+  transformOutput: (path, content) => content + "\\n",
+}`
+      )
+
+      const result = await convertSettings({
+        claudeDir: testDir.claudeDir,
+        outputDir: testDir.openCodeDir,
+        loadUserSettings: false,
+      })
+
+      expect(result.warnings).toEqual([])
+      expect(result.content).toEndWith("}\n")
+      expect(await readFile(result.configPath, "utf-8")).toBe(result.content)
+    })
+
+    it("should fail when the crosstrainer config does not load", async () => {
+      await writeFile(join(testDir.claudeDir, "settings.json"), JSON.stringify({ model: "sonnet" }))
+      await writeFile(join(testDir.root, "crosstrainer.json"), "{ not json")
+
+      await expect(
+        convertSettings({ claudeDir: testDir.claudeDir, outputDir: testDir.openCodeDir, loadUserSettings: false })
+      ).rejects.toThrow("Failed to parse")
+      expect(existsSync(join(testDir.root, "opencode.json"))).toBe(false)
+    })
+
+    it("should not report settings that are empty", async () => {
+      await writeFile(join(testDir.claudeDir, "settings.json"), JSON.stringify({ model: "sonnet", env: {} }))
+
+      const result = await convertSettings({
+        claudeDir: testDir.claudeDir,
+        outputDir: testDir.openCodeDir,
+        loadUserSettings: false,
+        dryRun: true,
+      })
+
+      expect(result.warnings).toEqual([])
+    })
+
+    it("should map the model with the configured mappings", async () => {
+      await writeFile(join(testDir.claudeDir, "settings.json"), JSON.stringify({ model: "opus" }))
+
+      const result = await convertSettings({
+        claudeDir: testDir.claudeDir,
+        outputDir: testDir.openCodeDir,
+        loadUserSettings: false,
+        modelMappings: { opus: "amazon-bedrock/anthropic.claude-opus-4" },
+        dryRun: true,
+      })
+
+      expect(result.config.model).toBe("amazon-bedrock/anthropic.claude-opus-4")
+    })
+
+    it("should convert bash rules and report permission rules that were not converted", async () => {
+      await writeFile(
+        join(testDir.claudeDir, "settings.json"),
+        JSON.stringify({ permissions: { allow: ["Bash(npm test)"], deny: ["Read(./.env)"] } })
+      )
+
+      const result = await convertSettings({
+        claudeDir: testDir.claudeDir,
+        outputDir: testDir.openCodeDir,
+        loadUserSettings: false,
+        dryRun: true,
+      })
+
+      expect(result.config.permission).toEqual({ bash: { "*": "ask", "npm test": "allow" } })
+      expect(result.warnings).toContainEqual({
+        source: "permissions",
+        message: 'deny rule "Read(./.env)" not converted: OpenCode has no permission for Read',
+      })
+    })
+  })
+})
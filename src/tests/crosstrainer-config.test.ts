@@ -0,0 +1,219 @@
+/**
+ * Unit tests for crosstrainer config helpers
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { join } from "path"
+import { writeFile } from "fs/promises"
+
+import {
+  explainAssetFilter,
+  getAssetSubPath,
+  loadCrosstrainerConfig,
+  matchesFilterPattern,
+  shouldIncludeAsset,
+  validateCrosstrainerConfig,
+} from "../loaders/crosstrainer-config"
+import { suggestName } from "../utils/schema"
+import { createTestDirectory, type TestDirectory } from "./utils"
+
+describe("Crosstrainer Config", () => {
+  describe("matchesFilterPattern", () => {
+    it("should match names exactly", () => {
+      expect(matchesFilterPattern("review", "review")).toBe(true)
+      expect(matchesFilterPattern("review", "review-pr")).toBe(false)
+    })
+
+    it("should match globs within a path segment", () => {
+      expect(matchesFilterPattern("review-*", "review-pr")).toBe(true)
+      expect(matchesFilterPattern("*-experimental", "deploy-experimental")).toBe(true)
+      expect(matchesFilterPattern("frontend/*", "frontend/ui/lint")).toBe(false)
+      expect(matchesFilterPattern("lint?", "lint2")).toBe(true)
+      expect(matchesFilterPattern("a.b", "axb")).toBe(false)
+    })
+
+    it("should match ** across path segments", () => {
+      expect(matchesFilterPattern("frontend/**", "frontend/ui/lint")).toBe(true)
+      expect(matchesFilterPattern("**/lint", "lint")).toBe(true)
+      expect(matchesFilterPattern("**/lint", "frontend/ui/lint")).toBe(true)
+    })
+
+    it("should match /regex/ patterns with flags", () => {
+      expect(matchesFilterPattern("/^review-(pr|diff)$/", "review-pr")).toBe(true)
+      expect(matchesFilterPattern("/^REVIEW/i", "review-pr")).toBe(true)
+      expect(matchesFilterPattern("/^review$/", "review-pr")).toBe(false)
+    })
+
+    it("should reject invalid regular expressions", () => {
+      expect(() => matchesFilterPattern("/(/", "x")).toThrow("Invalid filter pattern /(/")
+    })
+  })
+
+  describe("getAssetSubPath", () => {
+    it("should return the path below the asset directory", () => {
+      expect(getAssetSubPath("/p/.claude/commands/frontend/lint.md")).toBe("frontend/lint")
+      expect(getAssetSubPath("/p/.claude/agents/reviewer.md")).toBe("reviewer")
+      expect(getAssetSubPath("/p/.claude/skills/tools/pdf/SKILL.md")).toBe("tools/pdf")
+      expect(getAssetSubPath("/p/.mcp.json")).toBeUndefined()
+    })
+  })
+
+  describe("explainAssetFilter", () => {
+    it("should apply exclude after include", () => {
+      const filter = { include: ["review-*"], exclude: ["*-experimental"] }
+
+      expect(explainAssetFilter({ name: "review-pr" }, filter)).toEqual({
+        included: true,
+        reason: 'matches include "review-*"',
+      })
+      expect(explainAssetFilter({ name: "review-experimental" }, filter)).toEqual({
+        included: false,
+        reason: 'matches exclude "*-experimental"',
+      })
+      expect(explainAssetFilter({ name: "deploy" }, filter)).toEqual({
+        included: false,
+        reason: "matches no include pattern (review-*)",
+      })
+    })
+
+    it("should match patterns against the sub-path", () => {
+      const filter = { include: ["frontend/**"] }
+
+      expect(explainAssetFilter({ name: "lint", path: "frontend/ui/lint" }, filter).included).toBe(true)
+      expect(explainAssetFilter({ name: "lint", path: "backend/lint" }, filter).included).toBe(false)
+    })
+
+    it("should filter by asset fields", () => {
+      const filter = { where: { model: "haiku", tools: ["Read", "Grep"] } }
+
+      expect(explainAssetFilter({ name: "a", fields: { model: "haiku", tools: ["Bash", "Grep"] } }, filter)).toEqual({
+        included: true,
+        reason: 'model matches "haiku", tools matches "Read" or "Grep"',
+      })
+      expect(explainAssetFilter({ name: "b", fields: { model: "sonnet" } }, filter)).toEqual({
+        included: false,
+        reason: 'model is "sonnet", not "haiku"',
+      })
+      expect(explainAssetFilter({ name: "c", fields: {} }, filter)).toEqual({
+        included: false,
+        reason: "model is not set",
+      })
+    })
+  })
+
+  describe("validateCrosstrainerConfig", () => {
+    it("should accept a valid config", () => {
+      expect(validateCrosstrainerConfig({
+        $schema: "./node_modules/@fwdslsh/crosstrain/src/schemas/crosstrainer.schema.json",
+        prefix: "x_",
+        permissions: { modes: { plan: { edit: "ask" } }, rules: { deny: { "Bash(rm:*)": "rm *" } } },
+        agents: { include: ["review-*"], where: { model: ["haiku", "sonnet"] }, defaultModel: "sonnet" },
+        mcp: { enableByDefault: false },
+        metadata: { anything: [1, { nested: true }] },
+      })).toEqual([])
+    })
+
+    it("should report unknown keys with the closest known key", () => {
+      expect(validateCrosstrainerConfig({ agents: { defaultModle: "sonnet" }, comands: {}, zzz: 1 })).toEqual([
+        { path: "agents.defaultModle", kind: "unknown-key", message: 'unknown key (did you mean "defaultModel"?)' },
+        { path: "comands", kind: "unknown-key", message: 'unknown key (did you mean "commands"?)' },
+        { path: "zzz", kind: "unknown-key", message: "unknown key" },
+      ])
+    })
+
+    it("should report type errors by path", () => {
+      expect(validateCrosstrainerConfig({
+        agents: { include: ["a", 2] },
+        commands: { where: { model: 3 } },
+        permissions: { modes: { plan: { edit: "maybe" } } },
+        models: "sonnet",
+      })).toEqual([
+        { path: "agents.include[1]", kind: "invalid-type", message: "expected string, got integer" },
+        { path: "commands.where.model", kind: "invalid-type", message: "expected string or array, got integer" },
+        { path: "permissions.modes.plan.edit", kind: "invalid-type", message: 'expected one of "ask", "allow", "deny", got "maybe"' },
+        { path: "models", kind: "invalid-type", message: "expected object, got string" },
+      ])
+    })
+
+    it("should allow hook functions only in JS configs", () => {
+      const config = { transformAgent: () => null }
+
+      expect(validateCrosstrainerConfig(config, "js")).toEqual([])
+      expect(validateCrosstrainerConfig({ transformAgnet: () => null }, "js")[0].message).toBe(
+        'unknown key (did you mean "transformAgent"?)'
+      )
+      expect(validateCrosstrainerConfig(config, "json")[0].kind).toBe("unknown-key")
+    })
+  })
+
+  describe("suggestName", () => {
+    it("should only suggest close names", () => {
+      expect(suggestName("exlude", ["include", "exclude"])).toBe("exclude")
+      expect(suggestName("models", ["mcp", "metadata"])).toBeUndefined()
+    })
+  })
+
+  describe("loadCrosstrainerConfig", () => {
+    let testDir: TestDirectory
+
+    beforeEach(async () => {
+      testDir = await createTestDirectory("crosstrainer-config")
+    })
+
+    afterEach(async () => {
+      await testDir.cleanup()
+    })
+
+    it("should parse JSONC comments without touching URLs in strings", async () => {
+      await writeFile(join(testDir.root, "crosstrainer.jsonc"), `{
+  // Model overrides
+  "models": { "sonnet": "https://models.example.com/sonnet" }, /* trailing */
+  "agents": { "exclude": ["draft",], },
+}`)
+
+      const loaded = await loadCrosstrainerConfig(testDir.root)
+
+      expect(loaded!.config.models).toEqual({ sonnet: "https://models.example.com/sonnet" })
+      expect(loaded!.config.agents).toEqual({ exclude: ["draft"] })
+      expect(loaded!.warnings).toEqual([])
+    })
+
+    it("should return unknown keys as warnings", async () => {
+      await writeFile(join(testDir.root, "crosstrainer.json"), `{\n  "agents": {\n    "defaultModle": "sonnet"\n  }\n}`)
+
+      const loaded = await loadCrosstrainerConfig(testDir.root)
+
+      expect(loaded!.warnings).toEqual([
+        'agents.defaultModle: unknown key (did you mean "defaultModel"?) (line 3, column 5)',
+      ])
+    })
+
+    it("should fail on values of the wrong type", async () => {
+      await writeFile(join(testDir.root, "crosstrainer.json"), `{\n  "mcp": { "enableByDefault": "yes" }\n}`)
+
+      await expect(loadCrosstrainerConfig(testDir.root)).rejects.toThrow(
+        "Invalid crosstrainer.json: mcp.enableByDefault: expected boolean, got string (line 2, column 12)"
+      )
+    })
+  })
+
+  describe("crosstrainer.schema.json", () => {
+    it("should match the crosstrainer config types", () => {
+      const result = Bun.spawnSync(["bun", "run", join(import.meta.dir, "..", "..", "scripts", "generate-schema.ts"), "--check"])
+
+      expect(result.stderr.toString()).toBe("")
+      expect(result.exitCode).toBe(0)
+    })
+  })
+
+  describe("shouldIncludeAsset", () => {
+    it("should include everything without a filter", () => {
+      expect(shouldIncludeAsset("anything")).toBe(true)
+    })
+
+    it("should keep exact names working", () => {
+      expect(shouldIncludeAsset("draft", { exclude: ["draft"] })).toBe(false)
+      expect(shouldIncludeAsset("review", { include: ["review"] })).toBe(true)
+    })
+  })
+})
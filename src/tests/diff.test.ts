@@ -0,0 +1,65 @@
+/**
+ * Unit tests for unified diffs
+ */
+
+import { describe, expect, it } from "bun:test"
+
+import { colorizeDiff, createUnifiedDiff } from "../utils/diff"
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}\n`).join("")
+
+describe("createUnifiedDiff", () => {
+  it("should return an empty string for identical content", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n", { path: "x.md" })).toBe("")
+  })
+
+  it("should diff a changed line with context", () => {
+    const patch = createUnifiedDiff(lines(10), lines(10).replace("line 5\n", "line five\n"), {
+      path: ".opencode/agent/claude_a.md",
+    })
+
+    expect(patch).toBe(
+      [
+        "--- a/.opencode/agent/claude_a.md",
+        "+++ b/.opencode/agent/claude_a.md",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+        "",
+      ].join("\n")
+    )
+  })
+
+  it("should diff a new file against /dev/null", () => {
+    expect(createUnifiedDiff(null, "a\nb\n", { path: "new.md" })).toBe(
+      ["--- /dev/null", "+++ b/new.md", "@@ -0,0 +1,2 @@", "+a", "+b", ""].join("\n")
+    )
+  })
+
+  it("should split distant changes into separate hunks", () => {
+    const updated = lines(30).replace("line 2\n", "").replace("line 28\n", "line 28\nadded\n")
+    const patch = createUnifiedDiff(lines(30), updated, { path: "x.md" })
+
+    expect(patch.match(/^@@.*@@$/gm)).toEqual(["@@ -1,5 +1,4 @@", "@@ -26,5 +25,6 @@"])
+  })
+
+  it("should mark a missing final newline", () => {
+    const patch = createUnifiedDiff("a\n", "a\nb", { path: "x.md" })
+    expect(patch).toContain("+b\n\\ No newline at end of file\n")
+  })
+})
+
+describe("colorizeDiff", () => {
+  it("should colour removed and added lines", () => {
+    const colored = colorizeDiff("@@ -1 +1 @@\n-old\n+new\n same")
+    expect(colored).toContain("\x1b[31m-old\x1b[0m")
+    expect(colored).toContain("\x1b[32m+new\x1b[0m")
+    expect(colored).toContain("\n same")
+  })
+})
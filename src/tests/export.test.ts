@@ -0,0 +1,255 @@
+/**
+ * Unit tests for the OpenCode → Claude Code export
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { join } from "path"
+import { existsSync } from "fs"
+import { mkdir, readFile, writeFile } from "fs/promises"
+
+import {
+  convertOpenCodeAgentFrontmatter,
+  convertOpenCodeCommandFrontmatter,
+  convertOpenCodeMCPServer,
+  convertOpenCodeModel,
+  exportOpenCodeToClaude,
+} from "../loaders/export"
+import { convertAgentFrontmatter } from "../loaders/agents"
+import { convertMCPServer } from "../loaders/mcp"
+import { convertProject } from "../loaders/convert"
+import { parseMarkdownWithFrontmatter } from "../utils/parser"
+import { createTestDirectory, type TestDirectory } from "./utils"
+
+describe("Export", () => {
+  describe("convertOpenCodeModel", () => {
+    it("should map model paths back to aliases", () => {
+      expect(convertOpenCodeModel("anthropic/claude-opus-4-20250514", true)).toEqual({ model: "opus" })
+    })
+
+    it("should reduce other Anthropic models to an alias for agents", () => {
+      const result = convertOpenCodeModel("anthropic/claude-3-5-haiku-20241022", true)
+      expect(result.model).toBe("haiku")
+      expect(result.warning).toContain("reduced")
+    })
+
+    it("should keep the model id for commands", () => {
+      expect(convertOpenCodeModel("anthropic/claude-3-5-haiku-20241022", false)).toEqual({
+        model: "claude-3-5-haiku-20241022",
+      })
+    })
+
+    it("should report non-Anthropic models", () => {
+      const result = convertOpenCodeModel("openai/gpt-4o", true)
+      expect(result.model).toBeUndefined()
+      expect(result.warning).toContain("not an Anthropic model")
+    })
+  })
+
+  describe("convertOpenCodeAgentFrontmatter", () => {
+    it("should invert convertAgentFrontmatter", () => {
+      const openCode = convertAgentFrontmatter({
+        name: "reviewer",
+        description: "Reviews code",
+        tools: ["Read", "Grep", "Glob"],
+        model: "sonnet",
+        permissionMode: "plan",
+        systemPrompt: "",
+        filePath: "",
+      })
+
+      const { frontmatter, warnings } = convertOpenCodeAgentFrontmatter("reviewer", openCode)
+
+      expect(frontmatter).toEqual({
+        name: "reviewer",
+        description: "Reviews code",
+        model: "sonnet",
+        tools: "Read, Grep, Glob",
+        permissionMode: "plan",
+      })
+      expect(warnings).toEqual([])
+    })
+
+    it("should omit tools when nothing is disabled", () => {
+      const { frontmatter } = convertOpenCodeAgentFrontmatter("a", {
+        description: "A",
+        tools: { read: true, bash: true },
+      })
+      expect(frontmatter.tools).toBeUndefined()
+    })
+
+    it("should report fields without a Claude Code equivalent", () => {
+      const { frontmatter, warnings } = convertOpenCodeAgentFrontmatter("a", {
+        description: "A",
+        mode: "primary",
+        temperature: 0.2,
+        tools: { codesearch: false },
+        permission: { webfetch: "deny" },
+      })
+
+      expect(frontmatter.permissionMode).toBeUndefined()
+      expect(warnings).toHaveLength(4)
+      expect(warnings.join("\n")).toContain("codesearch")
+      expect(warnings.join("\n")).toContain("permissionMode")
+    })
+  })
+
+  describe("convertOpenCodeCommandFrontmatter", () => {
+    it("should report agents other than build and subtasks", () => {
+      const { frontmatter, warnings } = convertOpenCodeCommandFrontmatter({
+        description: "Plan it",
+        agent: "plan",
+        subtask: true,
+      })
+      expect(frontmatter).toEqual({ description: "Plan it" })
+      expect(warnings).toHaveLength(2)
+    })
+
+    it("should not report the default build agent", () => {
+      expect(convertOpenCodeCommandFrontmatter({ agent: "build" }).warnings).toEqual([])
+    })
+  })
+
+  describe("convertOpenCodeMCPServer", () => {
+    it("should invert convertMCPServer", () => {
+      const claude = { command: "npx", args: ["-y", "server"], env: { TOKEN: "x" } }
+      const { server, warnings } = convertOpenCodeMCPServer(convertMCPServer(claude))
+      expect(server).toEqual(claude)
+      expect(warnings).toEqual([])
+    })
+
+    it("should report remote servers as unrepresentable", () => {
+      const { server, warnings } = convertOpenCodeMCPServer({ type: "remote", url: "https://mcp.example.com" })
+      expect(server).toBeNull()
+      expect(warnings[0]).toContain("remote")
+    })
+  })
+
+  describe("exportOpenCodeToClaude", () => {
+    let testDir: TestDirectory
+
+    beforeEach(async () => {
+      testDir = await createTestDirectory("export")
+      await mkdir(join(testDir.openCodeDir, "agent"), { recursive: true })
+      await mkdir(join(testDir.openCodeDir, "command"), { recursive: true })
+    })
+
+    afterEach(async () => {
+      await testDir.cleanup()
+    })
+
+    it("should write agents, commands and .mcp.json", async () => {
+      await writeFile(
+        join(testDir.openCodeDir, "agent", "docs.md"),
+        "---\ndescription: Writes docs\nmodel: anthropic/claude-haiku-4-20250514\n---\n\nWrite docs.\n"
+      )
+      await writeFile(
+        join(testDir.openCodeDir, "command", "release.md"),
+        "---\ndescription: Cut a release\n---\n\nRelease $ARGUMENTS\n"
+      )
+      await writeFile(
+        join(testDir.root, "opencode.json"),
+        JSON.stringify({ mcp: { fs: { type: "local", command: ["mcp-fs", "/tmp"] } } })
+      )
+
+      const result = await exportOpenCodeToClaude({
+        openCodeDir: testDir.openCodeDir,
+        claudeDir: testDir.claudeDir,
+      })
+
+      expect(result.agents).toEqual(["docs"])
+      expect(result.commands).toEqual(["release"])
+      expect(result.mcpServers).toEqual(["fs"])
+
+      const agent = parseMarkdownWithFrontmatter(
+        await readFile(join(testDir.claudeDir, "agents", "docs.md"), "utf-8")
+      )
+      expect(agent.frontmatter).toEqual({ name: "docs", description: "Writes docs", model: "haiku" })
+      expect(agent.content).toContain("Write docs.")
+
+      const command = await readFile(join(testDir.claudeDir, "commands", "release.md"), "utf-8")
+      expect(command).toContain("Release $ARGUMENTS")
+
+      const mcp = JSON.parse(await readFile(join(testDir.root, ".mcp.json"), "utf-8"))
+      expect(mcp.mcpServers.fs).toEqual({ command: "mcp-fs", args: ["/tmp"] })
+    })
+
+    it("should skip assets crosstrain converted from Claude Code", async () => {
+      await writeFile(
+        join(testDir.openCodeDir, "command", "claude_review.md"),
+        "---\ndescription: Review\n---\n\nReview\n\n---\n*[Loaded from Claude Code: /x/review.md]*"
+      )
+      await writeFile(
+        join(testDir.root, "opencode.json"),
+        JSON.stringify({ mcp: { claude_github: { type: "local", command: ["gh-mcp"] } } })
+      )
+
+      const result = await exportOpenCodeToClaude({
+        openCodeDir: testDir.openCodeDir,
+        claudeDir: testDir.claudeDir,
+      })
+
+      expect(result.commands).toEqual([])
+      expect(result.mcpServers).toEqual([])
+      expect(result.skipped).toHaveLength(2)
+      expect(existsSync(join(testDir.root, ".mcp.json"))).toBe(false)
+    })
+
+    it("should not export the agents generated for command allowed-tools", async () => {
+      await testDir.createCommand("commit", { description: "Commit", allowedTools: "Bash(git:*), Edit", template: "Commit" })
+      const convert = () => convertProject({ claudeDir: testDir.claudeDir, outputDir: testDir.openCodeDir, homeDir: "" })
+      await convert()
+      expect(existsSync(join(testDir.openCodeDir, "agent", "claude_commit_tools.md"))).toBe(true)
+
+      const result = await exportOpenCodeToClaude({
+        openCodeDir: testDir.openCodeDir,
+        claudeDir: testDir.claudeDir,
+      })
+
+      expect(result.agents).toEqual([])
+      expect(result.commands).toEqual([])
+      expect(existsSync(join(testDir.claudeDir, "agents"))).toBe(false)
+      expect((await convert()).found.agent).toBe(0)
+    })
+
+    it("should not overwrite hand-written Claude Code assets", async () => {
+      await writeFile(join(testDir.openCodeDir, "agent", "helper.md"), "---\ndescription: New\n---\n\nNew\n")
+      await testDir.createAgent("helper", { description: "Original", systemPrompt: "Original" })
+
+      const result = await exportOpenCodeToClaude({
+        openCodeDir: testDir.openCodeDir,
+        claudeDir: testDir.claudeDir,
+      })
+
+      expect(result.agents).toEqual([])
+      expect(result.skipped[0].reason).toContain("not exported by crosstrain")
+      const content = await readFile(join(testDir.claudeDir, "agents", "helper.md"), "utf-8")
+      expect(content).toContain("Original")
+    })
+
+    it("should overwrite its own previous export", async () => {
+      const source = join(testDir.openCodeDir, "agent", "helper.md")
+      await writeFile(source, "---\ndescription: First\n---\n\nFirst\n")
+      await exportOpenCodeToClaude({ openCodeDir: testDir.openCodeDir, claudeDir: testDir.claudeDir })
+
+      await writeFile(source, "---\ndescription: Second\n---\n\nSecond\n")
+      const result = await exportOpenCodeToClaude({ openCodeDir: testDir.openCodeDir, claudeDir: testDir.claudeDir })
+
+      expect(result.agents).toEqual(["helper"])
+      const content = await readFile(join(testDir.claudeDir, "agents", "helper.md"), "utf-8")
+      expect(content).toContain("Second")
+    })
+
+    it("should not write files in dry-run mode", async () => {
+      await writeFile(join(testDir.openCodeDir, "agent", "a.md"), "---\ndescription: A\n---\n\nA\n")
+
+      const result = await exportOpenCodeToClaude({
+        openCodeDir: testDir.openCodeDir,
+        claudeDir: testDir.claudeDir,
+        dryRun: true,
+      })
+
+      expect(result.outputs).toEqual([join(testDir.claudeDir, "agents", "a.md")])
+      expect(existsSync(join(testDir.claudeDir, "agents", "a.md"))).toBe(false)
+    })
+  })
+})
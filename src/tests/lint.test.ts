@@ -0,0 +1,259 @@
+/**
+ * Unit tests for asset linting and positioned diagnostics
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { join } from "path"
+import { mkdir, writeFile } from "fs/promises"
+
+import { lintClaudeAssets } from "../loaders/lint"
+import { discoverAgents } from "../loaders/agents"
+import { formatDiagnostic, type Diagnostic } from "../utils/diagnostics"
+import { parseJsonWithPositions, JsonParseError } from "../utils/json"
+import {
+  createTestDirectory,
+  createMockHomeDir,
+  type TestDirectory,
+} from "./utils"
+
+describe("Lint", () => {
+  let testDir: TestDirectory
+  let mockHome: { path: string; cleanup: () => Promise<void> }
+
+  beforeEach(async () => {
+    testDir = await createTestDirectory("lint")
+    mockHome = await createMockHomeDir()
+  })
+
+  afterEach(async () => {
+    await testDir.cleanup()
+    await mockHome.cleanup()
+  })
+
+  const find = (diagnostics: Diagnostic[], code: string) =>
+    diagnostics.filter((d) => d.code === code)
+
+  describe("lintClaudeAssets", () => {
+    it("should report no problems for valid assets", async () => {
+      await testDir.createAgent("reviewer", {
+        description: "Reviews code",
+        tools: ["Read", "Grep", "Bash(git diff:*)", "mcp__github__get_issue"],
+        permissionMode: "plan",
+        systemPrompt: "Review",
+      })
+      await testDir.createCommand("test", { description: "Run tests", template: "bun test" })
+      await testDir.createSkill("pdf", { description: "PDF", allowedTools: ["Read"], instructions: "x" })
+
+      const result = await lintClaudeAssets(testDir.root, mockHome.path)
+
+      expect(result.diagnostics).toEqual([])
+      expect(result.errorCount).toBe(0)
+    })
+
+    it("should report commands whose names collide", async () => {
+      await mkdir(join(testDir.claudeDir, "commands", "db"), { recursive: true })
+      const nested = join(testDir.claudeDir, "commands", "db", "migrate.md")
+      await writeFile(nested, "---\ndescription: Migrate\n---\n\nMigrate")
+      await testDir.createCommand("db_migrate", { description: "Migrate", template: "Migrate" })
+
+      const result = await lintClaudeAssets(testDir.root, mockHome.path)
+
+      expect(find(result.diagnostics, "name-collision")).toEqual([
+        expect.objectContaining({ file: nested, severity: "warning" }),
+      ])
+    })
+
+    it("should position unknown tools at the list item", async () => {
+      const file = await testDir.createAgent("a", {
+        description: "A",
+        tools: ["Read", "Bashh"],
+        systemPrompt: "x",
+      })
+
+      const result = await lintClaudeAssets(testDir.root, mockHome.path)
+      const [diagnostic] = find(result.diagnostics, "unknown-tool")
+
+      expect(diagnostic.file).toBe(file)
+      expect(diagnostic.severity).toBe("warning")
+      expect(diagnostic.line).toBe(4)
+      expect(diagnostic.column).toBe(14)
+    })
+
+    it("should report missing descriptions, unknown keys and invalid permission modes", async () => {
+      await mkdir(join(testDir.claudeDir, "agents"), { recursive: true })
+      await writeFile(
+        join(testDir.claudeDir, "agents", "bad.md"),
+        "---\nname: bad\npermissionMode: sometimes\ncolour: red\n---\nbody\n"
+      )
+
+      const result = await lintClaudeAssets(testDir.root, mockHome.path)
+
+      expect(find(result.diagnostics, "missing-description")[0].severity).toBe("error")
+      expect(find(result.diagnostics, "invalid-value")[0].line).toBe(3)
+      expect(find(result.diagnostics, "unknown-key")[0]).toMatchObject({ line: 4, column: 1 })
+      expect(result.errorCount).toBe(2)
+      expect(result.warningCount).toBe(1)
+    })
+
+    it("should report malformed frontmatter with the file line", async () => {
+      await mkdir(join(testDir.claudeDir, "commands"), { recursive: true })
+      await writeFile(
+        join(testDir.claudeDir, "commands", "broken.md"),
+        "---\ndescription: ok\nallowed-tools: [Read\n---\nx\n"
+      )
+
+      const result = await lintClaudeAssets(testDir.root, mockHome.path)
+      const [diagnostic] = find(result.diagnostics, "malformed-frontmatter")
+
+      expect(diagnostic.severity).toBe("error")
+      expect(diagnostic.line).toBeGreaterThanOrEqual(3)
+    })
+
+    it("should report JSON syntax errors and invalid MCP servers", async () => {
+      await writeFile(join(testDir.claudeDir, "settings.json"), '{\n  "hooks": {\n    "PreToolUse": [,]\n  }\n}\n')
+      await writeFile(
+        join(testDir.root, ".mcp.json"),
+        JSON.stringify({ mcpServers: { broken: { args: "x" } } }, null, 2)
+      )
+
+      const result = await lintClaudeAssets(testDir.root, mockHome.path)
+
+      expect(find(result.diagnostics, "json-syntax")[0]).toMatchObject({ line: 3, column: 20 })
+      expect(find(result.diagnostics, "invalid-mcp-server").map((d) => d.line)).toEqual([3, 4])
+    })
+
+    it("should report unknown hook events and non-command hooks", async () => {
+      await testDir.createSettings({
+        PreTool: [],
+        Stop: [{ hooks: [{ type: "prompt", prompt: "x" }] }],
+      })
+
+      const result = await lintClaudeAssets(testDir.root, mockHome.path)
+
+      expect(find(result.diagnostics, "unknown-hook-event")).toHaveLength(1)
+      expect(find(result.diagnostics, "unsupported-hook-type")).toHaveLength(1)
+      expect(result.errorCount).toBe(0)
+    })
+
+    it("should report crosstrainer.json keys and values the schema rejects", async () => {
+      await writeFile(
+        join(testDir.root, "crosstrainer.json"),
+        '{\n  "agents": {\n    "defaultModle": "sonnet",\n    "include": "reviewer"\n  }\n}\n'
+      )
+
+      const result = await lintClaudeAssets(testDir.root, mockHome.path)
+
+      expect(find(result.diagnostics, "unknown-key")).toContainEqual(expect.objectContaining({
+        line: 3,
+        column: 5,
+        message: 'agents.defaultModle: unknown key (did you mean "defaultModel"?)',
+      }))
+      expect(find(result.diagnostics, "invalid-config")[0]).toMatchObject({
+        line: 4,
+        severity: "error",
+        message: "agents.include: expected array, got string",
+      })
+    })
+
+    it("should lint a plugin layout without a .claude directory", async () => {
+      const pluginRoot = join(testDir.root, "my-plugin")
+      await mkdir(join(pluginRoot, "commands"), { recursive: true })
+      await writeFile(join(pluginRoot, "commands", "c.md"), "---\nallowed-tools: Nope\n---\nx\n")
+
+      const result = await lintClaudeAssets(pluginRoot, "")
+
+      expect(find(result.diagnostics, "missing-description")[0].severity).toBe("warning")
+      expect(find(result.diagnostics, "unknown-tool")).toHaveLength(1)
+    })
+  })
+
+  describe("loaders in validation mode", () => {
+    it("should collect problems instead of logging them", async () => {
+      await mkdir(join(testDir.claudeDir, "agents"), { recursive: true })
+      await writeFile(join(testDir.claudeDir, "agents", "x.md"), "---\nname: x\n")
+      const diagnostics: Diagnostic[] = []
+
+      const agents = await discoverAgents(testDir.claudeDir, mockHome.path, { diagnostics })
+
+      expect(agents).toHaveLength(1)
+      expect(diagnostics[0].message).toContain("not closed")
+    })
+
+    it("should name the bracket trigger for values quoted after a leading [...]", async () => {
+      await mkdir(join(testDir.claudeDir, "agents"), { recursive: true })
+      await writeFile(join(testDir.claudeDir, "agents", "x.md"), "---\nname: x\ndescription: [beta] Reviews code\n---\nbody\n")
+      const diagnostics: Diagnostic[] = []
+
+      const [agent] = await discoverAgents(testDir.claudeDir, mockHome.path, { diagnostics })
+
+      expect(agent.description).toBe("[beta] Reviews code")
+      expect(diagnostics).toEqual([expect.objectContaining({ line: 3 })])
+      expect(diagnostics[0].message).toContain("flow sequence or mapping")
+      expect(diagnostics[0].message).not.toContain(" #")
+    })
+  })
+
+  describe("formatDiagnostic", () => {
+    it("should format as file:line:column severity message [code]", () => {
+      const text = formatDiagnostic(
+        {
+          file: "/p/.claude/agents/a.md",
+          line: 3,
+          column: 14,
+          severity: "warning",
+          code: "unknown-tool",
+          message: "Unknown tool",
+        },
+        "/p"
+      )
+      expect(text).toBe(".claude/agents/a.md:3:14 warning Unknown tool [unknown-tool]")
+    })
+  })
+
+  describe("parseJsonWithPositions", () => {
+    it("should record member positions by path", () => {
+      const { value, positions } = parseJsonWithPositions<any>('{\n  "a": {\n    "b": [1, 2]\n  }\n}')
+      expect(value.a.b).toEqual([1, 2])
+      expect(positions["a.b"]).toEqual({ line: 3, column: 5 })
+      expect(positions["a.b[1]"]).toEqual({ line: 3, column: 14 })
+    })
+
+    it("should accept comments and trailing commas in JSONC", () => {
+      const text = '{\n  // comment\n  "url": "https://example.com", /* note */\n  "list": [1, 2,],\n}'
+
+      expect(parseJsonWithPositions(text, { jsonc: true }).value).toEqual({ url: "https://example.com", list: [1, 2] })
+      expect(() => parseJsonWithPositions(text)).toThrow(JsonParseError)
+    })
+
+    it("should throw JsonParseError with line and column", () => {
+      try {
+        parseJsonWithPositions('{\n  "a": 1,\n}')
+        throw new Error("expected failure")
+      } catch (error) {
+        expect(error).toBeInstanceOf(JsonParseError)
+        expect((error as JsonParseError).line).toBe(3)
+        expect((error as JsonParseError).column).toBe(1)
+      }
+    })
+
+    it("should keep a __proto__ key as an own property", () => {
+      const { value } = parseJsonWithPositions<Record<string, unknown>>('{"__proto__": {"polluted": true}}')
+
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype)
+      expect(Object.keys(value)).toEqual(["__proto__"])
+      expect(value).toEqual(JSON.parse('{"__proto__": {"polluted": true}}'))
+    })
+
+    it("should reject raw control characters in strings", () => {
+      expect(() => parseJsonWithPositions('{"a": "tab\there"}')).toThrow("Unescaped control character")
+      expect(parseJsonWithPositions<any>('{"a": "tab\\there"}').value.a).toBe("tab\there")
+    })
+
+    it("should report positions after earlier ones on later lines", () => {
+      const { positions } = parseJsonWithPositions('{\n"a": 1,\n"b": [\n  2\n]\n}')
+
+      expect(positions.a).toEqual({ line: 2, column: 1 })
+      expect(positions["b[0]"]).toEqual({ line: 4, column: 3 })
+    })
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for the conversion lockfile
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { join } from "path"
+import { writeFile, mkdir } from "fs/promises"
+
+import {
+  createConversionTracker,
+  createEmptyLockfile,
+  formatConversionSummary,
+  getLockfilePath,
+  hashContent,
+  hashOutput,
+  loadLockfile,
+  writeLockfile,
+  type Lockfile,
+} from "../utils/lockfile"
+import { createTestDirectory, type TestDirectory } from "./utils"
+
+describe("Lockfile", () => {
+  let testDir: TestDirectory
+
+  beforeEach(async () => {
+    testDir = await createTestDirectory("lockfile")
+  })
+
+  afterEach(async () => {
+    await testDir.cleanup()
+  })
+
+  const trackerFor = (lockfile: Lockfile, options: Record<string, unknown> = { prefix: "claude_" }) =>
+    createConversionTracker(lockfile, {
+      origin: "project",
+      sourceRoot: testDir.root,
+      projectRoot: testDir.root,
+      crosstrainVersion: "1.0.0",
+      options,
+    })
+
+  /** Convert one asset and record it, as the CLI does */
+  const convert = async (lockfile: Lockfile, source: string, output: string) => {
+    const tracker = trackerFor(lockfile)
+    const id = tracker.sourceId(source)
+    await writeFile(output, "generated")
+    await tracker.record(id, { kind: "agent", hash: hashContent("source"), outputs: [output] })
+    tracker.finish()
+    return id
+  }
+
+  describe("loadLockfile / writeLockfile", () => {
+    it("should return an empty lockfile when none exists", async () => {
+      expect(await loadLockfile(testDir.openCodeDir)).toEqual(createEmptyLockfile())
+    })
+
+    it("should round-trip entries", async () => {
+      const lockfile = createEmptyLockfile()
+      await convert(lockfile, join(testDir.claudeDir, "agents", "a.md"), join(testDir.openCodeDir, "a.md"))
+      await writeLockfile(testDir.openCodeDir, lockfile)
+
+      const loaded = await loadLockfile(testDir.openCodeDir)
+      expect(loaded).toEqual(lockfile)
+      expect(loaded.entries["project:.claude/agents/a.md"].outputs).toEqual({
+        ".opencode/a.md": hashContent("generated"),
+      })
+    })
+
+    it("should ignore a lockfile with another format version", async () => {
+      await writeFile(getLockfilePath(testDir.openCodeDir), JSON.stringify({ lockfileVersion: 99, entries: {} }))
+      expect(await loadLockfile(testDir.openCodeDir)).toEqual(createEmptyLockfile())
+    })
+  })
+
+  describe("createConversionTracker", () => {
+    it("should report recorded assets as unchanged on the next run", async () => {
+      const lockfile = createEmptyLockfile()
+      const id = await convert(lockfile, join(testDir.claudeDir, "a.md"), join(testDir.openCodeDir, "a.md"))
+
+      const tracker = trackerFor(lockfile)
+      expect(await tracker.isUnchanged(id, hashContent("source"))).toBe(true)
+      expect(tracker.summary()).toEqual({ unchanged: 1, updated: 0, removed: 0 })
+    })
+
+    it("should detect a changed source", async () => {
+      const lockfile = createEmptyLockfile()
+      const id = await convert(lockfile, join(testDir.claudeDir, "a.md"), join(testDir.openCodeDir, "a.md"))
+
+      expect(await trackerFor(lockfile).isUnchanged(id, hashContent("edited"))).toBe(false)
+    })
+
+    it("should detect an edited or deleted output", async () => {
+      const lockfile = createEmptyLockfile()
+      const output = join(testDir.openCodeDir, "a.md")
+      const id = await convert(lockfile, join(testDir.claudeDir, "a.md"), output)
+
+      await writeFile(output, "hand edited")
+      expect(await trackerFor(lockfile).isUnchanged(id, hashContent("source"))).toBe(false)
+    })
+
+    it("should treat everything as changed when the options change", async () => {
+      const lockfile = createEmptyLockfile()
+      const id = await convert(lockfile, join(testDir.claudeDir, "a.md"), join(testDir.openCodeDir, "a.md"))
+
+      const tracker = trackerFor(lockfile, { prefix: "other_" })
+      expect(await tracker.isUnchanged(id, hashContent("source"))).toBe(false)
+    })
+
+    it("should report entries whose source was not seen as removed", async () => {
+      const lockfile = createEmptyLockfile()
+      await convert(lockfile, join(testDir.claudeDir, "a.md"), join(testDir.openCodeDir, "a.md"))
+
+      const tracker = trackerFor(lockfile)
+      expect(tracker.summary()).toEqual({ unchanged: 0, updated: 0, removed: 1 })
+      expect(tracker.removedEntries()[0][1].source).toBe(".claude/a.md")
+    })
+
+    it("should report outputs an entry no longer writes to as superseded", async () => {
+      const lockfile = createEmptyLockfile()
+      const id = await convert(lockfile, join(testDir.claudeDir, "a.md"), join(testDir.openCodeDir, "a.md"))
+
+      const tracker = trackerFor(lockfile)
+      await writeFile(join(testDir.openCodeDir, "b.md"), "generated")
+      await tracker.record(id, { kind: "agent", hash: hashContent("source"), outputs: [join(testDir.openCodeDir, "b.md")] })
+
+      expect(tracker.supersededOutputs()).toEqual({ [join(".opencode", "a.md")]: hashContent("generated") })
+      expect(Object.keys(lockfile.entries[id].outputs)).toEqual([join(".opencode", "b.md")])
+    })
+
+    it("should only consider entries of its own origin", async () => {
+      const lockfile = createEmptyLockfile()
+      await convert(lockfile, join(testDir.claudeDir, "a.md"), join(testDir.openCodeDir, "a.md"))
+
+      const pluginTracker = createConversionTracker(lockfile, {
+        origin: "plugin:review",
+        sourceRoot: testDir.root,
+        projectRoot: testDir.root,
+        crosstrainVersion: "1.0.0",
+        options: {},
+      })
+      expect(pluginTracker.removedEntries()).toEqual([])
+    })
+
+    it("should record user-level sources relative to the home directory", () => {
+      const tracker = createConversionTracker(createEmptyLockfile(), {
+        origin: "project",
+        sourceRoot: testDir.root,
+        projectRoot: testDir.root,
+        homeDir: "/home/me",
+        crosstrainVersion: "1.0.0",
+        options: {},
+      })
+      expect(tracker.sourceId("/home/me/.claude/agents/a.md")).toBe("project:~/.claude/agents/a.md")
+      expect(tracker.sourceId(join(testDir.root, ".mcp.json"), "github")).toBe("project:.mcp.json#github")
+    })
+  })
+
+  describe("hashOutput", () => {
+    it("should hash a single entry of a JSON config", async () => {
+      await writeFile(
+        join(testDir.root, "opencode.json"),
+        JSON.stringify({ mcp: { claude_github: { type: "local", command: ["gh"] } } })
+      )
+
+      expect(await hashOutput(testDir.root, "opencode.json#mcp.claude_github")).toBe(
+        hashContent(JSON.stringify({ type: "local", command: ["gh"] }))
+      )
+      expect(await hashOutput(testDir.root, "opencode.json#mcp.missing")).toBeNull()
+    })
+
+    it("should return null for missing files", async () => {
+      await mkdir(join(testDir.root, "out"), { recursive: true })
+      expect(await hashOutput(testDir.root, "out/none.md")).toBeNull()
+    })
+  })
+
+  describe("formatConversionSummary", () => {
+    it("should format counts", () => {
+      expect(formatConversionSummary({ unchanged: 3, updated: 1, removed: 2 })).toBe(
+        "3 unchanged / 1 updated / 2 removed"
+      )
+    })
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for namespaced command and agent names
+ */
+
+import { describe, expect, it } from "bun:test"
+import { join } from "path"
+
+import {
+  findAssetRoot,
+  getNamespacedName,
+  resolveNameCollisions,
+  NameCollisionError,
+  type AssetRename,
+} from "../utils/naming"
+
+describe("Naming", () => {
+  const root = join("/project", ".claude", "commands")
+
+  describe("getNamespacedName", () => {
+    it("should prefix names with their subdirectories", () => {
+      expect(getNamespacedName("test", join(root, "test.md"), root)).toBe("test")
+      expect(getNamespacedName("test", join(root, "frontend", "test.md"), root)).toBe("frontend_test")
+      expect(getNamespacedName("test", join(root, "web", "ui", "test.md"), root, ":")).toBe("web:ui:test")
+    })
+  })
+
+  describe("findAssetRoot", () => {
+    it("should find the closest commands or agents directory above a file", () => {
+      expect(findAssetRoot(join(root, "frontend", "test.md"), "commands")).toBe(root)
+      expect(findAssetRoot(join(root, "test.md"), "commands")).toBe(root)
+      expect(findAssetRoot(join(root, "test.md"), "agents")).toBeNull()
+    })
+  })
+
+  describe("resolveNameCollisions", () => {
+    const command = (name: string, ...path: string[]) => ({ name, filePath: join(root, ...path) })
+
+    it("should keep the name for the asset closest to the top and rename the others", () => {
+      const renames: AssetRename[] = []
+      const nested = command("frontend_test", "frontend", "test.md")
+      const topLevel = command("frontend_test", "frontend_test.md")
+
+      const resolved = resolveNameCollisions("command", [nested, topLevel, command("frontend_test_2", "other.md")], { renames })
+
+      expect(resolved.map((c) => c.name)).toEqual(["frontend_test_3", "frontend_test", "frontend_test_2"])
+      expect(renames).toEqual([
+        { kind: "command", from: "frontend_test", to: "frontend_test_3", filePath: nested.filePath, conflictsWith: topLevel.filePath },
+      ])
+    })
+
+    it("should leave unique names alone", () => {
+      const commands = [command("frontend_test", "frontend", "test.md"), command("backend_test", "backend", "test.md")]
+
+      expect(resolveNameCollisions("command", commands)).toEqual(commands)
+    })
+
+    it("should throw with onNameCollision: error", () => {
+      const commands = [command("a_b", "a", "b.md"), command("a_b", "a_b.md")]
+
+      expect(() => resolveNameCollisions("command", commands, { onNameCollision: "error" })).toThrow(NameCollisionError)
+      expect(() => resolveNameCollisions("command", commands, { onNameCollision: "error" })).toThrow(
+        `2 commands are named "a_b": ${join(root, "a_b.md")}, ${join(root, "a", "b.md")}`
+      )
+    })
+  })
+})
@@ -54,6 +54,103 @@ name: minimal
     expect(result.frontmatter.name).toBe("minimal")
     expect(result.content).toBe("# Content after minimal frontmatter")
   })
+
+  it("should parse block lists", () => {
+    const input = `---
+name: reviewer
+tools:
+  - Read
+  - Grep
+---
+
+Body`
+
+    const result = parseMarkdownWithFrontmatter<{ tools: string[] }>(input)
+
+    expect(result.frontmatter.tools).toEqual(["Read", "Grep"])
+  })
+
+  it("should parse literal and folded multi-line strings", () => {
+    const input = `---
+description: |
+  Use this agent for reviews.
+
+  <example>
+  user: review my code
+  </example>
+summary: >
+  Folded
+  text
+---
+
+Body`
+
+    const result = parseMarkdownWithFrontmatter<{
+      description: string
+      summary: string
+    }>(input)
+
+    expect(result.frontmatter.description).toBe(
+      "Use this agent for reviews.\n\n<example>\nuser: review my code\n</example>\n"
+    )
+    expect(result.frontmatter.summary).toBe("Folded text\n")
+  })
+
+  it("should keep colons and commas inside quoted strings", () => {
+    const input = `---
+description: "Checks: lint, types, tests"
+note: 'single: quoted, value'
+---
+`
+
+    const result = parseMarkdownWithFrontmatter<{
+      description: string
+      note: string
+    }>(input)
+
+    expect(result.frontmatter.description).toBe("Checks: lint, types, tests")
+    expect(result.frontmatter.note).toBe("single: quoted, value")
+  })
+
+  it("should resolve anchors and aliases", () => {
+    const input = `---
+base: &tools [Read, Grep]
+tools: *tools
+---
+`
+
+    const result = parseMarkdownWithFrontmatter<{ tools: string[] }>(input)
+
+    expect(result.frontmatter.tools).toEqual(["Read", "Grep"])
+  })
+
+  it("should tolerate unquoted values containing colons", () => {
+    const input = `---
+name: helper
+description: Use when: the user asks for help
+---
+
+Body`
+
+    const result = parseMarkdownWithFrontmatter<{ description: string }>(input)
+
+    expect(result.frontmatter.description).toBe("Use when: the user asks for help")
+    expect(result.content).toBe("Body")
+  })
+
+  it("should read unquoted values that continue after brackets as text", () => {
+    const input = `---
+argument-hint: [pr-number] [priority]
+allowed-tools: [Read, Grep]
+---
+
+Body`
+
+    const result = parseMarkdownWithFrontmatter<Record<string, unknown>>(input)
+
+    expect(result.frontmatter["argument-hint"]).toBe("[pr-number] [priority]")
+    expect(result.frontmatter["allowed-tools"]).toEqual(["Read", "Grep"])
+  })
 })
 
 describe("serializeMarkdownWithFrontmatter", () => {
@@ -86,6 +183,56 @@ describe("serializeMarkdownWithFrontmatter", () => {
     expect(result).not.toContain("description")
     expect(result).not.toContain("value")
   })
+
+  it("should round-trip values that need quoting or block scalars", () => {
+    const frontmatter = {
+      description: "Reviews code: style, #tags and \"quotes\"",
+      note: "@mentions and 'single' quotes",
+      glob: "*.ts",
+      multiline: "First paragraph.\n\n<example>\nuser: hi\n</example>",
+      numeric: "123",
+      boolish: "true",
+      tools: { read: true, "mcp_*": false },
+      list: ["a, b", "#c", "d: e"],
+    }
+
+    const result = serializeMarkdownWithFrontmatter(frontmatter, "Body")
+    const parsed = parseMarkdownWithFrontmatter(result)
+
+    expect(parsed.frontmatter).toEqual(frontmatter)
+    expect(parsed.content).toBe("Body")
+
+    // A |+ block scalar as the last value keeps its final line break
+    const kept = { description: "Keeps trailing lines", note: "Trailing lines\n\n" }
+    const keptResult = serializeMarkdownWithFrontmatter(kept, "Body")
+    expect(keptResult).toContain("note: |+\n")
+    expect(parseMarkdownWithFrontmatter(keptResult).frontmatter).toEqual(kept)
+  })
+
+  it("should emit keys in a stable order", () => {
+    const first = serializeMarkdownWithFrontmatter(
+      { tools: { write: false, read: true }, model: "m", description: "d", mode: "subagent" },
+      ""
+    )
+    const second = serializeMarkdownWithFrontmatter(
+      { mode: "subagent", description: "d", tools: { write: false, read: true }, model: "m" },
+      ""
+    )
+
+    expect(first).toBe(second)
+    expect(first).toBe(
+      "---\ndescription: d\nmode: subagent\nmodel: m\ntools:\n  write: false\n  read: true\n---\n\n"
+    )
+  })
+
+  it("should keep the order of nested maps", () => {
+    const result = serializeMarkdownWithFrontmatter(
+      { permission: { bash: { "*": "allow", "rm *": "deny" } } },
+      ""
+    )
+
+    expect(result).toContain('  bash:\n    "*": allow\n    rm *: deny\n')
+  })
 })
 
 describe("parseCommaSeparated", () => {
@@ -120,6 +267,13 @@ describe("parseCommaSeparated", () => {
       "Edit",
     ])
   })
+
+  it("should accept YAML lists", () => {
+    expect(parseCommaSeparated(["Read", " Write ", ""])).toEqual([
+      "Read",
+      "Write",
+    ])
+  })
 })
 
 describe("kebabToCamel", () => {
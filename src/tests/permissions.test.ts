@@ -0,0 +1,191 @@
+/**
+ * Unit tests for permission rule conversion
+ */
+
+import { describe, expect, it } from "bun:test"
+
+import {
+  convertBashSpecifier,
+  convertMCPPermissionRules,
+  convertPermissionRules,
+  matchesPattern,
+  parsePermissionRule,
+  restrictBashToTools,
+} from "../loaders/permissions"
+import { convertClaudeSettingsToOpenCode, parsePermissionRules } from "../loaders/settings-converter"
+import { createConversionOptions } from "../utils/config"
+
+describe("Permission Rules", () => {
+  describe("parsePermissionRule", () => {
+    it("should split the tool name and specifier", () => {
+      expect(parsePermissionRule("Bash(git diff:*)")).toEqual({ tool: "Bash", specifier: "git diff:*" })
+      expect(parsePermissionRule("WebFetch")).toEqual({ tool: "WebFetch" })
+    })
+  })
+
+  describe("convertBashSpecifier", () => {
+    it("should expand prefix rules to the command with and without arguments", () => {
+      expect(convertBashSpecifier("git diff:*")).toEqual(["git diff", "git diff *"])
+      expect(convertBashSpecifier("npm test")).toEqual(["npm test"])
+    })
+  })
+
+  describe("matchesPattern", () => {
+    it("should treat * as a wildcard and everything else literally", () => {
+      expect(matchesPattern("git *", "git push *")).toBe(true)
+      expect(matchesPattern("git push *", "git *")).toBe(false)
+      expect(matchesPattern("npm run test.js", "npm run testXjs")).toBe(false)
+    })
+  })
+
+  describe("convertPermissionRules", () => {
+    it("should convert bash rules to a command pattern map", () => {
+      const permission = convertPermissionRules({
+        allow: ["Bash(git diff:*)", "Bash(npm test)"],
+        deny: ["Bash(rm -rf:*)"],
+      })
+
+      expect(permission.bash).toEqual({
+        "*": "ask",
+        "git diff": "allow",
+        "git diff *": "allow",
+        "npm test": "allow",
+        "rm -rf": "deny",
+        "rm -rf *": "deny",
+      })
+    })
+
+    it("should keep a plain level when only whole-tool rules exist", () => {
+      expect(convertPermissionRules({ allow: ["Bash(*)", "Edit"] })).toEqual({ bash: "allow", edit: "allow" })
+    })
+
+    it("should apply deny over ask over allow", () => {
+      const permission = convertPermissionRules({
+        allow: ["Bash(npm test)", "Edit(*)", "Bash(git push:*)"],
+        ask: ["Bash(npm test)", "Write"],
+        deny: ["Bash(npm test)", "Bash(git:*)"],
+      })
+
+      expect(permission.edit).toBe("ask")
+      expect(permission.bash).toEqual({ "*": "ask", "npm test": "deny", git: "deny", "git *": "deny" })
+    })
+
+    it("should let rules override the default mode", () => {
+      const permission = convertPermissionRules(
+        { deny: ["Edit"], allow: ["Bash(ls)"] },
+        { edit: "allow", bash: "allow" }
+      )
+
+      expect(permission).toEqual({ edit: "deny", bash: { "*": "allow", ls: "allow" } })
+    })
+
+    it("should report rules OpenCode cannot express", () => {
+      const warnings: string[] = []
+      const permission = convertPermissionRules(
+        {
+          allow: ["Edit(src/**)", "Read(./docs/**)", "Glob"],
+          deny: ["Read(./.env)", "WebFetch(domain:example.com)"],
+        },
+        {},
+        warnings
+      )
+
+      expect(permission).toEqual({})
+      expect(warnings).toEqual([
+        `allow rule "Edit(src/**)" not converted: OpenCode's edit permission applies to all files`,
+        `deny rule "Read(./.env)" not converted: OpenCode has no permission for Read`,
+        `deny rule "WebFetch(domain:example.com)" not converted: OpenCode's webfetch permission applies to all URLs`,
+      ])
+    })
+  })
+
+  describe("restrictBashToTools", () => {
+    it("should deny every command the Bash entries do not name", () => {
+      expect(restrictBashToTools(["Read", "Bash(git diff:*)"])).toEqual({
+        bash: { "*": "deny", "git diff": "allow", "git diff *": "allow" },
+      })
+    })
+
+    it("should keep the default action and stricter patterns", () => {
+      const permission = restrictBashToTools(["Bash(git:*)"], {
+        edit: "allow",
+        bash: { "*": "ask", "git push *": "deny", "npm test": "allow" },
+      })
+
+      expect(permission).toEqual({
+        edit: "allow",
+        bash: { "*": "deny", git: "ask", "git *": "ask", "git push *": "deny" },
+      })
+      expect(Object.keys(permission.bash!)).toEqual(["*", "git", "git *", "git push *"])
+    })
+
+    it("should leave the permission alone when Bash is allowed whole or not listed", () => {
+      expect(restrictBashToTools(["Bash", "Bash(git:*)"], { bash: "ask" })).toEqual({ bash: "ask" })
+      expect(restrictBashToTools(["Read"])).toEqual({})
+    })
+  })
+
+  describe("convertMCPPermissionRules", () => {
+    it("should toggle the prefixed MCP tool names", () => {
+      const tools = convertMCPPermissionRules({
+        allow: ["mcp__filesystem__*", "Bash(ls)"],
+        deny: ["mcp__github__delete_repo"],
+      })
+
+      expect(tools).toEqual({ "claude_filesystem_*": true, claude_github_delete_repo: false })
+    })
+
+    it("should disable a whole server for a bare server rule", () => {
+      expect(convertMCPPermissionRules({ deny: ["mcp__slack"] })).toEqual({ "claude_slack_*": false })
+    })
+
+    it("should use the configured prefix", () => {
+      const tools = convertMCPPermissionRules(
+        { deny: ["mcp__github__delete_repo"] },
+        createConversionOptions({ filePrefix: "cc_" })
+      )
+
+      expect(tools).toEqual({ cc_github_delete_repo: false })
+    })
+
+    it("should drop allowed tools a deny rule covers and put disabled tools last", () => {
+      const tools = convertMCPPermissionRules({
+        allow: ["mcp__github__delete_repo", "mcp__github__get_issue"],
+        deny: ["mcp__github__delete_*"],
+      })
+
+      expect(Object.entries(tools)).toEqual([
+        ["claude_github_get_issue", true],
+        ["claude_github_delete_*", false],
+      ])
+    })
+
+    it("should report ask rules and leave the tools enabled", () => {
+      const warnings: string[] = []
+      const tools = convertMCPPermissionRules(
+        { allow: ["mcp__github__create_issue"], ask: ["mcp__github__create_issue"] },
+        createConversionOptions(),
+        warnings
+      )
+
+      expect(tools).toEqual({})
+      expect(warnings).toHaveLength(1)
+      expect(warnings[0]).toContain('ask rule "mcp__github__create_issue"')
+    })
+
+    it("should add the toggles to the converted settings", () => {
+      const config = convertClaudeSettingsToOpenCode({ permissions: { deny: ["mcp__github__delete_repo"] } })
+
+      expect(config.tools).toEqual({ claude_github_delete_repo: false })
+      expect(config.permission).toBeUndefined()
+    })
+  })
+
+  describe("parsePermissionRules", () => {
+    it("should combine the default mode with the rules", () => {
+      const permission = parsePermissionRules({ defaultMode: "acceptEdits", ask: ["Bash(git push:*)"] })
+
+      expect(permission).toEqual({ edit: "allow", bash: { "*": "ask", "git push": "ask", "git push *": "ask" } })
+    })
+  })
+})
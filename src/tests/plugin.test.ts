@@ -6,8 +6,10 @@
 
 import { describe, expect, it, beforeAll, afterAll } from "bun:test"
 import { join } from "path"
+import { existsSync } from "fs"
 
 import { CrosstrainPlugin } from "../index"
+import { getTrustStorePath } from "../utils/trust"
 import { createTestDirectory, type TestDirectory } from "./utils"
 
 describe("CrosstrainPlugin", () => {
@@ -146,6 +148,48 @@ describe("CrosstrainPlugin", () => {
       expect(result).toContain("COMMANDS")
     })
 
+    it("crosstrain should refuse agent-supplied --trust", async () => {
+      const pluginResult = await CrosstrainPlugin({
+        project: { path: testDir.root },
+        directory: testDir.root,
+        worktree: testDir.root,
+        client: null,
+        $: null,
+      })
+
+      const result = await pluginResult.tool!.crosstrain.execute(
+        { command: "plugin org/repo/plugin --trust" },
+        { agent: "test", sessionID: "test-session", messageID: "test-msg" }
+      )
+
+      expect(result).toContain("Refusing to run with --trust")
+      expect(existsSync(getTrustStorePath(testDir.openCodeDir))).toBe(false)
+    })
+
+    it("crosstrain should not let a shell turn quoted or substituted args into --trust", async () => {
+      const pluginResult = await CrosstrainPlugin({
+        project: { path: testDir.root },
+        directory: testDir.root,
+        worktree: testDir.root,
+        client: null,
+        $: null,
+      })
+
+      for (const trust of ["'--trust'", '"--tr""ust"', "$(printf${IFS}--${IFS}--trust)"]) {
+        await pluginResult.tool!.crosstrain.execute(
+          { command: `plugin ./missing-plugin ${trust}` },
+          { agent: "test", sessionID: "test-session", messageID: "test-msg" }
+        )
+        expect(existsSync(getTrustStorePath(testDir.openCodeDir))).toBe(false)
+      }
+
+      await pluginResult.tool!.crosstrain.execute(
+        { command: "all --dry-run --no-user --prefix $(touch${IFS}injected)" },
+        { agent: "test", sessionID: "test-session", messageID: "test-msg" }
+      )
+      expect(existsSync(join(testDir.root, "injected"))).toBe(false)
+    })
+
     it("crosstrain_show_hooks should display hooks info", async () => {
       const pluginResult = await CrosstrainPlugin({
         project: { path: testDir.root },
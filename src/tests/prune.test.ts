@@ -0,0 +1,159 @@
+/**
+ * Unit tests for pruning orphaned outputs
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { join } from "path"
+import { existsSync } from "fs"
+import { mkdir, readFile, writeFile } from "fs/promises"
+
+import {
+  createConversionTracker,
+  createEmptyLockfile,
+  hashContent,
+  type Lockfile,
+} from "../utils/lockfile"
+import { findOrphanedEntries, pruneEntries } from "../utils/prune"
+import { createTestDirectory, type TestDirectory } from "./utils"
+
+describe("Prune", () => {
+  let testDir: TestDirectory
+  let lockfile: Lockfile
+
+  beforeEach(async () => {
+    testDir = await createTestDirectory("prune")
+    lockfile = createEmptyLockfile()
+  })
+
+  afterEach(async () => {
+    await testDir.cleanup()
+  })
+
+  /** Write a source and its output, and record them as the CLI does */
+  const convert = async (source: string, output: string, suffix?: string) => {
+    const tracker = createConversionTracker(lockfile, {
+      origin: "project",
+      sourceRoot: testDir.root,
+      projectRoot: testDir.root,
+      crosstrainVersion: "1.0.0",
+      options: {},
+    })
+    await mkdir(join(output, ".."), { recursive: true })
+    await writeFile(output, "generated")
+    const id = tracker.sourceId(source, suffix)
+    await tracker.record(id, { kind: "agent", hash: hashContent("source"), outputs: [output] })
+    tracker.finish()
+    return id
+  }
+
+  describe("findOrphanedEntries", () => {
+    it("should report entries whose source was deleted", async () => {
+      const kept = await testDir.createAgent("kept", { description: "Kept", systemPrompt: "Kept" })
+      await convert(kept, join(testDir.openCodeDir, "agent", "claude_kept.md"))
+      const gone = await convert(
+        join(testDir.claudeDir, "agents", "gone.md"),
+        join(testDir.openCodeDir, "agent", "claude_gone.md")
+      )
+
+      const { orphaned, unavailableOrigins } = await findOrphanedEntries(lockfile, testDir.root)
+      expect(orphaned.map(([id]) => id)).toEqual([gone])
+      expect(unavailableOrigins).toEqual([])
+    })
+
+    it("should report MCP servers removed from a config that still exists", async () => {
+      const configPath = await testDir.createMCPConfig({ kept: { command: "kept" } })
+      await convert(configPath, join(testDir.openCodeDir, "a.md"), "kept")
+      const gone = await convert(configPath, join(testDir.openCodeDir, "b.md"), "gone")
+
+      const { orphaned } = await findOrphanedEntries(lockfile, testDir.root)
+      expect(orphaned.map(([id]) => id)).toEqual([gone])
+    })
+
+    it("should not treat entries of a missing origin root as orphaned", async () => {
+      await convert(join(testDir.claudeDir, "agents", "gone.md"), join(testDir.openCodeDir, "a.md"))
+      lockfile.origins.project.root = "plugins/removed"
+
+      const { orphaned, unavailableOrigins } = await findOrphanedEntries(lockfile, testDir.root)
+      expect(orphaned).toEqual([])
+      expect(unavailableOrigins).toEqual(["project"])
+    })
+  })
+
+  describe("pruneEntries", () => {
+    it("should remove outputs and empty directories it created", async () => {
+      const output = join(testDir.openCodeDir, "skill", "claude_gone", "SKILL.md")
+      await convert(join(testDir.claudeDir, "skills", "gone", "SKILL.md"), output)
+
+      const { orphaned } = await findOrphanedEntries(lockfile, testDir.root)
+      const result = await pruneEntries(lockfile, orphaned, { projectRoot: testDir.root })
+
+      expect(result.removed).toEqual([".opencode/skill/claude_gone/SKILL.md"])
+      expect(existsSync(join(testDir.openCodeDir, "skill"))).toBe(false)
+      expect(existsSync(testDir.openCodeDir)).toBe(true)
+      expect(lockfile.entries).toEqual({})
+    })
+
+    it("should keep outputs edited since they were generated", async () => {
+      const output = join(testDir.openCodeDir, "agent", "claude_gone.md")
+      await convert(join(testDir.claudeDir, "agents", "gone.md"), output)
+      await writeFile(output, "hand edited")
+
+      const { orphaned } = await findOrphanedEntries(lockfile, testDir.root)
+      const result = await pruneEntries(lockfile, orphaned, { projectRoot: testDir.root })
+
+      expect(result.removed).toEqual([])
+      expect(result.kept[0].reason).toContain("modified")
+      expect(await readFile(output, "utf-8")).toBe("hand edited")
+    })
+
+    it("should keep outputs another entry still claims", async () => {
+      const output = join(testDir.openCodeDir, "plugin", "crosstrain-skills.ts")
+      const kept = await testDir.createSkill("kept", { description: "Kept", instructions: "Kept" })
+      await convert(kept, output)
+      await convert(join(testDir.claudeDir, "skills", "gone", "SKILL.md"), output)
+
+      const { orphaned } = await findOrphanedEntries(lockfile, testDir.root)
+      const result = await pruneEntries(lockfile, orphaned, { projectRoot: testDir.root })
+
+      expect(result.kept[0].reason).toContain("another source")
+      expect(existsSync(output)).toBe(true)
+    })
+
+    it("should remove only the prefixed key from opencode.json", async () => {
+      const configPath = join(testDir.root, "opencode.json")
+      const server = { type: "local", command: ["gh"] }
+      await writeFile(configPath, JSON.stringify({ mcp: { claude_github: server, mine: server } }))
+
+      const tracker = createConversionTracker(lockfile, {
+        origin: "project",
+        sourceRoot: testDir.root,
+        projectRoot: testDir.root,
+        crosstrainVersion: "1.0.0",
+        options: {},
+      })
+      await tracker.record(tracker.sourceId(join(testDir.root, ".mcp.json"), "github"), {
+        kind: "mcp",
+        hash: hashContent("source"),
+        outputs: [`${configPath}#mcp.claude_github`],
+      })
+
+      const { orphaned } = await findOrphanedEntries(lockfile, testDir.root)
+      await pruneEntries(lockfile, orphaned, { projectRoot: testDir.root })
+
+      const config = JSON.parse(await readFile(configPath, "utf-8"))
+      expect(config.mcp).toEqual({ mine: server })
+    })
+
+    it("should not remove anything in dry-run mode", async () => {
+      const output = join(testDir.openCodeDir, "agent", "claude_gone.md")
+      const id = await convert(join(testDir.claudeDir, "agents", "gone.md"), output)
+
+      const { orphaned } = await findOrphanedEntries(lockfile, testDir.root)
+      const result = await pruneEntries(lockfile, orphaned, { projectRoot: testDir.root, dryRun: true })
+
+      expect(result.removed).toEqual([".opencode/agent/claude_gone.md"])
+      expect(existsSync(output)).toBe(true)
+      expect(lockfile.entries[id]).toBeDefined()
+    })
+  })
+})
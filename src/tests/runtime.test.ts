@@ -0,0 +1,145 @@
+/**
+ * Unit tests for the in-process runtime loader
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { join } from "path"
+import { existsSync } from "fs"
+import { chmod, mkdir, readFile, rm, writeFile } from "fs/promises"
+
+import { createRuntimeLoader, type RuntimeLoaderOptions } from "../loaders/runtime"
+import { ConfigLogger, createConversionOptions } from "../utils/config"
+import { getLockfilePath } from "../utils/lockfile"
+import { DEFAULT_CONFIG } from "../types"
+import type { ToolExecuteBeforeOutput, ToolExecuteInput } from "../plugin-types"
+import { createTestDirectory, type TestDirectory } from "./utils"
+
+describe("Runtime Loader", () => {
+  let testDir: TestDirectory
+
+  beforeEach(async () => {
+    testDir = await createTestDirectory("runtime")
+  })
+
+  afterEach(async () => {
+    await testDir.cleanup()
+  })
+
+  const options = (overrides: Partial<RuntimeLoaderOptions> = {}): RuntimeLoaderOptions => ({
+    claudeDir: testDir.claudeDir,
+    openCodeDir: testDir.openCodeDir,
+    homeDir: "",
+    conversion: createConversionOptions(),
+    verbose: false,
+    loaders: { ...DEFAULT_CONFIG.loaders },
+    watch: false,
+    logger: new ConfigLogger(false),
+    ...overrides,
+  })
+
+  it("should register skills as tools and sync agents", async () => {
+    await testDir.createSkill("pdf-tools", { description: "PDF tools", instructions: "Use pdftk" })
+    await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review" })
+
+    const runtime = await createRuntimeLoader(options())
+
+    expect(Object.keys(runtime.tools)).toEqual(["skill_pdf_tools"])
+    expect(existsSync(join(testDir.openCodeDir, "agent", "claude_reviewer.md"))).toBe(true)
+    await runtime.close()
+  })
+
+  it("should write agents and commands only into opencode.json with outputFormat config", async () => {
+    await testDir.createAgent("reviewer", { description: "Reviews code", systemPrompt: "Review" })
+    await testDir.createCommand("deploy", { description: "Deploy", template: "Deploy it" })
+
+    const runtime = await createRuntimeLoader(options({ outputFormat: "config" }))
+    await runtime.close()
+
+    const config = JSON.parse(await readFile(join(testDir.root, "opencode.json"), "utf-8"))
+    expect(Object.keys(config.agent)).toEqual(["claude_reviewer"])
+    expect(Object.keys(config.command)).toEqual(["claude_deploy"])
+    expect(existsSync(join(testDir.openCodeDir, "agent"))).toBe(false)
+    expect(existsSync(join(testDir.openCodeDir, "command"))).toBe(false)
+    expect(existsSync(getLockfilePath(testDir.openCodeDir))).toBe(true)
+  })
+
+  it("should skip disabled loaders", async () => {
+    await testDir.createSkill("pdf-tools", { description: "PDF tools", instructions: "Use pdftk" })
+
+    const runtime = await createRuntimeLoader(
+      options({ loaders: { ...DEFAULT_CONFIG.loaders, skills: false, hooks: false } })
+    )
+
+    expect(runtime.tools).toEqual({})
+    expect(runtime.hooks).toEqual({})
+  })
+
+  it("should update tools in place on reload", async () => {
+    const skillPath = await testDir.createSkill("old", { description: "Old", instructions: "Old" })
+    const runtime = await createRuntimeLoader(options())
+    const tools = runtime.tools
+
+    await rm(join(skillPath, ".."), { recursive: true })
+    await testDir.createSkill("new", { description: "New", instructions: "New" })
+    await runtime.reload("skills")
+
+    expect(runtime.tools).toBe(tools)
+    expect(Object.keys(tools)).toEqual(["skill_new"])
+  })
+
+  it("should run hooks added after startup once reloaded", async () => {
+    const marker = join(testDir.root, "hook-ran")
+    const script = join(testDir.root, "hook.sh")
+    await writeFile(script, `#!/bin/sh\ntouch ${marker}\n`)
+    await chmod(script, 0o755)
+
+    const runtime = await createRuntimeLoader(options())
+    const before = runtime.hooks["tool.execute.before"]!
+    const input: ToolExecuteInput = { tool: "bash", sessionID: "session", callID: "call" }
+    const output: ToolExecuteBeforeOutput = { args: {} }
+
+    await before(input, output)
+    expect(existsSync(marker)).toBe(false)
+
+    await testDir.createSettings({
+      PreToolUse: [{ matcher: "Bash", hooks: [{ type: "command", command: script }] }],
+    })
+    await runtime.reload("hooks")
+    await before(input, output)
+
+    expect(existsSync(marker)).toBe(true)
+  })
+
+  it("should not run hooks the project's crosstrainer config drops", async () => {
+    const marker = join(testDir.root, "hook-ran")
+    const script = join(testDir.root, "hook.sh")
+    await writeFile(script, `#!/bin/sh\ntouch ${marker}\n`)
+    await chmod(script, 0o755)
+    await testDir.createSettings({
+      PreToolUse: [{ matcher: "Bash", hooks: [{ type: "command", command: script }] }],
+    })
+    await writeFile(
+      join(testDir.root, "crosstrainer.js"),
+      `export default { transformHook: (event, matcher) => matcher.matcher === "Bash" ? null : matcher }`
+    )
+
+    const runtime = await createRuntimeLoader(options())
+    const input: ToolExecuteInput = { tool: "bash", sessionID: "session", callID: "call" }
+    await runtime.hooks["tool.execute.before"]!(input, { args: {} })
+
+    expect(existsSync(marker)).toBe(false)
+  })
+
+  it("should reload a category when its files change", async () => {
+    await mkdir(join(testDir.claudeDir, "skills"), { recursive: true })
+    const runtime = await createRuntimeLoader(options({ watch: true }))
+
+    try {
+      await testDir.createSkill("live", { description: "Live", instructions: "Live" })
+      await new Promise((resolve) => setTimeout(resolve, 800))
+      expect(Object.keys(runtime.tools)).toEqual(["skill_live"])
+    } finally {
+      await runtime.close()
+    }
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the tool catalog
+ */
+
+import { describe, expect, it } from "bun:test"
+
+import {
+  getCatalogTools,
+  getPrimaryClaudeTools,
+  mapClaudeTool,
+  mapClaudeTools,
+} from "../loaders/tools"
+import { convertAgentFrontmatter } from "../loaders/agents"
+import { createConversionOptions } from "../utils/config"
+import { CLAUDE_TOOL_NAMES, type ClaudeAgent } from "../types"
+
+describe("Tool Catalog", () => {
+  describe("mapClaudeTool", () => {
+    it("should map every built-in Claude Code tool", () => {
+      for (const tool of CLAUDE_TOOL_NAMES) {
+        const mapped = mapClaudeTool(tool)
+        expect(mapped.warning ?? "").not.toContain("Unknown tool")
+      }
+    })
+
+    it("should map tools added in Claude Code since the first release", () => {
+      expect(mapClaudeTool("Task").tools).toEqual(["task"])
+      expect(mapClaudeTool("TodoWrite").tools).toEqual(["todowrite", "todoread"])
+      expect(mapClaudeTool("MultiEdit").tools).toEqual(["edit", "patch"])
+      expect(mapClaudeTool("NotebookEdit").tools).toEqual(["edit"])
+      expect(mapClaudeTool("LS").tools).toEqual(["list"])
+    })
+
+    it("should map MCP tools to the prefixed OpenCode names", () => {
+      const options = createConversionOptions({ filePrefix: "claude_" })
+
+      expect(mapClaudeTool("mcp__github__create_issue", options).tools).toEqual(["claude_github_create_issue"])
+      expect(mapClaudeTool("mcp__github__*", options).tools).toEqual(["claude_github_*"])
+      expect(mapClaudeTool("mcp__github", options).tools).toEqual(["claude_github_*"])
+    })
+
+    it("should keep wildcards and strip rule specifiers", () => {
+      expect(mapClaudeTool("*").tools).toEqual(["*"])
+      expect(mapClaudeTool("Bash(git diff:*)").tools).toEqual(["bash"])
+    })
+
+    it("should warn about unknown tools and tools without an equivalent", () => {
+      expect(mapClaudeTool("Teleport")).toEqual({ tools: [], warning: 'Unknown tool "Teleport" was not mapped' })
+      expect(mapClaudeTool("WebSearch")).toEqual({ tools: [], warning: 'Tool "WebSearch" has no OpenCode equivalent' })
+    })
+
+    it("should apply overrides from toolMappings", () => {
+      const options = createConversionOptions({ toolMappings: { WebSearch: "exa_search", Teleport: ["bash"] } })
+
+      expect(mapClaudeTool("WebSearch", options)).toEqual({ tools: ["exa_search"] })
+      expect(mapClaudeTool("Teleport", options)).toEqual({ tools: ["bash"] })
+    })
+  })
+
+  describe("mapClaudeTools", () => {
+    it("should deduplicate tools and collect warnings", () => {
+      const result = mapClaudeTools(["Edit", "MultiEdit", "WebSearch"])
+
+      expect(result.tools).toEqual(["edit", "patch"])
+      expect(result.warnings).toHaveLength(1)
+    })
+  })
+
+  describe("getCatalogTools", () => {
+    it("should list OpenCode tools without wildcards, including overrides", () => {
+      const tools = getCatalogTools(createConversionOptions({ toolMappings: { WebSearch: "exa_search" } }))
+
+      expect(tools).toContain("todowrite")
+      expect(tools).toContain("task")
+      expect(tools).toContain("exa_search")
+      expect(tools).not.toContain("skill_*")
+    })
+  })
+
+  describe("getPrimaryClaudeTools", () => {
+    it("should keep the first Claude tool for each OpenCode tool", () => {
+      const primary = getPrimaryClaudeTools().map(({ claudeTool }) => claudeTool)
+
+      expect(primary).toContain("Edit")
+      expect(primary).not.toContain("MultiEdit")
+      expect(primary).not.toContain("Skill")
+      expect(primary).not.toContain("WebSearch")
+    })
+  })
+
+  describe("agent tools", () => {
+    const agent = (tools: string[]): ClaudeAgent => ({
+      name: "a",
+      description: "A",
+      tools,
+      systemPrompt: "",
+      filePath: "a.md",
+    })
+
+    it("should disable every catalog tool that is not listed", () => {
+      const frontmatter = convertAgentFrontmatter(agent(["Read", "mcp__github__create_issue"]))
+
+      expect(frontmatter.tools).toMatchObject({
+        read: true,
+        claude_github_create_issue: true,
+        task: false,
+        todowrite: false,
+        todoread: false,
+        list: false,
+      })
+    })
+
+    it("should not restrict agents allowed every tool", () => {
+      expect(convertAgentFrontmatter(agent(["*"])).tools).toBeUndefined()
+    })
+
+    it("should report tools that could not be mapped", () => {
+      const warnings: string[] = []
+      const frontmatter = convertAgentFrontmatter(agent(["Read", "WebSearch", "Teleport"]), undefined, warnings)
+
+      expect(warnings).toEqual([
+        'Tool "WebSearch" has no OpenCode equivalent',
+        'Unknown tool "Teleport" was not mapped',
+      ])
+      expect(Object.keys(frontmatter.tools!)).not.toContain("teleport")
+    })
+  })
+})
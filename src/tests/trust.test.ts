@@ -0,0 +1,81 @@
+/**
+ * Unit tests for crosstrainer config trust decisions
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { writeFile } from "fs/promises"
+
+import {
+  findTrustEntry,
+  getTrustStorePath,
+  isAllowListed,
+  loadTrustStore,
+  recordTrust,
+  writeTrustStore,
+  UntrustedConfigError,
+} from "../utils/trust"
+import { createTestDirectory, type TestDirectory } from "./utils"
+
+describe("Trust", () => {
+  describe("isAllowListed", () => {
+    it("should trust a listed source and everything below it", () => {
+      expect(isAllowListed("org/repo/plugin", ["org/repo"])).toBe(true)
+      expect(isAllowListed("org/repo/plugin", ["org/repo/plugin"])).toBe(true)
+      expect(isAllowListed("org/repo/plugin", ["org/repo/other"])).toBe(false)
+      expect(isAllowListed("org/repository/plugin", ["org/repo"])).toBe(false)
+    })
+
+    it("should match * within a path segment", () => {
+      expect(isAllowListed("org/repo/plugin", ["org/*"])).toBe(true)
+      expect(isAllowListed("other/repo/plugin", ["org/*"])).toBe(false)
+      expect(isAllowListed("https://github.com/org/repo/plugin", ["https://github.com/org/*"])).toBe(true)
+    })
+  })
+
+  describe("trust store", () => {
+    let testDir: TestDirectory
+
+    beforeEach(async () => {
+      testDir = await createTestDirectory("trust")
+    })
+
+    afterEach(async () => {
+      await testDir.cleanup()
+    })
+
+    it("should remember decisions per source, commit and hash", async () => {
+      const store = await loadTrustStore(testDir.openCodeDir)
+      recordTrust(store, { source: "org/repo/plugin", commit: "abc", file: "crosstrainer.js", hash: "sha256-1" })
+      await writeTrustStore(testDir.openCodeDir, store)
+
+      const loaded = await loadTrustStore(testDir.openCodeDir)
+
+      expect(findTrustEntry(loaded, "org/repo/plugin", "abc", "sha256-1")).toBeDefined()
+      expect(findTrustEntry(loaded, "org/repo/plugin", "def", "sha256-1")).toBeUndefined()
+      expect(findTrustEntry(loaded, "org/repo/plugin", "abc", "sha256-2")).toBeUndefined()
+    })
+
+    it("should replace an earlier decision for the same commit", async () => {
+      const store = await loadTrustStore(testDir.openCodeDir)
+      recordTrust(store, { source: "org/repo/plugin", commit: "abc", file: "crosstrainer.js", hash: "sha256-1" })
+      recordTrust(store, { source: "org/repo/plugin", commit: "abc", file: "crosstrainer.js", hash: "sha256-2" })
+
+      expect(store.entries.map((entry) => entry.hash)).toEqual(["sha256-2"])
+    })
+
+    it("should start empty when the store is unreadable", async () => {
+      await writeFile(getTrustStorePath(testDir.openCodeDir), "{ not json")
+
+      expect((await loadTrustStore(testDir.openCodeDir)).entries).toEqual([])
+    })
+  })
+
+  describe("UntrustedConfigError", () => {
+    it("should name the source, commit and hash", () => {
+      const error = new UntrustedConfigError("org/repo/plugin", "0123456789abcdef", "/tmp/crosstrainer.js", "sha256-1")
+
+      expect(error.message).toContain("untrusted source org/repo/plugin (commit 0123456789ab, sha256-1)")
+      expect(error.message).toContain("--trust")
+    })
+  })
+})
@@ -142,6 +142,10 @@ export class TestDirectory {
    */
   async createCommand(name: string, content: {
     description?: string
+    allowedTools?: string
+    argumentHint?: string
+    model?: string
+    disableModelInvocation?: boolean
     template: string
   }): Promise<string> {
     const commandsDir = join(this.claudeDir, "commands")
@@ -151,6 +155,18 @@ export class TestDirectory {
     if (content.description) {
       frontmatter += `description: ${content.description}\n`
     }
+    if (content.allowedTools) {
+      frontmatter += `allowed-tools: ${content.allowedTools}\n`
+    }
+    if (content.argumentHint) {
+      frontmatter += `argument-hint: ${content.argumentHint}\n`
+    }
+    if (content.model) {
+      frontmatter += `model: ${content.model}\n`
+    }
+    if (content.disableModelInvocation !== undefined) {
+      frontmatter += `disable-model-invocation: ${content.disableModelInvocation}\n`
+    }
     frontmatter += `---\n\n${content.template}`
 
     const filePath = join(commandsDir, `${name}.md`)
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for the file watcher
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { join } from "path"
+import { mkdir, writeFile } from "fs/promises"
+
+import { createWatcher, hasClaudeCodeAssets } from "../utils/watcher"
+import { createTestDirectory, type TestDirectory } from "./utils"
+
+describe("Watcher", () => {
+  let testDir: TestDirectory
+
+  beforeEach(async () => {
+    testDir = await createTestDirectory("watcher")
+  })
+
+  afterEach(async () => {
+    await testDir.cleanup()
+  })
+
+  it("should call only the callback of the changed category", async () => {
+    await mkdir(join(testDir.claudeDir, "agents"), { recursive: true })
+    await mkdir(join(testDir.claudeDir, "commands"), { recursive: true })
+
+    const calls: string[] = []
+    const watcher = createWatcher({
+      claudeDir: testDir.claudeDir,
+      homeDir: "",
+      quiet: true,
+      onAgentChange: async () => {
+        calls.push("agents")
+      },
+      onCommandChange: async () => {
+        calls.push("commands")
+      },
+    })
+
+    try {
+      await writeFile(join(testDir.claudeDir, "agents", "a.md"), "---\ndescription: A\n---\n")
+      await new Promise((resolve) => setTimeout(resolve, 800))
+      expect(calls).toEqual(["agents"])
+    } finally {
+      await watcher.close()
+    }
+  })
+
+  it("should only check project assets without a home directory", async () => {
+    expect(hasClaudeCodeAssets(join(testDir.root, "missing", ".claude"), "")).toBe(false)
+    await testDir.createMCPConfig({ fs: { command: "mcp-fs" } })
+    expect(hasClaudeCodeAssets(testDir.claudeDir, "")).toBe(true)
+  })
+})
@@ -53,6 +53,27 @@ export interface CrosstrainConfig {
    */
   filePrefix?: string
 
+  /**
+   * Separator between the subdirectories of a command or agent and its
+   * name: commands/frontend/test.md becomes frontend_test
+   * @default "_"
+   */
+  namespaceSeparator?: string
+
+  /**
+   * What to do when two commands or agents end up with the same name:
+   * rename the later ones with a numeric suffix, or stop with an error
+   * @default "rename"
+   */
+  onNameCollision?: "rename" | "error"
+
+  /**
+   * How converted agents and commands are written: markdown files in
+   * .opencode/agent and .opencode/command, or entries in opencode.json
+   * @default "files"
+   */
+  outputFormat?: "files" | "config"
+
   /**
    * Enable verbose logging
    * @default false
@@ -102,9 +123,9 @@ export interface CrosstrainConfig {
 
   /**
    * Custom tool mappings (override defaults)
-   * Key: Claude tool name, Value: OpenCode tool name
+   * Key: Claude tool name, Value: OpenCode tool name(s); [] for none
    */
-  toolMappings?: Record<string, string>
+  toolMappings?: Record<string, string | string[]>
 
   /**
    * Marketplace configuration
@@ -115,6 +136,12 @@ export interface CrosstrainConfig {
    * Plugin installation configuration
    */
   plugins?: PluginInstallConfig[]
+
+  /**
+   * Remote plugin sources whose crosstrainer.js/ts may run without --trust
+   * ("org/repo" trusts every plugin in the repository; "org/*" every repository)
+   */
+  trustedSources?: string[]
 }
 
 /**
@@ -128,6 +155,9 @@ export interface ResolvedCrossstrainConfig {
   loadUserSettings: boolean
   watch: boolean
   filePrefix: string
+  namespaceSeparator: string
+  onNameCollision: "rename" | "error"
+  outputFormat: "files" | "config"
   verbose: boolean
   loaders: {
     skills: boolean
@@ -137,9 +167,10 @@ export interface ResolvedCrossstrainConfig {
     mcp: boolean
   }
   modelMappings: Record<string, string>
-  toolMappings: Record<string, string>
+  toolMappings: Record<string, string | string[]>
   marketplaces: MarketplaceConfig[]
   plugins: PluginInstallConfig[]
+  trustedSources: string[]
 }
 
 /**
@@ -153,6 +184,9 @@ export const DEFAULT_CONFIG: ResolvedCrossstrainConfig = {
   loadUserSettings: true,
   watch: true,
   filePrefix: "claude_",
+  namespaceSeparator: "_",
+  onNameCollision: "rename",
+  outputFormat: "files",
   verbose: false,
   loaders: {
     skills: true,
@@ -165,6 +199,7 @@ export const DEFAULT_CONFIG: ResolvedCrossstrainConfig = {
   toolMappings: {},
   marketplaces: [],
   plugins: [],
+  trustedSources: [],
 }
 
 // ========================================
@@ -177,7 +212,7 @@ export const DEFAULT_CONFIG: ResolvedCrossstrainConfig = {
 export interface ClaudeSkillFrontmatter {
   name: string
   description: string
-  "allowed-tools"?: string // Comma-separated tool names
+  "allowed-tools"?: string | string[] // Comma-separated or YAML list of tool names
 }
 
 /**
@@ -198,10 +233,10 @@ export interface ClaudeSkill {
 export interface ClaudeAgentFrontmatter {
   name: string
   description: string
-  tools?: string // Comma-separated tool names
+  tools?: string | string[] // Comma-separated or YAML list of tool names
   model?: string // Model alias: sonnet, opus, haiku, or 'inherit'
   permissionMode?: "default" | "acceptEdits" | "bypassPermissions" | "plan" | "ignore"
-  skills?: string // Comma-separated skill names
+  skills?: string | string[] // Comma-separated or YAML list of skill names
 }
 
 /**
@@ -223,6 +258,10 @@ export interface ClaudeAgent {
  */
 export interface ClaudeCommandFrontmatter {
   description?: string
+  "allowed-tools"?: string | string[] // Comma-separated or YAML list of tool names
+  "argument-hint"?: string | string[] // e.g. "[pr-number] [priority]"; "[message]" parses as a list
+  model?: string // Full model name for this command
+  "disable-model-invocation"?: boolean
 }
 
 /**
@@ -230,7 +269,13 @@ export interface ClaudeCommandFrontmatter {
  */
 export interface ClaudeCommand {
   name: string
+  /** Name Claude Code invokes the command with, e.g. "frontend:test" */
+  invocation?: string
   description?: string
+  allowedTools?: string[]
+  argumentHint?: string
+  model?: string
+  disableModelInvocation?: boolean
   template: string
   filePath: string
 }
@@ -323,18 +368,86 @@ export const MODEL_MAPPING: Record<string, string> = {
 }
 
 /**
- * Tool name mapping from Claude Code to OpenCode
+ * Tool catalog: Claude Code tool name → OpenCode tool name(s)
+ *
+ * Every built-in Claude Code tool is listed; an empty list marks a tool
+ * with no OpenCode equivalent. Names ending in * are OpenCode wildcards.
+ * The first Claude tool mapped to an OpenCode tool is its primary
+ * equivalent when exporting.
  */
-export const TOOL_MAPPING: Record<string, string> = {
+export const TOOL_MAPPING: Record<string, string | string[]> = {
   Read: "read",
   Write: "write",
   Edit: "edit",
   Bash: "bash",
   Grep: "grep",
   Glob: "glob",
+  LS: "list",
   WebFetch: "webfetch",
-  // Add more mappings as needed
-}
+  Task: "task",
+  TodoWrite: ["todowrite", "todoread"],
+  MultiEdit: ["edit", "patch"],
+  NotebookEdit: "edit",
+  NotebookRead: "read",
+  BashOutput: "bash",
+  KillShell: "bash",
+  Skill: "skill_*",
+  WebSearch: [],
+  ExitPlanMode: [],
+  SlashCommand: [],
+}
+
+/**
+ * Options applied by every converter (agents, commands, skills, MCP
+ * servers and settings), built from the resolved config and CLI flags
+ * with createConversionOptions
+ */
+export interface ConversionOptions {
+  /** Prefix for generated files and MCP server names */
+  filePrefix: string
+  /** Claude model alias → OpenCode model path ("" inherits the parent model) */
+  modelMappings: Record<string, string>
+  /** Claude tool name → OpenCode tool name(s), see TOOL_MAPPING */
+  toolMappings: Record<string, string | string[]>
+  /** Permission mode → OpenCode permission, overriding PERMISSION_MODE_MAPPING */
+  permissionModes?: Record<string, Record<string, "ask" | "allow" | "deny">>
+  /** Claude Code permission rules added to every converted agent */
+  permissionRules?: { allow?: string[]; ask?: string[]; deny?: string[] }
+  /** Agent converted commands run with when routing infers none (default: build) */
+  defaultAgent?: string
+  /** OpenCode names of converted agents, by their Claude Code name */
+  agentNames?: Record<string, string>
+  /** OpenCode names of converted commands, by their Claude Code invocation */
+  commandNames?: Record<string, string>
+  /** OpenCode tool names of converted skills, by their Claude Code name */
+  skillToolNames?: Record<string, string>
+}
+
+/**
+ * Built-in Claude Code tool names
+ * MCP tools (mcp__server__tool) are accepted in addition to these
+ */
+export const CLAUDE_TOOL_NAMES: readonly string[] = [
+  "Bash",
+  "BashOutput",
+  "Edit",
+  "ExitPlanMode",
+  "Glob",
+  "Grep",
+  "KillShell",
+  "LS",
+  "MultiEdit",
+  "NotebookEdit",
+  "NotebookRead",
+  "Read",
+  "SlashCommand",
+  "Skill",
+  "Task",
+  "TodoWrite",
+  "WebFetch",
+  "WebSearch",
+  "Write",
+]
 
 /**
  * Permission mode mapping from Claude Code to OpenCode
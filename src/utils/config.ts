@@ -12,6 +12,7 @@
 import { join } from "path"
 import { existsSync } from "fs"
 import type {
+  ConversionOptions,
   CrosstrainConfig,
   ResolvedCrossstrainConfig,
   MarketplaceConfig,
@@ -309,6 +310,46 @@ export function getResolvedPaths(
   }
 }
 
+/**
+ * Build the options passed to every converter
+ *
+ * Mappings extend the defaults; `overrides` (e.g. CLI flags) take
+ * precedence over the config.
+ */
+export function createConversionOptions(
+  config: Pick<CrosstrainConfig, "filePrefix" | "modelMappings" | "toolMappings"> = {},
+  overrides: Partial<ConversionOptions> = {}
+): ConversionOptions {
+  return {
+    ...overrides,
+    filePrefix: overrides.filePrefix ?? config.filePrefix ?? DEFAULT_CONFIG.filePrefix,
+    modelMappings: {
+      ...MODEL_MAPPING,
+      ...config.modelMappings,
+      ...overrides.modelMappings,
+    },
+    toolMappings: {
+      ...TOOL_MAPPING,
+      ...config.toolMappings,
+      ...overrides.toolMappings,
+    },
+  }
+}
+
+/**
+ * Map a Claude model alias to an OpenCode model path
+ *
+ * Aliases are matched case-insensitively. Returns undefined when the
+ * model should be inherited, and unknown models unchanged.
+ */
+export function mapModelName(model: string, options: ConversionOptions): string | undefined {
+  const mapped = options.modelMappings[model] ?? options.modelMappings[model.toLowerCase()]
+  if (mapped === undefined) {
+    return model
+  }
+  return mapped === "" ? undefined : mapped
+}
+
 /**
  * Full configuration resolution (alias for resolveConfig)
  */
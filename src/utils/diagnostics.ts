@@ -0,0 +1,109 @@
+/**
+ * Diagnostics - Problems found while loading Claude Code assets
+ *
+ * Loaders accept an optional diagnostics array. When it is provided they
+ * record problems there (with file, line and column) instead of logging
+ * them, which is how `crosstrain lint` runs the loaders in validation mode.
+ */
+
+import { relative, resolve } from "path"
+import { JsonParseError, type SourcePosition } from "./json"
+
+/**
+ * Diagnostic severity
+ */
+export type DiagnosticSeverity = "error" | "warning"
+
+/**
+ * A single problem in a source file
+ */
+export interface Diagnostic {
+  /** Absolute path of the file */
+  file: string
+  /** 1-based line number */
+  line: number
+  /** 1-based column number */
+  column: number
+  severity: DiagnosticSeverity
+  /** Stable identifier for the kind of problem (e.g. "unknown-tool") */
+  code: string
+  message: string
+}
+
+/**
+ * Options accepted by loaders that can report diagnostics
+ */
+export interface DiagnosticOptions {
+  /**
+   * Collect problems here instead of logging them
+   */
+  diagnostics?: Diagnostic[]
+}
+
+/**
+ * Record a diagnostic
+ */
+export function reportDiagnostic(
+  diagnostics: Diagnostic[],
+  file: string,
+  position: SourcePosition | undefined,
+  severity: DiagnosticSeverity,
+  code: string,
+  message: string
+): void {
+  diagnostics.push({
+    file: resolve(file),
+    line: position?.line ?? 1,
+    column: position?.column ?? 1,
+    severity,
+    code,
+    message,
+  })
+}
+
+/**
+ * Record a JSON parse failure
+ */
+export function reportJsonError(
+  diagnostics: Diagnostic[],
+  file: string,
+  error: unknown
+): void {
+  if (error instanceof JsonParseError) {
+    const message = error.message.replace(/ at line \d+, column \d+$/, "")
+    reportDiagnostic(diagnostics, file, error, "error", "json-syntax", message)
+  } else {
+    const message = error instanceof Error ? error.message : String(error)
+    reportDiagnostic(diagnostics, file, undefined, "error", "json-syntax", message)
+  }
+}
+
+/**
+ * Sort diagnostics by file, line and column, dropping duplicates
+ *
+ * The same file can be reached twice (e.g. a project directory that is
+ * also the home directory), so identical diagnostics are reported once.
+ */
+export function sortDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+  const seen = new Set<string>()
+  const unique = diagnostics.filter((d) => {
+    const key = `${d.file}:${d.line}:${d.column}:${d.code}:${d.message}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+  return unique.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.line - b.line ||
+      a.column - b.column
+  )
+}
+
+/**
+ * Format a diagnostic as "file:line:column severity message [code]"
+ */
+export function formatDiagnostic(diagnostic: Diagnostic, cwd?: string): string {
+  const file = cwd ? relative(cwd, diagnostic.file) || diagnostic.file : diagnostic.file
+  return `${file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.severity} ${diagnostic.message} [${diagnostic.code}]`
+}
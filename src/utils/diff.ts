@@ -0,0 +1,217 @@
+/**
+ * Diff - Unified diffs between existing and generated output
+ *
+ * Line-based Myers diff rendered in the unified patch format used by
+ * `git diff` and `patch`, so `--diff` output can be reviewed or applied.
+ */
+
+/**
+ * Options for creating a unified diff
+ */
+export interface UnifiedDiffOptions {
+  /** Path shown in the ---/+++ headers */
+  path: string
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number
+}
+
+type Edit = { type: "equal" | "delete" | "insert"; line: string }
+
+/**
+ * Create a unified diff from existing content (null when the file does not
+ * exist yet) to new content. Returns an empty string when they are equal.
+ */
+export function createUnifiedDiff(
+  oldContent: string | null,
+  newContent: string,
+  options: UnifiedDiffOptions
+): string {
+  if (oldContent === newContent) {
+    return ""
+  }
+
+  const oldLines = splitLines(oldContent ?? "")
+  const newLines = splitLines(newContent)
+  const edits = diffLines(oldLines, newLines)
+  const context = options.context ?? 3
+
+  const lines = [
+    oldContent === null ? "--- /dev/null" : `--- a/${options.path}`,
+    `+++ b/${options.path}`,
+  ]
+
+  for (const hunk of groupHunks(edits, context)) {
+    lines.push(formatHunkHeader(hunk))
+    for (const edit of hunk.edits) {
+      const marker = edit.type === "equal" ? " " : edit.type === "delete" ? "-" : "+"
+      lines.push(`${marker}${edit.line}`)
+    }
+  }
+
+  return lines.map(stripNewlineMarker).join("\n") + "\n"
+}
+
+/**
+ * Colour a unified diff for a terminal
+ */
+export function colorizeDiff(patch: string): string {
+  return patch
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("---") || line.startsWith("+++")) return `\x1b[1m${line}\x1b[0m`
+      if (line.startsWith("@@")) return `\x1b[36m${line}\x1b[0m`
+      if (line.startsWith("-")) return `\x1b[31m${line}\x1b[0m`
+      if (line.startsWith("+")) return `\x1b[32m${line}\x1b[0m`
+      return line
+    })
+    .join("\n")
+}
+
+const NO_NEWLINE_SENTINEL = "\0"
+const NO_NEWLINE_MARKER = "\\ No newline at end of file"
+
+/**
+ * Split content into lines, marking a missing final newline the way
+ * `diff` does
+ */
+function splitLines(content: string): string[] {
+  if (content === "") {
+    return []
+  }
+  const lines = content.split("\n")
+  if (lines[lines.length - 1] === "") {
+    lines.pop()
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE_SENTINEL
+  }
+  return lines
+}
+
+function stripNewlineMarker(line: string): string {
+  return line.endsWith(NO_NEWLINE_SENTINEL)
+    ? `${line.slice(0, -1)}\n${NO_NEWLINE_MARKER}`
+    : line
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers, O(ND))
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const max = a.length + b.length
+  const offset = max + 1
+  const v = new Array<number>(2 * max + 2).fill(0)
+  const trace: number[][] = []
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= a.length && y >= b.length) {
+        break outer
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edits
+  const edits: Edit[] = []
+  let x = a.length
+  let y = b.length
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d]
+    const k = x - y
+    const prevK =
+      k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1
+    const prevX = vd[offset + prevK]
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "equal", line: a[--x] })
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: "insert", line: b[--y] })
+      } else {
+        edits.push({ type: "delete", line: a[--x] })
+      }
+    }
+  }
+
+  return edits.reverse()
+}
+
+interface Hunk {
+  oldStart: number
+  oldCount: number
+  newStart: number
+  newCount: number
+  edits: Edit[]
+}
+
+/**
+ * Group edits into hunks with the given lines of context. Changes separated
+ * by at most 2 * context unchanged lines share a hunk.
+ */
+function groupHunks(edits: Edit[], context: number): Hunk[] {
+  const changes = edits.flatMap((edit, i) => (edit.type === "equal" ? [] : [i]))
+  const hunks: Hunk[] = []
+
+  // Line numbers before each edit
+  const oldLines: number[] = []
+  const newLines: number[] = []
+  let oldLine = 0
+  let newLine = 0
+  for (const edit of edits) {
+    oldLines.push(oldLine)
+    newLines.push(newLine)
+    if (edit.type !== "insert") oldLine++
+    if (edit.type !== "delete") newLine++
+  }
+
+  let i = 0
+  while (i < changes.length) {
+    const first = changes[i]
+    let last = first
+    while (i + 1 < changes.length && changes[i + 1] - last - 1 <= context * 2) {
+      last = changes[++i]
+    }
+
+    const start = Math.max(0, first - context)
+    const end = Math.min(edits.length, last + context + 1)
+    const hunk: Hunk = {
+      oldStart: oldLines[start],
+      oldCount: 0,
+      newStart: newLines[start],
+      newCount: 0,
+      edits: [],
+    }
+    for (const edit of edits.slice(start, end)) {
+      addToHunk(hunk, edit)
+    }
+    hunks.push(hunk)
+    i++
+  }
+
+  return hunks
+}
+
+function addToHunk(hunk: Hunk, edit: Edit): void {
+  hunk.edits.push(edit)
+  if (edit.type !== "insert") hunk.oldCount++
+  if (edit.type !== "delete") hunk.newCount++
+}
+
+function formatHunkHeader(hunk: Hunk): string {
+  const range = (start: number, count: number) =>
+    `${count === 0 ? start : start + 1}${count === 1 ? "" : `,${count}`}`
+  return `@@ -${range(hunk.oldStart, hunk.oldCount)} +${range(hunk.newStart, hunk.newCount)} @@`
+}
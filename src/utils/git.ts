@@ -0,0 +1,160 @@
+/**
+ * Git Utilities - Fetch plugins and marketplaces from remote repositories
+ *
+ * Sources are GitHub shorthand (org/repo[/subpath][@ref]) or Git URLs
+ * (url[@ref]). Repositories are cloned once into a temp cache and updated
+ * on later runs.
+ */
+
+import { join, resolve } from "path"
+import { existsSync } from "fs"
+import { mkdir, rm } from "fs/promises"
+import { tmpdir } from "os"
+import { execSync } from "child_process"
+
+const GIT_CACHE_DIR = join(tmpdir(), "crosstrain-cli-cache")
+
+/**
+ * A remote source split into repository, path within it and optional ref
+ */
+export interface RemoteSource {
+  repo: string
+  subpath: string
+  ref?: string
+}
+
+/**
+ * Check if a source looks like a remote Git reference
+ * (GitHub shorthand or URL, possibly with a subpath)
+ */
+export function isRemoteSource(source: string): boolean {
+  // Local paths start with ., /, or are just directory names that exist
+  if (source.startsWith("./") || source.startsWith("../") || source.startsWith("/")) {
+    return false
+  }
+  // Git URLs
+  if (source.startsWith("http://") || source.startsWith("https://") || source.startsWith("git@")) {
+    return true
+  }
+  // GitHub shorthand: org/repo or org/repo/path
+  if (source.includes("/") && !existsSync(resolve(source))) {
+    return true
+  }
+  return false
+}
+
+/**
+ * Parse a remote source into repo and subpath
+ * Examples:
+ *   "anthropics/claude-plugins" -> { repo: "anthropics/claude-plugins", subpath: "" }
+ *   "anthropics/claude-plugins/code-review" -> { repo: "anthropics/claude-plugins", subpath: "code-review" }
+ *   "https://github.com/org/repo" -> { repo: "https://github.com/org/repo", subpath: "" }
+ */
+export function parseRemoteSource(source: string): RemoteSource {
+  // Handle full URLs
+  if (source.startsWith("http://") || source.startsWith("https://") || source.startsWith("git@")) {
+    // Check for @ref syntax (e.g., url@v1.0.0)
+    const refMatch = source.match(/^(.+)@([^@/]+)$/)
+    if (refMatch) {
+      return { repo: refMatch[1], subpath: "", ref: refMatch[2] }
+    }
+    return { repo: source, subpath: "" }
+  }
+
+  // Handle GitHub shorthand with optional @ref
+  // Format: org/repo[/subpath][@ref]
+  const refMatch = source.match(/^(.+)@([^@/]+)$/)
+  let pathPart = source
+  let ref: string | undefined
+
+  if (refMatch) {
+    pathPart = refMatch[1]
+    ref = refMatch[2]
+  }
+
+  const parts = pathPart.split("/")
+
+  if (parts.length < 2) {
+    return { repo: source, subpath: "", ref }
+  }
+
+  // First two parts are org/repo, rest is subpath
+  const repo = `${parts[0]}/${parts[1]}`
+  const subpath = parts.slice(2).join("/")
+
+  return { repo, subpath, ref }
+}
+
+/**
+ * Clone a Git repository to a temporary location
+ */
+export async function cloneRepo(
+  source: string,
+  ref?: string,
+  verbose: boolean = false
+): Promise<string> {
+  await mkdir(GIT_CACHE_DIR, { recursive: true })
+
+  // Create a safe directory name from the source
+  const safeName = source
+    .replace(/^(https?:\/\/|git@)/, "")
+    .replace(/\.git$/, "")
+    .replace(/[^a-zA-Z0-9-_]/g, "-")
+  const targetPath = join(GIT_CACHE_DIR, safeName)
+
+  // Convert GitHub shorthand to URL
+  let repoUrl = source
+  if (!source.startsWith("http://") && !source.startsWith("https://") && !source.startsWith("git@")) {
+    repoUrl = `https://github.com/${source}`
+  }
+
+  try {
+    if (existsSync(targetPath)) {
+      // Update existing clone
+      if (verbose) {
+        console.log(`[crosstrain] Updating cached repository: ${source}`)
+      }
+      try {
+        execSync("git fetch --all --tags", { cwd: targetPath, stdio: verbose ? "inherit" : "pipe" })
+        if (ref) {
+          execSync(`git checkout '${ref}'`, { cwd: targetPath, stdio: verbose ? "inherit" : "pipe" })
+          execSync(`git pull origin '${ref}' 2>/dev/null || true`, { cwd: targetPath, stdio: verbose ? "inherit" : "pipe" })
+        } else {
+          execSync("git pull", { cwd: targetPath, stdio: verbose ? "inherit" : "pipe" })
+        }
+      } catch {
+        // If update fails, remove and re-clone
+        if (verbose) {
+          console.warn("[crosstrain] Update failed, re-cloning...")
+        }
+        await rm(targetPath, { recursive: true, force: true })
+      }
+    }
+
+    if (!existsSync(targetPath)) {
+      if (verbose) {
+        console.log(`[crosstrain] Cloning repository: ${repoUrl}`)
+      }
+      if (ref) {
+        execSync(`git clone --branch '${ref}' '${repoUrl}' '${targetPath}'`, {
+          stdio: verbose ? "inherit" : "pipe",
+        })
+      } else {
+        execSync(`git clone '${repoUrl}' '${targetPath}'`, {
+          stdio: verbose ? "inherit" : "pipe",
+        })
+      }
+    }
+
+    return targetPath
+  } catch (err) {
+    throw new Error(`Failed to clone repository ${repoUrl}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/**
+ * Get the commit a cloned repository is checked out at
+ */
+export function getRepoCommit(repoPath: string): string {
+  return execSync("git rev-parse HEAD", { cwd: repoPath, stdio: "pipe" }).toString().trim()
+}
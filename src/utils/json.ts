@@ -0,0 +1,315 @@
+/**
+ * JSON parser with source positions
+ *
+ * JSON.parse reports syntax errors without a reliable line and column,
+ * and gives no way to map a parsed value back to where it was written.
+ * This small recursive-descent parser does both, so loaders and the
+ * linter can point at the exact location of a problem.
+ *
+ * With the `jsonc` option it also accepts JSON with comments: `//` and
+ * block comments, and trailing commas, as in opencode.jsonc and
+ * crosstrainer.jsonc. Comments are skipped as tokens, so `//` inside a
+ * string (e.g. a URL) is left alone.
+ */
+
+/**
+ * 1-based line and column in a source file
+ */
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+/**
+ * Result of parsing JSON with positions
+ */
+export interface ParsedJson<T = unknown> {
+  value: T
+  /**
+   * Position of every value, keyed by its path ("" for the root,
+   * "hooks.PreToolUse[0].matcher" for nested values). For object
+   * members this is the position of the member's key.
+   */
+  positions: Record<string, SourcePosition>
+}
+
+/**
+ * Options for parseJsonWithPositions
+ */
+export interface ParseJsonOptions {
+  /**
+   * Accept comments and trailing commas
+   */
+  jsonc?: boolean
+}
+
+/**
+ * Error thrown for malformed JSON
+ */
+export class JsonParseError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} at line ${line}, column ${column}`)
+    this.name = "JsonParseError"
+  }
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+export function offsetToPosition(text: string, offset: number): SourcePosition {
+  let line = 1
+  let lineStart = 0
+  const end = Math.min(offset, text.length)
+
+  for (let i = 0; i < end; i++) {
+    if (text[i] === "\n") {
+      line++
+      lineStart = i + 1
+    }
+  }
+
+  return { line, column: end - lineStart + 1 }
+}
+
+/**
+ * Build the path of an object member
+ */
+export function joinJsonPath(parent: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${parent}[${key}]`
+  }
+  if (/^[A-Za-z_$][\w$-]*$/.test(key)) {
+    return parent ? `${parent}.${key}` : key
+  }
+  return `${parent}[${JSON.stringify(key)}]`
+}
+
+/**
+ * Parse JSON text, recording the position of every value
+ */
+export function parseJsonWithPositions<T = unknown>(
+  text: string,
+  options: ParseJsonOptions = {}
+): ParsedJson<T> {
+  const positions: Record<string, SourcePosition> = {}
+  const jsonc = options.jsonc ?? false
+  let pos = 0
+
+  // Positions are mostly requested in increasing order, so the line count
+  // is carried forward instead of rescanning from the start each time
+  let scannedTo = 0
+  let scannedLine = 1
+  let scannedLineStart = 0
+
+  const positionAt = (offset: number): SourcePosition => {
+    const end = Math.min(offset, text.length)
+    if (end < scannedTo) {
+      return offsetToPosition(text, end)
+    }
+    for (; scannedTo < end; scannedTo++) {
+      if (text[scannedTo] === "\n") {
+        scannedLine++
+        scannedLineStart = scannedTo + 1
+      }
+    }
+    return { line: scannedLine, column: end - scannedLineStart + 1 }
+  }
+
+  const fail = (message: string, at: number = pos): never => {
+    const { line, column } = positionAt(at)
+    throw new JsonParseError(message, at, line, column)
+  }
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length) {
+      if (/[ \t\r\n\uFEFF]/.test(text[pos])) {
+        pos++
+      } else if (jsonc && text.startsWith("//", pos)) {
+        const end = text.indexOf("\n", pos)
+        pos = end === -1 ? text.length : end
+      } else if (jsonc && text.startsWith("/*", pos)) {
+        const end = text.indexOf("*/", pos + 2)
+        if (end === -1) {
+          fail("Unterminated comment")
+        }
+        pos = end + 2
+      } else {
+        return
+      }
+    }
+  }
+
+  const describe = (at: number): string =>
+    at >= text.length ? "end of input" : `token ${JSON.stringify(text[at])}`
+
+  const parseString = (): string => {
+    const start = pos
+    pos++ // opening quote
+    let result = ""
+
+    while (pos < text.length) {
+      const char = text[pos]
+      if (char === '"') {
+        pos++
+        return result
+      }
+      if (char === "\n") {
+        fail("Unterminated string", start)
+      }
+      if (char < " ") {
+        fail("Unescaped control character in string", pos)
+      }
+      if (char === "\\") {
+        const next = text[pos + 1]
+        const escapes: Record<string, string> = {
+          '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t",
+        }
+        if (next === "u") {
+          const hex = text.slice(pos + 2, pos + 6)
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            fail("Invalid unicode escape", pos)
+          }
+          result += String.fromCharCode(parseInt(hex, 16))
+          pos += 6
+          continue
+        }
+        if (next === undefined || !(next in escapes)) {
+          fail("Invalid escape sequence", pos)
+        }
+        result += escapes[next]
+        pos += 2
+        continue
+      }
+      result += char
+      pos++
+    }
+
+    return fail("Unterminated string", start)
+  }
+
+  const numberPattern = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y
+
+  const parseNumber = (): number => {
+    numberPattern.lastIndex = pos
+    const match = numberPattern.exec(text)
+    if (!match) {
+      fail(`Unexpected ${describe(pos)}`)
+    }
+    pos += match![0].length
+    return Number(match![0])
+  }
+
+  const parseValue = (path: string): unknown => {
+    skipWhitespace()
+    if (!(path in positions)) {
+      positions[path] = positionAt(pos)
+    }
+
+    const char = text[pos]
+
+    if (char === "{") {
+      pos++
+      const obj: Record<string, unknown> = {}
+      skipWhitespace()
+      if (text[pos] === "}") {
+        pos++
+        return obj
+      }
+      while (true) {
+        skipWhitespace()
+        if (text[pos] !== '"') {
+          fail(`Expected property name but found ${describe(pos)}`)
+        }
+        const keyStart = pos
+        const key = parseString()
+        const memberPath = joinJsonPath(path, key)
+        positions[memberPath] = positionAt(keyStart)
+        skipWhitespace()
+        if (text[pos] !== ":") {
+          fail(`Expected ":" but found ${describe(pos)}`)
+        }
+        pos++
+        // defineProperty keeps a "__proto__" key an own property
+        Object.defineProperty(obj, key, {
+          value: parseValue(memberPath),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        })
+        skipWhitespace()
+        if (text[pos] === ",") {
+          pos++
+          skipWhitespace()
+          if (jsonc && text[pos] === "}") {
+            pos++
+            return obj
+          }
+          continue
+        }
+        if (text[pos] === "}") {
+          pos++
+          return obj
+        }
+        fail(`Expected "," or "}" but found ${describe(pos)}`)
+      }
+    }
+
+    if (char === "[") {
+      pos++
+      const arr: unknown[] = []
+      skipWhitespace()
+      if (text[pos] === "]") {
+        pos++
+        return arr
+      }
+      while (true) {
+        arr.push(parseValue(joinJsonPath(path, arr.length)))
+        skipWhitespace()
+        if (text[pos] === ",") {
+          pos++
+          skipWhitespace()
+          if (jsonc && text[pos] === "]") {
+            pos++
+            return arr
+          }
+          continue
+        }
+        if (text[pos] === "]") {
+          pos++
+          return arr
+        }
+        fail(`Expected "," or "]" but found ${describe(pos)}`)
+      }
+    }
+
+    if (char === '"') {
+      return parseString()
+    }
+
+    for (const [literal, value] of [["true", true], ["false", false], ["null", null]] as const) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length
+        return value
+      }
+    }
+
+    if (char === "-" || (char >= "0" && char <= "9")) {
+      return parseNumber()
+    }
+
+    return fail(`Unexpected ${describe(pos)}`)
+  }
+
+  const value = parseValue("")
+  skipWhitespace()
+  if (pos < text.length) {
+    fail(`Unexpected ${describe(pos)} after JSON value`)
+  }
+
+  return { value: value as T, positions }
+}
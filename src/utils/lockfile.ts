@@ -0,0 +1,354 @@
+/**
+ * Lockfile - Records what crosstrain generated and from which sources
+ *
+ * .opencode/crosstrain.lock.json stores, for every converted asset, the
+ * hash of its source, the outputs it produced (with their hashes) and the
+ * crosstrain version and options used. Conversions consult it to skip
+ * unchanged assets, and it is the record of which files crosstrain owns.
+ *
+ * Outputs are paths relative to the project root. Entries inside a JSON
+ * config are written as "<file>#<section>.<key>", e.g.
+ * "opencode.json#mcp.claude_github".
+ */
+
+import { join, relative, resolve, isAbsolute } from "path"
+import { existsSync } from "fs"
+import { writeFile, mkdir } from "fs/promises"
+import { createHash } from "crypto"
+import { readTextFile } from "./parser"
+
+/**
+ * Lockfile name inside the OpenCode directory
+ */
+export const LOCKFILE_NAME = "crosstrain.lock.json"
+
+/**
+ * Current lockfile format version
+ */
+export const LOCKFILE_VERSION = 1
+
+/**
+ * Kind of asset an entry records
+ */
+export type LockfileEntryKind = "command" | "agent" | "skill" | "skill-plugin" | "mcp"
+
+/**
+ * Entry kinds that support other outputs and are not counted as assets
+ */
+const SUPPORT_KINDS: readonly LockfileEntryKind[] = ["skill-plugin"]
+
+/**
+ * A converted asset
+ */
+export interface LockfileEntry {
+  kind: LockfileEntryKind
+  /** "project" or "plugin:<name>" */
+  origin: string
+  /** Source path, relative to the origin's root ("~/" for the home directory) */
+  source: string
+  /** Hash of the source content */
+  hash: string
+  /** Output path → hash of the generated content */
+  outputs: Record<string, string>
+}
+
+/**
+ * Version and options an origin was last converted with
+ */
+export interface LockfileOrigin {
+  /** Directory sources are relative to, relative to the project root ("~/" for the home directory) */
+  root: string
+  crosstrainVersion: string
+  options: Record<string, unknown>
+}
+
+/**
+ * Contents of crosstrain.lock.json
+ */
+export interface Lockfile {
+  lockfileVersion: number
+  origins: Record<string, LockfileOrigin>
+  /** Entries keyed by "<origin>:<source>" */
+  entries: Record<string, LockfileEntry>
+}
+
+/**
+ * Hash text content
+ */
+export function hashContent(content: string): string {
+  return `sha256-${createHash("sha256").update(content).digest("hex")}`
+}
+
+/**
+ * Hash a file's content
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  return hashContent(await readTextFile(filePath))
+}
+
+/**
+ * Record a path relative to the project root, or to the home directory
+ * ("~/...") when it lies outside the project
+ */
+export function toLockfilePath(path: string, projectRoot: string, homeDir?: string): string {
+  const fromProject = relative(projectRoot, path)
+  if (!fromProject.startsWith("..") && !isAbsolute(fromProject)) {
+    return fromProject || "."
+  }
+  if (homeDir) {
+    const fromHome = relative(homeDir, path)
+    if (!fromHome.startsWith("..") && !isAbsolute(fromHome)) {
+      return `~/${fromHome}`
+    }
+  }
+  return path
+}
+
+/**
+ * Resolve a path recorded in the lockfile against a base directory
+ */
+export function resolveLockfilePath(path: string, baseDir: string, homeDir?: string): string {
+  if (path.startsWith("~/")) {
+    return join(homeDir ?? "~", path.slice(2))
+  }
+  return resolve(baseDir, path)
+}
+
+/**
+ * Get the lockfile path for an OpenCode directory
+ */
+export function getLockfilePath(openCodeDir: string): string {
+  return join(openCodeDir, LOCKFILE_NAME)
+}
+
+/**
+ * Create an empty lockfile
+ */
+export function createEmptyLockfile(): Lockfile {
+  return { lockfileVersion: LOCKFILE_VERSION, origins: {}, entries: {} }
+}
+
+/**
+ * Load the lockfile, or an empty one if it is missing or unreadable
+ */
+export async function loadLockfile(openCodeDir: string): Promise<Lockfile> {
+  const lockfilePath = getLockfilePath(openCodeDir)
+  if (!existsSync(lockfilePath)) {
+    return createEmptyLockfile()
+  }
+
+  try {
+    const lockfile = JSON.parse(await readTextFile(lockfilePath)) as Lockfile
+    if (lockfile.lockfileVersion !== LOCKFILE_VERSION || !lockfile.entries) {
+      return createEmptyLockfile()
+    }
+    return { ...lockfile, origins: lockfile.origins ?? {} }
+  } catch {
+    console.warn(`[crosstrain] Ignoring unreadable lockfile: ${lockfilePath}`)
+    return createEmptyLockfile()
+  }
+}
+
+/**
+ * Write the lockfile with sorted keys so it diffs cleanly
+ */
+export async function writeLockfile(openCodeDir: string, lockfile: Lockfile): Promise<string> {
+  const lockfilePath = getLockfilePath(openCodeDir)
+  const sorted: Lockfile = {
+    lockfileVersion: lockfile.lockfileVersion,
+    origins: sortRecord(lockfile.origins),
+    entries: sortRecord(lockfile.entries),
+  }
+
+  await mkdir(openCodeDir, { recursive: true })
+  await writeFile(lockfilePath, JSON.stringify(sorted, null, 2) + "\n", "utf-8")
+  return lockfilePath
+}
+
+/**
+ * Hash an output as it currently exists on disk, or null if it is gone
+ */
+export async function hashOutput(projectRoot: string, output: string): Promise<string | null> {
+  const [file, key] = output.split("#", 2)
+  const filePath = resolve(projectRoot, file)
+  if (!existsSync(filePath)) {
+    return null
+  }
+
+  const content = await readTextFile(filePath)
+  if (!key) {
+    return hashContent(content)
+  }
+
+  try {
+    const dot = key.indexOf(".")
+    const value = JSON.parse(content)?.[key.slice(0, dot)]?.[key.slice(dot + 1)]
+    return value === undefined ? null : hashContent(JSON.stringify(value))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Options for tracking one conversion run
+ */
+export interface ConversionTrackerOptions {
+  /** "project" or "plugin:<name>" */
+  origin: string
+  /** Directory source paths are recorded relative to */
+  sourceRoot: string
+  /** Project root, where outputs are recorded relative to */
+  projectRoot: string
+  /** Home directory, recorded as "~" in source paths */
+  homeDir?: string
+  crosstrainVersion: string
+  /** Options that affect the generated output */
+  options: Record<string, unknown>
+}
+
+/**
+ * Counts reported after a conversion run
+ */
+export interface ConversionSummary {
+  unchanged: number
+  updated: number
+  removed: number
+}
+
+/**
+ * Tracks which assets of one origin are unchanged, updated or removed
+ */
+export interface ConversionTracker {
+  /** Entry id for a source ("<origin>:<source>") */
+  sourceId: (sourcePath: string, suffix?: string) => string
+  /**
+   * Check whether an asset and all its outputs are unchanged since the
+   * last run. Unchanged assets are counted and kept in the lockfile.
+   */
+  isUnchanged: (id: string, hash: string) => Promise<boolean>
+  /** Record an asset whose outputs were (re)written */
+  record: (
+    id: string,
+    entry: { kind: LockfileEntryKind; hash: string; outputs: string[] }
+  ) => Promise<void>
+  /** Entries of this origin whose source was not seen in this run */
+  removedEntries: () => [string, LockfileEntry][]
+  /**
+   * Outputs that recorded entries no longer write to, with the hash they
+   * were last recorded with
+   */
+  supersededOutputs: () => Record<string, string>
+  summary: () => ConversionSummary
+  /** Store the version and options used for this origin */
+  finish: () => void
+}
+
+/**
+ * Create a tracker for one conversion run over a lockfile
+ */
+export function createConversionTracker(
+  lockfile: Lockfile,
+  config: ConversionTrackerOptions
+): ConversionTracker {
+  const seen = new Set<string>()
+  const superseded: Record<string, string> = {}
+  let unchanged = 0
+  let updated = 0
+
+  const previous = lockfile.origins[config.origin]
+  const sameOptions =
+    previous !== undefined &&
+    previous.crosstrainVersion === config.crosstrainVersion &&
+    JSON.stringify(sortRecord(previous.options)) === JSON.stringify(sortRecord(config.options))
+
+  const toSource = (sourcePath: string): string =>
+    isAbsolute(sourcePath)
+      ? toLockfilePath(sourcePath, config.sourceRoot, config.homeDir)
+      : sourcePath
+
+  const toOutput = (output: string): string => {
+    const [file, key] = output.split("#", 2)
+    const relativeFile = isAbsolute(file) ? relative(config.projectRoot, file) : file
+    return key ? `${relativeFile}#${key}` : relativeFile
+  }
+
+  const removedEntries = (): [string, LockfileEntry][] =>
+    Object.entries(lockfile.entries).filter(
+      ([id, entry]) => entry.origin === config.origin && !seen.has(id)
+    )
+
+  return {
+    sourceId: (sourcePath, suffix) =>
+      `${config.origin}:${toSource(sourcePath)}${suffix ? `#${suffix}` : ""}`,
+
+    isUnchanged: async (id, hash) => {
+      seen.add(id)
+      const entry = lockfile.entries[id]
+      if (!sameOptions || !entry || entry.hash !== hash) {
+        return false
+      }
+      for (const [output, outputHash] of Object.entries(entry.outputs)) {
+        if ((await hashOutput(config.projectRoot, output)) !== outputHash) {
+          return false
+        }
+      }
+      if (!SUPPORT_KINDS.includes(entry.kind)) unchanged++
+      return true
+    },
+
+    record: async (id, entry) => {
+      seen.add(id)
+      const outputs: Record<string, string> = {}
+      for (const output of entry.outputs.map(toOutput)) {
+        const outputHash = await hashOutput(config.projectRoot, output)
+        if (outputHash) {
+          outputs[output] = outputHash
+        }
+      }
+      for (const [output, outputHash] of Object.entries(lockfile.entries[id]?.outputs ?? {})) {
+        if (!(output in outputs)) {
+          superseded[output] = outputHash
+        }
+      }
+      lockfile.entries[id] = {
+        kind: entry.kind,
+        origin: config.origin,
+        source: id.slice(config.origin.length + 1),
+        hash: entry.hash,
+        outputs,
+      }
+      if (!SUPPORT_KINDS.includes(entry.kind)) updated++
+    },
+
+    removedEntries,
+
+    supersededOutputs: () => ({ ...superseded }),
+
+    summary: () => ({
+      unchanged,
+      updated,
+      removed: removedEntries().filter(([, entry]) => !SUPPORT_KINDS.includes(entry.kind)).length,
+    }),
+
+    finish: () => {
+      lockfile.origins[config.origin] = {
+        root: toLockfilePath(config.sourceRoot, config.projectRoot, config.homeDir),
+        crosstrainVersion: config.crosstrainVersion,
+        options: config.options,
+      }
+    },
+  }
+}
+
+/**
+ * Format a summary as "N unchanged / M updated / K removed"
+ */
+export function formatConversionSummary(summary: ConversionSummary): string {
+  return `${summary.unchanged} unchanged / ${summary.updated} updated / ${summary.removed} removed`
+}
+
+function sortRecord<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(record).sort(([a], [b]) => a.localeCompare(b))
+  )
+}
@@ -0,0 +1,134 @@
+/**
+ * Naming - Names of commands and agents in subdirectories
+ *
+ * Claude Code exposes .claude/commands/frontend/test.md as /frontend:test.
+ * Commands and agents in subdirectories keep their directories as a
+ * namespace, joined with a configurable separator, so
+ * frontend/test.md and backend/test.md convert to frontend_test and
+ * backend_test instead of overwriting each other.
+ *
+ * Names can still collide, e.g. frontend/test.md with a top-level
+ * frontend_test.md. The asset closest to the top (then first by path)
+ * keeps the name; the others are renamed with a numeric suffix, and each
+ * rename is reported. With `onNameCollision: "error"` a collision stops
+ * the discovery instead.
+ */
+
+import { basename, dirname, relative, sep } from "path"
+
+/**
+ * Default separator between namespace and name
+ */
+export const DEFAULT_NAMESPACE_SEPARATOR = "_"
+
+/**
+ * What to do when two assets end up with the same name
+ */
+export type NameCollisionPolicy = "rename" | "error"
+
+/**
+ * An asset renamed to resolve a name collision
+ */
+export interface AssetRename {
+  kind: "command" | "agent"
+  /** Name the asset would have had */
+  from: string
+  to: string
+  filePath: string
+  /** File of the asset that kept the name */
+  conflictsWith: string
+}
+
+/**
+ * Naming options accepted by command and agent discovery
+ */
+export interface NamingOptions {
+  /** Joins subdirectory names and the asset name (default: "_") */
+  namespaceSeparator?: string
+  /** Rename colliding assets, or throw (default: "rename") */
+  onNameCollision?: NameCollisionPolicy
+  /** Renames made to resolve collisions are added here */
+  renames?: AssetRename[]
+}
+
+/**
+ * Error thrown when names collide and renaming is disabled
+ */
+export class NameCollisionError extends Error {
+  constructor(
+    public readonly kind: "command" | "agent",
+    public readonly assetName: string,
+    public readonly filePaths: string[]
+  ) {
+    super(`${filePaths.length} ${kind}s are named "${assetName}": ${filePaths.join(", ")}`)
+    this.name = "NameCollisionError"
+  }
+}
+
+/**
+ * Prefix a name with the subdirectories of its file below the root
+ */
+export function getNamespacedName(
+  name: string,
+  filePath: string,
+  rootDir: string,
+  separator: string = DEFAULT_NAMESPACE_SEPARATOR
+): string {
+  const dir = relative(rootDir, dirname(filePath))
+  if (!dir || dir.startsWith("..")) {
+    return name
+  }
+  return [...dir.split(sep), name].join(separator)
+}
+
+/**
+ * The closest directory above a file with the given name, such as the
+ * commands directory of .claude/commands/frontend/test.md, or null
+ */
+export function findAssetRoot(filePath: string, dirName: "commands" | "agents"): string | null {
+  for (let dir = dirname(filePath); dir !== dirname(dir); dir = dirname(dir)) {
+    if (basename(dir) === dirName) {
+      return dir
+    }
+  }
+  return null
+}
+
+/**
+ * Give every asset a unique name, renaming or throwing on collisions
+ */
+export function resolveNameCollisions<T extends { name: string; filePath: string }>(
+  kind: "command" | "agent",
+  assets: T[],
+  options: NamingOptions = {}
+): T[] {
+  const separator = options.namespaceSeparator ?? DEFAULT_NAMESPACE_SEPARATOR
+  const depth = (asset: T) => asset.filePath.split(sep).length
+  const ordered = [...assets].sort((a, b) => depth(a) - depth(b) || a.filePath.localeCompare(b.filePath))
+
+  const owners = new Map<string, T>()
+  const renamed = new Map<T, T>()
+  for (const asset of ordered) {
+    const owner = owners.get(asset.name)
+    if (!owner) {
+      owners.set(asset.name, asset)
+      continue
+    }
+    if (options.onNameCollision === "error") {
+      const filePaths = ordered.filter((a) => a.name === asset.name).map((a) => a.filePath)
+      throw new NameCollisionError(kind, asset.name, filePaths)
+    }
+
+    let suffix = 2
+    while (assets.some((a) => a.name === `${asset.name}${separator}${suffix}`) || owners.has(`${asset.name}${separator}${suffix}`)) {
+      suffix++
+    }
+    const to = `${asset.name}${separator}${suffix}`
+    const copy = { ...asset, name: to }
+    owners.set(to, copy)
+    renamed.set(asset, copy)
+    options.renames?.push({ kind, from: asset.name, to, filePath: asset.filePath, conflictsWith: owner.filePath })
+  }
+
+  return assets.map((asset) => renamed.get(asset) ?? asset)
+}
@@ -4,6 +4,17 @@
 import { readFile, readdir, stat } from "fs/promises"
 import { join, basename, extname } from "path"
 import { existsSync } from "fs"
+import {
+  parse as parseYaml,
+  parseDocument,
+  stringify as stringifyYaml,
+  isMap,
+  isScalar,
+  isSeq,
+  LineCounter,
+  type Document,
+} from "yaml"
+import type { SourcePosition } from "./json"
 
 export interface ParsedMarkdown<T = Record<string, unknown>> {
   frontmatter: T
@@ -11,119 +22,157 @@ export interface ParsedMarkdown<T = Record<string, unknown>> {
 }
 
 /**
- * Simple YAML parser for frontmatter
- * Handles basic key-value pairs, nested objects, and arrays
+ * A problem found while inspecting frontmatter
  */
-function parseSimpleYaml(yamlContent: string): Record<string, unknown> {
-  const result: Record<string, unknown> = {}
-  const lines = yamlContent.split("\n")
-  let currentKey = ""
-  let currentIndent = 0
-  const stack: { obj: Record<string, unknown>; indent: number }[] = [
-    { obj: result, indent: -1 },
-  ]
-
-  for (const line of lines) {
-    // Skip empty lines and comments
-    if (line.trim() === "" || line.trim().startsWith("#")) continue
-
-    // Calculate indentation
-    const indent = line.search(/\S/)
-    const trimmedLine = line.trim()
-
-    // Handle key: value pairs
-    const colonIndex = trimmedLine.indexOf(":")
-    if (colonIndex > 0) {
-      const key = trimmedLine.substring(0, colonIndex).trim()
-      let value = trimmedLine.substring(colonIndex + 1).trim()
-
-      // Pop stack for lower indentation levels
-      while (stack.length > 1 && indent <= stack[stack.length - 1].indent) {
-        stack.pop()
-      }
-      const currentObj = stack[stack.length - 1].obj
-
-      // Handle different value types
-      if (value === "") {
-        // Nested object or empty value
-        const nestedObj: Record<string, unknown> = {}
-        currentObj[key] = nestedObj
-        stack.push({ obj: nestedObj, indent })
-        currentKey = key
-        currentIndent = indent
-      } else {
-        // Parse the value
-        currentObj[key] = parseYamlValue(value)
-      }
+export interface FrontmatterIssue extends SourcePosition {
+  severity: "error" | "warning"
+  message: string
+}
+
+/**
+ * Parsed markdown with source positions for its frontmatter
+ */
+export interface FrontmatterInspection<T = Record<string, unknown>>
+  extends ParsedMarkdown<T> {
+  /** Whether the file has a frontmatter block at all */
+  hasFrontmatter: boolean
+  /** YAML problems, positioned in the markdown file */
+  issues: FrontmatterIssue[]
+  /** Position of each top-level key */
+  keys: Record<string, SourcePosition>
+  /**
+   * Position of each item of list-like values, whether written as a
+   * YAML sequence or as a comma-separated string
+   */
+  items: Record<string, { value: string; position: SourcePosition }[]>
+}
+
+/**
+ * Matches a frontmatter block and the markdown that follows it
+ *
+ * The YAML keeps its final line break, which a `|+` block scalar at the
+ * end of the frontmatter includes in its value. The block may be empty.
+ */
+const FRONTMATTER_REGEX = /^---\s*\n([\s\S]*?\n)?---\s*\n?([\s\S]*)$/d
+
+/**
+ * Parse YAML frontmatter into a plain object
+ *
+ * Uses a full YAML 1.2 parser, so block lists, block scalars (| and >),
+ * quoted strings, anchors and aliases all behave as they do in Claude Code.
+ * Documents whose root is not a mapping yield an empty object.
+ */
+function parseFrontmatterYaml(yamlContent: string): Record<string, unknown> {
+  let value: unknown
+  try {
+    value = parseYaml(yamlContent)
+  } catch (error) {
+    // Hand-written Claude frontmatter often has unquoted values such as
+    // "description: Use when: reviewing code" or "argument-hint: [a] [b]",
+    // which strict YAML rejects. Retry once with those values quoted
+    // before giving up.
+    const quoted = quoteAmbiguousScalars(yamlContent)
+    if (quoted === yamlContent) throw error
+    try {
+      value = parseYaml(quoted)
+    } catch {
+      throw error
     }
   }
 
-  return result
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
 }
 
 /**
- * Parse a YAML value into appropriate JavaScript type
+ * Why a top-level plain scalar is not valid YAML as written, or null
+ *
+ * Values that contain ": " or " #", and values that continue after a
+ * leading [...] or {...} (e.g. "[a] [b]"), need quoting.
  */
-function parseYamlValue(value: string): unknown {
-  // Remove quotes
-  if (
-    (value.startsWith('"') && value.endsWith('"')) ||
-    (value.startsWith("'") && value.endsWith("'"))
-  ) {
-    return value.slice(1, -1)
+function getAmbiguousScalarProblem(value: string): string | null {
+  if (/^[[{][^\]}]*[\]}][ \t]*[^\s#]/.test(value)) {
+    return "starts a flow sequence or mapping ([...] or {...}) and continues after it"
   }
+  if (/^["'[{|>&*!]/.test(value)) return null
+  if (value.includes(": ") || value.includes(" #")) {
+    return "contains \": \" or \" #\""
+  }
+  return null
+}
 
-  // Boolean
-  if (value === "true") return true
-  if (value === "false") return false
+/**
+ * Match a top-level `key: value` line
+ */
+function matchScalarLine(line: string): RegExpMatchArray | null {
+  return line.match(/^([A-Za-z0-9_-]+):[ \t]+(.+?)\s*$/)
+}
 
-  // Null
-  if (value === "null" || value === "~") return null
+/**
+ * Quote top-level plain scalars that are not valid YAML as written
+ */
+function quoteAmbiguousScalars(yamlContent: string): string {
+  return yamlContent
+    .split("\n")
+    .map((line) => {
+      const match = matchScalarLine(line)
+      if (!match || !getAmbiguousScalarProblem(match[2])) return line
+      return `${match[1]}: ${JSON.stringify(match[2])}`
+    })
+    .join("\n")
+}
 
-  // Number
-  if (!isNaN(Number(value)) && value !== "") {
-    return Number(value)
-  }
+/**
+ * Preferred order of well-known frontmatter keys in generated files.
+ * Keys not listed here follow in alphabetical order.
+ */
+const FRONTMATTER_KEY_ORDER = [
+  "name",
+  "description",
+  "mode",
+  "agent",
+  "model",
+  "subtask",
+  "temperature",
+  "maxSteps",
+  "tools",
+  "permission",
+  "disable",
+]
 
-  // Array (inline format)
-  if (value.startsWith("[") && value.endsWith("]")) {
-    const items = value
-      .slice(1, -1)
-      .split(",")
-      .map((s) => parseYamlValue(s.trim()))
-    return items
+/**
+ * Compare two map keys for stable frontmatter output
+ */
+function compareFrontmatterKeys(a: string, b: string): number {
+  const rankA = FRONTMATTER_KEY_ORDER.indexOf(a)
+  const rankB = FRONTMATTER_KEY_ORDER.indexOf(b)
+
+  if (rankA !== -1 || rankB !== -1) {
+    if (rankA === -1) return 1
+    if (rankB === -1) return -1
+    return rankA - rankB
   }
 
-  // String
-  return value
+  return a < b ? -1 : a > b ? 1 : 0
 }
 
 /**
- * Serialize an object to simple YAML format
+ * Serialize an object to YAML
+ *
+ * Strings are quoted or emitted as block scalars whenever needed, so the
+ * output always parses back to the same value. Top-level keys are sorted
+ * with compareFrontmatterKeys to keep diffs of generated files small; nested
+ * maps keep their order, since permission patterns rely on it.
  */
-function serializeToYaml(
-  obj: Record<string, unknown>,
-  indent = 0
-): string {
-  const lines: string[] = []
-  const prefix = "  ".repeat(indent)
-
-  for (const [key, value] of Object.entries(obj)) {
-    if (value === undefined || value === null) continue
-
-    if (typeof value === "object" && !Array.isArray(value)) {
-      lines.push(`${prefix}${key}:`)
-      lines.push(serializeToYaml(value as Record<string, unknown>, indent + 1))
-    } else if (Array.isArray(value)) {
-      lines.push(`${prefix}${key}: [${value.join(", ")}]`)
-    } else if (typeof value === "string" && value.includes(":")) {
-      lines.push(`${prefix}${key}: "${value}"`)
-    } else {
-      lines.push(`${prefix}${key}: ${value}`)
-    }
-  }
+function serializeToYaml(obj: Record<string, unknown>): string {
+  const sorted = Object.fromEntries(
+    Object.entries(obj).sort(([a], [b]) => compareFrontmatterKeys(a, b))
+  )
 
-  return lines.join("\n")
+  return stringifyYaml(sorted, { lineWidth: 0 })
 }
 
 /**
@@ -132,8 +181,7 @@ function serializeToYaml(
 export function parseMarkdownWithFrontmatter<T = Record<string, unknown>>(
   content: string
 ): ParsedMarkdown<T> {
-  const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n?([\s\S]*)$/
-  const match = content.match(frontmatterRegex)
+  const match = content.match(FRONTMATTER_REGEX)
 
   if (!match) {
     return {
@@ -143,7 +191,7 @@ export function parseMarkdownWithFrontmatter<T = Record<string, unknown>>(
   }
 
   try {
-    const frontmatter = parseSimpleYaml(match[1]) as T
+    const frontmatter = parseFrontmatterYaml(match[1] ?? "") as T
     return {
       frontmatter,
       content: match[2].trim(),
@@ -157,6 +205,136 @@ export function parseMarkdownWithFrontmatter<T = Record<string, unknown>>(
   }
 }
 
+/**
+ * Parse a markdown file's frontmatter, keeping source positions
+ *
+ * Unlike parseMarkdownWithFrontmatter this never logs: YAML problems are
+ * returned as issues with line and column numbers in the markdown file.
+ */
+export function inspectFrontmatter<T = Record<string, unknown>>(
+  content: string
+): FrontmatterInspection<T> {
+  const inspection: FrontmatterInspection<T> = {
+    frontmatter: {} as T,
+    content: content.trim(),
+    hasFrontmatter: false,
+    issues: [],
+    keys: {},
+    items: {},
+  }
+
+  const match = content.match(FRONTMATTER_REGEX)
+  if (!match) {
+    if (/^---\s*\n/.test(content)) {
+      inspection.hasFrontmatter = true
+      inspection.issues.push({
+        line: 1,
+        column: 1,
+        severity: "error",
+        message: "Frontmatter block is not closed with ---",
+      })
+    }
+    return inspection
+  }
+
+  inspection.hasFrontmatter = true
+  const yamlSource = match[1] ?? ""
+  const yamlStart = match.indices![1]?.[0] ?? content.indexOf("\n") + 1
+  const lineOffset = content.slice(0, yamlStart).split("\n").length - 1
+  let source = yamlSource
+  let lineCounter = new LineCounter()
+  let doc: Document = parseDocument(source, { lineCounter })
+
+  if (doc.errors.length > 0) {
+    const quoted = quoteAmbiguousScalars(yamlSource)
+    const quotedCounter = new LineCounter()
+    const lenient = quoted !== yamlSource
+      ? parseDocument(quoted, { lineCounter: quotedCounter })
+      : null
+
+    if (lenient && lenient.errors.length === 0) {
+      // Quoting only touches values, so line numbers still match the file
+      const original = yamlSource.split("\n")
+      quoted.split("\n").forEach((line, index) => {
+        if (line !== original[index]) {
+          const problem = getAmbiguousScalarProblem(matchScalarLine(original[index])![2])
+          inspection.issues.push({
+            line: index + 1 + lineOffset,
+            column: 1,
+            severity: "warning",
+            message: `Unquoted value ${problem}; quote it to keep the frontmatter valid YAML`,
+          })
+        }
+      })
+      source = quoted
+      lineCounter = quotedCounter
+      doc = lenient
+    } else {
+      for (const error of doc.errors) {
+        const position = error.linePos?.[0]
+        inspection.issues.push({
+          line: (position?.line ?? 1) + lineOffset,
+          column: position?.col ?? 1,
+          severity: "error",
+          message: error.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, ""),
+        })
+      }
+      return inspection
+    }
+  }
+
+  const positionAt = (offset: number): SourcePosition => {
+    const { line, col } = lineCounter.linePos(offset)
+    return { line: line + lineOffset, column: col }
+  }
+
+  inspection.content = match[2].trim()
+
+  if (!isMap(doc.contents)) {
+    if (doc.contents !== null) {
+      inspection.issues.push({
+        line: 1 + lineOffset,
+        column: 1,
+        severity: "error",
+        message: "Frontmatter must be a mapping of keys to values",
+      })
+    }
+    return inspection
+  }
+
+  for (const pair of doc.contents.items) {
+    if (!isScalar(pair.key)) continue
+    const key = String(pair.key.value)
+    inspection.keys[key] = positionAt(pair.key.range?.[0] ?? 0)
+
+    if (isSeq(pair.value)) {
+      inspection.items[key] = pair.value.items
+        .filter(isScalar)
+        .map((item) => ({
+          value: String(item.value),
+          position: positionAt(item.range?.[0] ?? 0),
+        }))
+    } else if (isScalar(pair.value) && typeof pair.value.value === "string") {
+      const start = pair.value.range?.[0] ?? 0
+      const raw = source.slice(start, pair.value.range?.[1] ?? start)
+      const items: { value: string; position: SourcePosition }[] = []
+      let searchFrom = 0
+      for (const item of parseCommaSeparated(pair.value.value)) {
+        const index = raw.indexOf(item, searchFrom)
+        items.push({
+          value: item,
+          position: positionAt(start + Math.max(index, 0)),
+        })
+        if (index >= 0) searchFrom = index + item.length
+      }
+      inspection.items[key] = items
+    }
+  }
+
+  inspection.frontmatter = doc.toJS() as T
+  return inspection
+}
+
 /**
  * Serialize frontmatter and content back to markdown
  */
@@ -172,7 +350,7 @@ export function serializeMarkdownWithFrontmatter<
   }
 
   const yamlContent = serializeToYaml(cleanFrontmatter)
-  return `---\n${yamlContent}\n---\n\n${content}`
+  return `---\n${yamlContent}---\n\n${content}`
 }
 
 /**
@@ -280,12 +458,12 @@ export function extractNameFromPath(filePath: string): string {
 }
 
 /**
- * Parse a comma-separated string into an array
+ * Parse a comma-separated string (or a YAML list) into an array
  */
-export function parseCommaSeparated(value: string | undefined): string[] {
+export function parseCommaSeparated(value: string | string[] | undefined): string[] {
   if (!value) return []
-  return value
-    .split(",")
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(",")
+  return items
     .map((s) => s.trim())
     .filter(Boolean)
 }
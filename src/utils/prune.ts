@@ -0,0 +1,227 @@
+/**
+ * Prune - Removes generated outputs whose Claude Code source is gone
+ *
+ * Only outputs recorded in crosstrain.lock.json are ever removed, and only
+ * while they still match the hash crosstrain recorded when it wrote them.
+ * Outputs edited since then are left in place and reported.
+ */
+
+import { dirname, resolve, relative, sep } from "path"
+import { existsSync } from "fs"
+import { readdir, rm, rmdir, writeFile } from "fs/promises"
+import { readTextFile } from "./parser"
+import {
+  hashOutput,
+  resolveLockfilePath,
+  type Lockfile,
+  type LockfileEntry,
+} from "./lockfile"
+
+/**
+ * Options for pruning
+ */
+export interface PruneOptions {
+  /** Project root outputs are relative to */
+  projectRoot: string
+  /** Report what would be removed without removing anything */
+  dryRun?: boolean
+}
+
+/**
+ * Result of pruning
+ */
+export interface PruneResult {
+  /** Lockfile entries that were pruned */
+  entries: string[]
+  /** Outputs removed (or that would be removed) */
+  removed: string[]
+  /** Outputs left in place, with the reason */
+  kept: { output: string; reason: string }[]
+}
+
+/**
+ * Orphaned entries found in a lockfile
+ */
+export interface OrphanScan {
+  /** Entries whose source no longer exists */
+  orphaned: [string, LockfileEntry][]
+  /** Origins whose root directory is missing, so they cannot be checked */
+  unavailableOrigins: string[]
+}
+
+/**
+ * Find lockfile entries whose source no longer exists
+ *
+ * An origin whose root directory is missing (for example a plugin cloned
+ * into a cache that has since been cleared) is reported instead of being
+ * treated as deleted.
+ */
+export async function findOrphanedEntries(
+  lockfile: Lockfile,
+  projectRoot: string,
+  homeDir?: string
+): Promise<OrphanScan> {
+  const orphaned: [string, LockfileEntry][] = []
+  const unavailable = new Set<string>()
+
+  for (const [id, entry] of Object.entries(lockfile.entries)) {
+    const root = resolveLockfilePath(lockfile.origins[entry.origin]?.root ?? ".", projectRoot, homeDir)
+    if (!existsSync(root)) {
+      unavailable.add(entry.origin)
+      continue
+    }
+
+    const [source, key] = entry.source.split("#", 2)
+    const sourcePath = resolveLockfilePath(source, root, homeDir)
+    if (!existsSync(sourcePath)) {
+      orphaned.push([id, entry])
+      continue
+    }
+
+    // MCP servers are entries within a config file
+    if (key) {
+      try {
+        const config = JSON.parse(await readTextFile(sourcePath))
+        if (!config?.mcpServers || !(key in config.mcpServers)) {
+          orphaned.push([id, entry])
+        }
+      } catch {
+        // An unreadable config is not proof that the server was removed
+      }
+    }
+  }
+
+  return { orphaned, unavailableOrigins: [...unavailable] }
+}
+
+/**
+ * Remove the outputs of lockfile entries and drop the entries
+ *
+ * Each output is removed only if it still has the recorded hash and no
+ * remaining entry also claims it.
+ */
+export async function pruneEntries(
+  lockfile: Lockfile,
+  entries: [string, LockfileEntry][],
+  options: PruneOptions
+): Promise<PruneResult> {
+  const result: PruneResult = { entries: [], removed: [], kept: [] }
+  const pruning = new Set(entries.map(([id]) => id))
+
+  const claimedElsewhere = new Set<string>()
+  for (const [id, entry] of Object.entries(lockfile.entries)) {
+    if (!pruning.has(id)) {
+      for (const output of Object.keys(entry.outputs)) {
+        claimedElsewhere.add(output)
+      }
+    }
+  }
+
+  for (const [id, entry] of entries) {
+    for (const [output, recordedHash] of Object.entries(entry.outputs)) {
+      if (claimedElsewhere.has(output)) {
+        result.kept.push({ output, reason: "also generated from another source" })
+        continue
+      }
+      await pruneOutput(output, recordedHash, options, result)
+    }
+
+    if (!options.dryRun) {
+      delete lockfile.entries[id]
+    }
+    result.entries.push(id)
+  }
+
+  return result
+}
+
+/**
+ * Remove outputs that assets no longer write to, for example after an
+ * asset was renamed or the output format changed
+ *
+ * Outputs still claimed by a lockfile entry are left alone; the rest are
+ * removed only if they still have the recorded hash.
+ */
+export async function pruneSupersededOutputs(
+  lockfile: Lockfile,
+  outputs: Record<string, string>,
+  options: PruneOptions
+): Promise<PruneResult> {
+  const result: PruneResult = { entries: [], removed: [], kept: [] }
+  const claimed = new Set(
+    Object.values(lockfile.entries).flatMap((entry) => Object.keys(entry.outputs))
+  )
+
+  for (const [output, recordedHash] of Object.entries(outputs)) {
+    if (!claimed.has(output)) {
+      await pruneOutput(output, recordedHash, options, result)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Remove one output if it still has the recorded hash
+ */
+async function pruneOutput(
+  output: string,
+  recordedHash: string,
+  options: PruneOptions,
+  result: PruneResult
+): Promise<void> {
+  const currentHash = await hashOutput(options.projectRoot, output)
+  if (currentHash === null) {
+    return // already gone
+  }
+  if (currentHash !== recordedHash) {
+    result.kept.push({ output, reason: "modified since crosstrain generated it" })
+    return
+  }
+
+  if (!options.dryRun) {
+    await removeOutput(options.projectRoot, output)
+  }
+  result.removed.push(output)
+}
+
+/**
+ * Remove a file output, or a single key from a JSON config output
+ */
+async function removeOutput(projectRoot: string, output: string): Promise<void> {
+  const [file, key] = output.split("#", 2)
+  const filePath = resolve(projectRoot, file)
+
+  if (!key) {
+    await rm(filePath, { force: true })
+    await removeEmptyParents(dirname(filePath), projectRoot)
+    return
+  }
+
+  const config = JSON.parse(await readTextFile(filePath))
+  const dot = key.indexOf(".")
+  const section = config[key.slice(0, dot)]
+  if (section && typeof section === "object") {
+    delete section[key.slice(dot + 1)]
+    await writeFile(filePath, JSON.stringify(config, null, 2) + "\n")
+  }
+}
+
+/**
+ * Remove directories left empty by pruning, up to (not including) the
+ * directory directly below the project root (e.g. .opencode)
+ */
+async function removeEmptyParents(dir: string, projectRoot: string): Promise<void> {
+  let current = dir
+  while (existsSync(current)) {
+    const fromRoot = relative(projectRoot, current)
+    if (fromRoot.startsWith("..") || !fromRoot.includes(sep)) {
+      return
+    }
+    if ((await readdir(current)).length > 0) {
+      return
+    }
+    await rmdir(current)
+    current = dirname(current)
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * JSON Schema validation
+ *
+ * Validates parsed config files against the subset of JSON Schema
+ * (draft-07) that crosstrain's own schemas use: type, enum, properties,
+ * additionalProperties, items, anyOf and local $refs. Problems are
+ * returned with the JSON path of the offending value, and unknown keys
+ * come with a "did you mean" suggestion when a known key is close.
+ */
+
+import { joinJsonPath } from "./json"
+
+/**
+ * A JSON Schema, limited to the keywords validateJsonSchema understands
+ */
+export interface JsonSchema {
+  $schema?: string
+  $ref?: string
+  title?: string
+  description?: string
+  type?: string | string[]
+  enum?: unknown[]
+  properties?: Record<string, JsonSchema>
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  anyOf?: JsonSchema[]
+  definitions?: Record<string, JsonSchema>
+}
+
+/**
+ * A value that does not match its schema
+ */
+export interface SchemaIssue {
+  /** Path of the value ("agents.include[0]", "" for the root) */
+  path: string
+  kind: "unknown-key" | "invalid-type"
+  message: string
+}
+
+/**
+ * Name of a value's JSON type, as used in schema `type`
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number" && Number.isInteger(value)) return "integer"
+  return typeof value
+}
+
+/**
+ * Check a value against a schema `type`
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonTypeOf(value)
+  return actual === type || (type === "number" && actual === "integer")
+}
+
+/**
+ * Resolve a local "#/definitions/Name" reference
+ */
+function resolveSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) {
+    return schema
+  }
+  const name = schema.$ref.replace(/^#\/definitions\//, "")
+  const resolved = root.definitions?.[name]
+  if (!resolved) {
+    throw new Error(`Unresolved schema reference ${schema.$ref}`)
+  }
+  return resolveSchema(resolved, root)
+}
+
+/**
+ * Describe what a schema expects, e.g. "string or array"
+ */
+function describeExpected(schema: JsonSchema, root: JsonSchema): string {
+  const resolved = resolveSchema(schema, root)
+  if (resolved.enum) {
+    return `one of ${resolved.enum.map((v) => JSON.stringify(v)).join(", ")}`
+  }
+  if (resolved.anyOf) {
+    return resolved.anyOf.map((s) => describeExpected(s, root)).join(" or ")
+  }
+  const types = Array.isArray(resolved.type) ? resolved.type : resolved.type ? [resolved.type] : ["any value"]
+  return types.join(" or ")
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Find the known name closest to a misspelled one, if any is close enough
+ */
+export function suggestName(name: string, candidates: string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3))
+  let best: string | undefined
+  let bestDistance = Infinity
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase())
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+
+  return best
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * Returns every problem found; an empty array means the value is valid.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path = "",
+  issues: SchemaIssue[] = []
+): SchemaIssue[] {
+  const resolved = resolveSchema(schema, root)
+
+  if (resolved.anyOf) {
+    const matching = resolved.anyOf.find((s) => validateJsonSchema(value, s, root, path).length === 0)
+    if (!matching) {
+      // Report the nested problems of the alternative with the right type
+      const sameType = resolved.anyOf.find((s) => {
+        const { type } = resolveSchema(s, root)
+        return type !== undefined && [type].flat().some((t) => matchesType(value, t))
+      })
+      if (sameType) {
+        validateJsonSchema(value, sameType, root, path, issues)
+      } else {
+        issues.push({ path, kind: "invalid-type", message: `expected ${describeExpected(resolved, root)}, got ${jsonTypeOf(value)}` })
+      }
+    }
+    return issues
+  }
+
+  if (resolved.type !== undefined && ![resolved.type].flat().some((t) => matchesType(value, t))) {
+    issues.push({ path, kind: "invalid-type", message: `expected ${describeExpected(resolved, root)}, got ${jsonTypeOf(value)}` })
+    return issues
+  }
+
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    issues.push({ path, kind: "invalid-type", message: `expected ${describeExpected(resolved, root)}, got ${JSON.stringify(value)}` })
+    return issues
+  }
+
+  if (Array.isArray(value) && resolved.items) {
+    value.forEach((item, index) => {
+      validateJsonSchema(item, resolved.items!, root, joinJsonPath(path, index), issues)
+    })
+  } else if (jsonTypeOf(value) === "object") {
+    const properties = resolved.properties ?? {}
+    for (const [key, member] of Object.entries(value as Record<string, unknown>)) {
+      const memberPath = joinJsonPath(path, key)
+      const memberSchema = properties[key]
+      if (memberSchema) {
+        validateJsonSchema(member, memberSchema, root, memberPath, issues)
+      } else if (typeof resolved.additionalProperties === "object") {
+        validateJsonSchema(member, resolved.additionalProperties, root, memberPath, issues)
+      } else if (resolved.additionalProperties === false) {
+        const suggestion = suggestName(key, Object.keys(properties))
+        issues.push({
+          path: memberPath,
+          kind: "unknown-key",
+          message: `unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`,
+        })
+      }
+    }
+  }
+
+  return issues
+}
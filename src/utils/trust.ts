@@ -0,0 +1,143 @@
+/**
+ * Trust - Decides whether crosstrain may run a plugin's crosstrainer.js/ts
+ *
+ * Executable crosstrainer configs from remote plugins are third-party
+ * code, so they are only loaded when the source is trusted:
+ * - it is on the `trustedSources` allow-list in the crosstrain settings
+ * - the user passed --trust, after reviewing the file
+ * - the same file was trusted before at the same commit
+ *
+ * Trust decisions are remembered in .opencode/crosstrain.trust.json,
+ * keyed by source and commit, along with the hash of the file that was
+ * trusted. A new commit, or a changed file, needs trusting again.
+ */
+
+import { join } from "path"
+import { existsSync } from "fs"
+import { writeFile, mkdir } from "fs/promises"
+import { readTextFile } from "./parser"
+
+/**
+ * Trust store name inside the OpenCode directory
+ */
+export const TRUST_FILE_NAME = "crosstrain.trust.json"
+
+/**
+ * A remembered trust decision
+ */
+export interface TrustEntry {
+  /** Plugin source, e.g. "org/repo/plugin" */
+  source: string
+  /** Commit the plugin was cloned at */
+  commit: string
+  /** Crosstrainer file name */
+  file: string
+  /** Hash of the trusted file */
+  hash: string
+  trustedAt: string
+}
+
+/**
+ * Contents of crosstrain.trust.json
+ */
+export interface TrustStore {
+  version: number
+  entries: TrustEntry[]
+}
+
+/**
+ * Why an executable config was allowed to run
+ */
+export type TrustReason = "allow-list" | "flag" | "remembered"
+
+/**
+ * Error thrown when an executable config from an untrusted source is refused
+ */
+export class UntrustedConfigError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly commit: string,
+    /** Path of the refused file, for review */
+    public readonly filePath: string,
+    public readonly hash: string
+  ) {
+    super(
+      `Refusing to run ${filePath} from untrusted source ${source} (commit ${commit.slice(0, 12)}, ${hash}). ` +
+      `Review the file, then re-run with --trust or add the source to trustedSources in the crosstrain settings.`
+    )
+    this.name = "UntrustedConfigError"
+  }
+}
+
+/**
+ * Get the trust store path for an OpenCode directory
+ */
+export function getTrustStorePath(openCodeDir: string): string {
+  return join(openCodeDir, TRUST_FILE_NAME)
+}
+
+/**
+ * Load the trust store, or an empty one if it is missing or unreadable
+ */
+export async function loadTrustStore(openCodeDir: string): Promise<TrustStore> {
+  const storePath = getTrustStorePath(openCodeDir)
+  if (!existsSync(storePath)) {
+    return { version: 1, entries: [] }
+  }
+
+  try {
+    const store = JSON.parse(await readTextFile(storePath)) as TrustStore
+    return Array.isArray(store.entries) ? store : { version: 1, entries: [] }
+  } catch {
+    console.warn(`[crosstrain] Ignoring unreadable trust store: ${storePath}`)
+    return { version: 1, entries: [] }
+  }
+}
+
+/**
+ * Write the trust store
+ */
+export async function writeTrustStore(openCodeDir: string, store: TrustStore): Promise<string> {
+  const storePath = getTrustStorePath(openCodeDir)
+  await mkdir(openCodeDir, { recursive: true })
+  await writeFile(storePath, JSON.stringify(store, null, 2) + "\n", "utf-8")
+  return storePath
+}
+
+/**
+ * Check whether a source is on the allow-list
+ *
+ * An entry trusts the source itself and everything below it, so
+ * "org/repo" trusts "org/repo/plugin". `*` matches within a path
+ * segment: "org/*" trusts every repository of an organization.
+ */
+export function isAllowListed(source: string, allowList: string[]): boolean {
+  const segments = source.split("/")
+  return allowList.some((entry) => {
+    const pattern = new RegExp(
+      `^${entry.replace(/\/+$/, "").split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^/]*")}$`
+    )
+    return segments.some((_, i) => pattern.test(segments.slice(0, i + 1).join("/")))
+  })
+}
+
+/**
+ * Find a remembered decision for this source, commit and file
+ */
+export function findTrustEntry(
+  store: TrustStore,
+  source: string,
+  commit: string,
+  hash: string
+): TrustEntry | undefined {
+  return store.entries.find((entry) => entry.source === source && entry.commit === commit && entry.hash === hash)
+}
+
+/**
+ * Remember that a file was trusted, replacing older decisions for the source
+ * and commit
+ */
+export function recordTrust(store: TrustStore, entry: Omit<TrustEntry, "trustedAt">): void {
+  store.entries = store.entries.filter((e) => !(e.source === entry.source && e.commit === entry.commit))
+  store.entries.push({ ...entry, trustedAt: new Date().toISOString() })
+}
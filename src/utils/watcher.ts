@@ -11,7 +11,12 @@ import { existsSync } from "fs"
 
 export interface WatcherConfig {
   claudeDir: string
+  /** Home directory for user-level assets; empty to watch project assets only */
   homeDir: string
+  /** Don't log each file event (callers report their own progress) */
+  quiet?: boolean
+  /** Keep the process alive while watching (default: true) */
+  persistent?: boolean
   onSkillChange?: () => Promise<void>
   onAgentChange?: () => Promise<void>
   onCommandChange?: () => Promise<void>
@@ -48,14 +53,15 @@ function debounce<T extends (...args: any[]) => any>(
  */
 function watchDirectory(
   dirPath: string,
-  callback: (event: string, filename: string | null) => void
+  callback: (event: string, filename: string | null) => void,
+  persistent: boolean = true
 ): FSWatcher | null {
   if (!existsSync(dirPath)) {
     return null
   }
 
   try {
-    return watch(dirPath, { recursive: true }, (event, filename) => {
+    return watch(dirPath, { recursive: true, persistent }, (event, filename) => {
       callback(event, filename)
     })
   } catch (error) {
@@ -69,14 +75,15 @@ function watchDirectory(
  */
 function watchFile(
   filePath: string,
-  callback: (event: string) => void
+  callback: (event: string) => void,
+  persistent: boolean = true
 ): FSWatcher | null {
   if (!existsSync(filePath)) {
     return null
   }
 
   try {
-    return watch(filePath, (event) => {
+    return watch(filePath, { persistent }, (event) => {
       callback(event)
     })
   } catch (error) {
@@ -91,6 +98,10 @@ function watchFile(
 export function createWatcher(config: WatcherConfig): WatcherInstance {
   const watchers: FSWatcher[] = []
   const debounceMs = 500 // Debounce changes to avoid rapid reloads
+  const persistent = config.persistent ?? true
+  const logEvent = (message: string) => {
+    if (!config.quiet) console.log(`[crosstrain] ${message}`)
+  }
 
   // Watch skills directories
   if (config.onSkillChange) {
@@ -98,17 +109,19 @@ export function createWatcher(config: WatcherConfig): WatcherInstance {
 
     const projectSkillsPath = join(config.claudeDir, "skills")
     const projectWatcher = watchDirectory(projectSkillsPath, (event, filename) => {
-      console.log(`[crosstrain] Skill ${event}: ${filename}`)
+      logEvent(`Skill ${event}: ${filename}`)
       debouncedCallback()
-    })
+    }, persistent)
     if (projectWatcher) watchers.push(projectWatcher)
 
-    const userSkillsPath = join(config.homeDir, ".claude", "skills")
-    const userWatcher = watchDirectory(userSkillsPath, (event, filename) => {
-      console.log(`[crosstrain] Skill ${event}: ${filename}`)
-      debouncedCallback()
-    })
-    if (userWatcher) watchers.push(userWatcher)
+    if (config.homeDir) {
+      const userSkillsPath = join(config.homeDir, ".claude", "skills")
+      const userWatcher = watchDirectory(userSkillsPath, (event, filename) => {
+        logEvent(`Skill ${event}: ${filename}`)
+        debouncedCallback()
+      }, persistent)
+      if (userWatcher) watchers.push(userWatcher)
+    }
   }
 
   // Watch agents directories
@@ -117,17 +130,19 @@ export function createWatcher(config: WatcherConfig): WatcherInstance {
 
     const projectAgentsPath = join(config.claudeDir, "agents")
     const projectWatcher = watchDirectory(projectAgentsPath, (event, filename) => {
-      console.log(`[crosstrain] Agent ${event}: ${filename}`)
+      logEvent(`Agent ${event}: ${filename}`)
       debouncedCallback()
-    })
+    }, persistent)
     if (projectWatcher) watchers.push(projectWatcher)
 
-    const userAgentsPath = join(config.homeDir, ".claude", "agents")
-    const userWatcher = watchDirectory(userAgentsPath, (event, filename) => {
-      console.log(`[crosstrain] Agent ${event}: ${filename}`)
-      debouncedCallback()
-    })
-    if (userWatcher) watchers.push(userWatcher)
+    if (config.homeDir) {
+      const userAgentsPath = join(config.homeDir, ".claude", "agents")
+      const userWatcher = watchDirectory(userAgentsPath, (event, filename) => {
+        logEvent(`Agent ${event}: ${filename}`)
+        debouncedCallback()
+      }, persistent)
+      if (userWatcher) watchers.push(userWatcher)
+    }
   }
 
   // Watch commands directories
@@ -136,17 +151,19 @@ export function createWatcher(config: WatcherConfig): WatcherInstance {
 
     const projectCommandsPath = join(config.claudeDir, "commands")
     const projectWatcher = watchDirectory(projectCommandsPath, (event, filename) => {
-      console.log(`[crosstrain] Command ${event}: ${filename}`)
+      logEvent(`Command ${event}: ${filename}`)
       debouncedCallback()
-    })
+    }, persistent)
     if (projectWatcher) watchers.push(projectWatcher)
 
-    const userCommandsPath = join(config.homeDir, ".claude", "commands")
-    const userWatcher = watchDirectory(userCommandsPath, (event, filename) => {
-      console.log(`[crosstrain] Command ${event}: ${filename}`)
-      debouncedCallback()
-    })
-    if (userWatcher) watchers.push(userWatcher)
+    if (config.homeDir) {
+      const userCommandsPath = join(config.homeDir, ".claude", "commands")
+      const userWatcher = watchDirectory(userCommandsPath, (event, filename) => {
+        logEvent(`Command ${event}: ${filename}`)
+        debouncedCallback()
+      }, persistent)
+      if (userWatcher) watchers.push(userWatcher)
+    }
   }
 
   // Watch settings.json for hooks
@@ -155,17 +172,19 @@ export function createWatcher(config: WatcherConfig): WatcherInstance {
 
     const projectSettingsPath = join(config.claudeDir, "settings.json")
     const projectWatcher = watchFile(projectSettingsPath, (event) => {
-      console.log(`[crosstrain] Settings ${event}`)
+      logEvent(`Settings ${event}`)
       debouncedCallback()
-    })
+    }, persistent)
     if (projectWatcher) watchers.push(projectWatcher)
 
-    const userSettingsPath = join(config.homeDir, ".claude", "settings.json")
-    const userWatcher = watchFile(userSettingsPath, (event) => {
-      console.log(`[crosstrain] Settings ${event}`)
-      debouncedCallback()
-    })
-    if (userWatcher) watchers.push(userWatcher)
+    if (config.homeDir) {
+      const userSettingsPath = join(config.homeDir, ".claude", "settings.json")
+      const userWatcher = watchFile(userSettingsPath, (event) => {
+        logEvent(`Settings ${event}`)
+        debouncedCallback()
+      }, persistent)
+      if (userWatcher) watchers.push(userWatcher)
+    }
   }
 
   // Watch .mcp.json files for MCP server configuration
@@ -176,35 +195,37 @@ export function createWatcher(config: WatcherConfig): WatcherInstance {
     const projectRoot = join(config.claudeDir, "..")
     const projectMcpPath = join(projectRoot, ".mcp.json")
     const projectWatcher = watchFile(projectMcpPath, (event) => {
-      console.log(`[crosstrain] MCP config ${event}`)
+      logEvent(`MCP config ${event}`)
       debouncedCallback()
-    })
+    }, persistent)
     if (projectWatcher) watchers.push(projectWatcher)
 
-    // Watch user-level .mcp.json
-    const userMcpPath = join(config.homeDir, ".claude", ".mcp.json")
-    const userWatcher = watchFile(userMcpPath, (event) => {
-      console.log(`[crosstrain] User MCP config ${event}`)
-      debouncedCallback()
-    })
-    if (userWatcher) watchers.push(userWatcher)
+    if (config.homeDir) {
+      // Watch user-level .mcp.json
+      const userMcpPath = join(config.homeDir, ".claude", ".mcp.json")
+      const userWatcher = watchFile(userMcpPath, (event) => {
+        logEvent(`User MCP config ${event}`)
+        debouncedCallback()
+      }, persistent)
+      if (userWatcher) watchers.push(userWatcher)
 
-    // Also watch ~/.mcp.json
-    const homeRootMcpPath = join(config.homeDir, ".mcp.json")
-    const homeRootWatcher = watchFile(homeRootMcpPath, (event) => {
-      console.log(`[crosstrain] Home MCP config ${event}`)
-      debouncedCallback()
-    })
-    if (homeRootWatcher) watchers.push(homeRootWatcher)
+      // Also watch ~/.mcp.json
+      const homeRootMcpPath = join(config.homeDir, ".mcp.json")
+      const homeRootWatcher = watchFile(homeRootMcpPath, (event) => {
+        logEvent(`Home MCP config ${event}`)
+        debouncedCallback()
+      }, persistent)
+      if (homeRootWatcher) watchers.push(homeRootWatcher)
+    }
 
     // Watch plugins directory for plugin MCP configs
     const pluginsDir = join(config.claudeDir, "plugins")
     const pluginsWatcher = watchDirectory(pluginsDir, (event, filename) => {
       if (filename && filename.endsWith(".mcp.json")) {
-        console.log(`[crosstrain] Plugin MCP config ${event}: ${filename}`)
+        logEvent(`Plugin MCP config ${event}: ${filename}`)
         debouncedCallback()
       }
-    })
+    }, persistent)
     if (pluginsWatcher) watchers.push(pluginsWatcher)
   }
 
@@ -213,7 +234,7 @@ export function createWatcher(config: WatcherConfig): WatcherInstance {
       for (const watcher of watchers) {
         watcher.close()
       }
-      console.log("[crosstrain] File watchers closed")
+      logEvent("File watchers closed")
     },
   }
 }
@@ -233,13 +254,17 @@ export function hasClaudeCodeAssets(
     join(claudeDir, "settings.json"),
     join(claudeDir, "plugins"),
     join(projectRoot, ".mcp.json"),
-    join(homeDir, ".claude", "skills"),
-    join(homeDir, ".claude", "agents"),
-    join(homeDir, ".claude", "commands"),
-    join(homeDir, ".claude", "settings.json"),
-    join(homeDir, ".claude", ".mcp.json"),
-    join(homeDir, ".mcp.json"),
   ]
+  if (homeDir) {
+    paths.push(
+      join(homeDir, ".claude", "skills"),
+      join(homeDir, ".claude", "agents"),
+      join(homeDir, ".claude", "commands"),
+      join(homeDir, ".claude", "settings.json"),
+      join(homeDir, ".claude", ".mcp.json"),
+      join(homeDir, ".mcp.json")
+    )
+  }
 
   return paths.some(existsSync)
 }